@@ -0,0 +1,215 @@
+/**
+ * Command-line Arguments - Pure Functions
+ *
+ * Parses the arguments of the render-statement command (tools/render-statement.ts),
+ * which renders a report definition against a data directory without a browser.
+ *
+ * @example
+ * import { parseRenderArgs } from './args.ts';
+ *
+ * const args = parseRenderArgs(['--data', './input', '--report', 'income_statement_default', '--format', 'xlsx', '--output', 'pl.xlsx']);
+ * // { data: './input', report: 'income_statement_default', format: 'xlsx', output: 'pl.xlsx', ... }
+ */
+
+import { ErrorFactory } from '../errors/index.ts';
+import type { ComparisonPair } from '../core/calculations/columns.ts';
+import { LOCALE_PATTERN } from '../core/transformations/locale.ts';
+
+/**
+ * Supported output formats
+ */
+export type OutputFormat = 'csv' | 'xlsx' | 'json';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['csv', 'xlsx', 'json'];
+
+/**
+ * Parsed render-statement arguments
+ */
+export interface RenderArgs {
+    /** Directory containing the trial balance workbooks */
+    readonly data: string;
+    /** Report id as registered in the ReportRegistry */
+    readonly report: string;
+    /** Directory containing report definition files */
+    readonly reports: string;
+    /** Path of config.json (defaults to <data>/config.json, then ./config.json) */
+    readonly config: string | null;
+    /** Years to render, null for all configured years */
+    readonly years: string[] | null;
+    /** Last period (1-12) included in each column, null for the full year */
+    readonly toPeriod: number | null;
+    /** Render one column per month of the latest year */
+    readonly months: boolean;
+    /** Compare actuals against this scenario (e.g. 'budget') for the latest year */
+    readonly scenario: string | null;
+    /** Column pair to calculate variances between */
+    readonly compare: ComparisonPair | null;
+    /** Locale of the labels, null for the report's defaultLocale */
+    readonly locale: string | null;
+    /** Output format */
+    readonly format: OutputFormat;
+    /** Output file, null for stdout */
+    readonly output: string | null;
+    /** Show usage */
+    readonly help: boolean;
+}
+
+/**
+ * Usage text for the render-statement command
+ */
+export const RENDER_USAGE = `Render a financial statement from a report definition.
+
+Usage:
+  deno task render --data <dir> --report <id> [options]
+
+Options:
+  --data <dir>            Directory with the trial balance workbooks (required)
+  --report <id>           Report id, e.g. income_statement_default (required)
+  --reports <dir>         Directory with report definitions (default: reports)
+  --config <file>         config.json to use (default: <data>/config.json, then ./config.json)
+  --years <list>          Comma-separated years (default: all configured years)
+  --to-period <n>         Include periods 1..n of each year (year-to-date)
+  --months                One column per month of the latest year
+  --scenario <name>       Actual vs <name> (e.g. budget) for the latest year
+  --compare <base,cmp>    Column keys to calculate variances between
+  --locale <code>         Language of the labels, e.g. en (default: the report's defaultLocale)
+  --format <fmt>          csv, xlsx or json (default: from --output extension, else csv)
+  --output <file>         Output file (default: stdout; required for xlsx)
+  --help                  Show this message
+`;
+
+const VALUE_OPTIONS = ['data', 'report', 'reports', 'config', 'years', 'to-period', 'scenario', 'compare', 'locale', 'format', 'output'];
+const FLAG_OPTIONS = ['months', 'help'];
+
+/**
+ * Split raw arguments into option values and flags
+ *
+ * Accepts both `--name value` and `--name=value`.
+ */
+const collectOptions = (argv: readonly string[]): Record<string, string | true> => {
+    const options: Record<string, string | true> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            throw ErrorFactory.invalidValue('argument', arg, 'options must start with --');
+        }
+
+        const [name, inlineValue] = arg.substring(2).split(/=(.*)/s, 2);
+
+        if (FLAG_OPTIONS.includes(name)) {
+            options[name] = true;
+        } else if (VALUE_OPTIONS.includes(name)) {
+            const value = inlineValue ?? argv[++i];
+            if (value === undefined || value.startsWith('--')) {
+                throw ErrorFactory.invalidValue(`--${name}`, value, 'a value is required');
+            }
+            options[name] = value;
+        } else {
+            throw ErrorFactory.invalidValue('option', arg, `unknown option (expected one of: ${[...VALUE_OPTIONS, ...FLAG_OPTIONS].map(o => `--${o}`).join(', ')})`);
+        }
+    }
+
+    return options;
+};
+
+const splitList = (value: string): string[] =>
+    value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+const parseYears = (value: string): string[] => {
+    const years = splitList(value);
+    const invalid = years.filter(year => !/^\d{4}$/.test(year));
+    if (years.length === 0 || invalid.length > 0) {
+        throw ErrorFactory.invalidValue('--years', value, 'comma-separated four-digit years');
+    }
+    return years;
+};
+
+const parseToPeriod = (value: string): number => {
+    const period = Number(value);
+    if (!Number.isInteger(period) || period < 1 || period > 12) {
+        throw ErrorFactory.invalidValue('--to-period', value, 'a period between 1 and 12');
+    }
+    return period;
+};
+
+const parseCompare = (value: string): ComparisonPair => {
+    const keys = splitList(value);
+    if (keys.length !== 2) {
+        throw ErrorFactory.invalidValue('--compare', value, 'two column keys as base,compare');
+    }
+    return { base: keys[0], compare: keys[1] };
+};
+
+const parseLocale = (value: string): string => {
+    if (!LOCALE_PATTERN.test(value)) {
+        throw ErrorFactory.invalidValue('--locale', value, 'a locale code such as nl or en-GB');
+    }
+    return value;
+};
+
+/**
+ * Determine the output format from --format or the output file extension
+ */
+const resolveFormat = (format: string | undefined, output: string | null): OutputFormat => {
+    if (format !== undefined) {
+        if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+            throw ErrorFactory.invalidValue('--format', format, `one of ${OUTPUT_FORMATS.join(', ')}`);
+        }
+        return format as OutputFormat;
+    }
+
+    const extension = output?.split('.').pop()?.toLowerCase();
+    return OUTPUT_FORMATS.includes(extension as OutputFormat) ? extension as OutputFormat : 'csv';
+};
+
+/**
+ * Parse render-statement command-line arguments
+ *
+ * @param argv - Raw arguments (e.g. Deno.args)
+ * @returns Parsed arguments
+ * @throws InvalidValueError for unknown options or invalid values
+ * @throws MissingFieldError when --data or --report is missing
+ *
+ * @example
+ * parseRenderArgs(['--data', 'input', '--report', 'balance_sheet_default', '--years', '2023,2024,2025']);
+ */
+export const parseRenderArgs = (argv: readonly string[]): RenderArgs => {
+    const options = collectOptions(argv);
+    const value = (name: string): string | undefined =>
+        typeof options[name] === 'string' ? options[name] as string : undefined;
+
+    const help = options.help === true;
+    const output = value('output') ?? null;
+    const format = resolveFormat(value('format'), output);
+
+    if (!help) {
+        for (const required of ['data', 'report']) {
+            if (!value(required)) {
+                throw ErrorFactory.missingField(`--${required}`, 'render-statement arguments');
+            }
+        }
+        if (format === 'xlsx' && !output) {
+            throw ErrorFactory.missingField('--output', 'xlsx output');
+        }
+        if (options.months && value('scenario')) {
+            throw ErrorFactory.invalidValue('--months', true, 'cannot be combined with --scenario');
+        }
+    }
+
+    return {
+        data: value('data') ?? '',
+        report: value('report') ?? '',
+        reports: value('reports') ?? 'reports',
+        config: value('config') ?? null,
+        years: value('years') !== undefined ? parseYears(value('years')!) : null,
+        toPeriod: value('to-period') !== undefined ? parseToPeriod(value('to-period')!) : null,
+        months: options.months === true,
+        scenario: value('scenario') ?? null,
+        compare: value('compare') !== undefined ? parseCompare(value('compare')!) : null,
+        locale: value('locale') !== undefined ? parseLocale(value('locale')!) : null,
+        format,
+        output,
+        help
+    };
+};
@@ -0,0 +1,33 @@
+/**
+ * Headless runtime setup
+ *
+ * The browser app loads Arquero, ExcelJS, Day.js and loglevel from CDNs as
+ * globals (see index.html). This module installs the same globals from npm so
+ * DataLoader, StatementGenerator and the exporters run under Deno without a
+ * browser.
+ *
+ * Import it before any module that uses Logger, which reads the global
+ * loglevel instance when it is first loaded.
+ *
+ * @example
+ * import '../src/cli/headless.ts';
+ * import { renderReport } from '../src/cli/render.ts';
+ */
+
+import * as aq from 'arquero';
+import ExcelJS from 'exceljs';
+import dayjs from 'dayjs';
+import quarterOfYear from 'dayjs/plugin/quarterOfYear.js';
+import 'dayjs/locale/nl.js';
+import log from 'loglevel';
+
+const globals = globalThis as any;
+
+globals.aq = aq;
+globals.ExcelJS = ExcelJS;
+globals.dayjs = dayjs;
+globals.dayjs_plugin_quarterOfYear = quarterOfYear;
+globals.log = log;
+
+// Scheduled jobs only need warnings and errors on stderr
+log.setDefaultLevel('warn');
@@ -0,0 +1,355 @@
+/**
+ * Headless statement rendering
+ *
+ * Loads trial balance workbooks and report definitions from disk and renders a
+ * statement without the browser UI. The data flow mirrors UIController: the
+ * workbooks are parsed by DataLoader into DataStore, the report is registered
+ * in the ReportRegistry and StatementGenerator renders it through
+ * ReportRenderer.renderStatement().
+ *
+ * Requires the globals installed by ./headless.ts.
+ *
+ * @example
+ * import './headless.ts';
+ * import { parseRenderArgs } from './args.ts';
+ * import { renderReport, writeStatement } from './render.ts';
+ *
+ * const args = parseRenderArgs(Deno.args);
+ * const statement = await renderReport(args);
+ * await writeStatement(statement, args.format, args.output);
+ */
+
+import Logger from '../utils/Logger.ts';
+import { ErrorFactory } from '../errors/index.ts';
+import { YEAR_CONFIG } from '../constants.ts';
+import DataLoader, { type Config } from '../data/DataLoader.ts';
+import DataStore from '../data/DataStore.ts';
+import ReportLoader from '../reports/ReportLoader.ts';
+import ReportRegistry from '../reports/ReportRegistry.ts';
+import ReportValidator from '../reports/ReportValidator.ts';
+import type { ReportDefinition } from '../reports/ReportValidator.ts';
+import type { StatementData } from '../reports/ReportRenderer.ts';
+import StatementGenerator from '../statements/StatementGenerator.ts';
+import {
+    ACTUAL_SCENARIO,
+    buildMonthColumns,
+    buildScenarioComparison,
+    buildYearColumns,
+    type ComparisonPair,
+    type PeriodColumn
+} from '../core/calculations/columns.ts';
+import { listAccounts } from '../core/variables/accounts.ts';
+import { statementToCSV, statementToJSON, statementToWorkbook } from '../export/statement-export.ts';
+import type { OutputFormat, RenderArgs } from './args.ts';
+
+type ArqueroTable = any;
+
+/**
+ * Columns and comparison to render a statement with
+ */
+export interface RenderColumns {
+    columns: PeriodColumn[];
+    comparison: ComparisonPair | null;
+}
+
+const joinPath = (dir: string, name: string): string =>
+    dir.endsWith('/') ? `${dir}${name}` : `${dir}/${name}`;
+
+const fileExists = async (path: string): Promise<boolean> => {
+    try {
+        return (await Deno.stat(path)).isFile;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Get the years with a trial balance workbook configured (inputFiles.trialBalance<year>)
+ *
+ * @param config - Application configuration
+ * @returns Years in ascending order
+ */
+export const getConfiguredYears = (config: Config): string[] =>
+    Object.keys(config.inputFiles || {})
+        .map(key => key.match(/^trialBalance(\d{4})$/)?.[1])
+        .filter((year): year is string => !!year)
+        .sort();
+
+/**
+ * Build the period columns and comparison for the render arguments
+ *
+ * - --scenario: actual vs scenario for the latest year
+ * - --months: one column per month of the latest year
+ * - otherwise: one column per year
+ *
+ * --to-period narrows every column to periods 1..n (year-to-date).
+ *
+ * @param args - Parsed arguments
+ * @param years - Years to render, ascending
+ * @returns Columns and the requested comparison (null for the renderer default)
+ *
+ * @example
+ * buildRenderColumns({ ...args, toPeriod: 6 }, ['2024', '2025']);
+ * // Columns '2024' and '2025' covering periods 1-6
+ */
+export const buildRenderColumns = (args: RenderArgs, years: readonly string[]): RenderColumns => {
+    if (years.length === 0) {
+        throw ErrorFactory.missingConfig('inputFiles.trialBalance<year>',
+            new Error('No years to render'));
+    }
+
+    const latest = Number(years[years.length - 1]);
+    const range = args.toPeriod ? { toPeriod: args.toPeriod } : {};
+
+    if (args.scenario) {
+        const { columns, comparison } = buildScenarioComparison(latest, args.scenario, ACTUAL_SCENARIO, range);
+        return { columns, comparison: args.compare ?? comparison };
+    }
+
+    if (args.months) {
+        return { columns: buildMonthColumns(latest, 1, args.toPeriod ?? 12), comparison: args.compare };
+    }
+
+    const columns = buildYearColumns(years).map(column => args.toPeriod
+        ? { ...column, toPeriod: args.toPeriod, label: `${column.year} P1-P${args.toPeriod}` }
+        : column);
+    return { columns, comparison: args.compare };
+};
+
+/**
+ * Load config.json from --config, the data directory or the working directory
+ *
+ * @param args - Parsed arguments
+ * @returns Application configuration
+ */
+export const loadConfig = async (args: RenderArgs): Promise<Config> => {
+    const candidates = args.config ? [args.config] : [joinPath(args.data, 'config.json'), 'config.json'];
+
+    for (const path of candidates) {
+        if (!args.config && !(await fileExists(path))) {
+            continue;
+        }
+        try {
+            const config = JSON.parse(await Deno.readTextFile(path)) as Config;
+            Logger.debug(`Loaded configuration from ${path}`);
+            return config;
+        } catch (error) {
+            throw ErrorFactory.configLoadFailed(path, error as Error);
+        }
+    }
+
+    throw ErrorFactory.missingConfig('config.json',
+        new Error(`No config.json found in ${args.data} or the working directory`));
+};
+
+/**
+ * Read a trial balance file (workbook or CSV/TSV) from the data directory and parse it with DataLoader
+ */
+const loadWorkbook = async (
+    loader: DataLoader,
+    config: Config,
+    dataDir: string,
+    year: string,
+    scenario: string = ACTUAL_SCENARIO,
+    entity?: string
+) => {
+    const filename = loader.resolveTrialBalanceFilename(config, year, scenario, entity);
+    const path = joinPath(dataDir, filename);
+
+    let bytes: Uint8Array;
+    try {
+        bytes = await Deno.readFile(path);
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+            throw ErrorFactory.fileNotFound(path, error);
+        }
+        throw ErrorFactory.wrap(error as Error, { operation: 'loadWorkbook', filename: path });
+    }
+
+    const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+    const result = await loader.parseTrialBalanceFile(buffer, filename, year, scenario);
+    return loader.translateTrialBalance(result, entity ?? scenario, config);
+};
+
+/**
+ * Load the FX rate table named in config.currency.fxRates from the data directory
+ */
+const loadFxRates = async (loader: DataLoader, config: Config, dataDir: string): Promise<void> => {
+    const filename = config.currency?.fxRates;
+    if (!filename) {
+        return;
+    }
+
+    const path = joinPath(dataDir, filename);
+    let text: string;
+    try {
+        text = await Deno.readTextFile(path);
+    } catch (error) {
+        if (error instanceof Deno.errors.NotFound) {
+            throw ErrorFactory.fileNotFound(path, error);
+        }
+        throw ErrorFactory.wrap(error as Error, { operation: 'loadFxRates', filename: path });
+    }
+    loader.setFxRates(loader.parseFxRateTable(text, filename));
+};
+
+/**
+ * Load the actuals of a year: the trial balance, or the consolidated trial
+ * balances of the entities in config.inputFiles.entities
+ */
+const loadActuals = async (loader: DataLoader, config: Config, dataDir: string, year: string) => {
+    const entities = loader.getConfiguredEntities(year, config);
+    if (entities.length === 0) {
+        return loadWorkbook(loader, config, dataDir, year);
+    }
+
+    const results: Record<string, Awaited<ReturnType<typeof loadWorkbook>>> = {};
+    for (const entity of entities) {
+        results[entity] = await loadWorkbook(loader, config, dataDir, year, ACTUAL_SCENARIO, entity);
+    }
+    return loader.combineEntityTrialBalances(results);
+};
+
+/**
+ * Load the trial balances (and optionally a scenario) from a data directory into a DataStore
+ *
+ * @param dataDir - Directory containing the workbooks named in config.inputFiles
+ * @param config - Application configuration
+ * @param years - Years to load
+ * @param scenario - Scenario to load for the latest year, if any
+ * @returns DataStore with fact tables and combined movements/balances
+ */
+export const loadDataDirectory = async (
+    dataDir: string,
+    config: Config,
+    years: readonly string[],
+    scenario: string | null = null
+): Promise<DataStore> => {
+    const loader = new DataLoader();
+    loader.setConfig(config);
+    const dataStore = new DataStore();
+    await loadFxRates(loader, config, dataDir);
+
+    const movements: ArqueroTable[] = [];
+    const balances: ArqueroTable[] = [];
+    for (const year of years) {
+        const result = await loadActuals(loader, config, dataDir, year);
+        dataStore.setFactTable(result.movements, year, 'movements');
+        dataStore.setFactTable(result.balances, year, 'balances');
+        movements.push(result.movements);
+        balances.push(result.balances);
+    }
+
+    const concatAll = (list: ArqueroTable[]) => list.slice(1).reduce((all, table) => all.concat(table), list[0]);
+    dataStore.setCombinedMovements(concatAll(movements));
+    dataStore.setCombinedBalances(concatAll(balances));
+
+    if (scenario && scenario !== ACTUAL_SCENARIO) {
+        const latest = years[years.length - 1];
+        const result = await loadWorkbook(loader, config, dataDir, latest, scenario);
+        dataStore.setScenarioTable(result.movements, scenario, 'movements');
+        dataStore.setScenarioTable(result.balances, scenario, 'balances');
+    }
+
+    return dataStore;
+};
+
+/**
+ * Load the report definitions in a directory into the ReportRegistry and return one by id
+ *
+ * Files that fail to load are skipped with a warning, as in the browser.
+ *
+ * @param reportsDir - Directory containing report definition files
+ * @param reportId - Report id to return
+ * @returns Report definition
+ * @throws ReportNotFoundError if no loaded definition has the id
+ */
+export const loadReportDefinition = async (reportsDir: string, reportId: string): Promise<ReportDefinition> => {
+    const loader = new ReportLoader(new ReportValidator({} as any));
+    const registry = ReportRegistry.getInstance();
+
+    const files: string[] = [];
+    try {
+        for await (const entry of Deno.readDir(reportsDir)) {
+            if (entry.isFile && entry.name.endsWith('.json') && entry.name !== 'manifest.json') {
+                files.push(entry.name);
+            }
+        }
+    } catch (error) {
+        throw ErrorFactory.directoryNotFound(reportsDir, error as Error);
+    }
+
+    for (const filename of files.sort()) {
+        try {
+            const report = await loader.loadReportFromFile(joinPath(reportsDir, filename));
+            registry.register(report, report.reportId.includes('_default'));
+        } catch (error) {
+            Logger.warn(`Skipping report definition ${filename}:`, (error as Error).message);
+        }
+    }
+
+    const report = registry.getReport(reportId);
+    if (!report) {
+        throw ErrorFactory.reportNotFound(reportId);
+    }
+    return report;
+};
+
+/**
+ * Render the statement described by the arguments
+ *
+ * @param args - Parsed arguments
+ * @returns Rendered statement data
+ */
+export const renderReport = async (args: RenderArgs): Promise<StatementData> => {
+    const config = await loadConfig(args);
+    const years = args.years ?? getConfiguredYears(config);
+    const { columns, comparison } = buildRenderColumns(args, years);
+
+    YEAR_CONFIG.setYears(years);
+
+    const dataStore = await loadDataDirectory(args.data, config, years, args.scenario);
+    const reportDef = await loadReportDefinition(args.reports, args.report);
+
+    // Accounts counted twice in a total make that total wrong
+    const accountCheck = new ReportValidator({})
+        .validateAccounts(reportDef, listAccounts(dataStore.getCombinedMovements()?.objects() ?? []));
+    accountCheck.errors.forEach(error => Logger.warn(`${reportDef.reportId}: ${error.message}`));
+
+    const generator = new StatementGenerator(dataStore);
+    return generator.renderStatementFromDefinition(reportDef, {
+        columns,
+        currency: new DataLoader().getPresentationCurrency(config),
+        ...(comparison ? { comparison } : {}),
+        ...(args.locale ? { locale: args.locale } : {})
+    });
+};
+
+/**
+ * Write a rendered statement to a file, or to stdout when no file is given
+ *
+ * @param statement - Rendered statement data
+ * @param format - Output format
+ * @param output - Output file path, or null for stdout (csv/json only)
+ */
+export const writeStatement = async (
+    statement: StatementData,
+    format: OutputFormat,
+    output: string | null
+): Promise<void> => {
+    if (format === 'xlsx') {
+        if (!output) {
+            throw ErrorFactory.missingField('output', 'xlsx output');
+        }
+        const buffer = await statementToWorkbook(statement).xlsx.writeBuffer();
+        await Deno.writeFile(output, new Uint8Array(buffer));
+        return;
+    }
+
+    const text = format === 'json' ? statementToJSON(statement) : statementToCSV(statement);
+    if (output) {
+        await Deno.writeTextFile(output, text);
+    } else {
+        await Deno.stdout.write(new TextEncoder().encode(text));
+    }
+};
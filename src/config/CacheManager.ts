@@ -1,7 +1,8 @@
 /**
  * CacheManager - Manages caching of data source resources
  * 
- * Provides caching functionality with TTL support, statistics tracking,
+ * Provides caching functionality with TTL support (per resource type),
+ * least-recently-used eviction above `maxSize`, statistics tracking,
  * and configurable storage backends (localStorage, indexedDB).
  * 
  * @example
@@ -17,16 +18,16 @@
 
 import { ErrorFactory } from '../errors/index.ts';
 import Logger from '../utils/Logger.ts';
-import type { CacheConfig } from './DataSourceConfig.ts';
+import type { CacheConfig, ResourceType } from './DataSourceConfig.ts';
 import type { DataResource } from './datasources/DataSourceProvider.ts';
 
 /**
- * Cache entry with metadata
+ * Bookkeeping of a cache entry
+ * 
+ * Stored apart from the cached resource, so expiry checks, statistics and
+ * eviction never read or write the (possibly large) resource itself.
  */
-interface CacheEntry {
-    /** Cached resource */
-    resource: DataResource;
-    
+interface CacheEntryMetadata {
     /** When entry was created */
     timestamp: Date;
     
@@ -71,26 +72,91 @@ export interface CacheStats {
 
 /**
  * Cache storage interface
+ * 
+ * Resources and their metadata are kept in separate stores: `set` writes
+ * both, `setMetadata` and `metadata` only touch the metadata.
  */
 interface CacheStorage {
-    get(key: string): Promise<CacheEntry | null>;
-    set(key: string, entry: CacheEntry): Promise<void>;
+    getResource(key: string): Promise<DataResource | null>;
+    getMetadata(key: string): Promise<CacheEntryMetadata | null>;
+    set(key: string, resource: DataResource, metadata: CacheEntryMetadata): Promise<void>;
+    setMetadata(key: string, metadata: CacheEntryMetadata): Promise<void>;
+    metadata(): Promise<Map<string, CacheEntryMetadata>>;
     delete(key: string): Promise<void>;
     clear(pattern?: string): Promise<void>;
-    keys(): Promise<string[]>;
+}
+
+/**
+ * Encode binary content as base64 (JSON would turn a Blob into {})
+ */
+async function toBase64(content: Blob | ArrayBuffer): Promise<string> {
+    const bytes = new Uint8Array(content instanceof Blob ? await content.arrayBuffer() : content);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decode base64 content
+ */
+function fromBase64(encoded: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(encoded), char => char.charCodeAt(0));
+}
+
+/**
+ * IndexedDB database and object stores of IndexedDBCache
+ */
+const CACHE_DB_NAME = 'datasource_cache';
+const CACHE_DB_VERSION = 2;
+const RESOURCE_STORE_NAME = 'resources';
+const METADATA_STORE_NAME = 'metadata';
+
+/**
+ * Object store of version 1, which kept the metadata inside each entry
+ */
+const LEGACY_STORE_NAME = 'entries';
+
+/**
+ * Wait for an IndexedDB request
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Convert the date strings of JSON-parsed metadata back to Date objects
+ */
+function reviveMetadata(metadata: CacheEntryMetadata): CacheEntryMetadata {
+    return {
+        ...metadata,
+        timestamp: new Date(metadata.timestamp),
+        expiresAt: new Date(metadata.expiresAt),
+        lastAccessed: new Date(metadata.lastAccessed),
+    };
 }
 
 /**
  * localStorage-based cache storage
+ * 
+ * Each resource is stored under its own item; the metadata of all entries
+ * is kept in one index item. Blob and ArrayBuffer content is stored
+ * base64-encoded.
  */
 class LocalStorageCache implements CacheStorage {
     private keyPrefix: string;
+    private indexKey: string;
     
     constructor(keyPrefix: string = 'datasource_') {
         this.keyPrefix = keyPrefix;
+        this.indexKey = `${keyPrefix}__index`;
     }
     
-    async get(key: string): Promise<CacheEntry | null> {
+    async getResource(key: string): Promise<DataResource | null> {
         try {
             const item = localStorage.getItem(this.keyPrefix + key);
             if (!item) {
@@ -98,51 +164,239 @@ class LocalStorageCache implements CacheStorage {
             }
             
             const entry = JSON.parse(item);
+            const resource = entry.resource;
+            resource.metadata.lastModified = new Date(resource.metadata.lastModified);
             
-            // Convert date strings back to Date objects
-            entry.timestamp = new Date(entry.timestamp);
-            entry.expiresAt = new Date(entry.expiresAt);
-            entry.lastAccessed = new Date(entry.lastAccessed);
-            entry.resource.metadata.lastModified = new Date(entry.resource.metadata.lastModified);
+            // Restore binary content
+            if (entry.contentEncoding) {
+                const bytes = fromBase64(resource.content);
+                resource.content = entry.contentEncoding === 'blob'
+                    ? new Blob([bytes], { type: entry.contentType })
+                    : bytes.buffer;
+            }
             
-            return entry;
+            return resource;
         } catch (error) {
             Logger.warn(`Failed to get cache entry ${key}:`, error);
             return null;
         }
     }
     
-    async set(key: string, entry: CacheEntry): Promise<void> {
+    async getMetadata(key: string): Promise<CacheEntryMetadata | null> {
+        return this.readIndex().get(key) ?? null;
+    }
+    
+    async set(key: string, resource: DataResource, metadata: CacheEntryMetadata): Promise<void> {
         try {
-            const serialized = JSON.stringify(entry);
+            const { content } = resource;
+            const serialized = JSON.stringify(content instanceof Blob || content instanceof ArrayBuffer
+                ? {
+                    resource: { ...resource, content: await toBase64(content) },
+                    contentEncoding: content instanceof Blob ? 'blob' : 'arraybuffer',
+                    contentType: content instanceof Blob ? content.type : undefined,
+                }
+                : { resource });
             localStorage.setItem(this.keyPrefix + key, serialized);
+            await this.setMetadata(key, metadata);
         } catch (error) {
             Logger.warn(`Failed to set cache entry ${key}:`, error);
             throw ErrorFactory.configLoadFailed('cache', error as Error);
         }
     }
     
+    async setMetadata(key: string, metadata: CacheEntryMetadata): Promise<void> {
+        const index = this.readIndex();
+        index.set(key, metadata);
+        this.writeIndex(index);
+    }
+    
+    async metadata(): Promise<Map<string, CacheEntryMetadata>> {
+        return this.readIndex();
+    }
+    
     async delete(key: string): Promise<void> {
         localStorage.removeItem(this.keyPrefix + key);
+        const index = this.readIndex();
+        if (index.delete(key)) {
+            this.writeIndex(index);
+        }
     }
     
     async clear(pattern?: string): Promise<void> {
         const keys = Object.keys(localStorage);
         for (const key of keys) {
-            if (key.startsWith(this.keyPrefix)) {
+            if (key.startsWith(this.keyPrefix) && key !== this.indexKey) {
                 if (!pattern || key.includes(pattern)) {
                     localStorage.removeItem(key);
                 }
             }
         }
+        
+        const index = this.readIndex();
+        for (const key of index.keys()) {
+            if (!pattern || (this.keyPrefix + key).includes(pattern)) {
+                index.delete(key);
+            }
+        }
+        this.writeIndex(index);
     }
     
-    async keys(): Promise<string[]> {
-        const keys = Object.keys(localStorage);
+    private readIndex(): Map<string, CacheEntryMetadata> {
+        try {
+            const item = localStorage.getItem(this.indexKey);
+            const index: Record<string, CacheEntryMetadata> = item ? JSON.parse(item) : {};
+            return new Map(Object.entries(index).map(([key, metadata]) => [key, reviveMetadata(metadata)]));
+        } catch (error) {
+            Logger.warn('Failed to read cache index:', error);
+            return new Map();
+        }
+    }
+    
+    private writeIndex(index: Map<string, CacheEntryMetadata>): void {
+        if (index.size === 0) {
+            localStorage.removeItem(this.indexKey);
+        } else {
+            localStorage.setItem(this.indexKey, JSON.stringify(Object.fromEntries(index)));
+        }
+    }
+}
+
+/**
+ * IndexedDB-based cache storage
+ * 
+ * Resources and metadata live in two object stores. Entries are stored as
+ * structured clones, so Blob, ArrayBuffer and Date values are kept as they
+ * are. Unlike localStorage (~5 MB) it holds large resources such as trial
+ * balance workbooks and parsed tables.
+ */
+class IndexedDBCache implements CacheStorage {
+    private keyPrefix: string;
+    private db: Promise<IDBDatabase> | null = null;
+    
+    constructor(keyPrefix: string = 'datasource_') {
+        this.keyPrefix = keyPrefix;
+    }
+    
+    async getResource(key: string): Promise<DataResource | null> {
+        try {
+            const store = await this.store(RESOURCE_STORE_NAME, 'readonly');
+            const resource = await requestResult(store.get(this.keyPrefix + key));
+            return (resource as DataResource | undefined) ?? null;
+        } catch (error) {
+            Logger.warn(`Failed to get cache entry ${key}:`, error);
+            return null;
+        }
+    }
+    
+    async getMetadata(key: string): Promise<CacheEntryMetadata | null> {
+        try {
+            const store = await this.store(METADATA_STORE_NAME, 'readonly');
+            const metadata = await requestResult(store.get(this.keyPrefix + key));
+            return (metadata as CacheEntryMetadata | undefined) ?? null;
+        } catch (error) {
+            Logger.warn(`Failed to get cache metadata ${key}:`, error);
+            return null;
+        }
+    }
+    
+    async set(key: string, resource: DataResource, metadata: CacheEntryMetadata): Promise<void> {
+        try {
+            const transaction = await this.transaction('readwrite');
+            await Promise.all([
+                requestResult(transaction.objectStore(RESOURCE_STORE_NAME).put(resource, this.keyPrefix + key)),
+                requestResult(transaction.objectStore(METADATA_STORE_NAME).put(metadata, this.keyPrefix + key)),
+            ]);
+        } catch (error) {
+            Logger.warn(`Failed to set cache entry ${key}:`, error);
+            throw ErrorFactory.configLoadFailed('cache', error as Error);
+        }
+    }
+    
+    async setMetadata(key: string, metadata: CacheEntryMetadata): Promise<void> {
+        const store = await this.store(METADATA_STORE_NAME, 'readwrite');
+        await requestResult(store.put(metadata, this.keyPrefix + key));
+    }
+    
+    async metadata(): Promise<Map<string, CacheEntryMetadata>> {
+        const store = await this.store(METADATA_STORE_NAME, 'readonly');
+        const [keys, values] = await Promise.all([
+            requestResult(store.getAllKeys()),
+            requestResult(store.getAll()),
+        ]);
+        
+        const metadata = new Map<string, CacheEntryMetadata>();
+        keys.map(String).forEach((key, i) => {
+            if (key.startsWith(this.keyPrefix)) {
+                metadata.set(key.substring(this.keyPrefix.length), values[i]);
+            }
+        });
+        return metadata;
+    }
+    
+    async delete(key: string): Promise<void> {
+        const transaction = await this.transaction('readwrite');
+        await Promise.all([
+            requestResult(transaction.objectStore(RESOURCE_STORE_NAME).delete(this.keyPrefix + key)),
+            requestResult(transaction.objectStore(METADATA_STORE_NAME).delete(this.keyPrefix + key)),
+        ]);
+    }
+    
+    async clear(pattern?: string): Promise<void> {
+        for (const key of await this.keys()) {
+            if (!pattern || (this.keyPrefix + key).includes(pattern)) {
+                await this.delete(key);
+            }
+        }
+    }
+    
+    private async keys(): Promise<string[]> {
+        const store = await this.store(METADATA_STORE_NAME, 'readonly');
+        const keys = await requestResult(store.getAllKeys());
         return keys
+            .map(String)
             .filter(key => key.startsWith(this.keyPrefix))
             .map(key => key.substring(this.keyPrefix.length));
     }
+    
+    /**
+     * Get one object store
+     */
+    private async store(name: string, mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this.open();
+        return db.transaction(name, mode).objectStore(name);
+    }
+    
+    /**
+     * Start a transaction over the resource and metadata stores
+     */
+    private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+        const db = await this.open();
+        return db.transaction([RESOURCE_STORE_NAME, METADATA_STORE_NAME], mode);
+    }
+    
+    /**
+     * Open the database on first use
+     */
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            const request = indexedDB.open(CACHE_DB_NAME, CACHE_DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                // Version 1 entries carry no separate metadata; drop them
+                if (db.objectStoreNames.contains(LEGACY_STORE_NAME)) {
+                    db.deleteObjectStore(LEGACY_STORE_NAME);
+                }
+                for (const name of [RESOURCE_STORE_NAME, METADATA_STORE_NAME]) {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name);
+                    }
+                }
+            };
+            this.db = requestResult(request);
+        }
+        
+        return this.db;
+    }
 }
 
 /**
@@ -161,11 +415,13 @@ export class CacheManager {
         this.stats = { hits: 0, misses: 0 };
         
         // Initialize storage backend
-        if (config.storage === 'localStorage') {
-            this.storage = new LocalStorageCache(config.keyPrefix);
+        if (config.storage === 'indexedDB' && typeof indexedDB !== 'undefined') {
+            this.storage = new IndexedDBCache(config.keyPrefix);
         } else {
-            // TODO: Implement IndexedDB storage
-            throw new Error('IndexedDB storage not yet implemented');
+            if (config.storage === 'indexedDB') {
+                Logger.warn('IndexedDB not available, caching in localStorage');
+            }
+            this.storage = new LocalStorageCache(config.keyPrefix);
         }
     }
     
@@ -174,7 +430,7 @@ export class CacheManager {
      * 
      * @param key - Cache key
      * @param options - Get options
-     * @returns Cached resource or null
+     * @returns Cached resource, tagged with the time it was cached, or null
      * 
      * @example
      * const resource = await cache.get('report:income_statement');
@@ -188,31 +444,39 @@ export class CacheManager {
         }
         
         try {
-            const entry = await this.storage.get(key);
-            if (!entry) {
+            const metadata = await this.storage.getMetadata(key);
+            if (!metadata) {
                 this.stats.misses++;
                 return null;
             }
             
             // Check expiration
             const now = new Date();
-            if (!options?.ignoreExpiry && now > entry.expiresAt) {
-                // Entry expired, remove it
-                await this.storage.delete(key);
+            if (!options?.ignoreExpiry && now > metadata.expiresAt) {
+                // Entry expired; kept until cleanup() to serve when the source is unreachable
                 this.stats.misses++;
                 Logger.debug(`Cache entry expired: ${key}`);
                 return null;
             }
             
+            const resource = await this.storage.getResource(key);
+            if (!resource) {
+                this.stats.misses++;
+                return null;
+            }
+            
             // Update access statistics
-            entry.accessCount++;
-            entry.lastAccessed = now;
-            await this.storage.set(key, entry);
+            metadata.accessCount++;
+            metadata.lastAccessed = now;
+            await this.storage.setMetadata(key, metadata);
             
             this.stats.hits++;
             Logger.debug(`Cache hit: ${key}`);
             
-            return entry.resource;
+            return {
+                ...resource,
+                servedBy: { origin: 'cache', cachedAt: metadata.timestamp },
+            };
         } catch (error) {
             Logger.warn(`Cache get failed for ${key}:`, error);
             this.stats.misses++;
@@ -223,6 +487,10 @@ export class CacheManager {
     /**
      * Store resource in cache
      * 
+     * Without a `ttl` the TTL of the key's resource type (`ttls` in the cache
+     * configuration) or the default TTL applies. With `maxSize` configured, the
+     * least recently used entries are evicted to make room.
+     * 
      * @param key - Cache key
      * @param resource - Resource to cache
      * @param ttl - Time-to-live in seconds (optional)
@@ -237,7 +505,7 @@ export class CacheManager {
         
         try {
             const now = new Date();
-            const effectiveTtl = ttl ?? this.config.ttl;
+            const effectiveTtl = ttl ?? this.getTtl(key);
             const expiresAt = new Date(now.getTime() + effectiveTtl * 1000);
             
             // Calculate size (rough estimate)
@@ -249,16 +517,20 @@ export class CacheManager {
                 return;
             }
             
-            const entry: CacheEntry = {
-                resource,
+            if (this.config.maxSize) {
+                await this.evict(this.config.maxSize - size, key);
+            }
+            
+            // Where the resource was served from is not part of the cached copy
+            const { servedBy: _servedBy, ...cached } = resource;
+            
+            await this.storage.set(key, cached, {
                 timestamp: now,
                 expiresAt,
                 size,
                 accessCount: 0,
                 lastAccessed: now,
-            };
-            
-            await this.storage.set(key, entry);
+            });
             
             Logger.debug(`Cached resource: ${key}`, {
                 size,
@@ -326,23 +598,20 @@ export class CacheManager {
      */
     async getStats(): Promise<CacheStats> {
         try {
-            const keys = await this.storage.keys();
+            const entries = await this.storage.metadata();
             let totalSize = 0;
             let oldestEntry: Date | undefined;
             let newestEntry: Date | undefined;
             
-            for (const key of keys) {
-                const entry = await this.storage.get(key);
-                if (entry) {
-                    totalSize += entry.size;
-                    
-                    if (!oldestEntry || entry.timestamp < oldestEntry) {
-                        oldestEntry = entry.timestamp;
-                    }
-                    
-                    if (!newestEntry || entry.timestamp > newestEntry) {
-                        newestEntry = entry.timestamp;
-                    }
+            for (const entry of entries.values()) {
+                totalSize += entry.size;
+                
+                if (!oldestEntry || entry.timestamp < oldestEntry) {
+                    oldestEntry = entry.timestamp;
+                }
+                
+                if (!newestEntry || entry.timestamp > newestEntry) {
+                    newestEntry = entry.timestamp;
                 }
             }
             
@@ -350,7 +619,7 @@ export class CacheManager {
             const hitRate = totalRequests > 0 ? this.stats.hits / totalRequests : 0;
             
             return {
-                totalEntries: keys.length,
+                totalEntries: entries.size,
                 totalSize,
                 hitRate,
                 oldestEntry,
@@ -381,13 +650,12 @@ export class CacheManager {
         }
         
         try {
-            const keys = await this.storage.keys();
+            const entries = await this.storage.metadata();
             const now = new Date();
             let cleaned = 0;
             
-            for (const key of keys) {
-                const entry = await this.storage.get(key);
-                if (entry && now > entry.expiresAt) {
+            for (const [key, entry] of entries) {
+                if (now > entry.expiresAt) {
                     await this.storage.delete(key);
                     cleaned++;
                 }
@@ -415,6 +683,35 @@ export class CacheManager {
         return `${resourceType}:${resourceId}`;
     }
     
+    /**
+     * Get the TTL of a cache key from the resource type it starts with
+     */
+    private getTtl(key: string): number {
+        const resourceType = key.slice(0, key.indexOf(':')) as ResourceType;
+        return this.config.ttls?.[resourceType] ?? this.config.ttl;
+    }
+    
+    /**
+     * Evict least recently used entries until the other entries fit in the given size
+     */
+    private async evict(available: number, key: string): Promise<void> {
+        const entries = [...await this.storage.metadata()]
+            .filter(([other]) => other !== key)
+            .map(([other, entry]) => ({ key: other, size: entry.size, lastAccessed: entry.lastAccessed }));
+        
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        entries.sort((a, b) => a.lastAccessed.getTime() - b.lastAccessed.getTime());
+        
+        for (const entry of entries) {
+            if (total <= available) {
+                break;
+            }
+            await this.storage.delete(entry.key);
+            total -= entry.size;
+            Logger.debug(`Evicted least recently used cache entry: ${entry.key}`);
+        }
+    }
+    
     /**
      * Calculate approximate size of resource
      */
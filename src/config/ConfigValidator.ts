@@ -24,6 +24,8 @@ import {
     isGitHubConfig,
     isS3Config,
     isGDriveConfig,
+    isHttpConfig,
+    ResourceType,
 } from './DataSourceConfig.ts';
 import type { ProviderType } from './datasources/DataSourceProvider.ts';
 
@@ -166,7 +168,7 @@ export class ConfigValidator {
             this.errors.push(`${path}.type is required`);
         } else if (!this.isValidProviderType(src.type)) {
             this.errors.push(
-                `${path}.type must be one of: local, github, s3, gdrive (got: ${src.type})`
+                `${path}.type must be one of: local, github, s3, gdrive, http (got: ${src.type})`
             );
         }
         
@@ -191,7 +193,8 @@ export class ConfigValidator {
             type === 'local' ||
             type === 'github' ||
             type === 's3' ||
-            type === 'gdrive'
+            type === 'gdrive' ||
+            type === 'http'
         );
     }
     
@@ -221,6 +224,9 @@ export class ConfigValidator {
             case 'gdrive':
                 this.validateGDriveConfig(config, path);
                 break;
+            case 'http':
+                this.validateHttpConfig(config, path);
+                break;
         }
     }
     
@@ -287,6 +293,14 @@ export class ConfigValidator {
             }
         }
         
+        if (config.usePresignedUrls && !config.credentials) {
+            this.errors.push(`${path}.credentials are required to sign presigned URLs`);
+        }
+        
+        if (config.endpoint !== undefined && !/^https?:\/\/\S+$/.test(config.endpoint)) {
+            this.errors.push(`${path}.endpoint must be an http(s) URL`);
+        }
+        
         // Warn if neither credentials nor presigned URLs
         if (!config.credentials && !config.usePresignedUrls) {
             this.warnings.push(
@@ -316,6 +330,32 @@ export class ConfigValidator {
         }
     }
     
+    /**
+     * Validate HTTP / WebDAV provider configuration
+     */
+    private validateHttpConfig(config: unknown, path: string): void {
+        if (!isHttpConfig(config)) {
+            this.errors.push(`${path}.baseUrl is required for HTTP provider`);
+            return;
+        }
+        
+        if (!/^https?:\/\/\S+$/.test(config.baseUrl)) {
+            this.errors.push(`${path}.baseUrl must be an http(s) URL`);
+        }
+        
+        if (config.listing !== undefined && config.listing !== 'manifest' && config.listing !== 'propfind') {
+            this.errors.push(`${path}.listing must be manifest or propfind (got: ${config.listing})`);
+        }
+        
+        if (config.username && config.password === undefined) {
+            this.errors.push(`${path}.password is required with username`);
+        }
+        
+        if (config.username && config.token) {
+            this.warnings.push(`${path}: Both username and token configured. The token is used.`);
+        }
+    }
+    
     /**
      * Validate cache configuration
      */
@@ -339,6 +379,23 @@ export class ConfigValidator {
             }
         }
         
+        if (cfg.ttls !== undefined) {
+            if (typeof cfg.ttls !== 'object' || cfg.ttls === null) {
+                this.errors.push('cache.ttls must be an object');
+            } else {
+                const resourceTypes: string[] = Object.values(ResourceType);
+                for (const [resourceType, ttl] of Object.entries(cfg.ttls)) {
+                    if (!resourceTypes.includes(resourceType)) {
+                        this.errors.push(
+                            `cache.ttls contains invalid resource type: ${resourceType}. Must be one of: ${resourceTypes.join(', ')}`
+                        );
+                    } else if (typeof ttl !== 'number' || ttl < 0) {
+                        this.errors.push(`cache.ttls.${resourceType} must be a non-negative number`);
+                    }
+                }
+            }
+        }
+        
         if (cfg.storage && cfg.storage !== 'localStorage' && cfg.storage !== 'indexedDB') {
             this.errors.push('cache.storage must be "localStorage" or "indexedDB"');
         }
@@ -379,6 +436,12 @@ export class ConfigValidator {
                         );
                     }
                 }
+                
+                if (cfg.enabled && !cfg.order.includes('primary')) {
+                    this.warnings.push(
+                        'fallback.order does not include primary; configured sources are only used through their fallback'
+                    );
+                }
             }
         }
         
@@ -12,16 +12,19 @@
 
 import type {
     DataSourceConfig,
-    SourceDefinition,
     ResourceType,
 } from './DataSourceConfig.ts';
-import { DEFAULT_CONFIG } from './DataSourceConfig.ts';
+import { DEFAULT_CONFIG, SOURCE_RESOURCE_TYPES } from './DataSourceConfig.ts';
 import { ConfigValidator, ValidationResult } from './ConfigValidator.ts';
 import { DataSourceRegistry } from './DataSourceRegistry.ts';
 import { CacheManager } from './CacheManager.ts';
 import { LocalProvider } from './datasources/LocalProvider.ts';
+import { GitHubProvider } from './datasources/GitHubProvider.ts';
+import { S3Provider } from './datasources/S3Provider.ts';
+import { HttpProvider } from './datasources/HttpProvider.ts';
 import type {
     DataResource,
+    ResourceMetadata,
     FetchOptions,
     ConnectionTestResult,
     DataSourceProvider,
@@ -37,6 +40,7 @@ export class ConfigurationManager {
     private validator: ConfigValidator;
     private registry: DataSourceRegistry;
     private cache: CacheManager | null = null;
+    private staleResources: Map<string, Date> = new Map();
     private initialized: boolean = false;
     
     constructor() {
@@ -55,7 +59,11 @@ export class ConfigurationManager {
         // Register LocalProvider by default
         this.registry.registerProvider(new LocalProvider());
         
-        // TODO: Register other providers (GitHub, S3, GDrive) when implemented
+        this.registry.registerProvider(new GitHubProvider());
+        this.registry.registerProvider(new S3Provider());
+        this.registry.registerProvider(new HttpProvider());
+        
+        // TODO: Register other providers (GDrive) when implemented
     }
     
     /**
@@ -114,8 +122,9 @@ export class ConfigurationManager {
                 });
             }
             
-            // Configure data sources in registry
+            // Configure data sources and the fallback chain in registry
             await this.configureDataSources();
+            this.registry.configureFallback(this.config.fallback, this.cache);
             
             this.initialized = true;
             
@@ -259,6 +268,7 @@ export class ConfigurationManager {
         }
         
         this.config = newConfig;
+        this.registry.configureFallback(this.config.fallback, this.cache);
         
         Logger.info('Configuration updated', {
             updates: Object.keys(updates),
@@ -268,10 +278,12 @@ export class ConfigurationManager {
     /**
      * Get resource using configured data sources
      * 
+     * Follows the fallback chain of the configuration (see DataSourceRegistry.fetch()).
+     * 
      * @param resourceType - Type of resource to fetch
      * @param resourceId - Resource identifier
      * @param options - Fetch options
-     * @returns Promise resolving to the resource
+     * @returns Promise resolving to the resource, tagged with the source that served it
      * 
      * @example
      * const report = await manager.getResource(
@@ -291,41 +303,40 @@ export class ConfigurationManager {
             );
         }
         
-        const cacheKey = CacheManager.generateKey(resourceType, resourceId);
+        const resource = await this.registry.fetch(resourceType, resourceId, options);
         
-        // Check cache first if enabled
-        if (this.cache) {
-            const cached = await this.cache.get(cacheKey);
-            if (cached) {
-                Logger.debug(`Cache hit: ${cacheKey}`);
-                return cached;
-            }
-            Logger.debug(`Cache miss: ${cacheKey}`);
+        // Remember what is shown from an expired cache entry
+        const cacheKey = CacheManager.generateKey(resourceType, resourceId);
+        if (resource.servedBy?.origin === 'stale-cache') {
+            this.staleResources.set(cacheKey, resource.servedBy.cachedAt ?? new Date(0));
+        } else {
+            this.staleResources.delete(cacheKey);
         }
         
-        // Fetch from provider
-        try {
-            const resource = await this.fetchWithFallback(resourceType, resourceId, options);
-            
-            // Store in cache if enabled
-            if (this.cache) {
-                await this.cache.set(cacheKey, resource);
-            }
-            
-            return resource;
-            
-        } catch (error) {
-            // Try expired cache as last resort if fallback is enabled
-            if (this.config.fallback.enabled && this.cache) {
-                const expired = await this.cache.get(cacheKey, { ignoreExpiry: true });
-                if (expired) {
-                    Logger.warn(`Using expired cache for ${cacheKey} due to fetch failure`);
-                    return expired;
-                }
-            }
-            
-            throw error;
+        return resource;
+    }
+    
+    /**
+     * List resources of a type using the configured data source
+     * 
+     * Retries and falls back like getResource(); listings are not cached.
+     * 
+     * @param resourceType - Type of resource to list
+     * @param path - Directory to list (default: root of the source)
+     * @returns Promise resolving to resource metadata
+     * 
+     * @example
+     * const reports = await manager.listResources(ResourceType.REPORT_DEFINITION);
+     */
+    async listResources(resourceType: ResourceType, path: string = ''): Promise<ResourceMetadata[]> {
+        if (!this.initialized) {
+            throw ErrorFactory.wrap(
+                new Error('ConfigurationManager not initialized'),
+                { operation: 'listResources', resourceType, path }
+            );
         }
+        
+        return await this.registry.list(resourceType, path);
     }
     
     /**
@@ -425,6 +436,23 @@ export class ConfigurationManager {
         return await this.cache.getStats();
     }
     
+    /**
+     * Get the resources last served from an expired cache entry because no
+     * source could be reached
+     * 
+     * @returns Map of cache keys to the time the entry was cached
+     * 
+     * @example
+     * const stale = manager.getStaleResources();
+     * if (stale.size > 0) {
+     *   const oldest = new Date(Math.min(...[...stale.values()].map(date => date.getTime())));
+     *   showWarning(`Showing cached data from ${oldest.toLocaleString()}`);
+     * }
+     */
+    getStaleResources(): ReadonlyMap<string, Date> {
+        return this.staleResources;
+    }
+    
     /**
      * Clear cache
      * 
@@ -453,85 +481,14 @@ export class ConfigurationManager {
         for (const resourceType of resourceTypes) {
             const source = dataSources[resourceType];
             if (source) {
-                this.registry.configureSource(resourceType as ResourceType, source);
+                // Register under the resource type getResource() is called with (e.g. dimTables -> dimTable)
+                this.registry.configureSource(SOURCE_RESOURCE_TYPES[resourceType] ?? resourceType as ResourceType, source);
                 
                 // Initialize provider with config
                 await this.registry.initializeProvider(source.type, source.config);
             }
         }
     }
-    
-    /**
-     * Fetch resource with fallback support
-     */
-    private async fetchWithFallback(
-        resourceType: ResourceType,
-        resourceId: string,
-        options?: FetchOptions
-    ): Promise<DataResource> {
-        const { fallback } = this.config;
-        
-        if (!fallback.enabled) {
-            // No fallback, just fetch directly
-            return await this.registry.fetch(resourceType, resourceId, options);
-        }
-        
-        // Try with retries
-        const maxAttempts = (fallback.retryAttempts || 0) + 1;
-        let lastError: Error | null = null;
-        
-        for (let attempt = 0; attempt < maxAttempts; attempt++) {
-            try {
-                if (attempt > 0) {
-                    Logger.info(`Retry attempt ${attempt} for ${resourceType}:${resourceId}`);
-                    
-                    // Wait before retry
-                    if (fallback.retryDelay) {
-                        await new Promise(resolve => setTimeout(resolve, fallback.retryDelay));
-                    }
-                }
-                
-                const resource = await this.registry.fetch(resourceType, resourceId, options);
-                
-                if (attempt > 0) {
-                    Logger.info(`Retry successful for ${resourceType}:${resourceId}`);
-                }
-                
-                return resource;
-                
-            } catch (error) {
-                lastError = error as Error;
-                Logger.warn(`Fetch attempt ${attempt + 1} failed for ${resourceType}:${resourceId}:`, error);
-            }
-        }
-        
-        // Try fallback source if configured
-        const source = this.config.dataSources[resourceType];
-        if (source?.fallback) {
-            try {
-                Logger.info(`Trying fallback source for ${resourceType}:${resourceId}`);
-                
-                // Temporarily configure fallback source
-                const originalSource = source;
-                this.registry.configureSource(resourceType, source.fallback);
-                await this.registry.initializeProvider(source.fallback.type, source.fallback.config);
-                
-                const resource = await this.registry.fetch(resourceType, resourceId, options);
-                
-                // Restore original source
-                this.registry.configureSource(resourceType, originalSource);
-                
-                Logger.info(`Fallback successful for ${resourceType}:${resourceId}`);
-                return resource;
-                
-            } catch (fallbackError) {
-                Logger.error(`Fallback also failed for ${resourceType}:${resourceId}:`, fallbackError);
-            }
-        }
-        
-        // All attempts failed
-        throw lastError || new Error('Fetch failed with no error details');
-    }
 }
 
 export default ConfigurationManager;
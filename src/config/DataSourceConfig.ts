@@ -28,6 +28,15 @@ export enum ResourceType {
     ACCOUNT_MAPPING = 'accountMapping',
 }
 
+/**
+ * Resource type served by each dataSources entry of the configuration
+ */
+export const SOURCE_RESOURCE_TYPES: Readonly<Record<string, ResourceType>> = {
+    reportDefinitions: ResourceType.REPORT_DEFINITION,
+    factTable: ResourceType.FACT_TABLE,
+    dimTables: ResourceType.DIM_TABLE,
+};
+
 /**
  * Local filesystem configuration
  */
@@ -73,10 +82,21 @@ export interface S3Config {
     credentials?: {
         accessKeyId: string;
         secretAccessKey: string;
+        /** Session token of temporary credentials */
+        sessionToken?: string;
     };
     
-    /** Use presigned URLs instead of credentials */
+    /** Sign requests as presigned URLs instead of Authorization headers */
     usePresignedUrls?: boolean;
+    
+    /** Validity of presigned URLs in seconds (default: 900) */
+    presignedUrlExpiry?: number;
+    
+    /** Endpoint of S3-compatible storage, e.g. http://localhost:9000 for MinIO (default: AWS) */
+    endpoint?: string;
+    
+    /** Address buckets as {endpoint}/{bucket} (default: true with a custom endpoint) */
+    forcePathStyle?: boolean;
 }
 
 /**
@@ -93,10 +113,36 @@ export interface GDriveConfig {
     clientId?: string;
 }
 
+/**
+ * HTTP / WebDAV configuration
+ */
+export interface HttpConfig {
+    /** Base URL of the static web server or WebDAV share */
+    baseUrl: string;
+    
+    /** How list() finds files: an index JSON manifest or a WebDAV PROPFIND (default: manifest) */
+    listing?: 'manifest' | 'propfind';
+    
+    /** Name of the manifest file in each directory (default: manifest.json) */
+    manifest?: string;
+    
+    /** Username for basic authentication */
+    username?: string;
+    
+    /** Password for basic authentication */
+    password?: string;
+    
+    /** Bearer token (instead of basic authentication) */
+    token?: string;
+    
+    /** Extra headers sent with every request */
+    headers?: Record<string, string>;
+}
+
 /**
  * Provider configuration union type
  */
-export type ProviderConfig = LocalConfig | GitHubConfig | S3Config | GDriveConfig;
+export type ProviderConfig = LocalConfig | GitHubConfig | S3Config | GDriveConfig | HttpConfig;
 
 /**
  * Data source definition
@@ -122,10 +168,13 @@ export interface CacheConfig {
     /** Time-to-live in seconds */
     ttl: number;
     
+    /** Time-to-live in seconds per resource type (overrides ttl) */
+    ttls?: Partial<Record<ResourceType, number>>;
+    
     /** Storage backend */
     storage: 'localStorage' | 'indexedDB';
     
-    /** Maximum cache size in bytes */
+    /** Maximum cache size in bytes (least recently used entries are evicted) */
     maxSize?: number;
     
     /** Cache key prefix */
@@ -258,4 +307,16 @@ export function isGDriveConfig(config: unknown): config is GDriveConfig {
     );
 }
 
+/**
+ * Type guard for HttpConfig
+ */
+export function isHttpConfig(config: unknown): config is HttpConfig {
+    return (
+        typeof config === 'object' &&
+        config !== null &&
+        'baseUrl' in config &&
+        typeof (config as HttpConfig).baseUrl === 'string'
+    );
+}
+
 export default DataSourceConfig;
@@ -3,7 +3,8 @@
  * 
  * Manages registration and routing of data source providers.
  * Maps resource types to appropriate providers and handles
- * provider lifecycle.
+ * provider lifecycle. Fetches follow the fallback chain of the
+ * configuration (cache, primary source, fallback sources, expired cache).
  * 
  * @example
  * const registry = new DataSourceRegistry();
@@ -11,9 +12,11 @@
  * const provider = registry.getProvider(ResourceType.REPORT_DEFINITION);
  */
 
-import { ErrorFactory } from '../errors/index.ts';
+import { ErrorFactory, getErrorCode, isRetryableError } from '../errors/index.ts';
 import Logger from '../utils/Logger.ts';
+import { CacheManager } from './CacheManager.ts';
 import type {
+    FallbackConfig,
     ResourceType,
     SourceDefinition,
 } from './DataSourceConfig.ts';
@@ -21,9 +24,15 @@ import type {
     DataSourceProvider,
     ProviderType,
     DataResource,
+    ResourceMetadata,
     FetchOptions,
 } from './datasources/DataSourceProvider.ts';
 
+/**
+ * Fallback chain used without fallback configuration: a valid cache entry, then the source
+ */
+const DEFAULT_ORDER: FallbackConfig['order'] = ['cache', 'primary'];
+
 /**
  * Data source registry class
  */
@@ -31,11 +40,17 @@ export class DataSourceRegistry {
     private providers: Map<ProviderType, DataSourceProvider>;
     private sourceMap: Map<ResourceType, SourceDefinition>;
     private initializedProviders: Set<ProviderType>;
+    private fallbackProviders: Map<SourceDefinition, DataSourceProvider>;
+    private fallbackConfig: FallbackConfig | null;
+    private cache: CacheManager | null;
     
     constructor() {
         this.providers = new Map();
         this.sourceMap = new Map();
         this.initializedProviders = new Set();
+        this.fallbackProviders = new Map();
+        this.fallbackConfig = null;
+        this.cache = null;
     }
     
     /**
@@ -128,6 +143,25 @@ export class DataSourceRegistry {
         });
     }
     
+    /**
+     * Configure the fallback chain followed by fetch() and list()
+     * 
+     * @param fallback - Fallback configuration (order, retries)
+     * @param cache - Cache for the cache step and expired entries (null: no caching)
+     * 
+     * @example
+     * registry.configureFallback({
+     *   enabled: true,
+     *   order: ['cache', 'primary', 'fallback'],
+     *   retryAttempts: 3,
+     *   retryDelay: 1000
+     * }, cache);
+     */
+    configureFallback(fallback: FallbackConfig, cache: CacheManager | null = null): void {
+        this.fallbackConfig = fallback;
+        this.cache = cache;
+    }
+    
     /**
      * Initialize a provider with its configuration
      * 
@@ -163,7 +197,15 @@ export class DataSourceRegistry {
     }
     
     /**
-     * Fetch resource using appropriate provider
+     * Fetch resource following the fallback chain
+     * 
+     * Tries the steps of `fallback.order` in turn: a valid cache entry, the
+     * configured source and its fallback sources. Sources are retried with
+     * exponential backoff (`retryDelay`, twice that, four times that, ...).
+     * An expired cache entry is passed to the sources as `options.cached`, so
+     * providers that support it can revalidate it instead of downloading the
+     * resource again. When every step fails it is served as a last resort.
+     * The result's `servedBy` tells which step served it.
      * 
      * @param resourceType - Type of resource
      * @param resourceId - ID/path of resource
@@ -177,38 +219,115 @@ export class DataSourceRegistry {
      *   ResourceType.REPORT_DEFINITION,
      *   'income_statement'
      * );
+     * if (resource.servedBy?.origin === 'stale-cache') {
+     *   console.warn(`Showing cached data from ${resource.servedBy.cachedAt}`);
+     * }
      */
     async fetch(
         resourceType: ResourceType,
         resourceId: string,
         options?: FetchOptions
     ): Promise<DataResource> {
-        const provider = this.getProvider(resourceType);
-        const source = this.sourceMap.get(resourceType)!;
+        // Fail on a missing source or provider before trying anything
+        this.getProvider(resourceType);
         
-        // Ensure provider is initialized
-        if (!this.initializedProviders.has(provider.type)) {
-            await this.initializeProvider(provider.type, source.config);
-        }
+        const cacheKey = CacheManager.generateKey(resourceType, resourceId);
+        let lastError: unknown = null;
+        let expired: DataResource | null | undefined;
+        const getExpired = async (): Promise<DataResource | null> => {
+            if (expired === undefined) {
+                expired = this.cache ? await this.cache.get(cacheKey, { ignoreExpiry: true }) : null;
+            }
+            return expired;
+        };
         
-        try {
-            Logger.debug(`Fetching ${resourceType}:${resourceId} using ${provider.name}`);
-            
-            const resource = await provider.fetch(resourceId, options);
+        for (const step of this.getOrder()) {
+            if (step === 'cache') {
+                const cached = this.cache ? await this.cache.get(cacheKey) : null;
+                if (cached) {
+                    return cached;
+                }
+                continue;
+            }
             
-            Logger.debug(`Successfully fetched ${resourceType}:${resourceId}`, {
-                size: resource.metadata.size,
-                contentType: resource.metadata.contentType,
-            });
+            for (const source of this.getStepSources(resourceType, step)) {
+                try {
+                    const cached = await getExpired();
+                    const resource = await this.trySource(
+                        source,
+                        `${resourceType}:${resourceId}`,
+                        provider => provider.fetch(resourceId, cached ? { ...options, cached } : options)
+                    );
+                    
+                    Logger.debug(`Successfully fetched ${resourceType}:${resourceId}`, {
+                        origin: step,
+                        size: resource.metadata.size,
+                        contentType: resource.metadata.contentType,
+                    });
+                    
+                    if (this.cache) {
+                        await this.cache.set(cacheKey, resource);
+                    }
+                    
+                    return { ...resource, servedBy: { origin: step } };
+                } catch (error) {
+                    lastError = error;
+                }
+            }
+        }
+        
+        // Expired cache entry as last resort
+        if (this.fallbackConfig?.enabled) {
+            const stale = await getExpired();
+            if (stale) {
+                Logger.warn(`Using expired cache for ${cacheKey} due to fetch failure`);
+                return {
+                    ...stale,
+                    servedBy: { origin: 'stale-cache', cachedAt: stale.servedBy?.cachedAt },
+                };
+            }
+        }
+        
+        throw lastError || new Error(`No data source in fallback order for ${resourceType}:${resourceId}`);
+    }
+    
+    /**
+     * List resources following the fallback chain
+     * 
+     * Like fetch(), without the cache steps: listings are not cached.
+     * 
+     * @param resourceType - Type of resource
+     * @param path - Directory to list
+     * @returns Promise resolving to resource metadata
+     * 
+     * @example
+     * const reports = await registry.list(ResourceType.REPORT_DEFINITION, '');
+     */
+    async list(resourceType: ResourceType, path: string): Promise<ResourceMetadata[]> {
+        // Fail on a missing source or provider before trying anything
+        this.getProvider(resourceType);
+        
+        let lastError: unknown = null;
+        
+        for (const step of this.getOrder()) {
+            if (step === 'cache') {
+                continue;
+            }
             
-            return resource;
-        } catch (error) {
-            Logger.error(`Failed to fetch ${resourceType}:${resourceId}`, {
-                provider: provider.name,
-                error,
-            });
-            throw error;
+            for (const source of this.getStepSources(resourceType, step)) {
+                try {
+                    return await this.trySource(
+                        source,
+                        `${resourceType}:${path || '/'}`,
+                        provider => provider.list(path)
+                    );
+                } catch (error) {
+                    lastError = error;
+                }
+            }
         }
+        
+        throw lastError || new Error(`No data source in fallback order for ${resourceType}:${path || '/'}`);
     }
     
     /**
@@ -256,10 +375,126 @@ export class DataSourceRegistry {
         this.providers.clear();
         this.sourceMap.clear();
         this.initializedProviders.clear();
+        this.fallbackProviders.clear();
         
         Logger.debug('Cleared all provider registrations');
     }
     
+    /**
+     * Get the steps of the fallback chain
+     */
+    private getOrder(): FallbackConfig['order'] {
+        return this.fallbackConfig?.enabled ? this.fallbackConfig.order : DEFAULT_ORDER;
+    }
+    
+    /**
+     * Get the sources of a fallback chain step: the configured source, or its
+     * fallback sources (a fallback may have a fallback of its own)
+     */
+    private getStepSources(resourceType: ResourceType, step: 'primary' | 'fallback'): SourceDefinition[] {
+        const source = this.sourceMap.get(resourceType)!;
+        if (step === 'primary') {
+            return [source];
+        }
+        
+        const sources: SourceDefinition[] = [];
+        for (let fallback = source.fallback; fallback; fallback = fallback.fallback) {
+            sources.push(fallback);
+        }
+        return sources;
+    }
+    
+    /**
+     * Run an operation on the provider of a source, retrying with exponential backoff
+     */
+    private async trySource<T>(
+        source: SourceDefinition,
+        label: string,
+        operation: (provider: DataSourceProvider) => Promise<T>
+    ): Promise<T> {
+        const { retryAttempts = 0, retryDelay = 0 } = this.fallbackConfig?.enabled ? this.fallbackConfig : {};
+        
+        try {
+            const provider = await this.getSourceProvider(source);
+            
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    Logger.debug(`Running ${label} using ${provider.name}`);
+                    return await operation(provider);
+                } catch (error) {
+                    if (attempt >= retryAttempts || !this.isRetryable(error)) {
+                        throw error;
+                    }
+                    
+                    const delay = retryDelay * 2 ** attempt;
+                    Logger.warn(`Attempt ${attempt + 1} failed for ${label}, retrying in ${delay}ms:`, error);
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                }
+            }
+        } catch (error) {
+            Logger.error(`Failed ${label}`, {
+                providerType: source.type,
+                error,
+            });
+            throw error;
+        }
+    }
+    
+    /**
+     * Get the initialized provider of a source
+     * 
+     * Configured sources use the registered provider of their type. A fallback
+     * source gets a new instance of the registered provider's class, so that a
+     * fallback of the same type as its source (e.g. a second GitHub repository)
+     * keeps its own configuration and state.
+     */
+    private async getSourceProvider(source: SourceDefinition): Promise<DataSourceProvider> {
+        const isFallback = !Array.from(this.sourceMap.values()).includes(source);
+        if (!isFallback) {
+            if (!this.initializedProviders.has(source.type)) {
+                await this.initializeProvider(source.type, source.config);
+            }
+            return this.providers.get(source.type)!;
+        }
+        
+        const existing = this.fallbackProviders.get(source);
+        if (existing) {
+            return existing;
+        }
+        
+        const registered = this.providers.get(source.type);
+        if (!registered) {
+            throw ErrorFactory.missingField(
+                source.type,
+                `Provider ${source.type} not registered`
+            );
+        }
+        
+        const ProviderClass = registered.constructor as new () => DataSourceProvider;
+        const provider = new ProviderClass();
+        try {
+            await provider.initialize(source.config);
+        } catch (error) {
+            throw ErrorFactory.configLoadFailed(
+                `provider:${source.type}`,
+                error as Error
+            );
+        }
+        
+        this.fallbackProviders.set(source, provider);
+        return provider;
+    }
+    
+    /**
+     * Check whether a failed operation is worth retrying
+     * 
+     * Errors without a code (e.g. a fetch() TypeError when offline) are retried;
+     * missing files and rejected credentials are not.
+     */
+    private isRetryable(error: unknown): boolean {
+        return !getErrorCode(error) || isRetryableError(error);
+    }
+    
     /**
      * Validate provider implements required interface
      */
@@ -22,12 +22,8 @@ export const APP_CONFIG = {
             'name1'
         ],
 
-        // Column name mappings (not currently used, but available for future flexibility)
-        columnMapping: {
-            accountCode: 'Rekeningnummer',
-            accountDescription: 'Omschrijving',
-            statementType: 'Type'
-        },
+        // Column layout: see DEFAULT_IMPORT_PROFILE (core/transformations/import-profile.ts),
+        // overridden by "importProfile" in config.json
 
         // File size warning threshold (bytes)
         largeFileThreshold: 5 * 1024 * 1024, // 5 MB
@@ -55,6 +55,30 @@ export interface DataResource {
     
     /** Source provider type */
     source: string;
+    
+    /** Step of the fallback chain that served the resource (set by DataSourceRegistry) */
+    servedBy?: ServedBy;
+}
+
+/**
+ * Step of the fallback chain a resource was served from
+ * 
+ * - `cache` - a valid cache entry
+ * - `primary` - the configured source
+ * - `fallback` - a fallback source of the configured source
+ * - `stale-cache` - an expired cache entry, because no source could be reached
+ */
+export type ResourceOrigin = 'cache' | 'primary' | 'fallback' | 'stale-cache';
+
+/**
+ * Where a resource was served from
+ */
+export interface ServedBy {
+    /** Step of the fallback chain */
+    origin: ResourceOrigin;
+    
+    /** When the resource was cached (cache and stale-cache) */
+    cachedAt?: Date;
 }
 
 /**
@@ -72,6 +96,9 @@ export interface FetchOptions {
     
     /** Timeout in milliseconds */
     timeout?: number;
+    
+    /** Expired cached copy; providers that support conditional requests revalidate it and return it when unchanged */
+    cached?: DataResource;
 }
 
 /**
@@ -94,7 +121,7 @@ export interface ConnectionTestResult {
 /**
  * Provider type identifier
  */
-export type ProviderType = 'local' | 'github' | 's3' | 'gdrive';
+export type ProviderType = 'local' | 'github' | 's3' | 'gdrive' | 'http';
 
 /**
  * DataSourceProvider interface
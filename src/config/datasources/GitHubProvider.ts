@@ -0,0 +1,434 @@
+/**
+ * GitHubProvider - GitHub repository data source provider
+ *
+ * Provides access to resources stored in a GitHub repository through the
+ * contents API. Supports private repositories (token auth), branch selection
+ * and a path within the repository.
+ *
+ * Caching is left to the DataSourceRegistry. Once its copy of a resource
+ * expires, the registry passes it as `options.cached`; the provider
+ * revalidates it with If-None-Match and returns it on 304 Not Modified,
+ * which does not count against the API rate limit.
+ *
+ * @example
+ * const provider = new GitHubProvider();
+ * await provider.initialize({ owner: 'myorg', repo: 'reports', branch: 'main', path: 'definitions' });
+ * const resource = await provider.fetch('income_statement.json');
+ */
+
+import { ErrorFactory } from '../../errors/index.ts';
+import Logger from '../../utils/Logger.ts';
+import type { GitHubConfig } from '../DataSourceConfig.ts';
+import type {
+    DataSourceProvider,
+    DataResource,
+    ResourceMetadata,
+    FetchOptions,
+    ConnectionTestResult,
+} from './DataSourceProvider.ts';
+
+/**
+ * GitHub REST API base URL
+ */
+export const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * File extensions fetched as text
+ */
+const TEXT_EXTENSIONS = ['.json', '.csv', '.tsv', '.txt', '.md', '.yaml', '.yml'];
+
+/**
+ * Entry of a contents API response
+ */
+interface GitHubContentEntry {
+    type: 'file' | 'dir' | 'symlink' | 'submodule';
+    name: string;
+    path: string;
+    sha: string;
+    size: number;
+}
+
+/**
+ * GitHub repository provider
+ */
+export class GitHubProvider implements DataSourceProvider {
+    readonly type = 'github' as const;
+    readonly name = 'GitHub Provider';
+
+    private owner: string = '';
+    private repo: string = '';
+    private branch: string = 'main';
+    private basePath: string = '';
+    private token?: string;
+    private initialized: boolean = false;
+
+    /**
+     * Initialize the provider with configuration
+     *
+     * @param config - GitHub provider configuration
+     * @throws {ConfigurationError} If configuration is invalid
+     */
+    async initialize(config: unknown): Promise<void> {
+        if (!config || typeof config !== 'object') {
+            throw ErrorFactory.invalidConfig(
+                'GitHubProvider',
+                'config',
+                config,
+                'Expected object'
+            );
+        }
+
+        const githubConfig = config as GitHubConfig;
+
+        for (const field of ['owner', 'repo'] as const) {
+            if (!githubConfig[field] || typeof githubConfig[field] !== 'string') {
+                throw ErrorFactory.missingField(
+                    field,
+                    'GitHubProvider configuration'
+                );
+            }
+        }
+
+        this.owner = githubConfig.owner;
+        this.repo = githubConfig.repo;
+        this.branch = githubConfig.branch || 'main';
+        this.basePath = (githubConfig.path || '').replace(/^\/+|\/+$/g, '');
+        this.token = githubConfig.token || undefined;
+        this.initialized = true;
+
+        Logger.info(`GitHubProvider initialized for ${this.owner}/${this.repo}@${this.branch}`, {
+            path: this.basePath || '/',
+            authenticated: !!this.token,
+        });
+    }
+
+    /**
+     * Fetch a resource from the repository
+     *
+     * @param path - Path to the resource, relative to the configured path
+     * @param options - Fetch options; `cached` is revalidated by its ETag
+     * @returns Promise resolving to the resource (the cached copy when not modified)
+     * @throws {FileNotFoundError} If resource not found
+     * @throws {PermissionDeniedError} If the token has no access
+     * @throws {FetchError} If fetch fails
+     */
+    async fetch(path: string, options?: FetchOptions): Promise<DataResource> {
+        this.ensureInitialized();
+
+        const repoPath = this.resolvePath(path);
+        const cached = options?.cached;
+
+        const headers: Record<string, string> = {
+            ...options?.headers,
+            Accept: 'application/vnd.github.raw',
+        };
+        if (cached?.metadata.etag) {
+            headers['If-None-Match'] = cached.metadata.etag;
+        }
+
+        const response = await this.request(repoPath, path, headers, options);
+
+        if (response.status === 304 && cached) {
+            Logger.debug(`GitHub resource not modified: ${repoPath}`);
+            return cached;
+        }
+
+        try {
+            const content: Blob | string = this.isTextPath(repoPath) ? await response.text() : await response.blob();
+            const metadata = this.extractMetadata(response, path);
+            metadata.size = typeof content === 'string' ? new Blob([content]).size : content.size;
+
+            const resource: DataResource = {
+                content,
+                metadata,
+                source: 'github',
+            };
+
+            Logger.debug(`Successfully fetched GitHub resource: ${repoPath}`, {
+                size: metadata.size,
+                etag: metadata.etag,
+            });
+
+            return resource;
+
+        } catch (error) {
+            Logger.error(`Failed to read GitHub resource: ${repoPath}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * List resources in a directory of the repository
+     *
+     * @param path - Directory to list, relative to the configured path
+     * @returns Promise resolving to metadata of the files and directories
+     * @throws {FileNotFoundError} If the directory does not exist
+     */
+    async list(path: string): Promise<ResourceMetadata[]> {
+        this.ensureInitialized();
+
+        const response = await this.request(this.resolvePath(path), path, {
+            Accept: 'application/vnd.github+json',
+        });
+        const body = await response.json();
+        const entries: GitHubContentEntry[] = Array.isArray(body) ? body : [body];
+
+        return entries.map(entry => this.entryMetadata(entry, response));
+    }
+
+    /**
+     * Check if a resource exists
+     *
+     * @param path - Path to check
+     * @returns Promise resolving to true if exists
+     */
+    async exists(path: string): Promise<boolean> {
+        try {
+            await this.getMetadata(path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Test connectivity by looking up the configured branch
+     *
+     * @returns Promise resolving to test result
+     */
+    async testConnection(): Promise<ConnectionTestResult> {
+        const start = Date.now();
+        const details = {
+            repository: `${this.owner}/${this.repo}`,
+            branch: this.branch,
+            authenticated: !!this.token,
+        };
+
+        try {
+            this.ensureInitialized();
+
+            const response = await fetch(
+                `${GITHUB_API_URL}/repos/${this.owner}/${this.repo}/branches/${encodeURIComponent(this.branch)}`,
+                { headers: this.buildHeaders({ Accept: 'application/vnd.github+json' }) }
+            );
+
+            return {
+                success: response.ok,
+                responseTime: Date.now() - start,
+                details: {
+                    ...details,
+                    status: response.status,
+                    statusText: response.statusText,
+                    rateLimitRemaining: response.headers.get('x-ratelimit-remaining'),
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                responseTime: Date.now() - start,
+                error: error as Error,
+                details,
+            };
+        }
+    }
+
+    /**
+     * Get metadata about a resource without fetching content
+     *
+     * @param path - Path to the resource
+     * @returns Promise resolving to metadata
+     * @throws {FileNotFoundError} If resource not found
+     */
+    async getMetadata(path: string): Promise<ResourceMetadata> {
+        this.ensureInitialized();
+
+        const response = await this.request(this.resolvePath(path), path, {
+            Accept: 'application/vnd.github+json',
+        });
+        const body = await response.json();
+
+        if (Array.isArray(body)) {
+            return {
+                path,
+                size: 0,
+                lastModified: this.lastModified(response),
+                contentType: 'inode/directory',
+                type: 'dir',
+            };
+        }
+
+        return { ...this.entryMetadata(body, response), path };
+    }
+
+    /**
+     * Send a contents API request and map error responses
+     *
+     * 304 Not Modified is returned to the caller.
+     */
+    private async request(
+        repoPath: string,
+        path: string,
+        headers: Record<string, string>,
+        options?: FetchOptions
+    ): Promise<Response> {
+        const url = this.contentsUrl(repoPath);
+
+        try {
+            Logger.debug(`Fetching GitHub resource: ${url}`);
+
+            const controller = new AbortController();
+            const timeoutId = options?.timeout ? setTimeout(
+                () => controller.abort(),
+                options.timeout
+            ) : null;
+
+            // Combine abort signals
+            const signal = options?.signal ? AbortSignal.any([
+                options.signal,
+                controller.signal
+            ]) : controller.signal;
+
+            const response = await fetch(url, {
+                signal,
+                headers: this.buildHeaders(headers),
+            });
+
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+
+            if (!response.ok && response.status !== 304) {
+                // Drain the body so the connection can be reused
+                await response.body?.cancel();
+
+                if (response.status === 404) {
+                    throw ErrorFactory.fileNotFound(path);
+                } else if (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0') {
+                    throw ErrorFactory.fetchFailed(url, response.status, 'API rate limit exceeded');
+                } else if (response.status === 401 || response.status === 403) {
+                    throw ErrorFactory.permissionDenied(path);
+                } else {
+                    throw ErrorFactory.fetchFailed(
+                        url,
+                        response.status,
+                        response.statusText
+                    );
+                }
+            }
+
+            return response;
+
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                throw ErrorFactory.timeout(url, options?.timeout || 0);
+            }
+
+            // Re-throw custom errors as-is
+            if ((error as any).code) {
+                throw error;
+            }
+
+            Logger.error(`Failed to fetch GitHub resource: ${path}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * Build request headers with API version and token
+     */
+    private buildHeaders(headers: Record<string, string>): Record<string, string> {
+        return {
+            'X-GitHub-Api-Version': '2022-11-28',
+            ...headers,
+            ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        };
+    }
+
+    /**
+     * Build the contents API URL of a repository path
+     */
+    private contentsUrl(repoPath: string): string {
+        const encodedPath = repoPath.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+        return `${GITHUB_API_URL}/repos/${this.owner}/${this.repo}/contents/${encodedPath}` +
+            `?ref=${encodeURIComponent(this.branch)}`;
+    }
+
+    /**
+     * Resolve path relative to the configured path in the repository
+     */
+    private resolvePath(path: string): string {
+        // Remove leading slash
+        const cleanPath = path.replace(/^\//, '');
+
+        // Validate path to prevent directory traversal
+        if (cleanPath.includes('..')) {
+            throw ErrorFactory.validation(
+                ['Path contains directory traversal (..)'],
+                { path }
+            );
+        }
+
+        return [this.basePath, cleanPath].filter(Boolean).join('/');
+    }
+
+    /**
+     * Check whether a path is fetched as text
+     */
+    private isTextPath(path: string): boolean {
+        const lower = path.toLowerCase();
+        return TEXT_EXTENSIONS.some(extension => lower.endsWith(extension));
+    }
+
+    /**
+     * Extract metadata from response headers
+     */
+    private extractMetadata(response: Response, path: string): ResourceMetadata {
+        const contentLength = response.headers.get('content-length');
+        const contentType = response.headers.get('content-type');
+        const etag = response.headers.get('etag');
+
+        return {
+            path,
+            size: contentLength ? parseInt(contentLength, 10) : 0,
+            lastModified: this.lastModified(response),
+            contentType: contentType || 'application/octet-stream',
+            etag: etag || undefined,
+        };
+    }
+
+    /**
+     * Build metadata from a contents API entry
+     */
+    private entryMetadata(entry: GitHubContentEntry, response: Response): ResourceMetadata {
+        const prefix = this.basePath ? `${this.basePath}/` : '';
+
+        return {
+            path: entry.path.startsWith(prefix) ? entry.path.slice(prefix.length) : entry.path,
+            size: entry.size || 0,
+            lastModified: this.lastModified(response),
+            contentType: entry.type === 'dir' ? 'inode/directory' : 'application/octet-stream',
+            etag: entry.sha,
+            type: entry.type,
+            sha: entry.sha,
+        };
+    }
+
+    /**
+     * Read the Last-Modified header (the contents API does not return commit dates)
+     */
+    private lastModified(response: Response): Date {
+        const lastModified = response.headers.get('last-modified');
+        return lastModified ? new Date(lastModified) : new Date();
+    }
+
+    /**
+     * Ensure provider is initialized
+     */
+    private ensureInitialized(): void {
+        if (!this.initialized) {
+            throw ErrorFactory.missingConfig('GitHubProvider not initialized. Call initialize() first.');
+        }
+    }
+}
+
+export default GitHubProvider;
@@ -0,0 +1,471 @@
+/**
+ * HttpProvider - Plain HTTP / WebDAV data source provider
+ *
+ * Provides access to resources on any static web server or WebDAV share.
+ * Directories are listed from an index JSON manifest (like
+ * reports/manifest.json) or, on WebDAV shares, with a PROPFIND request.
+ * Retries and the fallback source are applied by DataSourceRegistry from
+ * the fallback section of the configuration.
+ *
+ * @example
+ * const provider = new HttpProvider();
+ * await provider.initialize({ baseUrl: 'https://dav.example.com/finance', listing: 'propfind', username: 'finance', password: '...' });
+ * const reports = await provider.list('reports');
+ */
+
+import { ErrorFactory } from '../../errors/index.ts';
+import Logger from '../../utils/Logger.ts';
+import type { HttpConfig } from '../DataSourceConfig.ts';
+import type {
+    DataSourceProvider,
+    DataResource,
+    ResourceMetadata,
+    FetchOptions,
+    ConnectionTestResult,
+} from './DataSourceProvider.ts';
+
+/**
+ * Default manifest file name
+ */
+export const DEFAULT_MANIFEST = 'manifest.json';
+
+/**
+ * PROPFIND request body asking for the properties list() reads
+ */
+const PROPFIND_BODY = '<?xml version="1.0" encoding="utf-8"?>' +
+    '<d:propfind xmlns:d="DAV:"><d:prop>' +
+    '<d:resourcetype/><d:getcontentlength/><d:getlastmodified/><d:getcontenttype/><d:getetag/>' +
+    '</d:prop></d:propfind>';
+
+/**
+ * Manifest entry: a file name, or a file with its metadata
+ */
+type ManifestEntry = string | { path: string; size?: number; lastModified?: string; etag?: string };
+
+/**
+ * HTTP / WebDAV provider
+ */
+export class HttpProvider implements DataSourceProvider {
+    readonly type = 'http' as const;
+    readonly name = 'HTTP/WebDAV Provider';
+
+    private baseUrl: string = '';
+    private listing: 'manifest' | 'propfind' = 'manifest';
+    private manifest: string = DEFAULT_MANIFEST;
+    private headers: Record<string, string> = {};
+    private initialized: boolean = false;
+
+    /**
+     * Initialize the provider with configuration
+     *
+     * @param config - HTTP provider configuration
+     * @throws {ConfigurationError} If configuration is invalid
+     */
+    async initialize(config: unknown): Promise<void> {
+        if (!config || typeof config !== 'object') {
+            throw ErrorFactory.invalidConfig(
+                'HttpProvider',
+                'config',
+                config,
+                'Expected object'
+            );
+        }
+
+        const httpConfig = config as HttpConfig;
+
+        if (!httpConfig.baseUrl || typeof httpConfig.baseUrl !== 'string') {
+            throw ErrorFactory.missingField(
+                'baseUrl',
+                'HttpProvider configuration'
+            );
+        }
+
+        if (httpConfig.listing && httpConfig.listing !== 'manifest' && httpConfig.listing !== 'propfind') {
+            throw ErrorFactory.invalidConfig(
+                'HttpProvider',
+                'listing',
+                httpConfig.listing,
+                'Expected manifest or propfind'
+            );
+        }
+
+        this.baseUrl = httpConfig.baseUrl.replace(/\/+$/, '');
+        this.listing = httpConfig.listing || 'manifest';
+        this.manifest = httpConfig.manifest || DEFAULT_MANIFEST;
+        this.headers = {
+            ...httpConfig.headers,
+            ...this.authorizationHeader(httpConfig),
+        };
+        this.initialized = true;
+
+        Logger.info(`HttpProvider initialized with baseUrl: ${this.baseUrl}`, {
+            listing: this.listing,
+        });
+    }
+
+    /**
+     * Fetch a resource from the server
+     *
+     * @param path - Path to the resource, relative to the base URL
+     * @param options - Fetch options
+     * @returns Promise resolving to the resource
+     * @throws {FileNotFoundError} If resource not found
+     * @throws {PermissionDeniedError} If access is denied
+     * @throws {FetchError} If fetch fails
+     */
+    async fetch(path: string, options?: FetchOptions): Promise<DataResource> {
+        this.ensureInitialized();
+
+        const response = await this.request('GET', this.resolveUrl(path), path, options);
+
+        try {
+            const content = await response.blob();
+            const metadata = this.extractMetadata(response, path);
+            metadata.size = content.size;
+
+            Logger.debug(`Successfully fetched HTTP resource: ${path}`, {
+                size: metadata.size,
+                contentType: metadata.contentType,
+            });
+
+            return {
+                content,
+                metadata,
+                source: 'http',
+            };
+        } catch (error) {
+            Logger.error(`Failed to read HTTP resource: ${path}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * List resources in a directory
+     *
+     * Reads the directory's manifest, or sends a PROPFIND (Depth: 1) with
+     * listing 'propfind'.
+     *
+     * @param path - Directory to list, relative to the base URL
+     * @returns Promise resolving to metadata of the files (and, with PROPFIND, sub-directories)
+     * @throws {FileNotFoundError} If the manifest or directory does not exist
+     */
+    async list(path: string): Promise<ResourceMetadata[]> {
+        this.ensureInitialized();
+
+        const directory = this.cleanPath(path).replace(/\/+$/, '');
+        return this.listing === 'propfind'
+            ? await this.listWithPropfind(directory)
+            : await this.listWithManifest(directory);
+    }
+
+    /**
+     * Check if a resource exists
+     *
+     * @param path - Path to check
+     * @returns Promise resolving to true if exists
+     */
+    async exists(path: string): Promise<boolean> {
+        try {
+            await this.getMetadata(path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Test connectivity by looking up the root manifest, or the root collection with PROPFIND
+     *
+     * @returns Promise resolving to test result
+     */
+    async testConnection(): Promise<ConnectionTestResult> {
+        const start = Date.now();
+        const details = {
+            baseUrl: this.baseUrl,
+            listing: this.listing,
+        };
+
+        try {
+            this.ensureInitialized();
+
+            const response = this.listing === 'propfind'
+                ? await fetch(`${this.baseUrl}/`, {
+                    method: 'PROPFIND',
+                    headers: { ...this.headers, Depth: '0', 'Content-Type': 'application/xml; charset=utf-8' },
+                    body: PROPFIND_BODY,
+                })
+                : await fetch(this.resolveUrl(this.manifest), { method: 'HEAD', headers: this.headers });
+            await response.body?.cancel();
+
+            return {
+                success: response.ok,
+                responseTime: Date.now() - start,
+                details: {
+                    ...details,
+                    status: response.status,
+                    statusText: response.statusText,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                responseTime: Date.now() - start,
+                error: error as Error,
+                details,
+            };
+        }
+    }
+
+    /**
+     * Get metadata about a resource without fetching content
+     *
+     * @param path - Path to the resource
+     * @returns Promise resolving to metadata
+     * @throws {FileNotFoundError} If resource not found
+     */
+    async getMetadata(path: string): Promise<ResourceMetadata> {
+        this.ensureInitialized();
+
+        const response = await this.request('HEAD', this.resolveUrl(path), path);
+        return this.extractMetadata(response, path);
+    }
+
+    /**
+     * List a directory from its manifest
+     */
+    private async listWithManifest(directory: string): Promise<ResourceMetadata[]> {
+        const manifestPath = [directory, this.manifest].filter(Boolean).join('/');
+        const response = await this.request('GET', this.resolveUrl(manifestPath), manifestPath);
+
+        let manifest: unknown;
+        try {
+            manifest = await response.json();
+        } catch (error) {
+            throw ErrorFactory.fileParse(manifestPath, error as Error);
+        }
+
+        // { "reports": [...] } (reports/manifest.json), { "files": [...] } or a plain array
+        const entries: ManifestEntry[] | undefined = Array.isArray(manifest)
+            ? manifest
+            : (manifest as any)?.files ?? (manifest as any)?.reports;
+        if (!Array.isArray(entries)) {
+            throw ErrorFactory.invalidFormat(manifestPath, 'JSON array or object with a files or reports array');
+        }
+
+        return entries.map(entry => {
+            const file = typeof entry === 'string' ? { path: entry } : entry;
+            const isDirectory = file.path.endsWith('/');
+            return {
+                path: [directory, file.path.replace(/\/+$/, '')].filter(Boolean).join('/'),
+                size: file.size || 0,
+                lastModified: file.lastModified ? new Date(file.lastModified) : new Date(),
+                contentType: isDirectory ? 'inode/directory' : 'application/octet-stream',
+                etag: file.etag,
+                type: isDirectory ? 'dir' : 'file',
+            };
+        });
+    }
+
+    /**
+     * List a WebDAV collection with PROPFIND
+     */
+    private async listWithPropfind(directory: string): Promise<ResourceMetadata[]> {
+        const url = `${this.resolveUrl(directory)}/`;
+        const response = await this.request('PROPFIND', url, directory || '/', undefined, {
+            Depth: '1',
+            'Content-Type': 'application/xml; charset=utf-8',
+        }, PROPFIND_BODY);
+        const xml = await response.text();
+
+        const basePath = decodeURIComponent(new URL(`${this.baseUrl}/`).pathname);
+        const entries: ResourceMetadata[] = [];
+
+        for (const block of this.xmlBlocks(xml, 'response')) {
+            const href = decodeURIComponent(new URL(this.xmlValue(block, 'href') || '', url).pathname);
+            const relative = (href.startsWith(basePath) ? href.slice(basePath.length) : href).replace(/\/+$/, '');
+            if (relative === directory) continue; // The collection itself
+
+            const isDirectory = /<(?:[\w-]+:)?collection\b/.test(block);
+            const lastModified = this.xmlValue(block, 'getlastmodified');
+            entries.push({
+                path: relative,
+                size: parseInt(this.xmlValue(block, 'getcontentlength') || '0', 10),
+                lastModified: lastModified ? new Date(lastModified) : new Date(),
+                contentType: isDirectory
+                    ? 'inode/directory'
+                    : this.xmlValue(block, 'getcontenttype') || 'application/octet-stream',
+                etag: this.xmlValue(block, 'getetag'),
+                type: isDirectory ? 'dir' : 'file',
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Send a request and map error responses
+     */
+    private async request(
+        method: 'GET' | 'HEAD' | 'PROPFIND',
+        url: string,
+        path: string,
+        options?: FetchOptions,
+        headers?: Record<string, string>,
+        body?: string
+    ): Promise<Response> {
+        try {
+            Logger.debug(`Requesting HTTP resource: ${method} ${url}`);
+
+            const controller = new AbortController();
+            const timeoutId = options?.timeout ? setTimeout(
+                () => controller.abort(),
+                options.timeout
+            ) : null;
+
+            // Combine abort signals
+            const signal = options?.signal ? AbortSignal.any([
+                options.signal,
+                controller.signal
+            ]) : controller.signal;
+
+            const response = await fetch(url, {
+                method,
+                signal,
+                body,
+                headers: {
+                    ...options?.headers,
+                    ...this.headers,
+                    ...headers,
+                },
+            });
+
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+
+            if (!response.ok) {
+                // Drain the body so the connection can be reused
+                await response.body?.cancel();
+
+                if (response.status === 404) {
+                    throw ErrorFactory.fileNotFound(path);
+                } else if (response.status === 401 || response.status === 403) {
+                    throw ErrorFactory.permissionDenied(path);
+                } else {
+                    throw ErrorFactory.fetchFailed(
+                        url,
+                        response.status,
+                        response.statusText
+                    );
+                }
+            }
+
+            return response;
+
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                throw ErrorFactory.timeout(url, options?.timeout || 0);
+            }
+
+            // Re-throw custom errors as-is
+            if ((error as any).code) {
+                throw error;
+            }
+
+            Logger.error(`Failed to request HTTP resource: ${path}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * Build the Authorization header (bearer token, else basic authentication)
+     */
+    private authorizationHeader(config: HttpConfig): Record<string, string> {
+        if (config.token) {
+            return { Authorization: `Bearer ${config.token}` };
+        }
+        if (config.username) {
+            const bytes = new TextEncoder().encode(`${config.username}:${config.password ?? ''}`);
+            return { Authorization: `Basic ${btoa(String.fromCharCode(...bytes))}` };
+        }
+        return {};
+    }
+
+    /**
+     * Remove the leading slash and reject directory traversal
+     */
+    private cleanPath(path: string): string {
+        const cleanPath = path.replace(/^\//, '');
+
+        // Validate path to prevent directory traversal
+        if (cleanPath.split('/').includes('..')) {
+            throw ErrorFactory.validation(
+                ['Path contains directory traversal (..)'],
+                { path }
+            );
+        }
+
+        return cleanPath;
+    }
+
+    /**
+     * Resolve path to a URL under the base URL
+     */
+    private resolveUrl(path: string): string {
+        const cleanPath = this.cleanPath(path);
+        return cleanPath
+            ? `${this.baseUrl}/${cleanPath.split('/').map(encodeURIComponent).join('/')}`
+            : this.baseUrl;
+    }
+
+    /**
+     * Get the contents of all elements with a (namespace-prefixed) tag in an XML response
+     */
+    private xmlBlocks(xml: string, tag: string): string[] {
+        const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g');
+        return [...xml.matchAll(pattern)].map(match => match[1]);
+    }
+
+    /**
+     * Get the unescaped text of the first element with a tag
+     */
+    private xmlValue(xml: string, tag: string): string | undefined {
+        const value = this.xmlBlocks(xml, tag)[0];
+        return value === undefined ? undefined : value
+            .trim()
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&amp;/g, '&');
+    }
+
+    /**
+     * Extract metadata from response headers
+     */
+    private extractMetadata(response: Response, path: string): ResourceMetadata {
+        const contentLength = response.headers.get('content-length');
+        const lastModified = response.headers.get('last-modified');
+        const contentType = response.headers.get('content-type');
+        const etag = response.headers.get('etag');
+
+        return {
+            path,
+            size: contentLength ? parseInt(contentLength, 10) : 0,
+            lastModified: lastModified ? new Date(lastModified) : new Date(),
+            contentType: contentType || 'application/octet-stream',
+            etag: etag || undefined,
+        };
+    }
+
+    /**
+     * Ensure provider is initialized
+     */
+    private ensureInitialized(): void {
+        if (!this.initialized) {
+            throw ErrorFactory.missingConfig('HttpProvider not initialized. Call initialize() first.');
+        }
+    }
+}
+
+export default HttpProvider;
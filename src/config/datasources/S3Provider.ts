@@ -0,0 +1,502 @@
+/**
+ * S3Provider - S3-compatible object storage data source provider
+ *
+ * Provides access to objects in an AWS S3 bucket or in S3-compatible storage
+ * (MinIO, Ceph, ...) through the S3 REST API. Requests are signed with
+ * Signature Version 4, either in the Authorization header or, with
+ * `usePresignedUrls`, as presigned URLs. Without credentials requests are
+ * sent unsigned (public buckets).
+ *
+ * @example
+ * const provider = new S3Provider();
+ * await provider.initialize({
+ *     bucket: 'finance',
+ *     region: 'eu-west-1',
+ *     prefix: 'trial-balances/',
+ *     credentials: { accessKeyId: '...', secretAccessKey: '...' }
+ * });
+ * const resource = await provider.fetch('2025_BalansenWinstverliesperperiode.xlsx');
+ */
+
+import { ErrorFactory } from '../../errors/index.ts';
+import Logger from '../../utils/Logger.ts';
+import type { S3Config } from '../DataSourceConfig.ts';
+import { encodeRfc3986, signRequest, presignUrl, type SigV4Credentials } from './sigv4.ts';
+import type {
+    DataSourceProvider,
+    DataResource,
+    ResourceMetadata,
+    FetchOptions,
+    ConnectionTestResult,
+} from './DataSourceProvider.ts';
+
+/**
+ * Default validity of presigned URLs in seconds
+ */
+export const DEFAULT_PRESIGNED_URL_EXPIRY = 900;
+
+/**
+ * S3 bucket provider
+ */
+export class S3Provider implements DataSourceProvider {
+    readonly type = 's3' as const;
+    readonly name = 'S3 Provider';
+
+    private bucket: string = '';
+    private region: string = '';
+    private prefix: string = '';
+    private endpoint: string = '';
+    private forcePathStyle: boolean = false;
+    private credentials?: SigV4Credentials;
+    private usePresignedUrls: boolean = false;
+    private presignedUrlExpiry: number = DEFAULT_PRESIGNED_URL_EXPIRY;
+    private initialized: boolean = false;
+
+    /**
+     * Initialize the provider with configuration
+     *
+     * @param config - S3 provider configuration
+     * @throws {ConfigurationError} If configuration is invalid
+     */
+    async initialize(config: unknown): Promise<void> {
+        if (!config || typeof config !== 'object') {
+            throw ErrorFactory.invalidConfig(
+                'S3Provider',
+                'config',
+                config,
+                'Expected object'
+            );
+        }
+
+        const s3Config = config as S3Config;
+
+        for (const field of ['bucket', 'region'] as const) {
+            if (!s3Config[field] || typeof s3Config[field] !== 'string') {
+                throw ErrorFactory.missingField(
+                    field,
+                    'S3Provider configuration'
+                );
+            }
+        }
+
+        if (s3Config.usePresignedUrls && !s3Config.credentials) {
+            throw ErrorFactory.missingField(
+                'credentials',
+                'S3Provider configuration (presigned URLs are signed with the credentials)'
+            );
+        }
+
+        if (s3Config.endpoint && !/^https?:\/\//.test(s3Config.endpoint)) {
+            throw ErrorFactory.invalidConfig(
+                'S3Provider',
+                'endpoint',
+                s3Config.endpoint,
+                'Expected an http(s) URL'
+            );
+        }
+
+        this.bucket = s3Config.bucket;
+        this.region = s3Config.region;
+        this.prefix = (s3Config.prefix || '').replace(/^\/+/, '');
+        this.endpoint = (s3Config.endpoint || `https://s3.${s3Config.region}.amazonaws.com`).replace(/\/+$/, '');
+        this.forcePathStyle = s3Config.forcePathStyle ?? !!s3Config.endpoint;
+        this.credentials = s3Config.credentials;
+        this.usePresignedUrls = !!s3Config.usePresignedUrls;
+        this.presignedUrlExpiry = s3Config.presignedUrlExpiry || DEFAULT_PRESIGNED_URL_EXPIRY;
+        this.initialized = true;
+
+        Logger.info(`S3Provider initialized for bucket: ${this.bucket}`, {
+            endpoint: this.endpoint,
+            prefix: this.prefix || '/',
+            signing: !this.credentials ? 'none' : this.usePresignedUrls ? 'presigned' : 'header',
+        });
+    }
+
+    /**
+     * Fetch an object from the bucket
+     *
+     * @param path - Object key, relative to the configured prefix
+     * @param options - Fetch options
+     * @returns Promise resolving to the resource
+     * @throws {FileNotFoundError} If the object does not exist
+     * @throws {PermissionDeniedError} If access is denied
+     * @throws {FetchError} If fetch fails
+     */
+    async fetch(path: string, options?: FetchOptions): Promise<DataResource> {
+        this.ensureInitialized();
+
+        const response = await this.request('GET', this.objectUrl(this.resolveKey(path)), path, options);
+
+        try {
+            const content = await response.blob();
+            const metadata = this.extractMetadata(response, path);
+            metadata.size = content.size;
+
+            Logger.debug(`Successfully fetched S3 object: ${path}`, {
+                size: metadata.size,
+                contentType: metadata.contentType,
+            });
+
+            return {
+                content,
+                metadata,
+                source: 's3',
+            };
+        } catch (error) {
+            Logger.error(`Failed to read S3 object: ${path}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * List objects and sub-directories under a path
+     *
+     * Uses ListObjectsV2 with '/' as delimiter, following continuation tokens.
+     *
+     * @param path - Directory to list, relative to the configured prefix
+     * @returns Promise resolving to metadata of the objects and sub-directories
+     */
+    async list(path: string): Promise<ResourceMetadata[]> {
+        this.ensureInitialized();
+
+        const directory = this.resolveKey(path);
+        const listPrefix = directory && !directory.endsWith('/') ? `${directory}/` : directory;
+        const entries: ResourceMetadata[] = [];
+        let continuationToken: string | undefined;
+
+        do {
+            const query = this.queryString({
+                'list-type': '2',
+                prefix: listPrefix,
+                delimiter: '/',
+                ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+            });
+
+            const response = await this.request('GET', `${this.bucketUrl()}?${query}`, path);
+            const xml = await response.text();
+
+            for (const block of this.xmlBlocks(xml, 'Contents')) {
+                const key = this.xmlValue(block, 'Key') || '';
+                if (key === listPrefix) continue; // Folder placeholder object
+                entries.push({
+                    path: this.relativeKey(key),
+                    size: parseInt(this.xmlValue(block, 'Size') || '0', 10),
+                    lastModified: new Date(this.xmlValue(block, 'LastModified') || Date.now()),
+                    contentType: 'application/octet-stream',
+                    etag: this.xmlValue(block, 'ETag'),
+                    type: 'file',
+                });
+            }
+
+            for (const block of this.xmlBlocks(xml, 'CommonPrefixes')) {
+                entries.push({
+                    path: this.relativeKey(this.xmlValue(block, 'Prefix') || '').replace(/\/$/, ''),
+                    size: 0,
+                    lastModified: new Date(),
+                    contentType: 'inode/directory',
+                    type: 'dir',
+                });
+            }
+
+            continuationToken = this.xmlValue(xml, 'IsTruncated') === 'true'
+                ? this.xmlValue(xml, 'NextContinuationToken')
+                : undefined;
+        } while (continuationToken);
+
+        return entries;
+    }
+
+    /**
+     * Check if an object exists
+     *
+     * @param path - Object key to check
+     * @returns Promise resolving to true if exists
+     */
+    async exists(path: string): Promise<boolean> {
+        try {
+            await this.getMetadata(path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Test connectivity by listing at most one object of the bucket
+     *
+     * @returns Promise resolving to test result
+     */
+    async testConnection(): Promise<ConnectionTestResult> {
+        const start = Date.now();
+        const details = {
+            bucket: this.bucket,
+            region: this.region,
+            endpoint: this.endpoint,
+        };
+
+        try {
+            this.ensureInitialized();
+
+            const query = this.queryString({ 'list-type': '2', 'max-keys': '1', prefix: this.prefix });
+            const url = `${this.bucketUrl()}?${query}`;
+            const response = await fetch(await this.signedUrl('GET', url), {
+                method: 'GET',
+                headers: await this.signedHeaders('GET', url),
+            });
+            await response.body?.cancel();
+
+            return {
+                success: response.ok,
+                responseTime: Date.now() - start,
+                details: {
+                    ...details,
+                    status: response.status,
+                    statusText: response.statusText,
+                },
+            };
+        } catch (error) {
+            return {
+                success: false,
+                responseTime: Date.now() - start,
+                error: error as Error,
+                details,
+            };
+        }
+    }
+
+    /**
+     * Get metadata about an object without fetching content
+     *
+     * @param path - Object key
+     * @returns Promise resolving to metadata
+     * @throws {FileNotFoundError} If the object does not exist
+     */
+    async getMetadata(path: string): Promise<ResourceMetadata> {
+        this.ensureInitialized();
+
+        const response = await this.request('HEAD', this.objectUrl(this.resolveKey(path)), path);
+        return this.extractMetadata(response, path);
+    }
+
+    /**
+     * Create a presigned GET URL for an object
+     *
+     * @param path - Object key, relative to the configured prefix
+     * @param expiresIn - Validity in seconds (default: presignedUrlExpiry)
+     * @returns Presigned URL
+     * @throws {MissingFieldError} If no credentials are configured
+     *
+     * @example
+     * const url = await provider.getPresignedUrl('2025_trial_balance.xlsx', 300);
+     */
+    async getPresignedUrl(path: string, expiresIn?: number): Promise<string> {
+        this.ensureInitialized();
+
+        if (!this.credentials) {
+            throw ErrorFactory.missingField('credentials', 'S3Provider presigned URL');
+        }
+
+        return await presignUrl({
+            method: 'GET',
+            url: this.objectUrl(this.resolveKey(path)),
+            region: this.region,
+            expiresIn: expiresIn ?? this.presignedUrlExpiry,
+        }, this.credentials);
+    }
+
+    /**
+     * Send a signed request and map error responses
+     */
+    private async request(
+        method: 'GET' | 'HEAD',
+        url: string,
+        path: string,
+        options?: FetchOptions
+    ): Promise<Response> {
+        try {
+            Logger.debug(`Requesting S3 resource: ${method} ${url}`);
+
+            const controller = new AbortController();
+            const timeoutId = options?.timeout ? setTimeout(
+                () => controller.abort(),
+                options.timeout
+            ) : null;
+
+            // Combine abort signals
+            const signal = options?.signal ? AbortSignal.any([
+                options.signal,
+                controller.signal
+            ]) : controller.signal;
+
+            const response = await fetch(await this.signedUrl(method, url), {
+                method,
+                signal,
+                headers: {
+                    ...options?.headers,
+                    ...await this.signedHeaders(method, url),
+                },
+            });
+
+            if (timeoutId) {
+                clearTimeout(timeoutId);
+            }
+
+            if (!response.ok) {
+                // Drain the body so the connection can be reused
+                await response.body?.cancel();
+
+                if (response.status === 404) {
+                    throw ErrorFactory.fileNotFound(path);
+                } else if (response.status === 403) {
+                    throw ErrorFactory.permissionDenied(path);
+                } else {
+                    throw ErrorFactory.fetchFailed(
+                        url,
+                        response.status,
+                        response.statusText
+                    );
+                }
+            }
+
+            return response;
+
+        } catch (error) {
+            if ((error as Error).name === 'AbortError') {
+                throw ErrorFactory.timeout(url, options?.timeout || 0);
+            }
+
+            // Re-throw custom errors as-is
+            if ((error as any).code) {
+                throw error;
+            }
+
+            Logger.error(`Failed to request S3 resource: ${path}`, error);
+            throw ErrorFactory.fileParse(path, error as Error);
+        }
+    }
+
+    /**
+     * Get the URL to request (presigned in presigned URL mode)
+     */
+    private async signedUrl(method: string, url: string): Promise<string> {
+        if (!this.credentials || !this.usePresignedUrls) {
+            return url;
+        }
+        return await presignUrl({ method, url, region: this.region, expiresIn: this.presignedUrlExpiry }, this.credentials);
+    }
+
+    /**
+     * Get the signature headers (none in presigned URL mode or without credentials)
+     */
+    private async signedHeaders(method: string, url: string): Promise<Record<string, string>> {
+        if (!this.credentials || this.usePresignedUrls) {
+            return {};
+        }
+        return await signRequest({ method, url, region: this.region }, this.credentials);
+    }
+
+    /**
+     * Build the URL of the bucket
+     */
+    private bucketUrl(): string {
+        if (this.forcePathStyle) {
+            return `${this.endpoint}/${this.bucket}/`;
+        }
+        const { protocol, host } = new URL(this.endpoint);
+        return `${protocol}//${this.bucket}.${host}/`;
+    }
+
+    /**
+     * Build the URL of an object
+     */
+    private objectUrl(key: string): string {
+        return `${this.bucketUrl()}${encodeRfc3986(key, true)}`;
+    }
+
+    /**
+     * Build a query string encoded the way SigV4 canonicalizes it
+     */
+    private queryString(params: Record<string, string>): string {
+        return Object.entries(params)
+            .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+            .join('&');
+    }
+
+    /**
+     * Resolve path to an object key under the configured prefix
+     */
+    private resolveKey(path: string): string {
+        // Remove leading slash
+        const cleanPath = path.replace(/^\//, '');
+
+        // Validate path to prevent directory traversal
+        if (cleanPath.split('/').includes('..')) {
+            throw ErrorFactory.validation(
+                ['Path contains directory traversal (..)'],
+                { path }
+            );
+        }
+
+        if (!this.prefix) {
+            return cleanPath;
+        }
+        return this.prefix.endsWith('/') || !cleanPath ? `${this.prefix}${cleanPath}` : `${this.prefix}/${cleanPath}`;
+    }
+
+    /**
+     * Strip the configured prefix from an object key
+     */
+    private relativeKey(key: string): string {
+        const prefix = this.prefix && !this.prefix.endsWith('/') ? `${this.prefix}/` : this.prefix;
+        return prefix && key.startsWith(prefix) ? key.slice(prefix.length) : key;
+    }
+
+    /**
+     * Get the contents of all elements with a tag in an XML response
+     */
+    private xmlBlocks(xml: string, tag: string): string[] {
+        return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g'))].map(match => match[1]);
+    }
+
+    /**
+     * Get the unescaped text of the first element with a tag
+     */
+    private xmlValue(xml: string, tag: string): string | undefined {
+        const value = this.xmlBlocks(xml, tag)[0];
+        return value === undefined ? undefined : value
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&amp;/g, '&');
+    }
+
+    /**
+     * Extract metadata from response headers
+     */
+    private extractMetadata(response: Response, path: string): ResourceMetadata {
+        const contentLength = response.headers.get('content-length');
+        const lastModified = response.headers.get('last-modified');
+        const contentType = response.headers.get('content-type');
+        const etag = response.headers.get('etag');
+
+        return {
+            path,
+            size: contentLength ? parseInt(contentLength, 10) : 0,
+            lastModified: lastModified ? new Date(lastModified) : new Date(),
+            contentType: contentType || 'application/octet-stream',
+            etag: etag || undefined,
+        };
+    }
+
+    /**
+     * Ensure provider is initialized
+     */
+    private ensureInitialized(): void {
+        if (!this.initialized) {
+            throw ErrorFactory.missingConfig('S3Provider not initialized. Call initialize() first.');
+        }
+    }
+}
+
+export default S3Provider;
@@ -0,0 +1,217 @@
+/**
+ * AWS Signature Version 4 - Request Signing Functions
+ *
+ * Signs S3 requests either with an Authorization header or as a presigned
+ * URL (the signature in the query string), for AWS S3 and S3-compatible
+ * storage such as MinIO. Uses the Web Crypto API, so it runs in the browser
+ * and in Deno without an AWS SDK.
+ *
+ * @example
+ * import { signRequest, presignUrl } from './sigv4.ts';
+ *
+ * const headers = await signRequest({ method: 'GET', url, region: 'eu-west-1' }, credentials);
+ * const signedUrl = await presignUrl({ method: 'GET', url, region: 'eu-west-1', expiresIn: 900 }, credentials);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Credentials used for signing
+ */
+export interface SigV4Credentials {
+    readonly accessKeyId: string;
+    readonly secretAccessKey: string;
+    /** Session token of temporary credentials */
+    readonly sessionToken?: string;
+}
+
+/**
+ * Request to sign
+ */
+export interface SigV4Request {
+    readonly method: string;
+    /** Full URL, query string included */
+    readonly url: string;
+    readonly region: string;
+    /** Service name (default: s3) */
+    readonly service?: string;
+    /** Headers to sign besides host and the x-amz-* headers */
+    readonly headers?: Readonly<Record<string, string>>;
+    /** Signing time (default: now) */
+    readonly date?: Date;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Signing algorithm identifier
+ */
+export const SIGV4_ALGORITHM = 'AWS4-HMAC-SHA256';
+
+/**
+ * SHA-256 of an empty payload (GET and HEAD requests)
+ */
+export const EMPTY_PAYLOAD_HASH = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+/**
+ * Payload hash of presigned URLs
+ */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256Hex = async (value: string): Promise<string> =>
+    toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+
+const hmac = async (key: ArrayBuffer | Uint8Array<ArrayBuffer>, value: string): Promise<ArrayBuffer> => {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(value));
+};
+
+/**
+ * URI-encode a value as SigV4 requires (RFC 3986 unreserved characters kept)
+ *
+ * @param value - Value to encode
+ * @param keepSlashes - Keep '/' unencoded (object key paths)
+ * @returns Encoded value
+ *
+ * @example
+ * encodeRfc3986('reports/2025 (final).xlsx', true); // 'reports/2025%20%28final%29.xlsx'
+ */
+export const encodeRfc3986 = (value: string, keepSlashes: boolean = false): string => {
+    const encoded = encodeURIComponent(value)
+        .replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    return keepSlashes ? encoded.replace(/%2F/g, '/') : encoded;
+};
+
+/**
+ * Format a date as the x-amz-date timestamp
+ *
+ * @param date - Date to format
+ * @returns Timestamp such as '20250131T120000Z'
+ */
+export const toAmzDate = (date: Date): string =>
+    date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const canonicalQuery = (params: URLSearchParams): string =>
+    [...params.entries()]
+        .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+        .sort(([a, aValue], [b, bValue]) => a < b ? -1 : a > b ? 1 : aValue < bValue ? -1 : aValue > bValue ? 1 : 0)
+        .map(([key, value]) => `${key}=${value}`)
+        .join('&');
+
+const canonicalPath = (url: URL): string =>
+    encodeRfc3986(decodeURIComponent(url.pathname), true) || '/';
+
+const sign = async (
+    request: SigV4Request,
+    credentials: SigV4Credentials,
+    url: URL,
+    headers: Record<string, string>,
+    payloadHash: string
+): Promise<{ signature: string; signedHeaders: string; scope: string }> => {
+    const amzDate = toAmzDate(request.date ?? new Date());
+    const scope = `${amzDate.slice(0, 8)}/${request.region}/${request.service ?? 's3'}/aws4_request`;
+
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const canonicalRequest = [
+        request.method.toUpperCase(),
+        canonicalPath(url),
+        canonicalQuery(url.searchParams),
+        names.map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`).join(''),
+        signedHeaders,
+        payloadHash
+    ].join('\n');
+
+    const stringToSign = [SIGV4_ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+
+    let key: ArrayBuffer | Uint8Array<ArrayBuffer> = new Uint8Array(encoder.encode(`AWS4${credentials.secretAccessKey}`));
+    for (const part of scope.split('/')) {
+        key = await hmac(key, part);
+    }
+
+    return { signature: toHex(await hmac(key, stringToSign)), signedHeaders, scope };
+};
+
+/**
+ * Sign a request with an Authorization header
+ *
+ * @param request - Request to sign (empty payload)
+ * @param credentials - Signing credentials
+ * @returns Headers to send: the request headers plus Authorization and the x-amz-* headers
+ *
+ * @example
+ * const headers = await signRequest({ method: 'GET', url: 'https://bucket.s3.eu-west-1.amazonaws.com/tb.xlsx', region: 'eu-west-1' }, credentials);
+ * await fetch(url, { headers });
+ */
+export const signRequest = async (
+    request: SigV4Request,
+    credentials: SigV4Credentials
+): Promise<Record<string, string>> => {
+    const url = new URL(request.url);
+    const amzDate = toAmzDate(request.date ?? new Date());
+    const headers: Record<string, string> = {
+        ...Object.fromEntries(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value])),
+        host: url.host,
+        'x-amz-content-sha256': EMPTY_PAYLOAD_HASH,
+        'x-amz-date': amzDate,
+        ...(credentials.sessionToken ? { 'x-amz-security-token': credentials.sessionToken } : {})
+    };
+
+    const { signature, signedHeaders, scope } = await sign(request, credentials, url, headers, EMPTY_PAYLOAD_HASH);
+
+    // fetch() sets the host header itself
+    const { host: _host, ...sent } = headers;
+    return {
+        ...sent,
+        authorization: `${SIGV4_ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, ` +
+            `SignedHeaders=${signedHeaders}, Signature=${signature}`
+    };
+};
+
+/**
+ * Create a presigned URL
+ *
+ * The signature goes in the query string, so the URL can be fetched without
+ * further headers until it expires.
+ *
+ * @param request - Request to sign, with the validity in seconds (max 7 days)
+ * @param credentials - Signing credentials
+ * @returns Presigned URL
+ *
+ * @example
+ * const url = await presignUrl({ method: 'GET', url: objectUrl, region: 'eu-west-1', expiresIn: 900 }, credentials);
+ */
+export const presignUrl = async (
+    request: SigV4Request & { readonly expiresIn: number },
+    credentials: SigV4Credentials
+): Promise<string> => {
+    const url = new URL(request.url);
+    const amzDate = toAmzDate(request.date ?? new Date());
+    const scope = `${amzDate.slice(0, 8)}/${request.region}/${request.service ?? 's3'}/aws4_request`;
+
+    url.searchParams.set('X-Amz-Algorithm', SIGV4_ALGORITHM);
+    url.searchParams.set('X-Amz-Credential', `${credentials.accessKeyId}/${scope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(Math.min(Math.max(Math.floor(request.expiresIn), 1), 604800)));
+    if (credentials.sessionToken) {
+        url.searchParams.set('X-Amz-Security-Token', credentials.sessionToken);
+    }
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const { signature } = await sign(request, credentials, url, { host: url.host }, UNSIGNED_PAYLOAD);
+
+    return `${url.origin}${url.pathname}?${canonicalQuery(url.searchParams)}&X-Amz-Signature=${signature}`;
+};
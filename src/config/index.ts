@@ -26,15 +26,18 @@ export type {
     GitHubConfig,
     S3Config,
     GDriveConfig,
+    HttpConfig,
     ResourceType,
 } from './DataSourceConfig.ts';
 
 export {
     DEFAULT_CONFIG,
+    SOURCE_RESOURCE_TYPES,
     isLocalConfig,
     isGitHubConfig,
     isS3Config,
     isGDriveConfig,
+    isHttpConfig,
 } from './DataSourceConfig.ts';
 
 // Configuration management
@@ -51,9 +54,16 @@ export type {
     FetchOptions,
     ConnectionTestResult,
     ProviderType,
+    ResourceOrigin,
+    ServedBy,
 } from './datasources/DataSourceProvider.ts';
 
 export { LocalProvider } from './datasources/LocalProvider.ts';
+export { GitHubProvider, GITHUB_API_URL } from './datasources/GitHubProvider.ts';
+export { S3Provider, DEFAULT_PRESIGNED_URL_EXPIRY } from './datasources/S3Provider.ts';
+export { HttpProvider, DEFAULT_MANIFEST } from './datasources/HttpProvider.ts';
+export { signRequest, presignUrl } from './datasources/sigv4.ts';
+export type { SigV4Credentials, SigV4Request } from './datasources/sigv4.ts';
 
 // Default export for convenience
 export { ConfigurationManager as default } from './ConfigurationManager.ts';
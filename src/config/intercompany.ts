@@ -0,0 +1,38 @@
+/**
+ * Intercompany Account Configuration
+ *
+ * Defines the accounts holding receivables, payables, revenue and costs
+ * between the legal entities of the group. When several entities are loaded
+ * (inputFiles.entities in config.json), rows on these accounts are eliminated
+ * in the consolidated view and shown in the elimination column.
+ */
+
+import type { IntercompanyRule } from '../core/calculations/consolidation.ts';
+
+/**
+ * Configuration for intercompany accounts
+ */
+export const INTERCOMPANY_ACCOUNTS: Record<string, IntercompanyRule> = {
+    /**
+     * Rekening-courant groepsmaatschappijen (current accounts with group companies)
+     */
+    groupCompanies: {
+        description: 'Receivables and payables with group companies',
+
+        // Regular expressions on the account code
+        // Example: ['^145\\d$', '^1650$']
+        accountCodes: [],
+
+        // Text in the account description (case-insensitive)
+        descriptions: ['groepsmaatschappij', 'intercompany']
+    }
+
+    // Additional intercompany accounts can be added here
+    // Example:
+    // managementFees: {
+    //     description: 'Management fees charged within the group',
+    //     accountCodes: ['^8400$', '^4400$']
+    // }
+};
+
+export default INTERCOMPANY_ACCOUNTS;
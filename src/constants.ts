@@ -18,7 +18,9 @@ export const APP_CONFIG = {
 export const STATEMENT_TYPES = {
     BALANCE_SHEET: 'BS',
     INCOME_STATEMENT: 'IS',
-    CASH_FLOW: 'CF'
+    CASH_FLOW: 'CF',
+    // Ratio reports read IS movements and BS balances; no data rows carry this type
+    RATIOS: 'RATIOS'
 } as const;
 
 // Excel Column Indices (1-based)
@@ -152,7 +154,8 @@ export const CATEGORY_DEFINITIONS = {
 export const UI_STATEMENT_TYPES = {
     BALANCE_SHEET: 'balance-sheet',
     INCOME_STATEMENT: 'income-statement',
-    CASH_FLOW: 'cash-flow'
+    CASH_FLOW: 'cash-flow',
+    RATIOS: 'ratios'
 } as const;
 
 interface YearPair {
@@ -163,43 +166,67 @@ interface YearPair {
     varianceColumn: string;
 }
 
+// Years currently loaded (overrides APP_CONFIG.YEARS once data is loaded)
+let activeYears: readonly string[] | null = null;
+
 // Year Configuration Helper (supports 2, 3, or more years dynamically)
 export const YEAR_CONFIG = {
-    // Get all years from APP_CONFIG
+    // Get all active years (loaded years, or APP_CONFIG.YEARS by default)
     get years(): readonly string[] {
-        return APP_CONFIG.YEARS;
+        return activeYears || APP_CONFIG.YEARS;
+    },
+
+    // Set the active years, e.g. from the periods present in the loaded data
+    setYears(years: readonly (string | number)[]): void {
+        const unique = [...new Set(years.map(year => String(year)))].sort();
+        activeYears = unique.length > 0 ? unique : null;
+    },
+
+    // Restore the default years from APP_CONFIG
+    resetYears(): void {
+        activeYears = null;
     },
 
     // Get number of years
     get yearCount(): number {
-        return APP_CONFIG.YEARS.length;
+        return this.years.length;
     },
 
     // Get specific year by index (0-based)
     getYear(index: number): string {
-        return APP_CONFIG.YEARS[index];
+        return this.years[index];
     },
 
     // Get column name for a year
-    getAmountColumn(year: string): string {
+    getAmountColumn(year: string): `amount_${string}` {
         return `amount_${year}`;
     },
 
     // Get all amount column names
     get amountColumns(): string[] {
-        return APP_CONFIG.YEARS.map(year => `amount_${year}`);
+        return this.years.map(year => `amount_${year}`);
+    },
+
+    // Get amount column fields from values keyed by year (missing years are null)
+    amountsFor(values: Record<string, number | null | undefined> = {}): Record<`amount_${string}`, number | null> {
+        const amounts: Record<`amount_${string}`, number | null> = {};
+        for (const year of this.years) {
+            amounts[`amount_${year}`] = values[year] ?? null;
+        }
+        return amounts;
     },
 
     // Get year pairs for variance calculations (adjacent years)
     get yearPairs(): YearPair[] {
+        const years = this.years;
         const pairs: YearPair[] = [];
-        for (let i = 0; i < APP_CONFIG.YEARS.length - 1; i++) {
+        for (let i = 0; i < years.length - 1; i++) {
             pairs.push({
-                prior: APP_CONFIG.YEARS[i],
-                current: APP_CONFIG.YEARS[i + 1],
-                priorColumn: `amount_${APP_CONFIG.YEARS[i]}`,
-                currentColumn: `amount_${APP_CONFIG.YEARS[i + 1]}`,
-                varianceColumn: `variance_${APP_CONFIG.YEARS[i]}_${APP_CONFIG.YEARS[i + 1]}`
+                prior: years[i],
+                current: years[i + 1],
+                priorColumn: `amount_${years[i]}`,
+                currentColumn: `amount_${years[i + 1]}`,
+                varianceColumn: `variance_${years[i]}_${years[i + 1]}`
             });
         }
         return pairs;
@@ -0,0 +1,282 @@
+/**
+ * Cash Flow Functions - Pure Functions
+ *
+ * Derives an indirect-method cash flow statement from the trial balance data
+ * DataLoader produces. Per period column it calculates the cash flow items as
+ * variables that cash flow report definitions reference like any other variable:
+ *
+ * - `net_income`: result of the income statement movements
+ * - `depreciation`: depreciation expense added back (accounts matched by isDepreciation)
+ * - `change_<code1>`: cash effect of the movements of one balance sheet category
+ * - `working_capital`, `operating_cash_flow`, `investing_cash_flow`,
+ *   `financing_cash_flow`, `net_change_in_cash`: section totals
+ * - `cash_start`, `cash_end`: cash positions at the start and end of the column,
+ *   carried from the nearest period with balances by the cash movements in between
+ * - `cash_difference`: cash_start + net_change_in_cash - cash_end (0 when the
+ *   statement reconciles with the cash accounts)
+ *
+ * Amounts use the trial balance signs: debits positive, credits negative. The
+ * cash effect of a balance sheet movement is therefore its negation, so an
+ * increase in receivables is an outflow and an increase in liabilities an inflow.
+ *
+ * Balance sheet categories are assigned to sections by code1 (HIERARCHY_CODES):
+ * fixed assets are investing, equity and long-term liabilities are financing,
+ * current assets matching CATEGORY_DEFINITIONS.CASH are cash and all other
+ * categories are working capital. Depreciation is added back in the operating
+ * section and taken out of the investing section, so investing shows the
+ * investments themselves.
+ *
+ * @example
+ * import { buildCashFlowVariables } from './cashflow.ts';
+ *
+ * const variables = buildCashFlowVariables(movements, balances, buildYearColumns([2024, 2025]));
+ * variables.get('operating_cash_flow'); // { 2024: 125000, 2025: 140000 }
+ */
+
+import { HIERARCHY_CODES, STATEMENT_TYPES } from '../../constants.ts';
+import { isCash, isDepreciation } from '../transformations/category.ts';
+import { buildColumnFilterExpression, type ColumnValues, type PeriodColumn } from './columns.ts';
+
+// Arquero table type (using any since arquero is loaded globally via CDN)
+type ColumnTable = any;
+
+/**
+ * Movement or balance row as produced by DataLoader
+ */
+interface TrialBalanceRow {
+    readonly statement_type?: string;
+    readonly code1?: string;
+    readonly name1?: string;
+    readonly name2?: string;
+    readonly name3?: string;
+    readonly account_description?: string;
+    readonly period?: number;
+    readonly movement_amount?: number;
+}
+
+/**
+ * Cash flow section of a balance sheet category
+ */
+export type CashFlowSection = 'cash' | 'operating' | 'investing' | 'financing';
+
+/**
+ * Variables calculated by the cash flow engine (besides change_<code1>)
+ */
+export const CASH_FLOW_VARIABLES = [
+    'net_income',
+    'depreciation',
+    'working_capital',
+    'operating_cash_flow',
+    'investing_cash_flow',
+    'financing_cash_flow',
+    'net_change_in_cash',
+    'cash_start',
+    'cash_end',
+    'cash_difference'
+] as const;
+
+/**
+ * Pattern of the per-category variables (change_<code1>)
+ */
+export const CASH_FLOW_CHANGE_PATTERN = /^change_[A-Za-z0-9_]+$/;
+
+/**
+ * Check if a variable name is calculated by the cash flow engine
+ *
+ * @param name - Variable name
+ * @returns True for CASH_FLOW_VARIABLES and change_<code1>
+ *
+ * @example
+ * isCashFlowVariable('net_income'); // true
+ * isCashFlowVariable('change_40'); // true
+ * isCashFlowVariable('revenue'); // false
+ */
+export const isCashFlowVariable = (name: string): boolean =>
+    (CASH_FLOW_VARIABLES as readonly string[]).includes(name) || CASH_FLOW_CHANGE_PATTERN.test(name);
+
+/**
+ * Get the variable name of a balance sheet category's cash effect
+ *
+ * @param code1 - Level 1 code of the category
+ * @returns Variable name
+ *
+ * @example
+ * changeVariable('40'); // 'change_40'
+ * changeVariable(''); // 'change_other'
+ */
+export const changeVariable = (code1: string): string =>
+    `change_${code1 ? code1.replace(/[^A-Za-z0-9_]/g, '_') : 'other'}`;
+
+/**
+ * Assign a balance sheet category to a cash flow section
+ *
+ * @param code1 - Level 1 code of the category
+ * @param name1 - Level 1 name of the category
+ * @returns Cash flow section
+ *
+ * @example
+ * classifyCashFlowCategory('10', 'Materiële vaste activa'); // 'investing'
+ * classifyCashFlowCategory('50', 'Liquide middelen'); // 'cash'
+ * classifyCashFlowCategory('80', 'Kortlopende schulden'); // 'operating'
+ */
+export const classifyCashFlowCategory = (code1: string, name1: string): CashFlowSection => {
+    const code = parseInt(code1);
+
+    if (HIERARCHY_CODES.ACTIVA_VASTE.includes(code)) {
+        return 'investing';
+    }
+    if (HIERARCHY_CODES.PASSIVA_EIGEN_VERMOGEN.includes(code) || HIERARCHY_CODES.PASSIVA_LANGE_TERMIJN.includes(code)) {
+        return 'financing';
+    }
+    if (HIERARCHY_CODES.ACTIVA_VLOTTENDE.includes(code) && isCash(name1)) {
+        return 'cash';
+    }
+    return 'operating';
+};
+
+const isDepreciationRow = (row: TrialBalanceRow): boolean =>
+    [row.name1, row.name2, row.name3, row.account_description].some(name => isDepreciation(name));
+
+const sumRows = (rows: readonly TrialBalanceRow[]): number =>
+    rows.reduce((total, row) => total + (Number(row.movement_amount) || 0), 0);
+
+/**
+ * Calculate the cash position at the end of a period
+ *
+ * Starts from the balance of the nearest period that has balances: the last one
+ * at or before the period, or else the first one after it. Cash movements in
+ * between are added or taken off, so a year with only a year-end balance (as in
+ * the default layout and text imports) still gives the position of every month.
+ */
+const cashPosition = (
+    period: number,
+    cashMovements: readonly TrialBalanceRow[],
+    cashBalances: readonly TrialBalanceRow[],
+    balancePeriods: readonly number[]
+): number => {
+    const before = balancePeriods.filter(candidate => candidate <= period);
+    const anchor = before.length > 0
+        ? before.reduce((max, candidate) => Math.max(max, candidate))
+        : balancePeriods.reduce((min, candidate) => Math.min(min, candidate));
+    const balance = sumRows(cashBalances.filter(row => Number(row.period) === anchor));
+
+    return anchor <= period
+        ? balance + sumRows(cashMovements.filter(row => Number(row.period) > anchor && Number(row.period) <= period))
+        : balance - sumRows(cashMovements.filter(row => Number(row.period) > period && Number(row.period) <= anchor));
+};
+
+/**
+ * Calculate the cash flow variables of one column
+ *
+ * @param movements - Movements of the column's year (scenario and entity applied)
+ * @param balances - Balances of the column's year
+ * @param fromPeriod - First period of the column
+ * @param toPeriod - Last period of the column
+ */
+const calculateColumn = (
+    movements: readonly TrialBalanceRow[],
+    balances: readonly TrialBalanceRow[],
+    fromPeriod: number,
+    toPeriod: number
+): Map<string, number> => {
+    const values = new Map<string, number>();
+    const add = (name: string, amount: number) => values.set(name, (values.get(name) ?? 0) + amount);
+    const isCashRow = (row: TrialBalanceRow) => classifyCashFlowCategory(String(row.code1 ?? ''), String(row.name1 ?? '')) === 'cash';
+
+    let netIncome = 0;
+    let depreciation = 0;
+    const sections: Record<Exclude<CashFlowSection, 'cash'>, number> = { operating: 0, investing: 0, financing: 0 };
+
+    for (const row of movements) {
+        const period = Number(row.period);
+        if (period < fromPeriod || period > toPeriod) continue;
+        const amount = Number(row.movement_amount) || 0;
+
+        if (row.statement_type === STATEMENT_TYPES.INCOME_STATEMENT) {
+            netIncome -= amount;
+            if (isDepreciationRow(row)) {
+                depreciation += amount;
+            }
+        } else if (row.statement_type === STATEMENT_TYPES.BALANCE_SHEET) {
+            const code1 = String(row.code1 ?? '');
+            const section = classifyCashFlowCategory(code1, String(row.name1 ?? ''));
+            if (section !== 'cash') {
+                add(changeVariable(code1), -amount);
+                sections[section] -= amount;
+            }
+        }
+    }
+
+    const operating = netIncome + depreciation + sections.operating;
+    const investing = sections.investing - depreciation;
+    const netChange = operating + investing + sections.financing;
+
+    // Cash positions at the end of the period before the column and at the end
+    // of its last period; without any balances both are 0
+    const balancePeriods = [...new Set(balances.map(row => Number(row.period)))];
+    const cashMovements = movements.filter(row => row.statement_type === STATEMENT_TYPES.BALANCE_SHEET && isCashRow(row));
+    const cashBalances = balances.filter(isCashRow);
+    const cashStart = balancePeriods.length === 0 ? 0 : cashPosition(fromPeriod - 1, cashMovements, cashBalances, balancePeriods);
+    const cashEnd = balancePeriods.length === 0 ? 0 : cashPosition(toPeriod, cashMovements, cashBalances, balancePeriods);
+
+    values.set('net_income', netIncome);
+    values.set('depreciation', depreciation);
+    values.set('working_capital', sections.operating);
+    values.set('operating_cash_flow', operating);
+    values.set('investing_cash_flow', investing);
+    values.set('financing_cash_flow', sections.financing);
+    values.set('net_change_in_cash', netChange);
+    values.set('cash_start', cashStart);
+    values.set('cash_end', cashEnd);
+    values.set('cash_difference', cashStart + netChange - cashEnd);
+
+    return values;
+};
+
+/**
+ * Calculate the cash flow variables for each period column
+ *
+ * Variables of categories without movements in a column are 0 for that column.
+ * Categories without any movements only get a variable when listed in `include`,
+ * so a report can reference e.g. change_30 for a company without inventory.
+ *
+ * @param movements - Movements table with income statement and balance sheet rows
+ * @param balances - Balances table (cumulative balances per period, amount in movement_amount)
+ * @param columns - Period columns to calculate for
+ * @param include - Variable names to return even without movements
+ * @returns Values per column by variable name
+ *
+ * @example
+ * const variables = buildCashFlowVariables(movements, balances, buildYearColumns([2025]));
+ * variables.get('change_40'); // { 2025: -12000 } (receivables increased)
+ * variables.get('cash_difference'); // { 2025: 0 }
+ */
+export const buildCashFlowVariables = (
+    movements: ColumnTable,
+    balances: ColumnTable,
+    columns: readonly PeriodColumn[],
+    include: readonly string[] = []
+): Map<string, ColumnValues> => {
+    const perColumn = columns.map(column => {
+        // The whole year is needed to carry the cash balances to the column's periods
+        const expression = buildColumnFilterExpression({ ...column, fromPeriod: undefined, toPeriod: undefined });
+        return calculateColumn(
+            movements.filter(expression).objects(),
+            balances ? balances.filter(expression).objects() : [],
+            column.fromPeriod ?? 1,
+            column.toPeriod ?? 12
+        );
+    });
+
+    const names = new Set([...perColumn.flatMap(values => [...values.keys()]), ...include]);
+    const variables = new Map<string, ColumnValues>();
+    for (const name of names) {
+        const values: ColumnValues = {};
+        columns.forEach((column, index) => {
+            values[column.key] = perColumn[index].get(name) ?? 0;
+        });
+        variables.set(name, values);
+    }
+
+    return variables;
+};
@@ -0,0 +1,496 @@
+/**
+ * Period Column Functions - Pure Functions
+ *
+ * Describes the ordered list of amount columns a statement is rendered with.
+ * A column is a year, optionally narrowed to a range of periods (months), so a
+ * statement can show five fiscal years, twelve months, or YTD figures side by side.
+ * Variances are calculated between a chosen pair of columns.
+ *
+ * A column can also select a scenario dataset (e.g. budget or forecast) loaded
+ * alongside the actuals; movement rows carry a `scenario` field for this.
+ * Likewise a column can select one legal entity (rows carry an `entity` field
+ * when several entities are loaded); columns without one show the
+ * consolidated figures, eliminations included.
+ *
+ * @example
+ * import { buildYearColumns, resolveComparison, amountField } from './columns.ts';
+ *
+ * const columns = buildYearColumns([2022, 2023, 2024]);
+ * const comparison = resolveComparison(columns);
+ * // { base: '2023', compare: '2024' }
+ *
+ * amountField(columns[0].key); // 'amount_2022'
+ */
+
+/**
+ * Amount column in a rendered statement
+ */
+export interface PeriodColumn {
+    /** Unique column key, used in field names (amount_<key>) */
+    readonly key: string;
+    /** Fiscal year the column covers */
+    readonly year: number;
+    /** First period (1-12) included; defaults to 1 */
+    readonly fromPeriod?: number;
+    /** Last period (1-12) included; defaults to 12 */
+    readonly toPeriod?: number;
+    /** Header label; defaults to the key */
+    readonly label?: string;
+    /** Scenario dataset (e.g. 'budget'); columns without one use all rows */
+    readonly scenario?: string;
+    /** Legal entity (or ELIMINATION_ENTITY); columns without one are consolidated */
+    readonly entity?: string;
+}
+
+/**
+ * Pair of column keys to calculate variances between
+ */
+export interface ComparisonPair {
+    /** Column the variance is measured against (prior) */
+    readonly base: string;
+    /** Column being compared (current) */
+    readonly compare: string;
+}
+
+/**
+ * Amount values keyed by column key
+ */
+export type ColumnValues = Record<string, number>;
+
+/**
+ * Options for narrowing scenario columns to a range of periods
+ */
+export interface PeriodRange {
+    readonly fromPeriod?: number;
+    readonly toPeriod?: number;
+}
+
+/**
+ * Scenario name of the actuals dataset
+ */
+export const ACTUAL_SCENARIO = 'actual';
+
+/**
+ * Entity of the intercompany elimination rows
+ */
+export const ELIMINATION_ENTITY = 'elimination';
+
+const capitalize = (value: string): string =>
+    value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Build one full-year column per year
+ *
+ * @param years - Years in display order
+ * @returns Period columns keyed by year
+ *
+ * @example
+ * buildYearColumns([2024, 2025]);
+ * // [{ key: '2024', year: 2024, label: '2024' }, { key: '2025', year: 2025, label: '2025' }]
+ */
+export const buildYearColumns = (years: readonly (number | string)[]): PeriodColumn[] =>
+    years.map(year => ({
+        key: String(year),
+        year: Number(year),
+        label: String(year)
+    }));
+
+/**
+ * Build one column per period (month) of a year
+ *
+ * @param year - Fiscal year
+ * @param fromPeriod - First period (inclusive)
+ * @param toPeriod - Last period (inclusive)
+ * @returns Period columns keyed as <year>_P<period>
+ *
+ * @example
+ * buildMonthColumns(2025, 1, 3);
+ * // [{ key: '2025_P1', year: 2025, fromPeriod: 1, toPeriod: 1, label: '2025 P1' }, ...]
+ */
+export const buildMonthColumns = (year: number, fromPeriod = 1, toPeriod = 12): PeriodColumn[] => {
+    const columns: PeriodColumn[] = [];
+    for (let period = fromPeriod; period <= toPeriod; period++) {
+        columns.push({
+            key: `${year}_P${period}`,
+            year,
+            fromPeriod: period,
+            toPeriod: period,
+            label: `${year} P${period}`
+        });
+    }
+    return columns;
+};
+
+/**
+ * Build one column per scenario for the same year and period range
+ *
+ * @param year - Fiscal year
+ * @param scenarios - Scenarios in display order (e.g. ['actual', 'budget'])
+ * @param range - Optional period range (e.g. YTD through period 6)
+ * @returns Period columns keyed as <year>_<scenario>
+ *
+ * @example
+ * buildScenarioColumns(2025, ['actual', 'budget']);
+ * // [{ key: '2025_actual', year: 2025, scenario: 'actual', label: 'Actual 2025' }, ...]
+ */
+export const buildScenarioColumns = (
+    year: number,
+    scenarios: readonly string[],
+    range: PeriodRange = {}
+): PeriodColumn[] =>
+    scenarios.map(scenario => ({
+        key: `${year}_${scenario}`,
+        year,
+        ...(range.fromPeriod !== undefined ? { fromPeriod: range.fromPeriod } : {}),
+        ...(range.toPeriod !== undefined ? { toPeriod: range.toPeriod } : {}),
+        label: `${capitalize(scenario)} ${year}`,
+        scenario
+    }));
+
+/**
+ * Build columns and comparison for a performance view (e.g. Actual vs Budget)
+ *
+ * The variance is reported as `compare - base`, so with the defaults it is
+ * actual minus budget: positive means actual came in above budget.
+ *
+ * @param year - Fiscal year
+ * @param base - Scenario the variance is measured against (e.g. 'budget')
+ * @param compare - Scenario being compared (defaults to actuals)
+ * @param range - Optional period range
+ * @returns Period columns and the comparison pair between them
+ *
+ * @example
+ * const { columns, comparison } = buildScenarioComparison(2025, 'budget', ACTUAL_SCENARIO, { toPeriod: 6 });
+ * // columns: Actual 2025, Budget 2025 (periods 1-6)
+ * // comparison: { base: '2025_budget', compare: '2025_actual' }
+ */
+export const buildScenarioComparison = (
+    year: number,
+    base: string,
+    compare: string = ACTUAL_SCENARIO,
+    range: PeriodRange = {}
+): { columns: PeriodColumn[]; comparison: ComparisonPair } => {
+    const columns = buildScenarioColumns(year, [compare, base], range);
+    return {
+        columns,
+        comparison: { base: columns[1].key, compare: columns[0].key }
+    };
+};
+
+/**
+ * Build a consolidation overview: one column per entity, the eliminations and the consolidated total
+ *
+ * The consolidated column has no entity, so it adds up the entities and the
+ * elimination rows; the entity columns show each entity's own figures.
+ *
+ * @param year - Fiscal year
+ * @param entities - Entities in display order
+ * @param range - Optional period range
+ * @returns Period columns keyed as <year>_<entity>, <year>_elimination and <year>_consolidated
+ *
+ * @example
+ * buildConsolidationColumns(2025, ['holding', 'opco']);
+ * // Holding 2025, Opco 2025, Elimination 2025, Consolidated 2025
+ */
+export const buildConsolidationColumns = (
+    year: number,
+    entities: readonly string[],
+    range: PeriodRange = {}
+): PeriodColumn[] => {
+    const periods = {
+        ...(range.fromPeriod !== undefined ? { fromPeriod: range.fromPeriod } : {}),
+        ...(range.toPeriod !== undefined ? { toPeriod: range.toPeriod } : {})
+    };
+    return [
+        ...[...entities, ELIMINATION_ENTITY].map(entity => ({
+            key: `${year}_${entity}`,
+            year,
+            ...periods,
+            label: `${capitalize(entity)} ${year}`,
+            entity
+        })),
+        { key: `${year}_consolidated`, year, ...periods, label: `Consolidated ${year}` }
+    ];
+};
+
+/**
+ * Get the scenarios other than actuals referenced by a set of columns
+ *
+ * @param columns - Period columns
+ * @returns Distinct scenario names (excluding actuals)
+ */
+export const scenariosOf = (columns: readonly PeriodColumn[]): string[] =>
+    [...new Set(
+        columns
+            .map(column => column.scenario)
+            .filter((scenario): scenario is string => !!scenario && scenario !== ACTUAL_SCENARIO)
+    )];
+
+/**
+ * Get the amount field name for a column key
+ *
+ * @param key - Column key
+ * @returns Field name (e.g. 'amount_2024')
+ */
+export const amountField = (key: string): `amount_${string}` => `amount_${key}`;
+
+/**
+ * Get the formatted field name for a column key
+ *
+ * @param key - Column key
+ * @returns Field name (e.g. 'formatted_2024')
+ */
+export const formattedField = (key: string): `formatted_${string}` => `formatted_${key}`;
+
+/**
+ * Resolve the period columns for a set of period options
+ *
+ * Explicit columns win; otherwise one full-year column is created per year.
+ * When any column selects a scenario, columns without one are pinned to the
+ * actuals so scenario rows are not added into them.
+ *
+ * @param periodOptions - Period options with optional columns and years
+ * @returns Ordered period columns
+ *
+ * @example
+ * resolvePeriodColumns({ years: [2024, 2025] });
+ * // Two full-year columns
+ */
+export const resolvePeriodColumns = (
+    periodOptions: { readonly columns?: readonly PeriodColumn[]; readonly years?: readonly (number | string)[] } = {}
+): PeriodColumn[] => {
+    if (Array.isArray(periodOptions.columns) && periodOptions.columns.length > 0) {
+        const columns = periodOptions.columns;
+        return columns.some(column => column.scenario)
+            ? columns.map(column => column.scenario ? column : { ...column, scenario: ACTUAL_SCENARIO })
+            : [...columns];
+    }
+    return buildYearColumns(periodOptions.years || []);
+};
+
+/**
+ * Resolve which pair of columns variances are calculated between
+ *
+ * Uses the requested pair when both keys exist; otherwise compares the last
+ * column against the one before it. Returns null with fewer than two columns.
+ *
+ * @param columns - Ordered period columns
+ * @param requested - Optional requested comparison pair
+ * @returns Comparison pair or null
+ * @throws Error if a requested key is not one of the columns
+ *
+ * @example
+ * resolveComparison(buildYearColumns([2023, 2024, 2025]));
+ * // { base: '2024', compare: '2025' }
+ *
+ * resolveComparison(buildYearColumns([2023, 2024, 2025]), { base: '2023', compare: '2025' });
+ * // { base: '2023', compare: '2025' }
+ */
+export const resolveComparison = (
+    columns: readonly PeriodColumn[],
+    requested?: ComparisonPair | null
+): ComparisonPair | null => {
+    if (requested) {
+        const keys = columns.map(column => column.key);
+        for (const key of [requested.base, requested.compare]) {
+            if (!keys.includes(key)) {
+                throw new Error(`Unknown comparison column: ${key}. Available columns: ${keys.join(', ')}`);
+            }
+        }
+        return { base: requested.base, compare: requested.compare };
+    }
+
+    if (columns.length < 2) {
+        return null;
+    }
+
+    return {
+        base: columns[columns.length - 2].key,
+        compare: columns[columns.length - 1].key
+    };
+};
+
+/**
+ * Build an Arquero filter expression selecting the rows of a column
+ *
+ * @param column - Period column
+ * @returns Filter expression on year, period and (optionally) scenario and entity
+ *
+ * @example
+ * buildColumnFilterExpression({ key: '2025_P3', year: 2025, fromPeriod: 3, toPeriod: 3 });
+ * // "d => d.year === 2025 && d.period >= 3 && d.period <= 3"
+ */
+export const buildColumnFilterExpression = (column: PeriodColumn): string => {
+    const conditions = [`d.year === ${Number(column.year)}`];
+
+    if (column.fromPeriod !== undefined) {
+        conditions.push(`d.period >= ${Number(column.fromPeriod)}`);
+    }
+    if (column.toPeriod !== undefined) {
+        conditions.push(`d.period <= ${Number(column.toPeriod)}`);
+    }
+    if (column.scenario !== undefined) {
+        conditions.push(`d.scenario === ${JSON.stringify(column.scenario)}`);
+    }
+    if (column.entity !== undefined) {
+        conditions.push(`d.entity === ${JSON.stringify(column.entity)}`);
+    }
+
+    return `d => ${conditions.join(' && ')}`;
+};
+
+/**
+ * Find the column keys present as amount fields on a row
+ *
+ * @param row - Row object with amount_<key> fields
+ * @returns Column keys in field order
+ *
+ * @example
+ * amountKeysOf({ amount_2024: 1, amount_2025: 2, label: 'x' }); // ['2024', '2025']
+ */
+export const amountKeysOf = (row: object): string[] =>
+    Object.keys(row)
+        .filter(field => field.startsWith('amount_'))
+        .map(field => field.substring('amount_'.length));
+
+/**
+ * Period references of the columns a statement is rendered with
+ *
+ * Maps column key -> period selector -> key of the referenced column, or null
+ * when the selector falls outside the calendar (e.g. P-1 of a P7-P12 column
+ * shifted into a range spanning two years).
+ */
+export type PeriodReferences = Record<string, Record<string, string | null>>;
+
+const MONTHS_PER_YEAR = 12;
+
+const periodLength = (column: PeriodColumn): number =>
+    (column.toPeriod ?? MONTHS_PER_YEAR) - (column.fromPeriod ?? 1) + 1;
+
+const coversFullYear = (column: PeriodRange): boolean =>
+    (column.fromPeriod ?? 1) === 1 && (column.toPeriod ?? MONTHS_PER_YEAR) === MONTHS_PER_YEAR;
+
+/**
+ * Build the column a period selector refers to, relative to a column
+ *
+ * - `prior`: the same periods one year earlier
+ * - `YYYY`: the same periods in that year
+ * - `P-n`: n column lengths earlier (a month column steps back n months, a
+ *   full-year column n years, a P1-P6 column n half-years)
+ *
+ * The referenced column keeps the scenario of the column. Its key is derived
+ * from year, periods and scenario, so the same target always gets the same key.
+ *
+ * @param column - Column the reference is evaluated in
+ * @param selector - Period selector (prior, P-<n> or a four-digit year)
+ * @returns Referenced column, or null if it would span two years
+ * @throws Error for an unknown selector
+ *
+ * @example
+ * resolvePeriodSelector({ key: '2025_P1', year: 2025, fromPeriod: 1, toPeriod: 1 }, 'P-1');
+ * // { key: 'ref:2024_P12', year: 2024, fromPeriod: 12, toPeriod: 12, label: '2024 P12' }
+ */
+export const resolvePeriodSelector = (column: PeriodColumn, selector: string): PeriodColumn | null => {
+    let year = Number(column.year);
+    let fromPeriod = column.fromPeriod ?? 1;
+    const length = periodLength(column);
+
+    const shift = /^P-(\d+)$/.exec(selector);
+    if (selector === 'prior') {
+        year -= 1;
+    } else if (/^\d{4}$/.test(selector)) {
+        year = Number(selector);
+    } else if (shift) {
+        const index = year * MONTHS_PER_YEAR + (fromPeriod - 1) - Number(shift[1]) * length;
+        year = Math.floor(index / MONTHS_PER_YEAR);
+        fromPeriod = index - year * MONTHS_PER_YEAR + 1;
+    } else {
+        throw new Error(`Invalid period selector: ${selector} (expected prior, P-<n> or a year)`);
+    }
+
+    const toPeriod = fromPeriod + length - 1;
+    if (toPeriod > MONTHS_PER_YEAR) {
+        return null;
+    }
+
+    const target = { year, fromPeriod, toPeriod, scenario: column.scenario };
+    if (coversFullYear(target)) {
+        return {
+            key: `ref:${year}${column.scenario ? `_${column.scenario}` : ''}`,
+            year,
+            label: String(year),
+            ...(column.scenario !== undefined ? { scenario: column.scenario } : {})
+        };
+    }
+
+    const periods = fromPeriod === toPeriod ? `P${fromPeriod}` : `P${fromPeriod}-P${toPeriod}`;
+    return {
+        key: `ref:${year}_${periods}${column.scenario ? `_${column.scenario}` : ''}`,
+        year,
+        fromPeriod,
+        toPeriod,
+        label: `${year} ${periods}`,
+        ...(column.scenario !== undefined ? { scenario: column.scenario } : {})
+    };
+};
+
+const sameRows = (a: PeriodColumn, b: PeriodColumn): boolean =>
+    Number(a.year) === Number(b.year) &&
+    (a.fromPeriod ?? 1) === (b.fromPeriod ?? 1) &&
+    (a.toPeriod ?? MONTHS_PER_YEAR) === (b.toPeriod ?? MONTHS_PER_YEAR) &&
+    a.scenario === b.scenario;
+
+/**
+ * Resolve period selectors for every column of a statement
+ *
+ * A selector that lands on a displayed column references it directly; other
+ * targets become hidden columns, which the caller calculates alongside the
+ * displayed ones but does not show. References are resolved one level deep:
+ * hidden columns resolve only selectors that land on a displayed or another
+ * hidden column, the rest resolve to null.
+ *
+ * @param columns - Displayed period columns
+ * @param selectors - Period selectors used in expressions
+ * @returns Hidden columns to calculate and the references per column
+ *
+ * @example
+ * const { columns: hidden, references } = buildReferenceColumns(buildYearColumns([2024, 2025]), ['prior']);
+ * // hidden: [{ key: 'ref:2023', year: 2023, label: '2023' }]
+ * // references: { '2024': { prior: 'ref:2023' }, '2025': { prior: '2024' }, 'ref:2023': { prior: null } }
+ */
+export const buildReferenceColumns = (
+    columns: readonly PeriodColumn[],
+    selectors: readonly string[]
+): { columns: PeriodColumn[]; references: PeriodReferences } => {
+    const hidden: PeriodColumn[] = [];
+    const references: PeriodReferences = {};
+
+    for (const column of columns) {
+        references[column.key] = {};
+        for (const selector of selectors) {
+            const target = resolvePeriodSelector(column, selector);
+            if (!target) {
+                references[column.key][selector] = null;
+                continue;
+            }
+            const existing = columns.find(other => sameRows(other, target)) ||
+                hidden.find(other => other.key === target.key);
+            if (!existing) {
+                hidden.push(target);
+            }
+            references[column.key][selector] = existing ? existing.key : target.key;
+        }
+    }
+
+    const all = [...columns, ...hidden];
+    for (const column of hidden) {
+        references[column.key] = {};
+        for (const selector of selectors) {
+            const target = resolvePeriodSelector(column, selector);
+            const existing = target ? all.find(other => sameRows(other, target)) : undefined;
+            references[column.key][selector] = existing ? existing.key : null;
+        }
+    }
+
+    return { columns: hidden, references };
+};
@@ -0,0 +1,122 @@
+/**
+ * Consolidation Functions - Pure Functions
+ *
+ * Several legal entities can be loaded side by side; their trial balance rows
+ * carry an `entity` field. Balances and transactions between the entities sit
+ * on intercompany accounts, which must not count in the consolidated figures.
+ * Rather than dropping those rows, an elimination row with the opposite
+ * amount is added per intercompany row (entity ELIMINATION_ENTITY), so:
+ *
+ * - an entity column (`entity: 'holding'`) shows the entity's own figures
+ * - the elimination column (`entity: 'elimination'`) shows what was removed
+ * - a column without an entity adds everything up: the consolidated figures
+ *
+ * Intercompany accounts are configured in config/intercompany.ts.
+ *
+ * @example
+ * import { buildEliminationRows } from './consolidation.ts';
+ *
+ * const eliminations = buildEliminationRows(movements, INTERCOMPANY_ACCOUNTS);
+ * const consolidated = [...movements, ...eliminations];
+ */
+
+import { ELIMINATION_ENTITY } from './columns.ts';
+
+/**
+ * Intercompany account rule
+ */
+export interface IntercompanyRule {
+    readonly description?: string;
+    /** Regular expressions matched against the account code */
+    readonly accountCodes?: readonly string[];
+    /** Case-insensitive text matched against the account description */
+    readonly descriptions?: readonly string[];
+}
+
+/**
+ * Trial balance row with an entity (the fields consolidation uses)
+ */
+export interface EntityRow {
+    readonly account_code?: string;
+    readonly account_description?: string;
+    readonly entity?: string;
+    readonly [field: string]: any;
+}
+
+/**
+ * Create a predicate for rows on intercompany accounts
+ *
+ * @param rules - Intercompany account rules
+ * @returns Predicate matching a row's account code or description against any rule
+ *
+ * @example
+ * const isIntercompany = createIntercompanyMatcher({ group: { accountCodes: ['^145\\d$'] } });
+ * isIntercompany({ account_code: '1450' }); // true
+ */
+export const createIntercompanyMatcher = (
+    rules: Readonly<Record<string, IntercompanyRule>>
+): (row: EntityRow) => boolean => {
+    const codePatterns = Object.values(rules).flatMap(rule => (rule.accountCodes || []).map(pattern => new RegExp(pattern)));
+    const descriptions = Object.values(rules).flatMap(rule => (rule.descriptions || []).map(text => text.toLowerCase()));
+
+    return (row: EntityRow) => {
+        const code = String(row.account_code ?? '');
+        const description = String(row.account_description ?? '').toLowerCase();
+        return codePatterns.some(pattern => pattern.test(code)) ||
+            descriptions.some(text => description.includes(text));
+    };
+};
+
+/**
+ * Check whether a row is on an intercompany account
+ *
+ * @param row - Trial balance row
+ * @param rules - Intercompany account rules
+ * @returns True if any rule matches the account code or description
+ */
+export const isIntercompanyAccount = (
+    row: EntityRow,
+    rules: Readonly<Record<string, IntercompanyRule>>
+): boolean => createIntercompanyMatcher(rules)(row);
+
+/**
+ * Build the elimination rows for the intercompany rows of the entities
+ *
+ * Each intercompany row gets a copy with the opposite amount, tagged with
+ * ELIMINATION_ENTITY.
+ *
+ * @param rows - Trial balance rows of all entities
+ * @param rules - Intercompany account rules
+ * @param amountField - Amount field to negate
+ * @returns Elimination rows
+ *
+ * @example
+ * buildEliminationRows([{ entity: 'opco', account_code: '1450', movement_amount: 500 }], rules);
+ * // [{ entity: 'elimination', account_code: '1450', movement_amount: -500 }]
+ */
+export const buildEliminationRows = <T extends EntityRow>(
+    rows: readonly T[],
+    rules: Readonly<Record<string, IntercompanyRule>>,
+    amountField = 'movement_amount'
+): T[] => {
+    const isIntercompany = createIntercompanyMatcher(rules);
+    return rows
+        .filter(row => row.entity !== ELIMINATION_ENTITY && isIntercompany(row))
+        .map(row => ({
+            ...row,
+            entity: ELIMINATION_ENTITY,
+            [amountField]: -(Number(row[amountField]) || 0)
+        }));
+};
+
+/**
+ * Get the entities of a set of rows
+ *
+ * @param entities - Entity values (e.g. a table's entity column)
+ * @returns Distinct entities in order of appearance, without the eliminations
+ */
+export const entitiesOf = (entities: readonly unknown[]): string[] =>
+    [...new Set(
+        entities.filter((entity): entity is string =>
+            typeof entity === 'string' && entity !== '' && entity !== ELIMINATION_ENTITY)
+    )];
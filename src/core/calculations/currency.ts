@@ -0,0 +1,284 @@
+/**
+ * Currency Translation Functions - Pure Functions
+ *
+ * Trial balances of foreign subsidiaries are kept in their local currency and
+ * translated into the presentation currency before they are combined:
+ *
+ * - income statement movements at the average rate of their period
+ * - balance sheet movements and balances at the closing rate of their period
+ * - income statement balances (year to date) as the sum of their translated
+ *   movements, so the translated result matches the income statement
+ *
+ * Translated this way a balanced trial balance no longer balances; the
+ * difference (the translation difference) is posted to a configurable equity
+ * account so the balance sheet still balances.
+ *
+ * Rates are units of presentation currency per unit of local currency
+ * (e.g. USD to EUR 0.92), by currency, year and period.
+ *
+ * @example
+ * import { parseFxRates, translateTrialBalance } from './currency.ts';
+ *
+ * const rates = parseFxRates(rows);
+ * const translated = translateTrialBalance({ movements, balances }, 'USD', rates, translationAccount);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Exchange rates of a currency for one period
+ */
+export interface FxRate {
+    readonly currency: string;
+    readonly year: number;
+    readonly period: number;
+    /** Average rate over the period (income statement) */
+    readonly average: number;
+    /** Rate at the end of the period (balance sheet) */
+    readonly closing: number;
+}
+
+/**
+ * Rate type applied to a row
+ */
+export type RateType = 'average' | 'closing';
+
+/**
+ * Trial balance row (the fields translation uses)
+ */
+export interface CurrencyRow {
+    readonly account_code?: string;
+    readonly statement_type?: string;
+    readonly year: number;
+    readonly period: number;
+    readonly movement_amount: number;
+    readonly [field: string]: any;
+}
+
+/**
+ * Trial balance row after translation
+ */
+export type TranslatedRow<T extends CurrencyRow = CurrencyRow> = T & {
+    /** Amount in the local currency */
+    readonly local_amount: number;
+    /** Local currency of the dataset */
+    readonly currency: string;
+};
+
+/**
+ * Movements and balances of one dataset
+ */
+export interface TrialBalanceRows<T extends CurrencyRow = CurrencyRow> {
+    readonly movements: readonly T[];
+    readonly balances: readonly T[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Presentation currency when none is configured
+ */
+export const DEFAULT_PRESENTATION_CURRENCY = 'EUR';
+
+/**
+ * Column names read by parseFxRates(), lower case
+ */
+export const FX_RATE_COLUMNS = ['currency', 'year', 'period', 'average', 'closing'] as const;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+const rateKey = (currency: string, year: number, period: number): string =>
+    `${currency.toUpperCase()}|${year}|${period}`;
+
+const toNumber = (value: unknown): number =>
+    typeof value === 'number' ? value : parseFloat(String(value ?? '').trim().replace(',', '.'));
+
+/**
+ * Parse an FX rate table
+ *
+ * Accepts rows of cell values with a header row (e.g. a CSV dim table) or
+ * objects (e.g. a JSON dim table) with the columns currency, year, period,
+ * average and closing.
+ *
+ * @param rows - Header row and rate rows, or rate objects
+ * @returns FX rates
+ * @throws Error naming the missing columns or the first invalid row
+ *
+ * @example
+ * parseFxRates([['currency', 'year', 'period', 'average', 'closing'], ['USD', '2025', '1', '0.92', '0.93']]);
+ * // [{ currency: 'USD', year: 2025, period: 1, average: 0.92, closing: 0.93 }]
+ */
+export const parseFxRates = (rows: readonly unknown[]): FxRate[] => {
+    if (rows.length === 0) {
+        return [];
+    }
+
+    const records: Record<string, unknown>[] = Array.isArray(rows[0])
+        ? (() => {
+            const headers = (rows[0] as unknown[]).map(header => String(header ?? '').trim().toLowerCase());
+            const missing = FX_RATE_COLUMNS.filter(column => !headers.includes(column));
+            if (missing.length > 0) {
+                throw new Error(`FX rate table is missing columns: ${missing.join(', ')}`);
+            }
+            return rows.slice(1).map(row =>
+                Object.fromEntries(headers.map((header, index) => [header, (row as unknown[])[index]])));
+        })()
+        : rows.map(row => Object.fromEntries(
+            Object.entries(row as Record<string, unknown>).map(([key, value]) => [key.toLowerCase(), value])));
+
+    return records.map((record, index) => {
+        const rate: FxRate = {
+            currency: String(record.currency ?? '').trim().toUpperCase(),
+            year: toNumber(record.year),
+            period: toNumber(record.period),
+            average: toNumber(record.average),
+            closing: toNumber(record.closing)
+        };
+        if (!rate.currency || !Number.isInteger(rate.year) || !Number.isInteger(rate.period) ||
+            !(rate.average > 0) || !(rate.closing > 0)) {
+            throw new Error(`Invalid FX rate in row ${index + 1}: ${JSON.stringify(record)}`);
+        }
+        return rate;
+    });
+};
+
+/**
+ * Create a rate lookup for a set of FX rates
+ *
+ * @param rates - FX rates
+ * @returns Lookup returning the rate of a type, or undefined if not in the table
+ */
+export const createRateLookup = (
+    rates: readonly FxRate[]
+): (currency: string, year: number, period: number, type: RateType) => number | undefined => {
+    const byKey = new Map(rates.map(rate => [rateKey(rate.currency, rate.year, rate.period), rate]));
+    return (currency, year, period, type) => byKey.get(rateKey(currency, year, period))?.[type];
+};
+
+/**
+ * Get the rate type a row is translated at
+ *
+ * @param row - Trial balance row
+ * @returns 'average' for income statement rows, 'closing' for balance sheet rows
+ */
+export const rateTypeOf = (row: Pick<CurrencyRow, 'statement_type'>): RateType =>
+    row.statement_type === 'IS' ? 'average' : 'closing';
+
+const roundAmount = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
+/**
+ * Translate the trial balance of a dataset into the presentation currency
+ *
+ * Translated rows keep their local amount in `local_amount` and their
+ * currency in `currency`. Translation difference rows (one per year and
+ * period with a difference) are built from `translationAccount`, which holds
+ * the account and hierarchy fields of the equity line.
+ *
+ * @param rows - Movements and balances in local currency
+ * @param currency - Local currency of the dataset
+ * @param rates - FX rates
+ * @param translationAccount - Row fields of the translation difference account
+ * @returns Translated movements and balances, translation differences included
+ * @throws Error if a rate needed for a row is not in the rate table
+ */
+export const translateTrialBalance = <T extends CurrencyRow>(
+    rows: TrialBalanceRows<T>,
+    currency: string,
+    rates: readonly FxRate[],
+    translationAccount: Readonly<Record<string, unknown>>
+): TrialBalanceRows<TranslatedRow<T>> => {
+    const lookup = createRateLookup(rates);
+    const rateOf = (year: number, period: number, type: RateType): number => {
+        const rate = lookup(currency, year, period, type);
+        if (rate === undefined) {
+            throw new Error(`No ${type} ${currency} rate for ${year} period ${period}`);
+        }
+        return rate;
+    };
+    const translate = (row: T, amount: number): TranslatedRow<T> => ({
+        ...row,
+        movement_amount: roundAmount(amount),
+        local_amount: row.movement_amount,
+        currency
+    });
+
+    const movements = rows.movements.map(row =>
+        translate(row, row.movement_amount * rateOf(row.year, row.period, rateTypeOf(row))));
+
+    // Income statement balances: translated movements to date, the rest at the average rate
+    const accountKey = (row: T): string => `${row.account_code}|${row.statement_type}|${row.year}`;
+    const movementsByAccount = new Map<string, TranslatedRow<T>[]>();
+    for (const movement of movements) {
+        movementsByAccount.set(accountKey(movement), [...(movementsByAccount.get(accountKey(movement)) || []), movement]);
+    }
+    const cumulative = (row: T, field: 'movement_amount' | 'local_amount'): number =>
+        (movementsByAccount.get(accountKey(row)) || [])
+            .filter(movement => movement.period <= row.period)
+            .reduce((total, movement) => total + (Number(movement[field]) || 0), 0);
+
+    const balances = rows.balances.map(row => {
+        if (rateTypeOf(row) === 'closing') {
+            return translate(row, row.movement_amount * rateOf(row.year, row.period, 'closing'));
+        }
+        const unexplained = row.movement_amount - cumulative(row, 'local_amount');
+        return translate(row, cumulative(row, 'movement_amount') + unexplained * rateOf(row.year, row.period, 'average'));
+    });
+
+    // Translation difference: everything at the closing rate less the rows as translated
+    const differences = (local: readonly T[], translated: readonly TranslatedRow<T>[]): TranslatedRow<T>[] => {
+        const groups = new Map<string, { template: T; difference: number }>();
+        local.forEach((row, index) => {
+            const key = `${row.year}|${row.period}`;
+            const group = groups.get(key) || { template: row, difference: 0 };
+            group.difference += row.movement_amount * rateOf(row.year, row.period, 'closing') -
+                translated[index].movement_amount;
+            groups.set(key, group);
+        });
+
+        return [...groups.values()]
+            .filter(({ difference }) => Math.abs(roundAmount(difference)) > 0)
+            .map(({ template, difference }) => ({
+                ...template,
+                ...translationAccount,
+                statement_type: 'BS',
+                movement_amount: roundAmount(difference),
+                local_amount: 0,
+                currency
+            }));
+    };
+
+    return {
+        movements: [...movements, ...differences(rows.movements, movements)],
+        balances: [...balances, ...differences(rows.balances, balances)]
+    };
+};
+
+/**
+ * Get the symbol of a currency
+ *
+ * @param currency - ISO 4217 currency code
+ * @param locale - Locale used for the symbol
+ * @returns Currency symbol (e.g. '€', '$', '£'), or the code if it has none
+ *
+ * @example
+ * currencySymbol('EUR'); // '€'
+ * currencySymbol('CHF'); // 'CHF'
+ */
+export const currencySymbol = (currency: string, locale: string = 'en'): string => {
+    try {
+        const parts = new Intl.NumberFormat(locale, {
+            style: 'currency',
+            currency,
+            currencyDisplay: 'narrowSymbol'
+        }).formatToParts(0);
+        return parts.find(part => part.type === 'currency')?.value || currency;
+    } catch {
+        return currency;
+    }
+};
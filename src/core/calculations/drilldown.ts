@@ -0,0 +1,353 @@
+/**
+ * Drill-Down Functions - Pure Functions
+ *
+ * Answers "what is in this number" for a statement row:
+ *
+ * - `buildAccountBreakdown`: the accounts matched by a row's filter, with their
+ *   amount in each period column and in each underlying period
+ * - `buildFormulaTree`: for calculated rows and subtotals, the rows and
+ *   variables the value is built from, resolved down to variables and
+ *   category rows (the leaves an account breakdown can be built for)
+ *
+ * Account amounts follow the row's aggregate: `closing` variables take each
+ * account's balance in the column's closing period, all other rows sum the
+ * account's rows in the column. The totals of the breakdown therefore tie to
+ * the statement for sum and closing rows; for other aggregates (average,
+ * count, ...) the breakdown shows the underlying amounts only.
+ *
+ * @example
+ * import { buildAccountBreakdown, buildFormulaTree } from './drilldown.ts';
+ *
+ * const breakdown = buildAccountBreakdown(data, { code1: '500' }, columns);
+ * breakdown.accounts[0]; // { account_code: '8000', columns: { 2025: -120000 }, periods: {...} }
+ *
+ * const tree = buildFormulaTree(grossMarginRow, rows, reportDef.variables);
+ * tree.children; // [@100 Revenue, @200 Cost of sales]
+ */
+
+import { parseReferenceKey, getDependencies } from '../expressions/evaluator.ts';
+import type { FilterSpec } from '../filters/filter.ts';
+import { applyFilter } from '../filters/filter.ts';
+import { buildVariableFilter } from '../variables/resolver.ts';
+import {
+    amountField,
+    buildColumnFilterExpression,
+    type ColumnValues,
+    type PeriodColumn
+} from './columns.ts';
+
+// Arquero table type (using any since arquero is loaded globally via CDN)
+type ColumnTable = any;
+
+/**
+ * Movement or balance row as produced by DataLoader
+ */
+interface TrialBalanceRow {
+    readonly account_code?: string;
+    readonly account_description?: string;
+    readonly code1?: string;
+    readonly name1?: string;
+    readonly year?: number;
+    readonly period?: number;
+    readonly scenario?: string;
+    readonly movement_amount?: number;
+}
+
+/**
+ * Period with data for at least one contributing account
+ */
+export interface DrillDownPeriod {
+    /** Unique key, e.g. '2025-3' or 'budget:2025-3' */
+    readonly key: string;
+    readonly year: number;
+    readonly period: number;
+    readonly scenario?: string;
+    readonly label: string;
+}
+
+/**
+ * Contributing account with its amounts
+ */
+export interface DrillDownAccount {
+    readonly account_code: string;
+    readonly account_description: string;
+    readonly code1: string;
+    readonly name1: string;
+    /** Amount per period column key */
+    readonly columns: ColumnValues;
+    /** Amount per period key (DrillDownPeriod.key) */
+    readonly periods: Readonly<Record<string, number>>;
+}
+
+/**
+ * Accounts behind a filtered row
+ */
+export interface AccountBreakdown {
+    readonly periods: readonly DrillDownPeriod[];
+    readonly accounts: readonly DrillDownAccount[];
+    /** Sum of the accounts per period column key */
+    readonly totals: ColumnValues;
+}
+
+/**
+ * Statement row as rendered by ReportRenderer (the fields drill-down uses)
+ */
+export interface DrillDownRow {
+    readonly order?: number;
+    readonly label?: string;
+    readonly type?: string;
+    readonly _metadata?: {
+        readonly variable?: string;
+        readonly expression?: string;
+        readonly filter?: any;
+        readonly calculatedFrom?: readonly [number, number];
+    };
+    readonly [field: string]: any;
+}
+
+/**
+ * Variable definition (the fields drill-down uses)
+ */
+export interface DrillDownVariable {
+    readonly filter?: any;
+    readonly aggregate?: string;
+    readonly include?: readonly string[];
+    readonly exclude?: readonly string[];
+}
+
+/**
+ * Node of a formula tree
+ *
+ * `row` nodes are statement rows referenced with @order (or included in a
+ * subtotal), `variable` nodes are report variables. Leaves with a filter can
+ * be drilled down to accounts.
+ */
+export interface FormulaNode {
+    readonly kind: 'row' | 'variable';
+    /** Reference as written in the expression, e.g. '@100', 'revenue[prior]' */
+    readonly reference: string;
+    readonly label: string;
+    readonly rowType?: string;
+    readonly order?: number;
+    readonly variable?: string;
+    /** Period selector of the reference (prior, P-1, 2024) */
+    readonly period?: string;
+    readonly expression?: string;
+    readonly filter?: any;
+    readonly aggregate?: string;
+    /** Amounts per column; absent for period references and unknown values */
+    readonly amounts?: ColumnValues;
+    readonly children: readonly FormulaNode[];
+    /** Set when the reference was already expanded higher up the tree */
+    readonly circular?: boolean;
+}
+
+const SKIPPED_SUBTOTAL_TYPES = ['spacer', 'subtotal'];
+
+const periodKey = (row: TrialBalanceRow): string =>
+    `${row.scenario ? `${row.scenario}:` : ''}${row.year}-${row.period}`;
+
+const periodLabel = (row: TrialBalanceRow): string =>
+    `${row.scenario ? `${row.scenario} ` : ''}${row.year} P${row.period}`;
+
+const comparePeriods = (a: DrillDownPeriod, b: DrillDownPeriod): number =>
+    (a.scenario ?? '').localeCompare(b.scenario ?? '') || a.year - b.year || a.period - b.period;
+
+/**
+ * List the accounts behind a filter with their amounts per column and period
+ *
+ * @param data - Arquero table the statement was rendered from
+ * @param filter - Filter of the row or variable
+ * @param columns - Period columns of the statement
+ * @param aggregate - Aggregate of the variable ('closing' uses the closing period per column)
+ * @returns Contributing accounts sorted by account code
+ *
+ * @example
+ * const breakdown = buildAccountBreakdown(data, { code1: ['500', '510'] }, buildYearColumns([2024, 2025]));
+ * breakdown.totals; // { 2024: -950000, 2025: -1020000 } (the row's amounts)
+ */
+export const buildAccountBreakdown = (
+    data: ColumnTable,
+    filter: FilterSpec | null | undefined,
+    columns: readonly PeriodColumn[],
+    aggregate = 'sum'
+): AccountBreakdown => {
+    const filtered = applyFilter(filter || {})(data);
+    const accounts = new Map<string, {
+        account_code: string;
+        account_description: string;
+        code1: string;
+        name1: string;
+        columns: ColumnValues;
+        periods: Record<string, number>;
+    }>();
+    const periods = new Map<string, DrillDownPeriod>();
+    const totals: ColumnValues = {};
+
+    const accountOf = (row: TrialBalanceRow) => {
+        const code = String(row.account_code ?? '');
+        if (!accounts.has(code)) {
+            accounts.set(code, {
+                account_code: code,
+                account_description: String(row.account_description ?? ''),
+                code1: String(row.code1 ?? ''),
+                name1: String(row.name1 ?? ''),
+                columns: Object.fromEntries(columns.map(column => [column.key, 0])),
+                periods: {}
+            });
+        }
+        return accounts.get(code)!;
+    };
+
+    for (const column of columns) {
+        const expression = buildColumnFilterExpression(column);
+        let rows: TrialBalanceRow[] = filtered.filter(expression).objects();
+        totals[column.key] = 0;
+
+        // Balances: the column shows the closing period of the unfiltered data
+        if (aggregate === 'closing' && rows.length > 0) {
+            const periods = data.filter(expression).array('period') as number[];
+            const closingPeriod = periods.reduce((max, period) => Math.max(max, period));
+            rows = rows.filter(row => Number(row.period) === closingPeriod);
+        }
+
+        for (const row of rows) {
+            const amount = Number(row.movement_amount) || 0;
+            accountOf(row).columns[column.key] += amount;
+            totals[column.key] += amount;
+        }
+    }
+
+    // Per period: every row in any of the columns, once (columns may overlap)
+    if (columns.length > 0) {
+        const conditions = columns.map(column =>
+            `(${buildColumnFilterExpression(column).replace(/^d => /, '')})`);
+        const rows: TrialBalanceRow[] = filtered.filter(`d => ${conditions.join(' || ')}`).objects();
+
+        for (const row of rows) {
+            const key = periodKey(row);
+            const account = accountOf(row);
+            account.periods[key] = (account.periods[key] ?? 0) + (Number(row.movement_amount) || 0);
+
+            if (!periods.has(key)) {
+                periods.set(key, {
+                    key,
+                    year: Number(row.year),
+                    period: Number(row.period),
+                    ...(row.scenario ? { scenario: row.scenario } : {}),
+                    label: periodLabel(row)
+                });
+            }
+        }
+    }
+
+    return {
+        periods: [...periods.values()].sort(comparePeriods),
+        accounts: [...accounts.values()].sort((a, b) =>
+            a.account_code.localeCompare(b.account_code, undefined, { numeric: true })),
+        totals
+    };
+};
+
+const rowAmounts = (row: DrillDownRow, columns: readonly PeriodColumn[]): ColumnValues =>
+    Object.fromEntries(columns.map(column => [column.key, Number(row[amountField(column.key)]) || 0]));
+
+/**
+ * Build the tree of rows and variables a statement row is calculated from
+ *
+ * Calculated rows get a child per reference in their expression, subtotals a
+ * child per row they add up (spacers and nested subtotals excluded, as in the
+ * statement). Referenced calculated rows and subtotals are expanded in turn;
+ * variables and category rows are leaves carrying their filter. A reference
+ * that is already being expanded higher up the tree is marked `circular`.
+ *
+ * @param row - Statement row to explain
+ * @param rows - All rows of the statement
+ * @param variables - Variable definitions of the report
+ * @param columns - Period columns of the statement
+ * @returns Formula tree with the row as root
+ *
+ * @example
+ * // @300 Gross margin: "@100 + @200"
+ * const tree = buildFormulaTree(rows[2], rows, reportDef.variables, columns);
+ * tree.children.map(child => child.label); // ['Revenue', 'Cost of sales']
+ */
+export const buildFormulaTree = (
+    row: DrillDownRow,
+    rows: readonly DrillDownRow[],
+    variables: Readonly<Record<string, DrillDownVariable>> = {},
+    columns: readonly PeriodColumn[] = []
+): FormulaNode => {
+    const byOrder = new Map(rows.map(item => [String(item.order), item]));
+    const variableRow = (name: string) => rows.find(item => item._metadata?.variable === name);
+    // Filter with the variable's include/exclude account lists applied
+    const variableFilter = (name: string) => variables[name] ? buildVariableFilter(variables[name]) : undefined;
+
+    const variableNode = (reference: string, name: string, period: string | null): FormulaNode => {
+        const shown = variableRow(name);
+        return {
+            kind: 'variable',
+            reference,
+            label: shown?.label || name,
+            variable: name,
+            ...(period ? { period } : {}),
+            filter: variableFilter(name),
+            aggregate: variables[name]?.aggregate,
+            ...(!period && shown ? { amounts: rowAmounts(shown, columns) } : {}),
+            children: []
+        };
+    };
+
+    const rowNode = (item: DrillDownRow, reference: string, period: string | null, stack: readonly string[]): FormulaNode => {
+        const key = String(item.order);
+        const metadata = item._metadata || {};
+        const node = {
+            kind: 'row' as const,
+            reference,
+            label: item.label || reference,
+            rowType: item.type,
+            order: item.order,
+            ...(period ? { period } : {}),
+            ...(metadata.variable ? { variable: metadata.variable } : {}),
+            ...(metadata.expression ? { expression: metadata.expression } : {}),
+            filter: metadata.filter ?? (metadata.variable ? variableFilter(metadata.variable) : undefined),
+            aggregate: metadata.variable ? variables[metadata.variable]?.aggregate : undefined,
+            ...(!period ? { amounts: rowAmounts(item, columns) } : {})
+        };
+
+        if (stack.includes(key)) {
+            return { ...node, children: [], circular: true };
+        }
+        const nextStack = [...stack, key];
+
+        if (metadata.expression) {
+            const dependencies = getDependencies(metadata.expression);
+            const references = dependencies.success ? dependencies.value : [];
+            return { ...node, children: references.map(dependency => referenceNode(dependency, nextStack)) };
+        }
+
+        if (metadata.calculatedFrom) {
+            const [from, to] = metadata.calculatedFrom;
+            const included = rows.filter(candidate =>
+                typeof candidate.order === 'number' && candidate.order >= from && candidate.order <= to &&
+                !SKIPPED_SUBTOTAL_TYPES.includes(String(candidate.type)));
+            return { ...node, children: included.map(candidate => rowNode(candidate, `@${candidate.order}`, null, nextStack)) };
+        }
+
+        return { ...node, children: [] };
+    };
+
+    const referenceNode = (dependency: string, stack: readonly string[]): FormulaNode => {
+        const { name, period } = parseReferenceKey(dependency);
+        if (name.startsWith('@')) {
+            const referenced = byOrder.get(name.slice(1));
+            if (referenced) {
+                return rowNode(referenced, dependency, period, stack);
+            }
+            return { kind: 'row', reference: dependency, label: dependency, ...(period ? { period } : {}), children: [] };
+        }
+        return variableNode(dependency, name, period);
+    };
+
+    return rowNode(row, row.order !== undefined ? `@${row.order}` : row.label || '', null, []);
+};
@@ -2,8 +2,17 @@
  * Expression Evaluator - Functional Implementation
  * 
  * Pure functional parser and evaluator for arithmetic expressions.
- * Supports arithmetic operations (+, -, *, /), parentheses, variable references,
- * order references (@10, @20), and numeric literals.
+ * Supports arithmetic operations (+, -, *, /), comparisons (<, <=, >, >=, ==, !=),
+ * function calls (abs, min, max, round, if, safe_div), parentheses, variable
+ * references, order references (@10, @20), and numeric literals.
+ *
+ * Comparisons evaluate to 1 (true) or 0 (false); conditions treat any non-zero
+ * value as true.
+ *
+ * Variable and order references can select another period column with a
+ * period selector: `revenue[prior]`, `revenue[P-1]` or `@100[2024]`. The
+ * evaluator looks these up in the context under the full reference key
+ * (e.g. 'revenue[prior]'); the caller maps selectors to period columns.
  * 
  * Uses recursive descent parsing with memoization for performance.
  * All functions are pure with no side effects.
@@ -25,6 +34,10 @@
  * // Complex expressions
  * evaluateExpression("(revenue - cogs) / revenue * 100", { revenue: 100000, cogs: 60000 })
  * // Returns: ok(40)
+ *
+ * // Functions and conditions: EBITDA margin, or 0 when revenue is zero
+ * evaluateExpression("if(revenue == 0, 0, ebitda / revenue * 100)", { revenue: 0, ebitda: 500 })
+ * // Returns: ok(0)
  */
 
 import { type Result, ok, err, resultFlatMap, memoize } from '../utils/index.ts';
@@ -45,12 +58,24 @@ export interface Token {
     readonly type: TokenType;
     readonly value: string;
     readonly position: number;
+    /** Period selector of a variable or order reference (e.g. 'prior') */
+    readonly period?: string;
 }
 
 /**
  * AST node types
  */
-export type ASTNodeType = 'number' | 'variable' | 'order' | 'unary' | 'binary';
+export type ASTNodeType = 'number' | 'variable' | 'order' | 'unary' | 'binary' | 'function';
+
+/**
+ * Arithmetic operators
+ */
+export type ArithmeticOperator = '+' | '-' | '*' | '/';
+
+/**
+ * Comparison operators (evaluate to 1 or 0)
+ */
+export type ComparisonOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
 
 /**
  * Number literal node
@@ -66,6 +91,8 @@ export interface NumberNode {
 export interface VariableNode {
     readonly type: 'variable';
     readonly name: string;
+    /** Period selector (revenue[prior]); absent for the current column */
+    readonly period?: string;
 }
 
 /**
@@ -74,6 +101,8 @@ export interface VariableNode {
 export interface OrderNode {
     readonly type: 'order';
     readonly name: string;
+    /** Period selector (@100[2024]); absent for the current column */
+    readonly period?: string;
 }
 
 /**
@@ -86,19 +115,28 @@ export interface UnaryNode {
 }
 
 /**
- * Binary operator node (+, -, *, /)
+ * Binary operator node (+, -, *, /, <, <=, >, >=, ==, !=)
  */
 export interface BinaryNode {
     readonly type: 'binary';
-    readonly operator: '+' | '-' | '*' | '/';
+    readonly operator: ArithmeticOperator | ComparisonOperator;
     readonly left: ASTNode;
     readonly right: ASTNode;
 }
 
+/**
+ * Function call node (abs(x), round(x, 2), etc.)
+ */
+export interface FunctionNode {
+    readonly type: 'function';
+    readonly name: string;
+    readonly args: readonly ASTNode[];
+}
+
 /**
  * Union of all AST node types
  */
-export type ASTNode = NumberNode | VariableNode | OrderNode | UnaryNode | BinaryNode;
+export type ASTNode = NumberNode | VariableNode | OrderNode | UnaryNode | BinaryNode | FunctionNode;
 
 /**
  * Expression evaluation context with variable values
@@ -123,6 +161,156 @@ interface ParserState {
     readonly position: number;
 }
 
+/**
+ * Built-in expression function
+ */
+export interface ExpressionFunction {
+    /** Minimum number of arguments */
+    readonly minArgs: number;
+    /** Maximum number of arguments (Infinity for variadic functions) */
+    readonly maxArgs: number;
+    /** Signature shown in documentation and error messages */
+    readonly signature: string;
+    /** Compute the result from evaluated arguments */
+    readonly apply: (args: readonly number[]) => number;
+}
+
+// ============================================================================
+// Period References
+// ============================================================================
+
+/**
+ * Valid period selectors: prior (same period, previous year), P-<n> (n periods
+ * of the column's length earlier) or a four-digit year
+ */
+export const PERIOD_SELECTOR_PATTERN = /^(prior|P-[1-9]\d*|\d{4})$/;
+
+/**
+ * Build the context key of a (cross-period) reference
+ *
+ * @param name - Variable name or order reference (@100)
+ * @param period - Optional period selector
+ * @returns Context key, e.g. 'revenue' or 'revenue[prior]'
+ */
+export const referenceKey = (name: string, period?: string | null): string =>
+    period ? `${name}[${period}]` : name;
+
+/**
+ * Split a context key into name and period selector
+ *
+ * @param key - Context key, e.g. '@100[2024]'
+ * @returns Name and period selector (null for the current column)
+ *
+ * @example
+ * parseReferenceKey('revenue[P-1]'); // { name: 'revenue', period: 'P-1' }
+ * parseReferenceKey('@100');         // { name: '@100', period: null }
+ */
+export const parseReferenceKey = (key: string): { name: string; period: string | null } => {
+    const match = /^(.+)\[([^\]]+)\]$/.exec(key);
+    return match ? { name: match[1], period: match[2] } : { name: key, period: null };
+};
+
+/**
+ * Normalize a period selector ('PRIOR' -> 'prior', 'p-1' -> 'P-1')
+ */
+export const normalizePeriodSelector = (selector: string): string => {
+    const trimmed = selector.replace(/\s+/g, '');
+    return trimmed.toLowerCase() === 'prior' ? 'prior' : trimmed.toUpperCase();
+};
+
+/**
+ * Read an optional [selector] suffix starting at position i
+ *
+ * @private
+ * @returns Selector and the position after it, or an error
+ */
+const readPeriodSelector = (
+    expression: string,
+    i: number
+): { period?: string; end: number } | Error => {
+    if (expression[i] !== '[') {
+        return { end: i };
+    }
+
+    const close = expression.indexOf(']', i);
+    if (close === -1) {
+        return new Error(`Missing closing bracket for period selector at position ${i}`);
+    }
+
+    const period = normalizePeriodSelector(expression.substring(i + 1, close));
+    if (!PERIOD_SELECTOR_PATTERN.test(period)) {
+        return new Error(
+            `Invalid period selector '${expression.substring(i + 1, close)}' at position ${i} ` +
+            `(expected prior, P-<n> or a year)`
+        );
+    }
+
+    return { period, end: close + 1 };
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Round half away from zero to a number of decimals (negative decimals round to tens, hundreds, ...)
+ *
+ * @private
+ */
+const roundHalfAwayFromZero = (value: number, decimals: number): number => {
+    const factor = Math.pow(10, Math.trunc(decimals));
+    return Math.sign(value) * Math.round(Math.abs(value) * factor) / factor;
+};
+
+/**
+ * Functions available in expressions
+ *
+ * `if` only evaluates the selected branch, so `if(revenue == 0, 0, ebitda / revenue)`
+ * never divides by zero.
+ *
+ * @example
+ * evaluateExpression("round(safe_div(ebitda, revenue) * 100, 1)", { ebitda: 125, revenue: 1000 })
+ * // Returns: ok(12.5)
+ */
+export const EXPRESSION_FUNCTIONS: Readonly<Record<string, ExpressionFunction>> = {
+    abs: {
+        minArgs: 1,
+        maxArgs: 1,
+        signature: 'abs(x)',
+        apply: ([x]) => Math.abs(x)
+    },
+    min: {
+        minArgs: 1,
+        maxArgs: Infinity,
+        signature: 'min(a, b, ...)',
+        apply: (args) => Math.min(...args)
+    },
+    max: {
+        minArgs: 1,
+        maxArgs: Infinity,
+        signature: 'max(a, b, ...)',
+        apply: (args) => Math.max(...args)
+    },
+    round: {
+        minArgs: 1,
+        maxArgs: 2,
+        signature: 'round(x, decimals)',
+        apply: ([x, decimals = 0]) => roundHalfAwayFromZero(x, decimals)
+    },
+    if: {
+        minArgs: 3,
+        maxArgs: 3,
+        signature: 'if(condition, then, else)',
+        apply: ([condition, whenTrue, whenFalse]) => condition !== 0 ? whenTrue : whenFalse
+    },
+    safe_div: {
+        minArgs: 2,
+        maxArgs: 3,
+        signature: 'safe_div(a, b, fallback)',
+        apply: ([a, b, fallback = 0]) => b === 0 ? fallback : a / b
+    }
+};
+
 // ============================================================================
 // Tokenization (Lexical Analysis)
 // ============================================================================
@@ -131,7 +319,8 @@ interface ParserState {
  * Tokenize an expression string into tokens
  * 
  * Pure function that converts a string into an array of tokens.
- * Handles numbers, variables, order references, operators, and parentheses.
+ * Handles numbers, variables, order references, operators, parentheses and commas.
+ * Function names are tokenized as variables; the parser tells them apart.
  * 
  * @param expression - Expression string to tokenize
  * @returns Result with token array or error
@@ -186,7 +375,10 @@ export const tokenize = (expression: string): Result<readonly Token[], Error> =>
                 if (value === '@') {
                     return err(new Error(`Invalid order reference at position ${start}`));
                 }
-                tokens.push({ type: 'order', value, position: start });
+                const selector = readPeriodSelector(expression, i);
+                if (selector instanceof Error) return err(selector);
+                i = selector.end;
+                tokens.push({ type: 'order', value, position: start, ...(selector.period ? { period: selector.period } : {}) });
                 continue;
             }
 
@@ -198,12 +390,31 @@ export const tokenize = (expression: string): Result<readonly Token[], Error> =>
                     value += expression[i];
                     i++;
                 }
-                tokens.push({ type: 'variable', value, position: start });
+                const selector = readPeriodSelector(expression, i);
+                if (selector instanceof Error) return err(selector);
+                i = selector.end;
+                tokens.push({ type: 'variable', value, position: start, ...(selector.period ? { period: selector.period } : {}) });
                 continue;
             }
 
-            // Operators and parentheses
-            if ('+-*/()'.includes(char)) {
+            // Comparison operators (<, <=, >, >=, ==, !=)
+            if ('<>=!'.includes(char)) {
+                const twoChars = expression.substring(i, i + 2);
+                if (['<=', '>=', '==', '!='].includes(twoChars)) {
+                    tokens.push({ type: 'operator', value: twoChars, position: i });
+                    i += 2;
+                    continue;
+                }
+                if (char === '<' || char === '>') {
+                    tokens.push({ type: 'operator', value: char, position: i });
+                    i++;
+                    continue;
+                }
+                return err(new Error(`Unexpected character '${char}' at position ${i} (use '==' or '!=' to compare)`));
+            }
+
+            // Operators, parentheses and argument separators
+            if ('+-*/(),'.includes(char)) {
                 tokens.push({ type: 'operator', value: char, position: i });
                 i++;
                 continue;
@@ -228,7 +439,41 @@ export const tokenize = (expression: string): Result<readonly Token[], Error> =>
  * @private
  */
 const parseExpression = (state: ParserState): Result<[ASTNode, ParserState], Error> =>
-    parseAddSub(state);
+    parseComparison(state);
+
+const COMPARISON_OPERATORS: readonly string[] = ['<', '<=', '>', '>=', '==', '!='];
+
+/**
+ * Parse a comparison (lowest precedence, not chainable)
+ * 
+ * @private
+ */
+const parseComparison = (state: ParserState): Result<[ASTNode, ParserState], Error> => {
+    const leftResult = parseAddSub(state);
+    if (!leftResult.success) return leftResult;
+
+    const [left, newState] = leftResult.value;
+    if (newState.position >= newState.tokens.length) {
+        return ok([left, newState]);
+    }
+
+    const token = newState.tokens[newState.position];
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.value)) {
+        const rightResult = parseAddSub({ ...newState, position: newState.position + 1 });
+        if (!rightResult.success) return rightResult;
+
+        const [right, finalState] = rightResult.value;
+        const binaryNode: BinaryNode = {
+            type: 'binary',
+            operator: token.value as ComparisonOperator,
+            left,
+            right
+        };
+        return ok([binaryNode, finalState]);
+    }
+
+    return ok([left, newState]);
+};
 
 /**
  * Parse addition and subtraction (lower precedence)
@@ -360,11 +605,20 @@ const parsePrimary = (state: ParserState): Result<[ASTNode, ParserState], Error>
         return ok([node, { ...state, position: state.position + 1 }]);
     }
 
+    // Function calls
+    if (token.type === 'variable' && !token.period) {
+        const next = state.tokens[state.position + 1];
+        if (next && next.type === 'operator' && next.value === '(') {
+            return parseFunctionCall(token, { ...state, position: state.position + 2 });
+        }
+    }
+
     // Variables
     if (token.type === 'variable') {
         const node: VariableNode = {
             type: 'variable',
-            name: token.value
+            name: token.value,
+            ...(token.period ? { period: token.period } : {})
         };
         return ok([node, { ...state, position: state.position + 1 }]);
     }
@@ -373,7 +627,8 @@ const parsePrimary = (state: ParserState): Result<[ASTNode, ParserState], Error>
     if (token.type === 'order') {
         const node: OrderNode = {
             type: 'order',
-            name: token.value
+            name: token.value,
+            ...(token.period ? { period: token.period } : {})
         };
         return ok([node, { ...state, position: state.position + 1 }]);
     }
@@ -402,6 +657,66 @@ const parsePrimary = (state: ParserState): Result<[ASTNode, ParserState], Error>
     return err(new Error(`Unexpected token '${token.value}' at position ${token.position}`));
 };
 
+/**
+ * Parse function call arguments after the opening parenthesis
+ * 
+ * @private
+ */
+const parseFunctionCall = (nameToken: Token, state: ParserState): Result<[ASTNode, ParserState], Error> => {
+    const fn = EXPRESSION_FUNCTIONS[nameToken.value];
+    if (!fn) {
+        return err(new Error(
+            `Unknown function '${nameToken.value}' at position ${nameToken.position}. ` +
+            `Available functions: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`
+        ));
+    }
+
+    const args: ASTNode[] = [];
+    let current = state;
+    const isOperator = (value: string) => current.position < current.tokens.length &&
+        current.tokens[current.position].type === 'operator' &&
+        current.tokens[current.position].value === value;
+
+    let hasNextArg = !isOperator(')');
+    while (hasNextArg) {
+        const argResult = parseExpression(current);
+        if (!argResult.success) return argResult;
+
+        const [arg, newState] = argResult.value;
+        args.push(arg);
+        current = newState;
+
+        hasNextArg = isOperator(',');
+        if (hasNextArg) {
+            current = { ...current, position: current.position + 1 };
+        }
+    }
+
+    if (current.position >= current.tokens.length) {
+        return err(new Error('Missing closing parenthesis'));
+    }
+    if (!isOperator(')')) {
+        const token = current.tokens[current.position];
+        return err(new Error(`Expected ')' but found '${token.value}' at position ${token.position}`));
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs
+            ? `${fn.minArgs}`
+            : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+        return err(new Error(
+            `Function ${fn.signature} expects ${expected} argument(s), got ${args.length} at position ${nameToken.position}`
+        ));
+    }
+
+    const node: FunctionNode = {
+        type: 'function',
+        name: nameToken.value,
+        args
+    };
+    return ok([node, { ...current, position: current.position + 1 }]);
+};
+
 /**
  * Parse expression string into AST
  * 
@@ -495,17 +810,21 @@ export const evaluateAST = (
         case 'number':
             return ok(ast.value);
 
-        case 'variable':
-            if (!(ast.name in context)) {
-                return err(new Error(`Undefined variable: ${ast.name}`));
+        case 'variable': {
+            const key = referenceKey(ast.name, ast.period);
+            if (!(key in context)) {
+                return err(new Error(`Undefined variable: ${key}`));
             }
-            return ok(context[ast.name] || 0);
+            return ok(context[key] || 0);
+        }
 
-        case 'order':
-            if (!(ast.name in context)) {
-                return err(new Error(`Undefined order reference: ${ast.name}`));
+        case 'order': {
+            const key = referenceKey(ast.name, ast.period);
+            if (!(key in context)) {
+                return err(new Error(`Undefined order reference: ${key}`));
             }
-            return ok(context[ast.name] || 0);
+            return ok(context[key] || 0);
+        }
 
         case 'unary':
             return resultFlatMap((operandValue: number) =>
@@ -534,15 +853,59 @@ export const evaluateAST = (
                         return err(new Error('Division by zero'));
                     }
                     return ok(leftValue / rightValue);
+                case '<':
+                    return ok(leftValue < rightValue ? 1 : 0);
+                case '<=':
+                    return ok(leftValue <= rightValue ? 1 : 0);
+                case '>':
+                    return ok(leftValue > rightValue ? 1 : 0);
+                case '>=':
+                    return ok(leftValue >= rightValue ? 1 : 0);
+                case '==':
+                    return ok(leftValue === rightValue ? 1 : 0);
+                case '!=':
+                    return ok(leftValue !== rightValue ? 1 : 0);
                 default:
                     return err(new Error(`Unknown operator: ${(ast as BinaryNode).operator}`));
             }
 
+        case 'function':
+            return evaluateFunction(ast, context);
+
         default:
             return err(new Error(`Unknown node type: ${(ast as any).type}`));
     }
 };
 
+/**
+ * Evaluate a function call node
+ * 
+ * `if` evaluates its condition first and then only the selected branch.
+ * 
+ * @private
+ */
+const evaluateFunction = (ast: FunctionNode, context: ExpressionContext): Result<number, Error> => {
+    const fn = EXPRESSION_FUNCTIONS[ast.name];
+    if (!fn) {
+        return err(new Error(`Unknown function: ${ast.name}`));
+    }
+
+    if (ast.name === 'if') {
+        const conditionResult = evaluateAST(ast.args[0], context);
+        if (!conditionResult.success) return conditionResult;
+        return evaluateAST(conditionResult.value !== 0 ? ast.args[1] : ast.args[2], context);
+    }
+
+    const values: number[] = [];
+    for (const arg of ast.args) {
+        const argResult = evaluateAST(arg, context);
+        if (!argResult.success) return argResult;
+        values.push(argResult.value);
+    }
+
+    return ok(fn.apply(values));
+};
+
 /**
  * Evaluate an expression string with given context
  * 
@@ -634,11 +997,11 @@ export const validateExpression = (expression: string): ValidationResult => {
 const collectDependencies = (ast: ASTNode, dependencies: Set<string>): Set<string> => {
     switch (ast.type) {
         case 'variable':
-            dependencies.add(ast.name);
+            dependencies.add(referenceKey(ast.name, ast.period));
             return dependencies;
 
         case 'order':
-            dependencies.add(ast.name);
+            dependencies.add(referenceKey(ast.name, ast.period));
             return dependencies;
 
         case 'unary':
@@ -649,6 +1012,10 @@ const collectDependencies = (ast: ASTNode, dependencies: Set<string>): Set<strin
             collectDependencies(ast.right, dependencies);
             return dependencies;
 
+        case 'function':
+            ast.args.forEach(arg => collectDependencies(arg, dependencies));
+            return dependencies;
+
         case 'number':
             return dependencies;
 
@@ -675,6 +1042,12 @@ const collectDependencies = (ast: ASTNode, dependencies: Set<string>): Set<strin
  * 
  * getDependencies("(revenue - cogs) / revenue * 100")
  * // Returns: ok(['revenue', 'cogs'])
+ * 
+ * getDependencies("safe_div(ebitda, revenue)")
+ * // Returns: ok(['ebitda', 'revenue'])
+ * 
+ * getDependencies("revenue / revenue[prior] - 1")
+ * // Returns: ok(['revenue', 'revenue[prior]'])
  */
 export const getDependencies = (expression: string): Result<readonly string[], Error> => {
     const parseResult = parseExpressionMemoized(expression);
@@ -2,8 +2,10 @@
  * Filter Functions - Functional Implementation
  * 
  * Pure functions for filtering Arquero tables based on filter specifications.
- * Supports exact match filters, array filters (OR logic), and range filters.
- * All filters within a specification are combined with AND logic.
+ * Supports exact match filters, array filters (OR logic), range filters and
+ * pattern filters (contains, startsWith, endsWith, regex). Code fields accept
+ * wildcards ("4*"). All filters within a specification are combined with AND
+ * logic; anyOf, allOf and not group filter specifications.
  * 
  * @example
  * import { applyFilter, validateFilter } from './filter.ts';
@@ -22,6 +24,13 @@
  *   code1: "700", 
  *   statement_type: "Winst & verlies" 
  * })(table);
+ *
+ * // Patterns, wildcards and groups
+ * const filtered5 = applyFilter({
+ *   account_code: { gte: "4*", lte: "45*" },
+ *   anyOf: [{ name1: { contains: "huur" } }, { name2: { regex: "^lease" } }],
+ *   not: { name3: { startsWith: "Afschrijving" } }
+ * })(table);
  */
 
 import { type Result, ok, err } from '../utils/index.ts';
@@ -43,16 +52,34 @@ export interface RangeFilter {
     readonly lt?: string | number;
 }
 
+/**
+ * Pattern filter operators, matched case-insensitively
+ */
+export interface PatternFilter {
+    readonly contains?: string;
+    readonly startsWith?: string;
+    readonly endsWith?: string;
+    /** Regular expression (JavaScript syntax) */
+    readonly regex?: string;
+}
+
 /**
  * Filter value types
  */
-export type FilterValue = string | number | readonly (string | number)[] | RangeFilter;
+export type FilterValue = string | number | readonly (string | number)[] | RangeFilter | PatternFilter;
 
 /**
  * Filter specification object
+ *
+ * Fields are combined with AND logic. anyOf matches rows that match any of
+ * its specifications, allOf rows that match all of them, and not rows that
+ * do not match its specification.
  */
 export interface FilterSpec {
-    readonly [field: string]: FilterValue;
+    readonly anyOf?: readonly FilterSpec[];
+    readonly allOf?: readonly FilterSpec[];
+    readonly not?: FilterSpec;
+    readonly [field: string]: FilterValue | FilterSpec | readonly FilterSpec[] | undefined;
 }
 
 /**
@@ -98,6 +125,21 @@ export const VALID_FIELDS: readonly FilterField[] = [
     'account_code'
 ] as const;
 
+/**
+ * Keys that group filter specifications
+ */
+export const GROUP_KEYS = ['anyOf', 'allOf', 'not'] as const;
+
+/**
+ * Pattern operators
+ */
+export const PATTERN_OPERATORS: readonly (keyof PatternFilter)[] = ['contains', 'startsWith', 'endsWith', 'regex'];
+
+/**
+ * Fields whose values may contain wildcards: * for any characters, ? for one
+ */
+export const WILDCARD_FIELDS: readonly FilterField[] = ['code1', 'code2', 'code3', 'account_code'];
+
 // ============================================================================
 // Filter Expression Building
 // ============================================================================
@@ -114,6 +156,57 @@ export const VALID_FIELDS: readonly FilterField[] = [
 const escapeValue = (value: string | number): string =>
     String(value).replace(/'/g, "\\'");
 
+/**
+ * Check whether a value of a field is a wildcard pattern
+ *
+ * @param field - Field name
+ * @param value - Filter value
+ * @returns True for values of code fields containing * or ?
+ *
+ * @example
+ * isWildcard('account_code', '4*') // Returns: true
+ * isWildcard('name1', '4*')        // Returns: false
+ */
+export const isWildcard = (field: string, value: unknown): value is string =>
+    typeof value === 'string' && /[*?]/.test(value) && WILDCARD_FIELDS.includes(field as FilterField);
+
+// Regular expression source of a wildcard value: * for any characters, ? for one
+const wildcardSource = (value: string): string =>
+    `^${value.split('').map(char =>
+        char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\/]/g, '\\$&')).join('')}$`;
+
+/**
+ * Build a case-insensitive regular expression literal
+ *
+ * @param source - Regular expression source
+ * @returns Literal usable in a filter expression, e.g. /^4.*0$/i
+ */
+const regexLiteral = (source: string): string => String(new RegExp(source, 'i'));
+
+/**
+ * Build condition for a wildcard value
+ *
+ * A value ending in * (and without other wildcards) is a prefix; other
+ * wildcard values are matched as a whole with * for any characters and ?
+ * for one character.
+ *
+ * @param field - Field name
+ * @param value - Wildcard value
+ * @returns Filter condition string
+ *
+ * @example
+ * buildWildcardCondition('account_code', '4*')
+ * // Returns: "op.startswith(d.account_code, '4')"
+ */
+const buildWildcardCondition = (field: string, value: string): string => {
+    const prefix = value.slice(0, -1);
+    if (value.endsWith('*') && !/[*?]/.test(prefix)) {
+        return `op.startswith(d.${field}, '${escapeValue(prefix)}')`;
+    }
+
+    return `op.match(d.${field}, ${regexLiteral(wildcardSource(value))}) != null`;
+};
+
 /**
  * Build condition for exact match filter
  * 
@@ -126,7 +219,7 @@ const escapeValue = (value: string | number): string =>
  * // Returns: "d.code1 === '700'"
  */
 const buildExactMatchCondition = (field: string, value: string | number): string =>
-    `d.${field} === '${escapeValue(value)}'`;
+    isWildcard(field, value) ? buildWildcardCondition(field, value) : `d.${field} === '${escapeValue(value)}'`;
 
 /**
  * Build condition for array filter (OR logic)
@@ -140,6 +233,10 @@ const buildExactMatchCondition = (field: string, value: string | number): string
  * // Returns: "['700','710'].includes(d.code1)"
  */
 const buildArrayCondition = (field: string, values: readonly (string | number)[]): string => {
+    if (values.some(v => isWildcard(field, v))) {
+        return `(${values.map(v => buildExactMatchCondition(field, v)).join(' || ')})`;
+    }
+
     const escapedValues = values.map(v => `'${escapeValue(v)}'`);
     return `[${escapedValues.join(',')}].includes(d.${field})`;
 };
@@ -147,6 +244,9 @@ const buildArrayCondition = (field: string, values: readonly (string | number)[]
 /**
  * Build condition for range filter
  * 
+ * A bound ending in * on a code field covers all values starting with it:
+ * { gte: '4*', lte: '45*' } includes '4' up to and including '4599'.
+ * 
  * @param field - Field name
  * @param rangeFilter - Range filter specification
  * @returns Filter condition string
@@ -157,18 +257,59 @@ const buildArrayCondition = (field: string, values: readonly (string | number)[]
  */
 const buildRangeCondition = (field: string, rangeFilter: RangeFilter): string => {
     const conditions: string[] = [];
+    // Prefix bounds: lte/gt compare against the last possible value with the prefix
+    const bound = (value: string | number, upper: boolean): string => {
+        const prefix = isWildcard(field, value) && value.endsWith('*') ? value.slice(0, -1) : null;
+        if (prefix === null) {
+            return escapeValue(value);
+        }
+        return upper ? `${escapeValue(prefix)}\\uffff` : escapeValue(prefix);
+    };
     
     if (rangeFilter.gte !== undefined) {
-        conditions.push(`d.${field} >= '${escapeValue(rangeFilter.gte)}'`);
+        conditions.push(`d.${field} >= '${bound(rangeFilter.gte, false)}'`);
     }
     if (rangeFilter.lte !== undefined) {
-        conditions.push(`d.${field} <= '${escapeValue(rangeFilter.lte)}'`);
+        conditions.push(`d.${field} <= '${bound(rangeFilter.lte, true)}'`);
     }
     if (rangeFilter.gt !== undefined) {
-        conditions.push(`d.${field} > '${escapeValue(rangeFilter.gt)}'`);
+        conditions.push(`d.${field} > '${bound(rangeFilter.gt, true)}'`);
     }
     if (rangeFilter.lt !== undefined) {
-        conditions.push(`d.${field} < '${escapeValue(rangeFilter.lt)}'`);
+        conditions.push(`d.${field} < '${bound(rangeFilter.lt, false)}'`);
+    }
+    
+    return conditions.join(' && ');
+};
+
+/**
+ * Build condition for pattern filter
+ * 
+ * Patterns are matched case-insensitively; several operators must all match.
+ * 
+ * @param field - Field name
+ * @param patternFilter - Pattern filter specification
+ * @returns Filter condition string
+ * 
+ * @example
+ * buildPatternCondition('name1', { contains: 'Huur' })
+ * // Returns: "op.includes(op.lower(d.name1), 'huur')"
+ */
+const buildPatternCondition = (field: string, patternFilter: PatternFilter): string => {
+    const conditions: string[] = [];
+    const lower = (value: string) => escapeValue(value.toLowerCase());
+    
+    if (patternFilter.contains !== undefined) {
+        conditions.push(`op.includes(op.lower(d.${field}), '${lower(patternFilter.contains)}')`);
+    }
+    if (patternFilter.startsWith !== undefined) {
+        conditions.push(`op.startswith(op.lower(d.${field}), '${lower(patternFilter.startsWith)}')`);
+    }
+    if (patternFilter.endsWith !== undefined) {
+        conditions.push(`op.endswith(op.lower(d.${field}), '${lower(patternFilter.endsWith)}')`);
+    }
+    if (patternFilter.regex !== undefined) {
+        conditions.push(`op.match(d.${field}, ${regexLiteral(patternFilter.regex)}) != null`);
     }
     
     return conditions.join(' && ');
@@ -194,10 +335,42 @@ const buildFieldCondition = (field: string, value: FilterValue): string => {
     }
     
     if (typeof value === 'object' && value !== null) {
-        return buildRangeCondition(field, value as RangeFilter);
+        const range = buildRangeCondition(field, value as RangeFilter);
+        const pattern = buildPatternCondition(field, value as PatternFilter);
+        return range && pattern ? `${range} && ${pattern}` : range || pattern;
     }
     
-    return buildExactMatchCondition(field, value);
+    return buildExactMatchCondition(field, value as string | number);
+};
+
+/**
+ * Build the condition of a filter specification, including its groups
+ * 
+ * @param filterSpec - Filter specification
+ * @returns Filter condition string ('true' for an empty specification)
+ * 
+ * @example
+ * buildSpecCondition({ anyOf: [{ code1: '700' }, { code1: '710' }] })
+ * // Returns: "((d.code1 === '700') || (d.code1 === '710'))"
+ */
+const buildSpecCondition = (filterSpec: FilterSpec): string => {
+    const group = (specs: readonly FilterSpec[], operator: string) =>
+        `(${specs.map(spec => `(${buildSpecCondition(spec)})`).join(` ${operator} `)})`;
+
+    const conditions = Object.entries(filterSpec).map(([field, value]) => {
+        switch (field) {
+            case 'anyOf':
+                return group(value as readonly FilterSpec[], '||');
+            case 'allOf':
+                return group(value as readonly FilterSpec[], '&&');
+            case 'not':
+                return `!(${buildSpecCondition(value as FilterSpec)})`;
+            default:
+                return buildFieldCondition(field, value as FilterValue);
+        }
+    });
+
+    return conditions.length > 0 ? conditions.join(' && ') : 'true';
 };
 
 /**
@@ -205,7 +378,8 @@ const buildFieldCondition = (field: string, value: FilterValue): string => {
  * 
  * Combines multiple filter criteria with AND logic.
  * Array values are treated as OR logic within that field.
- * Range objects support gte, lte, gt, lt operators.
+ * Range objects support gte, lte, gt, lt operators; pattern objects
+ * contains, startsWith, endsWith and regex (Arquero op functions).
  * 
  * @param filterSpec - Filter specification object
  * @returns Arquero filter expression
@@ -222,13 +396,12 @@ const buildFieldCondition = (field: string, value: FilterValue): string => {
  * 
  * buildFilterExpression({ code1: "700", statement_type: "Winst & verlies" })
  * // Returns: "d => d.code1 === '700' && d.statement_type === 'Winst & verlies'"
+ * 
+ * buildFilterExpression({ name1: { startsWith: "Huur" }, not: { code2: "451" } })
+ * // Returns: "d => op.startswith(op.lower(d.name1), 'huur') && !(d.code2 === '451')"
  */
-export const buildFilterExpression = (filterSpec: FilterSpec): string => {
-    const conditions = Object.entries(filterSpec)
-        .map(([field, value]) => buildFieldCondition(field, value));
-    
-    return `d => ${conditions.join(' && ')}`;
-};
+export const buildFilterExpression = (filterSpec: FilterSpec): string =>
+    `d => ${buildSpecCondition(filterSpec)}`;
 
 // ============================================================================
 // Validation
@@ -261,6 +434,15 @@ const VALID_RANGE_OPERATORS: readonly (keyof RangeFilter)[] = ['gte', 'lte', 'gt
 const isValidRangeOperator = (operator: string): operator is keyof RangeFilter =>
     VALID_RANGE_OPERATORS.includes(operator as keyof RangeFilter);
 
+/**
+ * Check if a pattern operator is valid
+ * 
+ * @param operator - Operator to check
+ * @returns True if operator is valid
+ */
+const isValidPatternOperator = (operator: string): operator is keyof PatternFilter =>
+    PATTERN_OPERATORS.includes(operator as keyof PatternFilter);
+
 /**
  * Validate a filter value
  * 
@@ -271,6 +453,7 @@ const isValidRangeOperator = (operator: string): operator is keyof RangeFilter =
  * @example
  * validateFilterValue('code1', '700') // Returns: []
  * validateFilterValue('code1', null) // Returns: ['Filter value for code1 cannot be null or undefined']
+ * validateFilterValue('name1', { regex: '(' }) // Returns: ['Invalid regex for name1: ...']
  */
 const validateFilterValue = (field: string, value: FilterValue): readonly string[] => {
     const errors: string[] = [];
@@ -295,7 +478,7 @@ const validateFilterValue = (field: string, value: FilterValue): readonly string
         return errors;
     }
     
-    // Validate range filter
+    // Validate range and pattern filters
     if (typeof value === 'object') {
         const rangeKeys = Object.keys(value);
         
@@ -305,20 +488,80 @@ const validateFilterValue = (field: string, value: FilterValue): readonly string
         }
         
         // Check for invalid operators
-        const invalidOperators = rangeKeys.filter(key => !isValidRangeOperator(key));
+        const invalidOperators = rangeKeys.filter(key => !isValidRangeOperator(key) && !isValidPatternOperator(key));
         if (invalidOperators.length > 0) {
             errors.push(
                 `Invalid range operators for ${field}: ${invalidOperators.join(', ')}. ` +
-                `Valid operators are: ${VALID_RANGE_OPERATORS.join(', ')}`
+                `Valid operators are: ${[...VALID_RANGE_OPERATORS, ...PATTERN_OPERATORS].join(', ')}`
             );
         }
         
-        // Check for null/undefined range values
+        // Check for null/undefined range values and non-string patterns
         for (const [operator, rangeValue] of Object.entries(value)) {
             if (rangeValue === null || rangeValue === undefined) {
                 errors.push(`Range value for ${field}.${operator} cannot be null or undefined`);
+            } else if (isValidPatternOperator(operator) && typeof rangeValue !== 'string') {
+                errors.push(`Pattern for ${field}.${operator} must be a string`);
+            } else if (operator === 'regex') {
+                try {
+                    new RegExp(rangeValue as string);
+                } catch (error) {
+                    errors.push(`Invalid regex for ${field}: ${(error as Error).message}`);
+                }
+            }
+        }
+    }
+    
+    return errors;
+};
+
+/**
+ * Validate the fields and groups of a filter specification
+ * 
+ * @param filterSpec - Filter specification to validate
+ * @param path - Path of the specification within the top-level one, e.g. 'anyOf[1]'
+ * @returns Array of error messages (empty if valid)
+ */
+const validateFilterSpec = (filterSpec: FilterSpec, path: string): readonly string[] => {
+    const errors: string[] = [];
+    const at = (key: string) => path ? `${path}.${key}` : key;
+    
+    for (const [field, value] of Object.entries(filterSpec)) {
+        if (field === 'anyOf' || field === 'allOf') {
+            if (!Array.isArray(value) || value.length === 0) {
+                errors.push(`${at(field)} must be a non-empty array of filter specifications`);
+                continue;
+            }
+            value.forEach((spec, index) => {
+                if (!spec || typeof spec !== 'object' || Array.isArray(spec)) {
+                    errors.push(`${at(field)}[${index}] must be a filter specification object`);
+                } else {
+                    errors.push(...validateFilterSpec(spec as FilterSpec, `${at(field)}[${index}]`));
+                }
+            });
+            continue;
+        }
+        
+        if (field === 'not') {
+            if (!value || typeof value !== 'object' || Array.isArray(value) || Object.keys(value).length === 0) {
+                errors.push(`${at(field)} must be a non-empty filter specification object`);
+            } else {
+                errors.push(...validateFilterSpec(value as FilterSpec, at(field)));
             }
+            continue;
+        }
+        
+        // Check if field is valid
+        if (!isValidField(field)) {
+            errors.push(
+                `Invalid filter field: ${at(field)}. Valid fields are: ${VALID_FIELDS.join(', ')} ` +
+                `(or groups: ${GROUP_KEYS.join(', ')})`
+            );
+            continue;
         }
+        
+        // Validate the value
+        errors.push(...validateFilterValue(at(field), value as FilterValue));
     }
     
     return errors;
@@ -330,7 +573,9 @@ const validateFilterValue = (field: string, value: FilterValue): readonly string
  * Checks that:
  * - All filter fields are valid
  * - Filter values are of correct types
- * - Range operators are valid
+ * - Range and pattern operators are valid, and regex patterns compile
+ * - anyOf/allOf groups are non-empty arrays and not is an object,
+ *   whose specifications are validated the same way
  * 
  * @param filterSpec - Filter specification to validate
  * @returns Validation result with isValid flag and errors array
@@ -362,22 +607,8 @@ export const validateFilter = (filterSpec: FilterSpec): ValidationResult => {
         };
     }
     
-    // Validate each field
-    const errors: string[] = [];
-    
-    for (const [field, value] of Object.entries(filterSpec)) {
-        // Check if field is valid
-        if (!isValidField(field)) {
-            errors.push(
-                `Invalid filter field: ${field}. Valid fields are: ${VALID_FIELDS.join(', ')}`
-            );
-            continue;
-        }
-        
-        // Validate the value
-        const valueErrors = validateFilterValue(field, value);
-        errors.push(...valueErrors);
-    }
+    // Validate each field and group
+    const errors = validateFilterSpec(filterSpec, '');
     
     return {
         isValid: errors.length === 0,
@@ -461,6 +692,84 @@ export const applyFilterSafe = (filterSpec: FilterSpec) => (table: ColumnTable):
     }
 };
 
+// ============================================================================
+// Row Matching
+// ============================================================================
+
+/**
+ * Check whether a single field value matches a filter value
+ * 
+ * @param field - Field name
+ * @param value - Filter value
+ * @param text - Field value of the row as text, or null when missing
+ * @returns True when the value matches
+ */
+const matchesFieldValue = (field: string, value: FilterValue, text: string | null): boolean => {
+    if (text === null) {
+        return false;
+    }
+
+    if (Array.isArray(value)) {
+        return value.some(item => matchesFieldValue(field, item, text));
+    }
+
+    if (typeof value === 'object' && value !== null) {
+        const range = value as RangeFilter;
+        const pattern = value as PatternFilter;
+        const prefix = (bound: string | number) => isWildcard(field, bound) && bound.endsWith('*') ? bound.slice(0, -1) : null;
+        const lower = (bound: string | number) => prefix(bound) ?? String(bound);
+        const upper = (bound: string | number) => prefix(bound) !== null ? `${prefix(bound)}\uffff` : String(bound);
+        const lowerText = text.toLowerCase();
+
+        return (range.gte === undefined || text >= lower(range.gte)) &&
+            (range.lte === undefined || text <= upper(range.lte)) &&
+            (range.gt === undefined || text > upper(range.gt)) &&
+            (range.lt === undefined || text < lower(range.lt)) &&
+            (pattern.contains === undefined || lowerText.includes(pattern.contains.toLowerCase())) &&
+            (pattern.startsWith === undefined || lowerText.startsWith(pattern.startsWith.toLowerCase())) &&
+            (pattern.endsWith === undefined || lowerText.endsWith(pattern.endsWith.toLowerCase())) &&
+            (pattern.regex === undefined || new RegExp(pattern.regex, 'i').test(text));
+    }
+
+    if (isWildcard(field, value)) {
+        const prefix = value.slice(0, -1);
+        return value.endsWith('*') && !/[*?]/.test(prefix)
+            ? text.startsWith(prefix)
+            : new RegExp(wildcardSource(value), 'i').test(text);
+    }
+
+    return text === String(value);
+};
+
+/**
+ * Check whether a row matches a filter specification
+ * 
+ * Evaluates the specification in JavaScript with the same rules as the
+ * Arquero expression of buildFilterExpression, for plain objects such as the
+ * accounts of a chart of accounts. Field values are compared as text.
+ * 
+ * @param filterSpec - Filter specification
+ * @returns Function that takes a row and returns true when it matches
+ * 
+ * @example
+ * const isRent = matchesFilter({ account_code: '45*', not: { name3: { contains: 'lease' } } });
+ * isRent({ account_code: '4510', name3: 'Huur pand' }) // Returns: true
+ * accounts.filter(matchesFilter({ code1: ['700', '710'] }))
+ */
+export const matchesFilter = (filterSpec: FilterSpec) => (row: Readonly<Record<string, unknown>>): boolean =>
+    Object.entries(filterSpec).every(([field, value]) => {
+        switch (field) {
+            case 'anyOf':
+                return (value as readonly FilterSpec[]).some(spec => matchesFilter(spec)(row));
+            case 'allOf':
+                return (value as readonly FilterSpec[]).every(spec => matchesFilter(spec)(row));
+            case 'not':
+                return !matchesFilter(value as FilterSpec)(row);
+            default:
+                return matchesFieldValue(field, value as FilterValue, row[field] == null ? null : String(row[field]));
+        }
+    });
+
 // ============================================================================
 // Curried Versions
 // ============================================================================
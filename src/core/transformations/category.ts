@@ -206,6 +206,15 @@ export const isTax = matches(['belasting', 'tax']);
  */
 export const isDepreciation = matches(['afschrijving', 'depreciation', 'amortization']);
 
+/**
+ * Check if category is Cash or Cash Equivalents
+ * 
+ * @example
+ * isCash('Liquide middelen'); // true
+ * isCash('Vorderingen'); // false
+ */
+export const isCash = matches(CATEGORY_DEFINITIONS.CASH);
+
 /**
  * Check if category is Current Asset
  * 
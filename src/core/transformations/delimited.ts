@@ -0,0 +1,155 @@
+/**
+ * Delimited Text Parsing - Pure Functions
+ *
+ * Reads CSV and TSV exports into rows of cell values, the input
+ * readProfileRows() expects. Quoted fields (with doubled quotes, delimiters
+ * and line breaks inside), CRLF line endings and a UTF-8 byte order mark are
+ * handled; the delimiter is detected from the header line when not given.
+ *
+ * @example
+ * import { parseDelimited } from './delimited.ts';
+ *
+ * parseDelimited('Account;Amount\n8000;"-1.200,50"\n');
+ * // [['Account', 'Amount'], ['8000', '-1.200,50']]
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported delimiters
+ */
+export type Delimiter = ',' | ';' | '\t' | '|';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Delimiters tried by detectDelimiter(), in order of preference
+ */
+export const DELIMITERS: readonly Delimiter[] = [',', ';', '\t', '|'];
+
+/**
+ * File extensions read as delimited text instead of as a workbook
+ */
+export const DELIMITED_EXTENSIONS: readonly string[] = ['.csv', '.tsv', '.txt'];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Check whether a file is read as delimited text
+ *
+ * @param filename - File name
+ * @returns True for .csv, .tsv and .txt files
+ *
+ * @example
+ * isDelimitedFile('2025_trial_balance.CSV'); // true
+ * isDelimitedFile('2025_BalansenWinstverliesperperiode.xlsx'); // false
+ */
+export const isDelimitedFile = (filename: string): boolean => {
+    const lower = filename.toLowerCase();
+    return DELIMITED_EXTENSIONS.some(extension => lower.endsWith(extension));
+};
+
+const firstLine = (text: string): string => {
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') inQuotes = !inQuotes;
+        if (!inQuotes && (char === '\n' || char === '\r')) return text.slice(0, i);
+    }
+    return text;
+};
+
+/**
+ * Detect the delimiter of a delimited text
+ *
+ * The delimiter occurring most often outside quotes in the first line wins;
+ * ties go to the earlier delimiter in DELIMITERS.
+ *
+ * @param text - File contents
+ * @returns Detected delimiter (comma when none occurs)
+ *
+ * @example
+ * detectDelimiter('Account;Description;Amount\n'); // ';'
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+    const line = firstLine(text.replace(/^\uFEFF/, '')).replace(/"[^"]*"/g, '');
+    let best: Delimiter = ',';
+    let bestCount = 0;
+
+    for (const delimiter of DELIMITERS) {
+        const count = line.split(delimiter).length - 1;
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    }
+    return best;
+};
+
+/**
+ * Parse delimited text into rows of cell values
+ *
+ * Values are returned as text; empty lines are skipped.
+ *
+ * @param text - File contents
+ * @param delimiter - Field delimiter (detected from the first line when omitted)
+ * @returns Rows of cell values
+ *
+ * @example
+ * parseDelimited('a,"b ""quoted"", c"\r\n1,2\r\n');
+ * // [['a', 'b "quoted", c'], ['1', '2']]
+ */
+export const parseDelimited = (text: string, delimiter?: Delimiter): string[][] => {
+    const input = text.replace(/^\uFEFF/, '');
+    const separator = delimiter ?? detectDelimiter(input);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+        row.push(field);
+        if (row.length > 1 || row[0] !== '') {
+            rows.push(row);
+        }
+        row = [];
+        field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        endRow();
+    }
+
+    return rows;
+};
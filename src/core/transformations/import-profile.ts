@@ -0,0 +1,710 @@
+/**
+ * Import Profiles - Pure Functions
+ *
+ * An import profile describes the layout of a trial balance export, so
+ * DataLoader can read exports from other bookkeeping systems (Exact, Twinfield,
+ * AFAS, a generic spreadsheet) without converting them to the Dutch
+ * "BalansenWinstverliesperperiode" layout first:
+ *
+ * - `headerRow`: row number of the column headers (1-based)
+ * - `columns`: where the account, description, statement type and hierarchy
+ *   are found, by header text or by 1-based column number
+ * - `layout: "wide"`: one row per account, one column per period; the
+ *   `periodColumns` rules map headers to periods (first matching rule wins,
+ *   `{year}` in a pattern stands for the year being loaded)
+ * - `layout: "long"`: one row per account and period, with `period`, `amount`
+ *   (movement) and/or `balance` columns and an optional `year` column
+ * - `layout: "journal"`: one row per journal line, with a `date` column; lines
+ *   are bucketed into the period of their month
+ * - Long and journal layouts may give `debit` and `credit` columns instead of
+ *   a signed `amount`; text amounts use `decimalSeparator` and text dates
+ *   `dateFormat` (CSV exports)
+ * - `statementTypes`: values of the statement type column that mean balance
+ *   sheet (BS) or income statement (IS), on top of the Dutch defaults
+ *
+ * DEFAULT_IMPORT_PROFILE describes the Dutch layout DataLoader has always read.
+ * Profiles without balances (no balance column or rule) get a closing balance
+ * in period 12 summed from the movements, like the Dutch "Saldo" column.
+ *
+ * @example
+ * const profile: ImportProfile = {
+ *     profileId: 'generic-long',
+ *     layout: 'long',
+ *     columns: { accountCode: 'Account', accountDescription: 'Description', statementType: 'Type',
+ *                code1: 'Group', name1: 'Group name', period: 'Period', amount: 'Amount' },
+ *     statementTypes: { 'Balance sheet': 'BS', 'Profit and loss': 'IS' }
+ * };
+ * const records = readProfileRows(rows, profile, '2025');
+ */
+
+import { EXCEL_COLUMNS, MONTH_MAP, STATEMENT_TYPES } from '../../constants.ts';
+import { DELIMITERS, type Delimiter } from './delimited.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Column reference: header text (case-insensitive) or 1-based column number
+ */
+export type ColumnRef = string | number;
+
+/**
+ * Layout of the period amounts
+ */
+export type ImportLayout = 'wide' | 'long' | 'journal';
+
+/**
+ * Order of day, month and year in text dates
+ */
+export type ImportDateFormat = 'YYYY-MM-DD' | 'DD-MM-YYYY' | 'MM-DD-YYYY';
+
+/**
+ * Statement type code
+ */
+export type ImportStatementType = 'BS' | 'IS';
+
+/**
+ * Columns of an import profile
+ */
+export interface ImportColumns {
+    readonly accountCode: ColumnRef;
+    readonly accountDescription?: ColumnRef;
+    readonly statementType?: ColumnRef;
+    readonly code1?: ColumnRef;
+    readonly name1?: ColumnRef;
+    readonly code2?: ColumnRef;
+    readonly name2?: ColumnRef;
+    readonly code3?: ColumnRef;
+    readonly name3?: ColumnRef;
+    /** Long layout: period number (1-12, or e.g. "P03") */
+    readonly period?: ColumnRef;
+    /** Long layout: year; rows of other years are skipped */
+    readonly year?: ColumnRef;
+    /** Journal layout: booking date; lines of other years are skipped */
+    readonly date?: ColumnRef;
+    /** Long and journal layouts: movement amount */
+    readonly amount?: ColumnRef;
+    /** Long and journal layouts: debit and credit amounts (instead of `amount`) */
+    readonly debit?: ColumnRef;
+    readonly credit?: ColumnRef;
+    /** Long layout: balance at the end of the period */
+    readonly balance?: ColumnRef;
+}
+
+/**
+ * Wide layout: headers matching `match` (a case-insensitive regular
+ * expression, `{year}` replaced by the year being loaded) hold the amounts of `period`
+ */
+export interface PeriodColumnRule {
+    readonly match: string;
+    readonly period: number;
+    readonly type?: 'movement' | 'balance';
+}
+
+/**
+ * Import profile
+ */
+export interface ImportProfile {
+    readonly profileId: string;
+    readonly name?: string;
+    readonly layout: ImportLayout;
+    readonly headerRow?: number;
+    readonly columns: ImportColumns;
+    readonly periodColumns?: readonly PeriodColumnRule[];
+    readonly statementTypes?: Readonly<Record<string, ImportStatementType>>;
+    /** Statement type of rows without a recognised statement type (default IS) */
+    readonly defaultStatementType?: ImportStatementType;
+    /** Delimited text: field delimiter (detected when omitted) */
+    readonly delimiter?: Delimiter;
+    /** Delimited text: character encoding (default utf-8) */
+    readonly encoding?: string;
+    /** Decimal separator of text amounts (default ".") */
+    readonly decimalSeparator?: '.' | ',';
+    /** Order of text dates (default: year first if the date starts with it, else DD-MM-YYYY) */
+    readonly dateFormat?: ImportDateFormat;
+}
+
+/**
+ * Period column found in the headers (0-based column index)
+ */
+export interface ProfilePeriodColumn {
+    readonly columnIndex: number;
+    readonly period: number;
+    readonly columnName: string;
+}
+
+/**
+ * Amount of a record in one period
+ */
+export interface PeriodAmount {
+    readonly period: number;
+    readonly amount: number;
+}
+
+/**
+ * Account row read with a profile (hierarchy values as in the file)
+ *
+ * Field names match AccountMapper's row data, so special account mappings can
+ * be applied before the statement type is mapped with mapStatementType().
+ */
+export interface ImportedRecord {
+    readonly accountCode: string;
+    readonly accountDescription: string;
+    readonly statementType: string;
+    readonly level1Code: unknown;
+    readonly level1Label: unknown;
+    readonly level2Code: unknown;
+    readonly level2Label: unknown;
+    readonly level3Code: unknown;
+    readonly level3Label: unknown;
+    readonly movements: readonly PeriodAmount[];
+    readonly balances: readonly PeriodAmount[];
+}
+
+/**
+ * Validation result
+ */
+export interface ValidationResult {
+    readonly isValid: boolean;
+    readonly errors: readonly string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Supported layouts
+ */
+export const IMPORT_LAYOUTS: readonly ImportLayout[] = ['wide', 'long', 'journal'];
+
+/**
+ * Supported text date formats
+ */
+export const IMPORT_DATE_FORMATS: readonly ImportDateFormat[] = ['YYYY-MM-DD', 'DD-MM-YYYY', 'MM-DD-YYYY'];
+
+/**
+ * Period of derived closing balances
+ */
+export const CLOSING_PERIOD = 12;
+
+/**
+ * Statement type values recognised by every profile
+ */
+export const DEFAULT_STATEMENT_TYPES: Readonly<Record<string, ImportStatementType>> = {
+    'Balans': 'BS',
+    'Winst & verlies': 'IS',
+    [STATEMENT_TYPES.BALANCE_SHEET]: 'BS',
+    [STATEMENT_TYPES.INCOME_STATEMENT]: 'IS'
+};
+
+/**
+ * Layout of the "BalansenWinstverliesperperiode" export: hierarchy in fixed
+ * columns, one column per Dutch month ("januari2025"), "Voorafgaande
+ * journaalposten" in period 12 and a year-end balance column ("Saldo")
+ */
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+    profileId: 'default',
+    name: 'Balansen Winst & verlies per periode',
+    layout: 'wide',
+    headerRow: 1,
+    columns: {
+        accountCode: EXCEL_COLUMNS.ACCOUNT_CODE,
+        accountDescription: EXCEL_COLUMNS.ACCOUNT_DESCRIPTION,
+        statementType: EXCEL_COLUMNS.STATEMENT_TYPE,
+        code1: EXCEL_COLUMNS.CODE1,
+        name1: EXCEL_COLUMNS.NAME1,
+        code2: EXCEL_COLUMNS.CODE2,
+        name2: EXCEL_COLUMNS.NAME2,
+        code3: EXCEL_COLUMNS.CODE3,
+        name3: EXCEL_COLUMNS.NAME3
+    },
+    periodColumns: [
+        { match: '^(?=.*voorafgaande)(?=.*{year})', period: 12 },
+        ...Object.entries(MONTH_MAP).map(([month, period]) => ({ match: `^(?=.*${month})(?=.*{year})`, period })),
+        { match: 'saldo|balance', period: 12, type: 'balance' as const }
+    ]
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const isColumnRef = (value: unknown): boolean =>
+    (typeof value === 'string' && value.trim() !== '') ||
+    (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+const hasDebitCredit = (columns: ImportColumns): boolean =>
+    columns.debit !== undefined || columns.credit !== undefined;
+
+const isValidPattern = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern.replace(/\{year\}/g, '2000'), 'i');
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Validate an import profile
+ *
+ * @param profile - Import profile (e.g. parsed from config.json)
+ * @returns Validation result with error messages
+ *
+ * @example
+ * validateImportProfile({ profileId: 'x', layout: 'long', columns: { accountCode: 'Account' } });
+ * // { isValid: false, errors: ['columns.period is required for the long layout', ...] }
+ */
+export const validateImportProfile = (profile: ImportProfile): ValidationResult => {
+    const errors: string[] = [];
+
+    if (!profile || typeof profile !== 'object') {
+        return { isValid: false, errors: ['Import profile must be an object'] };
+    }
+    if (!profile.profileId || typeof profile.profileId !== 'string') {
+        errors.push('profileId is required');
+    }
+    if (!IMPORT_LAYOUTS.includes(profile.layout)) {
+        errors.push(`layout must be one of: ${IMPORT_LAYOUTS.join(', ')}`);
+    }
+    if (profile.headerRow !== undefined && !(Number.isInteger(profile.headerRow) && profile.headerRow > 0)) {
+        errors.push('headerRow must be a positive integer');
+    }
+
+    const columns = profile.columns;
+    if (!columns || typeof columns !== 'object') {
+        errors.push('columns is required');
+    } else {
+        if (!isColumnRef(columns.accountCode)) {
+            errors.push('columns.accountCode is required');
+        }
+        for (const [field, ref] of Object.entries(columns)) {
+            if (ref !== undefined && !isColumnRef(ref)) {
+                errors.push(`columns.${field} must be a header name or a column number`);
+            }
+        }
+        if (profile.layout === 'long') {
+            if (columns.period === undefined) {
+                errors.push('columns.period is required for the long layout');
+            }
+            if (columns.amount === undefined && columns.balance === undefined && !hasDebitCredit(columns)) {
+                errors.push('columns.amount, columns.debit/credit or columns.balance is required for the long layout');
+            }
+        }
+        if (profile.layout === 'journal') {
+            if (columns.date === undefined) {
+                errors.push('columns.date is required for the journal layout');
+            }
+            if (columns.amount === undefined && !hasDebitCredit(columns)) {
+                errors.push('columns.amount or columns.debit/credit is required for the journal layout');
+            }
+        }
+    }
+
+    if (profile.layout === 'wide') {
+        if (!Array.isArray(profile.periodColumns) || profile.periodColumns.length === 0) {
+            errors.push('periodColumns is required for the wide layout');
+        } else {
+            profile.periodColumns.forEach((rule, index) => {
+                if (typeof rule?.match !== 'string' || !isValidPattern(rule.match)) {
+                    errors.push(`periodColumns[${index}].match must be a valid regular expression`);
+                }
+                if (!Number.isInteger(rule?.period) || rule.period < 1) {
+                    errors.push(`periodColumns[${index}].period must be a positive integer`);
+                }
+                if (rule?.type !== undefined && rule.type !== 'movement' && rule.type !== 'balance') {
+                    errors.push(`periodColumns[${index}].type must be one of: movement, balance`);
+                }
+            });
+        }
+    }
+
+    for (const [value, type] of Object.entries(profile.statementTypes || {})) {
+        if (type !== 'BS' && type !== 'IS') {
+            errors.push(`statementTypes["${value}"] must be BS or IS`);
+        }
+    }
+    if (profile.defaultStatementType !== undefined && profile.defaultStatementType !== 'BS' && profile.defaultStatementType !== 'IS') {
+        errors.push('defaultStatementType must be BS or IS');
+    }
+    if (profile.delimiter !== undefined && !DELIMITERS.includes(profile.delimiter)) {
+        errors.push(`delimiter must be one of: ${DELIMITERS.map(delimiter => JSON.stringify(delimiter)).join(', ')}`);
+    }
+    if (profile.decimalSeparator !== undefined && profile.decimalSeparator !== '.' && profile.decimalSeparator !== ',') {
+        errors.push('decimalSeparator must be "." or ","');
+    }
+    if (profile.dateFormat !== undefined && !IMPORT_DATE_FORMATS.includes(profile.dateFormat)) {
+        errors.push(`dateFormat must be one of: ${IMPORT_DATE_FORMATS.join(', ')}`);
+    }
+
+    return { isValid: errors.length === 0, errors };
+};
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Get the plain value of a cell (formula results, rich text and hyperlinks as text)
+ *
+ * @param value - Cell value as read from the workbook
+ * @returns Plain value
+ */
+export const cellValue = (value: unknown): unknown => {
+    if (value === null || typeof value !== 'object' || value instanceof Date) {
+        return value;
+    }
+    const cell = value as Record<string, any>;
+    if ('result' in cell) return cell.result;
+    if (Array.isArray(cell.richText)) return cell.richText.map((part: any) => part.text).join('');
+    if ('text' in cell) return cell.text;
+    return value;
+};
+
+const normalizeHeader = (value: unknown): string =>
+    String(cellValue(value) ?? '').trim().toLowerCase();
+
+/**
+ * Find the column a reference points to
+ *
+ * @param headers - Header row values (0-based)
+ * @param ref - Header text or 1-based column number
+ * @returns 0-based column index, or -1 if the header is not found
+ *
+ * @example
+ * resolveColumn(['Account', 'Amount'], 'amount'); // 1
+ * resolveColumn(['Account', 'Amount'], 1); // 0
+ */
+export const resolveColumn = (headers: readonly unknown[], ref: ColumnRef | undefined): number => {
+    if (ref === undefined) return -1;
+    if (typeof ref === 'number') return ref - 1;
+
+    const wanted = ref.trim().toLowerCase();
+    return headers.findIndex(header => normalizeHeader(header) === wanted);
+};
+
+/**
+ * List the configured columns that are not in the headers
+ *
+ * Columns referenced by number are always present.
+ *
+ * @param headers - Header row values (0-based)
+ * @param profile - Import profile
+ * @returns Missing column names as configured
+ */
+export const findMissingColumns = (headers: readonly unknown[], profile: ImportProfile): string[] =>
+    Object.values(profile.columns)
+        .filter((ref): ref is string => typeof ref === 'string')
+        .filter(ref => resolveColumn(headers, ref) === -1);
+
+/**
+ * Find the period columns of a wide layout
+ *
+ * @param headers - Header row values (0-based)
+ * @param profile - Import profile
+ * @param year - Year being loaded (replaces {year} in the patterns)
+ * @returns Movement and balance columns
+ *
+ * @example
+ * findPeriodColumns(['Rekening', 'januari2025', 'Saldo'], DEFAULT_IMPORT_PROFILE, '2025');
+ * // { movements: [{ columnIndex: 1, period: 1, ... }], balances: [{ columnIndex: 2, period: 12, ... }] }
+ */
+export const findPeriodColumns = (
+    headers: readonly unknown[],
+    profile: ImportProfile,
+    year: string
+): { movements: ProfilePeriodColumn[]; balances: ProfilePeriodColumn[] } => {
+    const rules = (profile.periodColumns || []).map(rule => ({
+        ...rule,
+        pattern: new RegExp(rule.match.replace(/\{year\}/g, year), 'i')
+    }));
+    const movements: ProfilePeriodColumn[] = [];
+    const balances: ProfilePeriodColumn[] = [];
+
+    headers.forEach((header, columnIndex) => {
+        const columnName = String(cellValue(header) ?? '');
+        if (!columnName) return;
+
+        const rule = rules.find(candidate => candidate.pattern.test(columnName));
+        if (rule) {
+            (rule.type === 'balance' ? balances : movements).push({ columnIndex, period: rule.period, columnName });
+        }
+    });
+
+    return { movements, balances };
+};
+
+/**
+ * Parse a period value of a long layout ("3", 3, "P03", "2025-03")
+ *
+ * @param value - Cell value
+ * @returns Period number, or null if the value has no number
+ */
+export const parsePeriodValue = (value: unknown): number | null => {
+    const plain = cellValue(value);
+    if (typeof plain === 'number') return Number.isInteger(plain) ? plain : null;
+
+    const match = /(\d+)\D*$/.exec(String(plain ?? '').trim());
+    return match ? parseInt(match[1], 10) : null;
+};
+
+/**
+ * Parse an amount ("-1.200,50" with decimal separator ",", "(300)", 1200.5)
+ *
+ * Thousands separators and spaces are ignored; amounts in parentheses are negative.
+ *
+ * @param value - Cell value
+ * @param decimalSeparator - Decimal separator of text amounts
+ * @returns Amount, or null for empty or non-numeric values
+ *
+ * @example
+ * parseAmount('-1.200,50', ','); // -1200.5
+ * parseAmount('1,200.50'); // 1200.5
+ */
+export const parseAmount = (value: unknown, decimalSeparator: '.' | ',' = '.'): number | null => {
+    const plain = cellValue(value);
+    if (typeof plain === 'number') return isNaN(plain) ? null : plain;
+    if (plain === null || plain === undefined) return null;
+
+    let text = String(plain).replace(/[\s\u00a0]/g, '');
+    if (text === '') return null;
+
+    const negative = /^\(.*\)$/.test(text);
+    if (negative) text = text.slice(1, -1);
+
+    const thousands = decimalSeparator === ',' ? '.' : ',';
+    text = text.split(thousands).join('');
+    if (decimalSeparator === ',') text = text.replace(',', '.');
+
+    const amount = Number(text);
+    if (text === '' || isNaN(amount)) return null;
+    return negative ? -amount : amount;
+};
+
+/**
+ * Parse a booking date (Date, "2025-03-15", "15-03-2025", "20250315")
+ *
+ * @param value - Cell value
+ * @param dateFormat - Order of text dates (default: year first if the date starts with it, else DD-MM-YYYY)
+ * @returns Year and month, or null if the value is not a date
+ *
+ * @example
+ * parseDateValue('15-03-2025'); // { year: 2025, month: 3 }
+ * parseDateValue('03/15/2025', 'MM-DD-YYYY'); // { year: 2025, month: 3 }
+ */
+export const parseDateValue = (
+    value: unknown,
+    dateFormat?: ImportDateFormat
+): { year: number; month: number } | null => {
+    const plain = cellValue(value);
+    if (plain instanceof Date) {
+        return isNaN(plain.getTime()) ? null : { year: plain.getUTCFullYear(), month: plain.getUTCMonth() + 1 };
+    }
+
+    const text = String(plain ?? '').trim();
+    let year: number;
+    let month: number;
+
+    const yearFirst = /^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})(?:$|[T\s])/.exec(text);
+    const yearLast = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:$|[T\s])/.exec(text);
+    if (yearFirst && (dateFormat === undefined || dateFormat === 'YYYY-MM-DD')) {
+        year = parseInt(yearFirst[1], 10);
+        month = parseInt(yearFirst[2], 10);
+    } else if (yearLast && dateFormat !== 'YYYY-MM-DD') {
+        year = parseInt(yearLast[3], 10);
+        month = parseInt(dateFormat === 'MM-DD-YYYY' ? yearLast[1] : yearLast[2], 10);
+    } else {
+        return null;
+    }
+
+    return month >= 1 && month <= 12 ? { year, month } : null;
+};
+
+const nonZero = (amount: number | null): number | null =>
+    amount === null || amount === 0 ? null : amount;
+
+/**
+ * Check whether a profile reads balances (a balance column or balance rule)
+ *
+ * @param profile - Import profile
+ * @returns False when closing balances are derived from the movements
+ */
+export const hasBalanceSource = (profile: ImportProfile): boolean => {
+    if (profile.layout === 'wide') {
+        return (profile.periodColumns || []).some(rule => rule.type === 'balance');
+    }
+    return profile.layout === 'long' && profile.columns.balance !== undefined;
+};
+
+// Sums of text amounts: drop floating point noise (0.1 + 0.2)
+const roundSum = (amount: number): number => Math.round(amount * 1e6) / 1e6;
+
+const sumByPeriod = (amounts: Map<number, number>): PeriodAmount[] =>
+    [...amounts.entries()]
+        .map(([period, amount]): [number, number] => [period, roundSum(amount)])
+        .filter(([, amount]) => amount !== 0)
+        .sort(([a], [b]) => a - b)
+        .map(([period, amount]) => ({ period, amount }));
+
+/**
+ * Map a statement type value to BS or IS
+ *
+ * @param value - Value of the statement type column
+ * @param profile - Import profile
+ * @returns Statement type code (the profile's default for unknown values)
+ *
+ * @example
+ * mapStatementType('Balans', DEFAULT_IMPORT_PROFILE); // 'BS'
+ */
+export const mapStatementType = (value: unknown, profile: ImportProfile): ImportStatementType => {
+    const text = String(cellValue(value) ?? '').trim().toLowerCase();
+    const types = { ...DEFAULT_STATEMENT_TYPES, ...profile.statementTypes };
+
+    for (const [candidate, type] of Object.entries(types)) {
+        if (candidate.trim().toLowerCase() === text) {
+            return type;
+        }
+    }
+    return profile.defaultStatementType ?? 'IS';
+};
+
+/**
+ * Read the account rows of a sheet with an import profile
+ *
+ * Rows without an account code are skipped, as are zero and empty amounts
+ * (sparse representation). Wide layouts return one record per row. Long and
+ * journal layouts return one record per account, with its amounts summed per
+ * period; the first row of an account supplies its description and
+ * hierarchy. Rows with a year or date column are only read for the year
+ * being loaded. Profiles without balances get a closing balance in period 12
+ * (the sum of the movements).
+ *
+ * @param rows - Sheet rows (0-based arrays of cell values), including the header row
+ * @param profile - Import profile
+ * @param year - Year being loaded
+ * @returns Records in sheet order
+ *
+ * @example
+ * readProfileRows([['Account', 'Date', 'Amount'], ['8000', '2025-01-15', -100], ['8000', '2025-01-20', -50]],
+ *     { profileId: 'journal', layout: 'journal', columns: { accountCode: 'Account', date: 'Date', amount: 'Amount' } }, '2025');
+ * // [{ accountCode: '8000', movements: [{ period: 1, amount: -150 }], balances: [{ period: 12, amount: -150 }], ... }]
+ */
+export const readProfileRows = (
+    rows: readonly (readonly unknown[])[],
+    profile: ImportProfile,
+    year: string
+): ImportedRecord[] => {
+    const headerIndex = (profile.headerRow ?? 1) - 1;
+    const headers = rows[headerIndex] || [];
+    const column = (ref: ColumnRef | undefined) => resolveColumn(headers, ref);
+    const indexes = {
+        accountCode: column(profile.columns.accountCode),
+        accountDescription: column(profile.columns.accountDescription),
+        statementType: column(profile.columns.statementType),
+        code1: column(profile.columns.code1),
+        name1: column(profile.columns.name1),
+        code2: column(profile.columns.code2),
+        name2: column(profile.columns.name2),
+        code3: column(profile.columns.code3),
+        name3: column(profile.columns.name3),
+        period: column(profile.columns.period),
+        year: column(profile.columns.year),
+        date: column(profile.columns.date),
+        amount: column(profile.columns.amount),
+        debit: column(profile.columns.debit),
+        credit: column(profile.columns.credit),
+        balance: column(profile.columns.balance)
+    };
+    const periodColumns = profile.layout === 'wide' ? findPeriodColumns(headers, profile, year) : null;
+    const loadedYear = parseInt(year, 10);
+    const amountOf = (value: unknown) => parseAmount(value, profile.decimalSeparator);
+
+    // Long and journal layouts: amounts per account and period
+    const accounts = new Map<string, {
+        record: ImportedRecord;
+        movements: Map<number, number>;
+        balances: Map<number, number>;
+    }>();
+    const records: ImportedRecord[] = [];
+
+    for (const row of rows.slice(headerIndex + 1)) {
+        if (!row) continue;
+        const get = (index: number): unknown => {
+            if (index < 0) return null;
+            const plain = cellValue(row[index]);
+            return typeof plain === 'string' ? (plain.trim() === '' ? null : plain.trim()) : plain;
+        };
+        const accountCode = get(indexes.accountCode);
+        if (accountCode === null || accountCode === undefined) continue;
+
+        const record: ImportedRecord = {
+            accountCode: String(accountCode),
+            accountDescription: String(get(indexes.accountDescription) ?? ''),
+            statementType: String(get(indexes.statementType) ?? ''),
+            level1Code: get(indexes.code1),
+            level1Label: get(indexes.name1),
+            level2Code: get(indexes.code2),
+            level2Label: get(indexes.name2),
+            level3Code: get(indexes.code3),
+            level3Label: get(indexes.name3),
+            movements: [],
+            balances: []
+        };
+
+        if (periodColumns) {
+            const amountsOf = (columns: ProfilePeriodColumn[]) => columns.flatMap(periodColumn => {
+                const amount = nonZero(amountOf(row[periodColumn.columnIndex]));
+                return amount === null ? [] : [{ period: periodColumn.period, amount }];
+            });
+            records.push({
+                ...record,
+                movements: amountsOf(periodColumns.movements),
+                balances: amountsOf(periodColumns.balances)
+            });
+            continue;
+        }
+
+        let period: number | null;
+        if (profile.layout === 'journal') {
+            const date = parseDateValue(get(indexes.date), profile.dateFormat);
+            if (!date || date.year !== loadedYear) continue;
+            period = date.month;
+        } else {
+            if (indexes.year >= 0 && parsePeriodValue(get(indexes.year)) !== loadedYear) continue;
+            period = parsePeriodValue(get(indexes.period));
+        }
+        if (period === null) continue;
+
+        const amount = indexes.amount >= 0
+            ? amountOf(get(indexes.amount))
+            : (indexes.debit >= 0 || indexes.credit >= 0)
+                ? (amountOf(get(indexes.debit)) ?? 0) - (amountOf(get(indexes.credit)) ?? 0)
+                : null;
+        const balance = amountOf(get(indexes.balance));
+
+        if (!accounts.has(record.accountCode)) {
+            accounts.set(record.accountCode, { record, movements: new Map(), balances: new Map() });
+        }
+        const account = accounts.get(record.accountCode)!;
+        if (amount !== null) {
+            account.movements.set(period, (account.movements.get(period) ?? 0) + amount);
+        }
+        if (balance !== null) {
+            account.balances.set(period, (account.balances.get(period) ?? 0) + balance);
+        }
+    }
+
+    for (const { record, movements, balances } of accounts.values()) {
+        records.push({ ...record, movements: sumByPeriod(movements), balances: sumByPeriod(balances) });
+    }
+
+    if (hasBalanceSource(profile)) {
+        return records;
+    }
+    return records.map(record => {
+        const closing = roundSum(record.movements.reduce((total, movement) => total + movement.amount, 0));
+        return { ...record, balances: closing === 0 ? [] : [{ period: CLOSING_PERIOD, amount: closing }] };
+    });
+};
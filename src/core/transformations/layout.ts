@@ -0,0 +1,294 @@
+/**
+ * Report Layout Editing - Pure Functions
+ *
+ * Editing operations on the layout of a report definition, used by the report
+ * editor. Layout items are identified by their order, which expressions (@100)
+ * and subtotals (from/to) refer to, so operations that change orders also
+ * rewrite those references.
+ *
+ * All functions return new arrays and items; the layout passed in is not changed.
+ *
+ * @example
+ * import { createLayoutItem, moveLayoutItem } from './layout.ts';
+ *
+ * const layout = [...report.layout, createLayoutItem('spacer', report.layout)];
+ * const moved = moveLayoutItem(layout, layout.length - 1, 2); // spacer between the 2nd and 3rd row
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Layout item as far as editing is concerned
+ */
+export interface EditableLayoutItem {
+    readonly order: number;
+    readonly type?: string;
+    readonly label?: unknown;
+    readonly variable?: string;
+    readonly expression?: string;
+    readonly from?: number;
+    readonly to?: number;
+    readonly style?: string;
+}
+
+/**
+ * Layout item types that can be added in the editor
+ */
+export type NewLayoutItemType = 'variable' | 'calculated' | 'subtotal' | 'spacer';
+
+/**
+ * Value offered for a filter field, with a description (e.g. code1 '500' with its name1)
+ */
+export interface FieldSuggestion {
+    readonly value: string;
+    readonly label: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Distance between the orders of new and renumbered items
+ */
+export const ORDER_STEP = 10;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Sort layout items by order
+ *
+ * @param layout - Layout items
+ * @returns New array sorted by order
+ */
+export const sortLayout = <T extends EditableLayoutItem>(layout: readonly T[]): T[] =>
+    [...layout].sort((a, b) => a.order - b.order);
+
+/**
+ * Create a layout item to append to a layout
+ *
+ * The item gets the next multiple of ORDER_STEP after the last order. A new
+ * subtotal covers the whole layout; a new variable row shows the first
+ * variable given.
+ *
+ * @param type - Item type
+ * @param layout - Current layout
+ * @param variables - Variable names of the report
+ * @returns New layout item
+ *
+ * @example
+ * createLayoutItem('subtotal', [{ order: 100 }, { order: 200 }]);
+ * // { order: 210, type: 'subtotal', label: 'Subtotal', from: 100, to: 200, style: 'subtotal' }
+ */
+export const createLayoutItem = (
+    type: NewLayoutItemType,
+    layout: readonly EditableLayoutItem[],
+    variables: readonly string[] = []
+): EditableLayoutItem => {
+    const orders = layout.map(item => item.order);
+    const last = orders.length > 0 ? Math.max(...orders) : 0;
+    const order = (Math.floor(last / ORDER_STEP) + 1) * ORDER_STEP;
+
+    switch (type) {
+        case 'variable':
+            return { order, type, label: variables[0] ?? '', variable: variables[0] ?? '' };
+        case 'calculated':
+            return { order, type, label: '', expression: '' };
+        case 'subtotal':
+            return {
+                order,
+                type,
+                label: 'Subtotal',
+                from: orders.length > 0 ? Math.min(...orders) : order,
+                to: orders.length > 0 ? last : order,
+                style: 'subtotal'
+            };
+        case 'spacer':
+            return { order, type };
+    }
+};
+
+/**
+ * Give layout items new orders, rewriting the references to them
+ *
+ * Order references in expressions (@100, also with a period selector such as
+ * @100[prior]) follow their item. Subtotal ranges are mapped to the new orders
+ * of the first and last item they cover.
+ *
+ * @param layout - Layout items in the order they should get
+ * @param orders - New order per item, ascending
+ * @returns Layout with the new orders
+ *
+ * @example
+ * renumberLayout([{ order: 1 }, { order: 2, type: 'calculated', expression: '@1 * 2' }], [10, 20]);
+ * // [{ order: 10 }, { order: 20, type: 'calculated', expression: '@10 * 2' }]
+ */
+export const renumberLayout = <T extends EditableLayoutItem>(layout: readonly T[], orders: readonly number[]): T[] => {
+    const mapping = new Map(layout.map((item, index) => [item.order, orders[index]]));
+    const sorted = sortLayout(layout);
+
+    // A range bound may fall between items: map it to the first/last item it covers
+    const mapFrom = (from: number) => {
+        const item = sorted.find(candidate => candidate.order >= from);
+        return item ? mapping.get(item.order)! : from;
+    };
+    const mapTo = (to: number) => {
+        const item = [...sorted].reverse().find(candidate => candidate.order <= to);
+        return item ? mapping.get(item.order)! : to;
+    };
+
+    return layout.map((item, index) => {
+        let renumbered: T = { ...item, order: orders[index] };
+        if (typeof item.expression === 'string') {
+            renumbered = {
+                ...renumbered,
+                expression: item.expression.replace(/@(\d+)/g, (reference, order) =>
+                    mapping.has(Number(order)) ? `@${mapping.get(Number(order))}` : reference)
+            };
+        }
+        if (item.type === 'subtotal' && typeof item.from === 'number' && typeof item.to === 'number') {
+            renumbered = { ...renumbered, from: mapFrom(item.from), to: mapTo(item.to) };
+        }
+        return renumbered;
+    });
+};
+
+/**
+ * Move a layout item to another position
+ *
+ * The moved item gets a free order between its new neighbours, so no other
+ * item changes. When there is no free order between them, the whole layout is
+ * renumbered in steps of ORDER_STEP.
+ *
+ * @param layout - Layout items, sorted by order
+ * @param fromIndex - Current position of the item
+ * @param toIndex - Position to move the item to
+ * @returns Layout sorted by order, with the item at its new position
+ *
+ * @example
+ * moveLayoutItem([{ order: 100 }, { order: 200 }, { order: 300 }], 2, 0);
+ * // [{ order: 50 }, { order: 100 }, { order: 200 }]
+ */
+export const moveLayoutItem = <T extends EditableLayoutItem>(
+    layout: readonly T[],
+    fromIndex: number,
+    toIndex: number
+): T[] => {
+    if (fromIndex === toIndex || !layout[fromIndex] || toIndex < 0 || toIndex >= layout.length) {
+        return [...layout];
+    }
+
+    const reordered = [...layout];
+    const [item] = reordered.splice(fromIndex, 1);
+    reordered.splice(toIndex, 0, item);
+
+    const before = reordered[toIndex - 1]?.order ?? 0;
+    const after = reordered[toIndex + 1]?.order ?? before + 2 * ORDER_STEP;
+    const order = Math.floor((before + after) / 2);
+
+    if (order > before && order < after) {
+        return sortLayout(renumberLayout(reordered, reordered.map(candidate =>
+            candidate === item ? order : candidate.order)));
+    }
+
+    return renumberLayout(reordered, reordered.map((_, index) => (index + 1) * ORDER_STEP));
+};
+
+/**
+ * Rename a variable in the layout items that use it
+ *
+ * Variable rows showing the variable and expressions referring to it are
+ * updated; order references (@100) and other identifiers are left alone.
+ *
+ * @param layout - Layout items
+ * @param from - Current variable name
+ * @param to - New variable name
+ * @returns Layout referring to the new name
+ *
+ * @example
+ * renameVariableReferences([{ order: 300, type: 'calculated', expression: 'revenue - cogs' }], 'cogs', 'cost_of_sales');
+ * // [{ order: 300, type: 'calculated', expression: 'revenue - cost_of_sales' }]
+ */
+export const renameVariableReferences = <T extends EditableLayoutItem>(
+    layout: readonly T[],
+    from: string,
+    to: string
+): T[] => {
+    const reference = new RegExp(`(?<![\\w@.])${from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![\\w(])`, 'g');
+
+    return layout.map(item => {
+        if (item.type === 'variable' && item.variable === from) {
+            return { ...item, variable: to };
+        }
+        if (typeof item.expression === 'string') {
+            return { ...item, expression: item.expression.replace(reference, to) };
+        }
+        return item;
+    });
+};
+
+/**
+ * Collect the values of a filter field in the data, for autocompletion
+ *
+ * @param data - Arquero table with trial balance rows
+ * @param field - Field to collect (e.g. 'code1')
+ * @param labelField - Field describing a value (e.g. 'name1')
+ * @returns Distinct values, sorted, with the first description found for each
+ *
+ * @example
+ * collectFieldSuggestions(movements, 'code1', 'name1');
+ * // [{ value: '500', label: 'Netto-omzet' }, { value: '510', label: 'Kostprijs' }]
+ */
+export const collectFieldSuggestions = (data: any, field: string, labelField?: string): FieldSuggestion[] => {
+    if (!data || !data.columnNames?.().includes(field)) {
+        return [];
+    }
+
+    const values = data.array(field) as unknown[];
+    const labels = labelField && data.columnNames().includes(labelField) ? data.array(labelField) as unknown[] : [];
+    const suggestions = new Map<string, string>();
+    values.forEach((value, index) => {
+        if (value != null && value !== '' && !suggestions.has(String(value))) {
+            suggestions.set(String(value), labels[index] != null ? String(labels[index]) : '');
+        }
+    });
+
+    return [...suggestions.entries()]
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([value, label]) => ({ value, label }));
+};
+
+/**
+ * Parse a comma-separated filter value as typed in the editor
+ *
+ * @param input - Typed value, e.g. '500, 510'
+ * @returns A single value, a list of values, or undefined when empty
+ *
+ * @example
+ * parseFilterInput('500'); // '500'
+ * parseFilterInput('500, 510'); // ['500', '510']
+ */
+export const parseFilterInput = (input: string): string | string[] | undefined => {
+    const values = input.split(',').map(value => value.trim()).filter(value => value.length > 0);
+    if (values.length === 0) {
+        return undefined;
+    }
+    return values.length === 1 ? values[0] : values;
+};
+
+/**
+ * Format a filter value for editing (the inverse of parseFilterInput)
+ *
+ * @param value - Filter value
+ * @returns Comma-separated values; '' for values that are not a string or list (e.g. ranges)
+ */
+export const formatFilterInput = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return value.join(', ');
+    }
+    return typeof value === 'string' || typeof value === 'number' ? String(value) : '';
+};
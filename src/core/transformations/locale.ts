@@ -0,0 +1,135 @@
+/**
+ * Localized Labels - Pure Functions
+ *
+ * Report definitions can give a label as a single string or as a map from
+ * locale to text, e.g. { "nl": "Netto-omzet", "en": "Revenue" }. These
+ * functions pick the text for the requested locale, falling back to the
+ * report's default locale and then to the first text given.
+ *
+ * @example
+ * import { resolveLocalizedText } from './locale.ts';
+ *
+ * resolveLocalizedText({ nl: 'Netto-omzet', en: 'Revenue' }, 'en-GB', 'nl'); // 'Revenue'
+ * resolveLocalizedText({ nl: 'Netto-omzet', en: 'Revenue' }, 'de', 'nl');    // 'Netto-omzet'
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Text given as a plain string or per locale
+ */
+export type LocalizedText = string | Readonly<Record<string, string>>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Locale codes: a language, optionally followed by a region or script (e.g. 'en-GB')
+ */
+export const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Locales to try for a requested locale, most specific first
+ *
+ * @param locale - Locale code
+ * @returns The locale followed by its less specific forms
+ *
+ * @example
+ * localeFallbacks('zh-Hant-TW'); // ['zh-Hant-TW', 'zh-Hant', 'zh']
+ */
+export const localeFallbacks = (locale: string): string[] =>
+    locale.split('-').map((_, index, parts) => parts.slice(0, parts.length - index).join('-'));
+
+/**
+ * Pick the text for a locale
+ *
+ * Locale keys are compared case-insensitively. When neither the locale nor
+ * the default locale has a text, the first text of the map is used.
+ *
+ * @param text - Plain string or texts per locale
+ * @param locale - Requested locale (e.g. 'en' or 'en-GB')
+ * @param defaultLocale - Locale to fall back to
+ * @returns Text, or '' when none is given
+ *
+ * @example
+ * resolveLocalizedText('Netto-omzet', 'en'); // 'Netto-omzet'
+ * resolveLocalizedText({ nl: 'Netto-omzet', en: 'Revenue' }, undefined, 'nl'); // 'Netto-omzet'
+ */
+export const resolveLocalizedText = (
+    text: LocalizedText | null | undefined,
+    locale?: string,
+    defaultLocale?: string
+): string => {
+    if (!text) {
+        return '';
+    }
+    if (typeof text === 'string') {
+        return text;
+    }
+
+    const byLocale = new Map(Object.entries(text).map(([key, value]) => [key.toLowerCase(), value]));
+    const candidates = [locale, defaultLocale]
+        .filter((candidate): candidate is string => !!candidate)
+        .flatMap(candidate => localeFallbacks(candidate.toLowerCase()));
+
+    for (const candidate of candidates) {
+        const value = byLocale.get(candidate);
+        if (value) {
+            return value;
+        }
+    }
+
+    return Object.values(text).find(value => !!value) ?? '';
+};
+
+/**
+ * Collect the locales texts are given in
+ *
+ * @param texts - Plain strings and texts per locale
+ * @returns Locale codes in order of first appearance
+ *
+ * @example
+ * collectLocales(['Totaal', { nl: 'Netto-omzet', en: 'Revenue' }, { en: 'Costs', de: 'Kosten' }]);
+ * // ['nl', 'en', 'de']
+ */
+export const collectLocales = (texts: readonly (LocalizedText | null | undefined)[]): string[] => [
+    ...new Set(texts.flatMap(text => text && typeof text === 'object' ? Object.keys(text) : []))
+];
+
+/**
+ * Change the text for a locale
+ *
+ * Texts per locale get the locale's text replaced (or added); without a
+ * locale the first text is replaced. A plain string is replaced as a whole,
+ * as it is not tied to a locale.
+ *
+ * @param text - Plain string or texts per locale
+ * @param locale - Locale to change the text of
+ * @param value - New text
+ * @returns New plain string or texts per locale
+ *
+ * @example
+ * setLocalizedText({ nl: 'Netto-omzet', en: 'Revenue' }, 'en', 'Net sales'); // { nl: 'Netto-omzet', en: 'Net sales' }
+ * setLocalizedText('Netto-omzet', 'en', 'Net sales'); // 'Net sales'
+ */
+export const setLocalizedText = (
+    text: LocalizedText | null | undefined,
+    locale: string | undefined,
+    value: string
+): LocalizedText => {
+    const target = locale ?? (text && typeof text === 'object' ? Object.keys(text)[0] : undefined);
+    if (!text || typeof text === 'string' || !target) {
+        return value;
+    }
+
+    // Keep the spelling of an existing key (e.g. 'en-GB' for 'en-gb')
+    const key = Object.keys(text).find(candidate => candidate.toLowerCase() === target.toLowerCase()) ?? target;
+    return { ...text, [key]: value };
+};
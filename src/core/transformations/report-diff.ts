@@ -0,0 +1,328 @@
+/**
+ * Report Definition Diff - Pure Functions
+ *
+ * Compares two versions of a report definition:
+ *
+ * - `diffReportDefinitions`: variables added, removed or changed (filter,
+ *   aggregate), layout items added, removed, changed or moved to another
+ *   order, and other properties that changed (name, version, formatting, ...)
+ * - `compareStatementRows`: the rows whose amounts differ when the same data
+ *   is rendered with both versions
+ *
+ * Layout items are matched by their content (type and label, or the variable,
+ * expression or filter they show) before their order, so a row that moved is
+ * reported as moved rather than as a change of the rows at both orders.
+ *
+ * @example
+ * import { diffReportDefinitions, compareStatementRows } from './report-diff.ts';
+ *
+ * const diff = diffReportDefinitions(previous, current);
+ * diff.variables.added; // ['other_income']
+ * diff.layout.moved;    // [{ label: 'Tax', type: 'variable', from: 900, to: 850 }]
+ *
+ * const rows = compareStatementRows(previousStatement.rows, currentStatement.rows, columns, diff);
+ */
+
+import { resolveLocalizedText } from './locale.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Report definition as far as comparing is concerned
+ */
+export interface ComparableReport {
+    readonly layout?: readonly ComparableLayoutItem[];
+    readonly variables?: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Layout item as far as comparing is concerned
+ */
+export interface ComparableLayoutItem {
+    readonly order: number;
+    readonly type?: string;
+    readonly label?: unknown;
+    readonly variable?: string;
+    readonly expression?: string;
+    readonly filter?: unknown;
+}
+
+/**
+ * Variable of which the definition changed
+ */
+export interface VariableChange {
+    readonly name: string;
+    /** Changed fields, e.g. ['filter', 'aggregate'] */
+    readonly fields: readonly string[];
+    readonly before: unknown;
+    readonly after: unknown;
+}
+
+/**
+ * Layout item of which fields other than the order changed
+ */
+export interface LayoutItemChange {
+    /** Order in the newer version */
+    readonly order: number;
+    readonly label: string;
+    /** Changed fields, e.g. ['label', 'expression'] */
+    readonly fields: readonly string[];
+}
+
+/**
+ * Layout item that moved to another order
+ */
+export interface LayoutItemMove {
+    readonly label: string;
+    readonly type: string;
+    readonly from: number;
+    readonly to: number;
+}
+
+/**
+ * Differences between two versions of a report definition
+ */
+export interface ReportDiff {
+    /** Changed top-level properties other than variables and layout, e.g. ['name', 'formatting'] */
+    readonly properties: readonly string[];
+    readonly variables: {
+        readonly added: readonly string[];
+        readonly removed: readonly string[];
+        readonly changed: readonly VariableChange[];
+    };
+    readonly layout: {
+        readonly added: readonly ComparableLayoutItem[];
+        readonly removed: readonly ComparableLayoutItem[];
+        readonly changed: readonly LayoutItemChange[];
+        readonly moved: readonly LayoutItemMove[];
+    };
+}
+
+/**
+ * Statement row whose amounts differ between two versions of a report
+ */
+export interface StatementRowChange {
+    /** Order in the newer version (in the older version for removed rows) */
+    readonly order: number;
+    readonly label: string;
+    readonly status: 'changed' | 'added' | 'removed';
+    /** Amounts per period column key */
+    readonly amounts: Readonly<Record<string, { readonly before: number | null; readonly after: number | null }>>;
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Serialize a value as JSON with object keys sorted
+ *
+ * Equal values give equal strings regardless of key order, which makes the
+ * result usable for comparing and hashing definitions.
+ *
+ * @param value - Value to serialize
+ * @returns Canonical JSON
+ *
+ * @example
+ * canonicalJson({ b: 1, a: [2, { d: 3, c: 4 }] }); // '{"a":[2,{"c":4,"d":3}],"b":1}'
+ */
+export const canonicalJson = (value: unknown): string => {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+};
+
+const isEqual = (a: unknown, b: unknown): boolean => canonicalJson(a) === canonicalJson(b);
+
+// Fields of two objects with different values, ignoring the given fields
+const changedFields = (before: object, after: object, ignore: readonly string[] = []): string[] =>
+    [...new Set([...Object.keys(before), ...Object.keys(after)])]
+        .filter(field => !ignore.includes(field))
+        .filter(field => !isEqual((before as Record<string, unknown>)[field], (after as Record<string, unknown>)[field]));
+
+/**
+ * Describe a layout item by its label, or the variable or type it shows
+ *
+ * @param item - Layout item
+ * @returns Label in the first locale given, or a fallback such as 'revenue' or 'spacer'
+ */
+export const layoutItemLabel = (item: ComparableLayoutItem): string =>
+    resolveLocalizedText(item.label as any) ||
+    (typeof item.variable === 'string' ? item.variable : '') ||
+    (typeof item.expression === 'string' ? item.expression : '') ||
+    String(item.type ?? item.order);
+
+// Content a layout item is recognized by when its order changes; spacers have none
+const layoutItemKey = (item: ComparableLayoutItem): string | null => {
+    if (item.type === 'spacer') {
+        return null;
+    }
+    const content = item.label ?? item.variable ?? item.expression ?? item.filter;
+    return content === undefined ? null : `${item.type}:${canonicalJson(content)}`;
+};
+
+/**
+ * Compare two versions of a report definition
+ *
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Differences; see isEmptyDiff
+ *
+ * @example
+ * const diff = diffReportDefinitions(
+ *   { layout: [{ order: 100, type: 'variable', variable: 'revenue' }], variables: { revenue: { filter: { code1: '500' } } } },
+ *   { layout: [{ order: 200, type: 'variable', variable: 'revenue' }], variables: { revenue: { filter: { code1: ['500', '510'] } } } }
+ * );
+ * diff.variables.changed; // [{ name: 'revenue', fields: ['filter'], ... }]
+ * diff.layout.moved;      // [{ label: 'revenue', type: 'variable', from: 100, to: 200 }]
+ */
+export const diffReportDefinitions = (before: ComparableReport, after: ComparableReport): ReportDiff => {
+    // Variables by name
+    const beforeVariables: Record<string, unknown> = { ...before.variables };
+    const afterVariables: Record<string, unknown> = { ...after.variables };
+    const variableChanges = Object.keys(afterVariables)
+        .filter(name => name in beforeVariables && !isEqual(beforeVariables[name], afterVariables[name]))
+        .map(name => ({
+            name,
+            fields: changedFields(Object(beforeVariables[name]), Object(afterVariables[name])),
+            before: beforeVariables[name],
+            after: afterVariables[name]
+        }));
+
+    // Layout items: first by content (finds moved items), then by order
+    const unmatchedBefore = [...(before.layout ?? [])];
+    const unmatchedAfter: ComparableLayoutItem[] = [];
+    const pairs: [ComparableLayoutItem, ComparableLayoutItem][] = [];
+
+    for (const item of after.layout ?? []) {
+        const key = layoutItemKey(item);
+        const candidates = key === null ? [] : unmatchedBefore.filter(candidate => layoutItemKey(candidate) === key);
+        const match = candidates.find(candidate => candidate.order === item.order) ?? candidates[0];
+        if (match) {
+            unmatchedBefore.splice(unmatchedBefore.indexOf(match), 1);
+            pairs.push([match, item]);
+        } else {
+            unmatchedAfter.push(item);
+        }
+    }
+    const added: ComparableLayoutItem[] = [];
+    for (const item of unmatchedAfter) {
+        const match = unmatchedBefore.find(candidate => candidate.order === item.order);
+        if (match) {
+            unmatchedBefore.splice(unmatchedBefore.indexOf(match), 1);
+            pairs.push([match, item]);
+        } else {
+            added.push(item);
+        }
+    }
+
+    const byOrder = (a: { order: number }, b: { order: number }) => a.order - b.order;
+    const sortedPairs = pairs.sort(([, a], [, b]) => byOrder(a, b));
+
+    return {
+        properties: changedFields(before, after, ['layout', 'variables']),
+        variables: {
+            added: Object.keys(afterVariables).filter(name => !(name in beforeVariables)),
+            removed: Object.keys(beforeVariables).filter(name => !(name in afterVariables)),
+            changed: variableChanges
+        },
+        layout: {
+            added: added.sort(byOrder),
+            removed: unmatchedBefore.sort(byOrder),
+            changed: sortedPairs
+                .map(([previous, item]) => ({
+                    order: item.order,
+                    label: layoutItemLabel(item),
+                    fields: changedFields(previous, item, ['order'])
+                }))
+                .filter(change => change.fields.length > 0),
+            moved: sortedPairs
+                .filter(([previous, item]) => previous.order !== item.order)
+                .map(([previous, item]) => ({
+                    label: layoutItemLabel(item),
+                    type: String(item.type ?? ''),
+                    from: previous.order,
+                    to: item.order
+                }))
+        }
+    };
+};
+
+/**
+ * Check whether a diff found no differences
+ *
+ * @param diff - Result of diffReportDefinitions
+ * @returns True when both versions are the same
+ */
+export const isEmptyDiff = (diff: ReportDiff): boolean =>
+    diff.properties.length === 0 &&
+    diff.variables.added.length + diff.variables.removed.length + diff.variables.changed.length === 0 &&
+    diff.layout.added.length + diff.layout.removed.length + diff.layout.changed.length + diff.layout.moved.length === 0;
+
+/**
+ * Compare the rows of a statement rendered with two versions of a report
+ *
+ * Rows are matched by order, following the moves in the diff. Spacer rows are
+ * skipped. Amounts are compared per period column (amount_<key>).
+ *
+ * @param beforeRows - Rows rendered with the older version
+ * @param afterRows - Rows rendered with the newer version
+ * @param columnKeys - Period column keys to compare
+ * @param diff - Diff of the two versions, for rows that moved
+ * @param tolerance - Largest difference treated as equal (rounding)
+ * @returns Rows whose amounts differ, added rows and removed rows, in statement order
+ *
+ * @example
+ * compareStatementRows(
+ *   [{ order: 100, label: 'Revenue', amount_2025: 1000 }],
+ *   [{ order: 100, label: 'Revenue', amount_2025: 1200 }],
+ *   ['2025']
+ * );
+ * // [{ order: 100, label: 'Revenue', status: 'changed', amounts: { 2025: { before: 1000, after: 1200 } } }]
+ */
+export const compareStatementRows = (
+    beforeRows: readonly Record<string, any>[],
+    afterRows: readonly Record<string, any>[],
+    columnKeys: readonly string[],
+    diff?: ReportDiff,
+    tolerance = 0.005
+): StatementRowChange[] => {
+    const moves = new Map((diff?.layout.moved ?? []).map(move => [move.from, move.to]));
+    const isSpacer = (row: Record<string, any>) => row.type === 'spacer';
+    const amount = (row: Record<string, any> | undefined, key: string): number | null =>
+        typeof row?.[`amount_${key}`] === 'number' ? row[`amount_${key}`] : null;
+    const amountsOf = (previous: Record<string, any> | undefined, current: Record<string, any> | undefined) =>
+        Object.fromEntries(columnKeys.map(key => [key, { before: amount(previous, key), after: amount(current, key) }]));
+
+    const previousByOrder = new Map(beforeRows.filter(row => !isSpacer(row))
+        .map(row => [moves.get(row.order) ?? row.order, row]));
+    const changes: StatementRowChange[] = [];
+
+    for (const row of afterRows.filter(row => !isSpacer(row))) {
+        const previous = previousByOrder.get(row.order);
+        previousByOrder.delete(row.order);
+        const amounts = amountsOf(previous, row);
+
+        if (!previous) {
+            changes.push({ order: row.order, label: row.label ?? '', status: 'added', amounts });
+        } else if (Object.values(amounts).some(({ before, after }) =>
+            Math.abs((before ?? 0) - (after ?? 0)) > tolerance || (before === null) !== (after === null))) {
+            changes.push({ order: row.order, label: row.label ?? '', status: 'changed', amounts });
+        }
+    }
+
+    for (const previous of previousByOrder.values()) {
+        changes.push({ order: previous.order, label: previous.label ?? '', status: 'removed', amounts: amountsOf(previous, undefined) });
+    }
+
+    return changes.sort((a, b) => a.order - b.order);
+};
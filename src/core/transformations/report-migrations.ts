@@ -0,0 +1,308 @@
+/**
+ * Report Definition Schema Migrations - Pure Functions
+ *
+ * Report definitions name the version of the definition schema they were
+ * written for in `schemaVersion` (semantic versioning). Definitions written
+ * before that field existed are read as schema 1.0.0. Migrations upgrade a
+ * definition one schema version at a time until it reaches the current
+ * version, so older files keep loading after the schema changes:
+ *
+ * - 1.0.0 -> 1.1.0: layout items `level` renamed to `indent`
+ * - 1.1.0 -> 2.0.0: formatting rules given as number format strings
+ *   (e.g. "€ #,##0.00") converted to rule objects ({ symbol, decimals, thousands })
+ *
+ * Every migration reports what it changed, so tools can show what an upgrade
+ * did before a file is rewritten.
+ *
+ * @example
+ * import { migrateReportDefinition } from './report-migrations.ts';
+ *
+ * const report = migrateReportDefinition(JSON.parse(text));
+ * report.fromVersion; // '1.0.0'
+ * report.steps[0].changes; // ['layout[2] (order 300): renamed level to indent']
+ * validator.validate(report.definition);
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Report definition as far as migrating is concerned
+ */
+export type MigratableReport = Record<string, any>;
+
+/**
+ * Upgrade of report definitions from one schema version to the next
+ */
+export interface ReportMigration {
+    readonly from: string;
+    readonly to: string;
+    readonly description: string;
+    /** Returns the upgraded definition and a description per change; must not change its argument */
+    readonly migrate: (reportDef: MigratableReport) => { definition: MigratableReport; changes: string[] };
+}
+
+/**
+ * Migration applied to a definition
+ */
+export interface MigrationStep {
+    readonly from: string;
+    readonly to: string;
+    readonly description: string;
+    /** What changed in the definition; empty when the definition had nothing to upgrade */
+    readonly changes: readonly string[];
+}
+
+/**
+ * Result of migrating a report definition
+ */
+export interface MigrationReport {
+    readonly reportId?: string;
+    /** Schema version of the definition as given (1.0.0 when it had none) */
+    readonly fromVersion: string;
+    /** Schema version of the migrated definition */
+    readonly toVersion: string;
+    readonly steps: readonly MigrationStep[];
+    /** True when a migration changed the definition (not counting the schemaVersion field) */
+    readonly changed: boolean;
+    /** Notes that do not stop the definition from loading, e.g. a newer minor schema version */
+    readonly warnings: readonly string[];
+    /** Migrated definition, with schemaVersion set to toVersion */
+    readonly definition: MigratableReport;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Schema version of report definitions written by this version of the application
+ */
+export const CURRENT_SCHEMA_VERSION = '2.0.0';
+
+/**
+ * Schema version of definitions without a schemaVersion field
+ */
+export const INITIAL_SCHEMA_VERSION = '1.0.0';
+
+const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+
+// Fields each kind of formatting rule supports (see FormattingRules in the schema)
+const FORMATTING_FIELDS: Readonly<Record<string, readonly string[]>> = {
+    currency: ['symbol', 'decimals', 'thousands'],
+    percent: ['symbol', 'decimals'],
+    integer: ['thousands'],
+    decimal: ['decimals', 'thousands']
+};
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Parse a semantic version
+ *
+ * @param version - Version such as '1.2.0'
+ * @returns [major, minor, patch], or null when the version is not MAJOR.MINOR.PATCH
+ *
+ * @example
+ * parseVersion('2.10.1'); // [2, 10, 1]
+ * parseVersion('v2');     // null
+ */
+export const parseVersion = (version: unknown): [number, number, number] | null => {
+    const match = typeof version === 'string' ? SEMVER_PATTERN.exec(version) : null;
+    return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : null;
+};
+
+/**
+ * Compare two semantic versions
+ *
+ * @param a - Version
+ * @param b - Version
+ * @returns Negative when a is older than b, 0 when equal, positive when newer
+ * @throws Error when a version is not MAJOR.MINOR.PATCH
+ *
+ * @example
+ * compareVersions('1.10.0', '1.9.3'); // > 0
+ */
+export const compareVersions = (a: string, b: string): number => {
+    const [left, right] = [parseVersion(a), parseVersion(b)];
+    if (!left || !right) {
+        throw new Error(`Invalid version '${left ? b : a}': expected MAJOR.MINOR.PATCH (e.g. 1.0.0)`);
+    }
+    return left[0] - right[0] || left[1] - right[1] || left[2] - right[2];
+};
+
+/**
+ * Convert a number format string to a formatting rule
+ *
+ * Decimals are the digits after the decimal point, a comma in the number
+ * means a thousands separator, and the text around the number is the symbol.
+ * Only the fields the kind of rule supports are kept.
+ *
+ * @param format - Number format, e.g. '€ #,##0.00' or '0.0%'
+ * @param kind - Kind of rule: 'currency', 'percent', 'integer' or 'decimal'
+ * @returns Formatting rule, or null when the string holds no number format
+ *
+ * @example
+ * parseNumberFormat('€ #,##0', 'currency'); // { symbol: '€', decimals: 0, thousands: true }
+ * parseNumberFormat('0.0%', 'percent');     // { symbol: '%', decimals: 1 }
+ */
+export const parseNumberFormat = (format: string, kind: string): Record<string, string | number | boolean> | null => {
+    const match = /[#0][#0,]*(?:\.([#0]+))?/.exec(format);
+    if (!match) {
+        return null;
+    }
+
+    const symbol = (format.slice(0, match.index) + format.slice(match.index + match[0].length))
+        .replace(/["'\s]/g, '');
+    const rule: Record<string, string | number | boolean> = {
+        ...(symbol ? { symbol } : {}),
+        decimals: match[1]?.length ?? 0,
+        thousands: match[0].includes(',')
+    };
+    const fields = FORMATTING_FIELDS[kind] ?? Object.keys(rule);
+
+    return Object.fromEntries(Object.entries(rule).filter(([field]) => fields.includes(field)));
+};
+
+/**
+ * Schema migrations, oldest first
+ */
+export const REPORT_MIGRATIONS: readonly ReportMigration[] = [
+    {
+        from: '1.0.0',
+        to: '1.1.0',
+        description: 'Rename layout item level to indent',
+        migrate: (reportDef) => {
+            const changes: string[] = [];
+            const layout = Array.isArray(reportDef.layout)
+                ? reportDef.layout.map((item: any, index: number) => {
+                    if (!item || typeof item !== 'object' || !('level' in item)) {
+                        return item;
+                    }
+                    const { level, ...rest } = item;
+                    if (rest.indent !== undefined) {
+                        changes.push(`layout[${index}] (order ${item.order}): removed level, indent is already set`);
+                        return rest;
+                    }
+                    changes.push(`layout[${index}] (order ${item.order}): renamed level to indent`);
+                    return { ...rest, indent: level };
+                })
+                : reportDef.layout;
+
+            return { definition: changes.length > 0 ? { ...reportDef, layout } : reportDef, changes };
+        }
+    },
+    {
+        from: '1.1.0',
+        to: '2.0.0',
+        description: 'Convert number format strings in formatting to formatting rules',
+        migrate: (reportDef) => {
+            const formatting = reportDef.formatting;
+            if (!formatting || typeof formatting !== 'object') {
+                return { definition: reportDef, changes: [] };
+            }
+
+            const changes: string[] = [];
+            const migrated = Object.fromEntries(Object.entries(formatting).map(([kind, rule]) => {
+                if (typeof rule !== 'string') {
+                    return [kind, rule];
+                }
+                const converted = parseNumberFormat(rule, kind);
+                if (!converted) {
+                    changes.push(`formatting.${kind}: removed '${rule}', which is not a number format`);
+                    return [kind, undefined];
+                }
+                changes.push(`formatting.${kind}: converted '${rule}' to ${JSON.stringify(converted)}`);
+                return [kind, converted];
+            }).filter(([, rule]) => rule !== undefined));
+
+            return { definition: changes.length > 0 ? { ...reportDef, formatting: migrated } : reportDef, changes };
+        }
+    }
+];
+
+// Set schemaVersion, placing a new field after version like the bundled reports do
+const withSchemaVersion = (reportDef: MigratableReport, schemaVersion: string): MigratableReport => {
+    if ('schemaVersion' in reportDef || !('version' in reportDef)) {
+        return { ...reportDef, schemaVersion };
+    }
+    return Object.fromEntries(Object.entries(reportDef).flatMap(([key, value]) =>
+        key === 'version' ? [[key, value], ['schemaVersion', schemaVersion]] : [[key, value]]));
+};
+
+/**
+ * Upgrade a report definition to a schema version
+ *
+ * Applies the migrations from the definition's schemaVersion up to the target;
+ * a patch or minor version between two migrations continues with the
+ * migration whose range it falls in.
+ * A definition for a newer minor or patch version of the same major schema
+ * version is left as it is, with a warning; one for a newer major version is
+ * rejected, as it may use fields this version does not understand.
+ *
+ * @param reportDef - Report definition as parsed from JSON
+ * @param migrations - Migrations to apply, oldest first
+ * @param targetVersion - Schema version to upgrade to
+ * @returns Migration report with the migrated definition
+ * @throws Error when schemaVersion is invalid or of a newer major version, or no migrations lead to the target
+ *
+ * @example
+ * const { definition, steps } = migrateReportDefinition({ reportId: 'pl', version: '1.0.0', layout: [{ order: 10, level: 1 }] });
+ * definition.layout[0];  // { order: 10, indent: 1 }
+ * definition.schemaVersion; // '2.0.0'
+ * steps.map(step => step.to); // ['1.1.0', '2.0.0']
+ */
+export const migrateReportDefinition = (
+    reportDef: MigratableReport,
+    migrations: readonly ReportMigration[] = REPORT_MIGRATIONS,
+    targetVersion: string = CURRENT_SCHEMA_VERSION
+): MigrationReport => {
+    const fromVersion = reportDef.schemaVersion ?? INITIAL_SCHEMA_VERSION;
+    const reportId = typeof reportDef.reportId === 'string' ? reportDef.reportId : undefined;
+    if (!parseVersion(fromVersion)) {
+        throw new Error(`Invalid schemaVersion '${fromVersion}': expected MAJOR.MINOR.PATCH (e.g. ${targetVersion})`);
+    }
+
+    if (compareVersions(fromVersion, targetVersion) > 0) {
+        if (parseVersion(fromVersion)![0] > parseVersion(targetVersion)![0]) {
+            throw new Error(`Report definition uses schema ${fromVersion}, which is newer than the supported schema ${targetVersion}`);
+        }
+        return {
+            reportId,
+            fromVersion,
+            toVersion: fromVersion,
+            steps: [],
+            changed: false,
+            warnings: [`Schema ${fromVersion} is newer than ${targetVersion}; fields added since may be ignored`],
+            definition: reportDef
+        };
+    }
+
+    const steps: MigrationStep[] = [];
+    let definition = reportDef;
+    let version = fromVersion;
+    while (compareVersions(version, targetVersion) < 0) {
+        const migration = migrations.find(candidate =>
+            compareVersions(candidate.from, version) <= 0 && compareVersions(candidate.to, version) > 0);
+        if (!migration) {
+            throw new Error(`No migration from schema ${version} to ${targetVersion}`);
+        }
+        const result = migration.migrate(definition);
+        definition = result.definition;
+        steps.push({ from: migration.from, to: migration.to, description: migration.description, changes: result.changes });
+        version = migration.to;
+    }
+
+    return {
+        reportId,
+        fromVersion,
+        toVersion: version,
+        steps,
+        changed: steps.some(step => step.changes.length > 0),
+        warnings: [],
+        definition: withSchemaVersion(definition, version)
+    };
+};
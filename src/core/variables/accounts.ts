@@ -0,0 +1,309 @@
+/**
+ * Account Assignment of Variables - Pure Functions
+ *
+ * Checks which accounts the variables of a report count, so an account is not
+ * counted twice in a total and no account is left out:
+ *
+ * - `findSummedVariables`: the variables each subtotal or calculated row adds
+ *   up (following row references and subtotal ranges)
+ * - `findAccountOverlaps`: accounts of a chart of accounts counted in more than
+ *   one variable of the same total
+ * - `findListOverlaps`: the same check on the include lists only, for when no
+ *   chart of accounts is loaded
+ * - `findAccountGaps`: accounts of the report's statement type that no
+ *   variable counts
+ *
+ * Variables count the accounts their filter selects, minus their `exclude`
+ * list, plus their `include` list (see buildVariableFilter).
+ *
+ * @example
+ * import { listAccounts, findAccountOverlaps, findAccountGaps } from './accounts.ts';
+ *
+ * const accounts = listAccounts(dataStore.getCombinedMovements().objects());
+ * findAccountOverlaps(reportDef.layout, reportDef.variables, accounts);
+ * // [{ account_code: '5210', variables: ['housing', 'other_costs'], orders: [500, 900] }]
+ * findAccountGaps(reportDef.variables, accounts, reportDef.statementType);
+ * // [{ account_code: '5299', account_description: 'Sundry costs', statement_type: 'IS' }]
+ */
+
+import { STATEMENT_TYPES } from '../../constants.ts';
+import { matchesFilter, type FilterSpec } from '../filters/filter.ts';
+import { buildVariableFilter } from './resolver.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Account of a chart of accounts, with its hierarchy fields (code1, name1, ...)
+ */
+export interface ChartAccount {
+    readonly account_code: string;
+    readonly account_description?: string;
+    readonly statement_type?: string;
+    readonly [field: string]: unknown;
+}
+
+/**
+ * Variable definition as far as account assignment is concerned
+ */
+export interface AccountVariable {
+    readonly filter?: FilterSpec;
+    readonly include?: readonly string[];
+    readonly exclude?: readonly string[];
+}
+
+/**
+ * Layout item as far as account assignment is concerned
+ */
+export interface AccountLayoutItem {
+    readonly order: number;
+    readonly type?: string;
+    readonly variable?: string;
+    readonly expression?: string;
+    readonly from?: number;
+    readonly to?: number;
+}
+
+/**
+ * Variables a total adds up
+ */
+export interface SummedVariables {
+    /** Order of the subtotal or calculated row */
+    readonly order: number;
+    readonly variables: readonly string[];
+}
+
+/**
+ * Account counted in more than one variable of a total
+ */
+export interface AccountOverlap {
+    readonly account_code: string;
+    readonly account_description?: string;
+    readonly variables: readonly string[];
+    /** Orders of the totals that add these variables up */
+    readonly orders: readonly number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Statement type of the accounts a report of each statement type should cover
+ *
+ * Cash flow and ratio reports combine accounts of several statement types and
+ * are not checked for gaps.
+ */
+export const REPORT_STATEMENT_TYPES: Readonly<Record<string, string>> = {
+    income: STATEMENT_TYPES.INCOME_STATEMENT,
+    balance: STATEMENT_TYPES.BALANCE_SHEET
+};
+
+// Rows a subtotal skips, as in the statement
+const SKIPPED_SUBTOTAL_TYPES = ['spacer', 'subtotal'];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * List the accounts in trial balance rows
+ *
+ * @param rows - Trial balance rows (e.g. the objects of the combined movements)
+ * @returns One account per account code (fields of its first row), sorted by code
+ *
+ * @example
+ * listAccounts([{ account_code: '8000', code1: '700' }, { account_code: '8000', code1: '700' }])
+ * // [{ account_code: '8000', code1: '700' }]
+ */
+export const listAccounts = (rows: readonly Readonly<Record<string, unknown>>[]): ChartAccount[] => {
+    const accounts = new Map<string, ChartAccount>();
+    for (const row of rows) {
+        if (row.account_code != null && row.account_code !== '' && !accounts.has(String(row.account_code))) {
+            accounts.set(String(row.account_code), { ...row, account_code: String(row.account_code) });
+        }
+    }
+    return [...accounts.values()].sort((a, b) => a.account_code.localeCompare(b.account_code));
+};
+
+/**
+ * Check whether an expression only adds and subtracts its references
+ *
+ * @param expression - Expression of a calculated row
+ * @returns False for products, quotients and function calls (ratios do not add up accounts)
+ */
+const isSumExpression = (expression: string): boolean =>
+    !/[*/,]|[A-Za-z_]\w*\s*\(/.test(expression.replace(/\[[^\]]*\]?/g, ''));
+
+/**
+ * Find the variables each total adds up
+ *
+ * Subtotals add up the rows in their range (spacers and subtotals excluded);
+ * calculated rows that only add and subtract add up the variables and rows
+ * they reference. Referenced rows are followed down to their variables.
+ * Totals of fewer than two variables are left out.
+ *
+ * @param layout - Layout of the report
+ * @param variables - Variables of the report
+ * @returns Variables per total, in layout order
+ *
+ * @example
+ * findSummedVariables([
+ *   { order: 100, type: 'variable', variable: 'revenue' },
+ *   { order: 200, type: 'variable', variable: 'cogs' },
+ *   { order: 300, type: 'calculated', expression: '@100 - cogs' }
+ * ], variables);
+ * // [{ order: 300, variables: ['revenue', 'cogs'] }]
+ */
+export const findSummedVariables = (
+    layout: readonly AccountLayoutItem[],
+    variables: Readonly<Record<string, AccountVariable>> = {}
+): SummedVariables[] => {
+    const byOrder = new Map(layout.map(item => [item.order, item]));
+
+    const variablesOf = (item: AccountLayoutItem | undefined, stack: readonly number[]): string[] => {
+        if (!item || stack.includes(item.order)) {
+            return [];
+        }
+        const nextStack = [...stack, item.order];
+
+        if (item.type === 'variable' && item.variable && item.variable in variables) {
+            return [item.variable];
+        }
+        if (item.type === 'subtotal' && item.from !== undefined && item.to !== undefined) {
+            return layout
+                .filter(row => row.order >= item.from! && row.order <= item.to! && !SKIPPED_SUBTOTAL_TYPES.includes(String(row.type)))
+                .flatMap(row => variablesOf(row, nextStack));
+        }
+        if (item.type === 'calculated' && item.expression && isSumExpression(item.expression)) {
+            const references = item.expression.replace(/\[[^\]]*\]?/g, '').match(/@\d+|[A-Za-z_]\w*/g) || [];
+            return references.flatMap(reference => reference.startsWith('@')
+                ? variablesOf(byOrder.get(Number(reference.slice(1))), nextStack)
+                : reference in variables ? [reference] : []);
+        }
+        return [];
+    };
+
+    return [...layout]
+        .sort((a, b) => a.order - b.order)
+        .filter(item => item.type === 'subtotal' || item.type === 'calculated')
+        .map(item => ({ order: item.order, variables: [...new Set(variablesOf(item, []))] }))
+        .filter(total => total.variables.length > 1);
+};
+
+// Collect the accounts counted in more than one variable of the same total
+const collectOverlaps = (
+    totals: readonly SummedVariables[],
+    accountsOf: (variable: string) => readonly string[],
+    describe: (accountCode: string) => string | undefined
+): AccountOverlap[] => {
+    const overlaps = new Map<string, { account_code: string; variables: string[]; orders: number[] }>();
+
+    for (const total of totals) {
+        const counted = new Map<string, string[]>();
+        for (const variable of total.variables) {
+            for (const accountCode of accountsOf(variable)) {
+                counted.set(accountCode, [...(counted.get(accountCode) || []), variable]);
+            }
+        }
+        for (const [accountCode, inVariables] of counted) {
+            if (inVariables.length < 2) continue;
+            const key = `${accountCode}:${inVariables.join(',')}`;
+            const overlap = overlaps.get(key) || { account_code: accountCode, variables: inVariables, orders: [] };
+            overlap.orders.push(total.order);
+            overlaps.set(key, overlap);
+        }
+    }
+
+    return [...overlaps.values()]
+        .sort((a, b) => a.account_code.localeCompare(b.account_code))
+        .map(overlap => {
+            const description = describe(overlap.account_code);
+            return description ? { ...overlap, account_description: description } : overlap;
+        });
+};
+
+/**
+ * Find accounts counted in more than one variable of the same total
+ *
+ * @param layout - Layout of the report
+ * @param variables - Variables of the report
+ * @param accounts - Chart of accounts (see listAccounts)
+ * @returns One entry per account and set of variables, sorted by account code
+ *
+ * @example
+ * findAccountOverlaps(layout, {
+ *   housing: { filter: { code2: '520' } },
+ *   other_costs: { filter: { code1: '500' }, exclude: ['5299'] }
+ * }, accounts);
+ * // [{ account_code: '5210', account_description: 'Rent', variables: ['housing', 'other_costs'], orders: [900] }]
+ */
+export const findAccountOverlaps = (
+    layout: readonly AccountLayoutItem[],
+    variables: Readonly<Record<string, AccountVariable>> = {},
+    accounts: readonly ChartAccount[]
+): AccountOverlap[] => {
+    const cache = new Map<string, readonly string[]>();
+    const accountsOf = (variable: string): readonly string[] => {
+        if (!cache.has(variable)) {
+            const matches = matchesFilter(buildVariableFilter(variables[variable]));
+            cache.set(variable, accounts.filter(matches).map(account => account.account_code));
+        }
+        return cache.get(variable)!;
+    };
+    const descriptions = new Map(accounts.map(account => [account.account_code, account.account_description]));
+
+    return collectOverlaps(findSummedVariables(layout, variables), accountsOf, code => descriptions.get(code));
+};
+
+/**
+ * Find accounts included in more than one variable of the same total
+ *
+ * Compares the include lists only, so it works without a chart of accounts.
+ *
+ * @param layout - Layout of the report
+ * @param variables - Variables of the report
+ * @returns One entry per account and set of variables, sorted by account code
+ */
+export const findListOverlaps = (
+    layout: readonly AccountLayoutItem[],
+    variables: Readonly<Record<string, AccountVariable>> = {}
+): AccountOverlap[] =>
+    collectOverlaps(
+        findSummedVariables(layout, variables),
+        variable => [...new Set(Array.isArray(variables[variable]?.include) ? variables[variable].include : [])],
+        () => undefined
+    );
+
+/**
+ * Find accounts no variable counts
+ *
+ * Only accounts of the report's statement type are checked (IS accounts for
+ * income reports, BS accounts for balance reports); cash flow and ratio
+ * reports have no gaps.
+ *
+ * @param variables - Variables of the report
+ * @param accounts - Chart of accounts (see listAccounts)
+ * @param statementType - Statement type of the report (income, balance, ...)
+ * @returns Accounts not counted in any variable, sorted by account code
+ *
+ * @example
+ * findAccountGaps({ revenue: { filter: { code1: '700' } } }, accounts, 'income');
+ * // [{ account_code: '4000', statement_type: 'IS', code1: '400', ... }]
+ */
+export const findAccountGaps = (
+    variables: Readonly<Record<string, AccountVariable>> = {},
+    accounts: readonly ChartAccount[],
+    statementType: string
+): ChartAccount[] => {
+    const accountStatementType = REPORT_STATEMENT_TYPES[statementType];
+    if (!accountStatementType) {
+        return [];
+    }
+
+    const matchers = Object.values(variables).map(variable => matchesFilter(buildVariableFilter(variable)));
+    return accounts
+        .filter(account => account.statement_type === accountStatementType)
+        .filter(account => !matchers.some(matches => matches(account)));
+};
@@ -0,0 +1,241 @@
+/**
+ * Chart-of-Accounts Coverage of a Report - Pure Functions
+ *
+ * Analyzes how the variables of a report definition cover the accounts in the
+ * loaded movements (StatementGenerator.detectUnmappedAccounts only checks that
+ * accounts are mapped in the hierarchy):
+ *
+ * - accounts no variable counts
+ * - accounts counted by more than one variable
+ * - the trial balance amounts of these accounts per period column
+ * - whether the report's totals reconcile to the trial balance total of its
+ *   statement_type
+ *
+ * Income reports are checked against the IS movements and balance reports
+ * against the BS balances, whose amount in a column is the balance of the
+ * column's last period. Cash flow and ratio reports are checked for the
+ * statement types of the accounts their variables count, but have no total
+ * to reconcile.
+ *
+ * The report total is the sum of the rendered rows styled 'total' (e.g. the
+ * net result of an income report, or total assets and total liabilities of a
+ * balance report), so uncaptured accounts, accounts counted twice and wrong
+ * signs in calculated rows all show up as a difference.
+ *
+ * @example
+ * import { analyzeCoverage } from './coverage.ts';
+ *
+ * const analysis = analyzeCoverage(reportDef, dataStore.getCombinedMovements(), statement.metadata.columns, statement.rows);
+ * analysis.uncaptured;     // [{ account_code: '5299', variables: [], amounts: { 2025: 1200 }, ... }]
+ * analysis.reconciliation; // [{ statement_type: 'IS', difference: { 2025: -1200 }, reconciles: false, ... }]
+ */
+
+import { amountField, buildColumnFilterExpression, type ColumnValues, type PeriodColumn } from '../calculations/columns.ts';
+import { STATEMENT_TYPES } from '../../constants.ts';
+import { matchesFilter } from '../filters/filter.ts';
+import { buildVariableFilter } from './resolver.ts';
+import {
+    listAccounts,
+    REPORT_STATEMENT_TYPES,
+    type AccountVariable
+} from './accounts.ts';
+
+// Arquero table type (using any since arquero is loaded globally via CDN)
+type ColumnTable = any;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Report definition as far as coverage is concerned
+ */
+export interface CoverageReport {
+    readonly reportId?: string;
+    readonly statementType?: string;
+    readonly variables?: Readonly<Record<string, AccountVariable>>;
+}
+
+/**
+ * Account with the variables that count it and its trial balance amounts
+ */
+export interface CoverageAccount {
+    readonly account_code: string;
+    readonly account_description?: string;
+    readonly statement_type?: string;
+    /** Variables counting the account, in definition order */
+    readonly variables: readonly string[];
+    /** Trial balance amount per period column key */
+    readonly amounts: ColumnValues;
+}
+
+/**
+ * Rendered statement row as far as coverage is concerned
+ */
+export interface CoverageStatementRow {
+    readonly label?: string;
+    readonly type?: string;
+    readonly style?: string;
+    readonly [field: string]: unknown;
+}
+
+/**
+ * The report's totals against the trial balance, for one statement type
+ */
+export interface StatementTypeReconciliation {
+    readonly statement_type: string;
+    /** Total of the movements (balances for balance reports) of the statement type per column */
+    readonly trialBalance: ColumnValues;
+    /** Labels of the total rows added up */
+    readonly totalRows: readonly string[];
+    /** Sum of the report's total rows per column */
+    readonly reportTotal: ColumnValues;
+    /** reportTotal - trialBalance per column */
+    readonly difference: ColumnValues;
+    /** True when no difference exceeds the tolerance */
+    readonly reconciles: boolean;
+}
+
+/**
+ * Coverage of the accounts by the variables of a report
+ */
+export interface CoverageAnalysis {
+    readonly reportId?: string;
+    readonly statementType?: string;
+    readonly columns: readonly PeriodColumn[];
+    /** Statement types of the accounts checked, e.g. ['IS'] */
+    readonly statementTypes: readonly string[];
+    /** Accounts of the checked statement types no variable counts, sorted by code */
+    readonly uncaptured: readonly CoverageAccount[];
+    /** Accounts counted by more than one variable, sorted by code */
+    readonly multiple: readonly CoverageAccount[];
+    /** Reconciliation of the report's totals; empty for cash flow and ratio reports and reports without total rows */
+    readonly reconciliation: readonly StatementTypeReconciliation[];
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+// Layout types whose rows carry amounts of their own (not headers or spacers)
+const TOTAL_ROW_TYPES = ['variable', 'calculated', 'subtotal'];
+
+// Amount per account code and column key: the sum of the movements in the
+// column, or for balances the balance of the column's last period
+const accountAmounts = (data: ColumnTable, columns: readonly PeriodColumn[], balances: boolean): Map<string, ColumnValues> => {
+    const amounts = new Map<string, ColumnValues>();
+
+    for (const column of columns) {
+        let rows: Record<string, unknown>[] = data.filter(buildColumnFilterExpression(column)).objects();
+        if (balances && rows.length > 0) {
+            const closingPeriod = rows.reduce((max, row) => Math.max(max, Number(row.period)), -Infinity);
+            rows = rows.filter(row => Number(row.period) === closingPeriod);
+        }
+        for (const row of rows) {
+            const code = String(row.account_code ?? '');
+            if (!amounts.has(code)) {
+                amounts.set(code, Object.fromEntries(columns.map(({ key }) => [key, 0])));
+            }
+            amounts.get(code)![column.key] += Number(row.movement_amount) || 0;
+        }
+    }
+
+    return amounts;
+};
+
+// Compare the sum of the report's total rows with the trial balance total of a statement type
+const reconcileTotals = (
+    statementType: string,
+    accounts: readonly CoverageAccount[],
+    totalRows: readonly CoverageStatementRow[],
+    columns: readonly PeriodColumn[],
+    tolerance: number
+): StatementTypeReconciliation => {
+    const trialBalance = totalAmounts(accounts.filter(account => account.statement_type === statementType), columns);
+    const reportTotal = Object.fromEntries(columns.map(({ key }) =>
+        [key, totalRows.reduce((total, row) => total + (Number(row[amountField(key)]) || 0), 0)]));
+    const difference = Object.fromEntries(columns.map(({ key }) => [key, reportTotal[key] - trialBalance[key]]));
+
+    return {
+        statement_type: statementType,
+        trialBalance,
+        totalRows: totalRows.map(row => String(row.label ?? '')),
+        reportTotal,
+        difference,
+        reconciles: Object.values(difference).every(value => Math.abs(value) <= tolerance)
+    };
+};
+
+/**
+ * Analyze how the variables of a report cover the accounts in the trial balance
+ *
+ * @param reportDef - Report definition (with its parent merged, for extended reports)
+ * @param data - Arquero table of the movements (e.g. the combined movements), or of the balances for balance reports
+ * @param columns - Period columns to total the amounts of
+ * @param rows - Rows of the statement rendered from the report, for its totals
+ * @param tolerance - Largest difference treated as reconciled (rounding)
+ * @returns Uncaptured and multiply counted accounts and the reconciliation of the report's totals
+ *
+ * @example
+ * const analysis = analyzeCoverage(
+ *   { statementType: 'income', variables: { revenue: { filter: { code1: '700' } } } },
+ *   movements,
+ *   buildYearColumns([2025]),
+ *   [{ label: 'Net result', type: 'calculated', style: 'total', amount_2025: -800 }]
+ * );
+ * analysis.reconciliation[0]; // { statement_type: 'IS', trialBalance: { 2025: -500 }, reportTotal: { 2025: -800 }, ... }
+ */
+export const analyzeCoverage = (
+    reportDef: CoverageReport,
+    data: ColumnTable,
+    columns: readonly PeriodColumn[],
+    rows: readonly CoverageStatementRow[] = [],
+    tolerance = 0.005
+): CoverageAnalysis => {
+    const variables = Object.entries(reportDef.variables ?? {})
+        .map(([name, variable]) => ({ name, matches: matchesFilter(buildVariableFilter(variable)) }));
+    const reportStatementType = REPORT_STATEMENT_TYPES[reportDef.statementType ?? ''];
+    const amounts = accountAmounts(data, columns, reportStatementType === STATEMENT_TYPES.BALANCE_SHEET);
+    const zero = (): ColumnValues => Object.fromEntries(columns.map(({ key }) => [key, 0]));
+
+    const accounts: CoverageAccount[] = listAccounts(data.objects()).map(account => ({
+        account_code: account.account_code,
+        ...(account.account_description ? { account_description: String(account.account_description) } : {}),
+        ...(account.statement_type ? { statement_type: String(account.statement_type) } : {}),
+        variables: variables.filter(variable => variable.matches(account)).map(variable => variable.name),
+        amounts: amounts.get(account.account_code) ?? zero()
+    }));
+
+    const statementTypes = reportStatementType
+        ? [reportStatementType]
+        : [...new Set(accounts
+            .filter(account => account.variables.length > 0 && account.statement_type)
+            .map(account => account.statement_type!))].sort();
+
+    const totalRows = rows.filter(row => row.style === 'total' && TOTAL_ROW_TYPES.includes(String(row.type)));
+    const reconciliation = reportStatementType && totalRows.length > 0
+        ? [reconcileTotals(reportStatementType, accounts, totalRows, columns, tolerance)]
+        : [];
+
+    return {
+        ...(reportDef.reportId ? { reportId: reportDef.reportId } : {}),
+        ...(reportDef.statementType ? { statementType: reportDef.statementType } : {}),
+        columns,
+        statementTypes,
+        uncaptured: accounts.filter(account =>
+            account.variables.length === 0 && statementTypes.includes(account.statement_type ?? '')),
+        multiple: accounts.filter(account => account.variables.length > 1),
+        reconciliation
+    };
+};
+
+/**
+ * Total the amounts of accounts per column
+ *
+ * @param accounts - Accounts of a coverage analysis
+ * @param columns - Period columns of the analysis
+ * @returns Total per column key
+ */
+export const totalAmounts = (accounts: readonly CoverageAccount[], columns: readonly PeriodColumn[]): ColumnValues =>
+    Object.fromEntries(columns.map(({ key }) =>
+        [key, accounts.reduce((total, account) => total + (account.amounts[key] ?? 0), 0)]));
@@ -31,6 +31,7 @@
 
 import { type Result, ok, err, type Option, some, none, memoize } from '../utils/index.ts';
 import { applyFilter, type FilterSpec, validateFilter } from '../filters/filter.ts';
+import { buildYearColumns, buildColumnFilterExpression, type PeriodColumn } from '../calculations/columns.ts';
 
 // ============================================================================
 // Types
@@ -41,16 +42,27 @@ type ColumnTable = any;
 
 /**
  * Aggregate function types
+ *
+ * `closing` sums the amounts of the last period in each column, for balances
+ * that are stored cumulatively per period (a balance at the end of the column).
  */
-export type AggregateFunction = 'sum' | 'average' | 'avg' | 'count' | 'min' | 'max' | 'first' | 'last';
+export type AggregateFunction = 'sum' | 'average' | 'avg' | 'count' | 'min' | 'max' | 'first' | 'last' | 'closing';
 
 /**
  * Variable definition
+ *
+ * `exclude` removes accounts from the accounts the filter selects; `include`
+ * adds accounts whether or not the filter selects them (e.g. an account moved
+ * in from another variable).
  */
 export interface VariableDefinition {
     readonly filter: FilterSpec;
     readonly aggregate: AggregateFunction;
     readonly description?: string;
+    /** Account codes counted in addition to the filter */
+    readonly include?: readonly string[];
+    /** Account codes not counted even when the filter selects them */
+    readonly exclude?: readonly string[];
 }
 
 /**
@@ -62,16 +74,20 @@ export interface Variables {
 
 /**
  * Period options for variable resolution
+ *
+ * When columns are given, values are resolved per column; otherwise one
+ * value is resolved per year found in the data.
  */
 export interface PeriodOptions {
-    readonly [key: string]: string | boolean | number;
+    readonly columns?: readonly PeriodColumn[];
+    readonly [key: string]: unknown;
 }
 
 /**
- * Resolved variable values by year
+ * Resolved variable values by column key (the year for full-year columns)
  */
 export interface ResolvedValues {
-    readonly [year: number]: number;
+    readonly [columnKey: string]: number;
 }
 
 /**
@@ -98,7 +114,7 @@ interface ResolutionContext {
  * Supported aggregate functions
  */
 export const AGGREGATE_FUNCTIONS: readonly AggregateFunction[] = [
-    'sum', 'average', 'avg', 'count', 'min', 'max', 'first', 'last'
+    'sum', 'average', 'avg', 'count', 'min', 'max', 'first', 'last', 'closing'
 ] as const;
 
 // ============================================================================
@@ -124,6 +140,7 @@ export const isValidAggregate = (aggregate: string): aggregate is AggregateFunct
  * Checks that the variable definition has the required structure:
  * - filter: object (can be empty)
  * - aggregate: one of the supported aggregate functions
+ * - include/exclude (optional): non-empty arrays of account codes, without codes in both
  * 
  * @param varDef - Variable definition to validate
  * @returns Validation result with isValid flag and errors array
@@ -181,12 +198,52 @@ export const validateVariable = (varDef: VariableDefinition): ValidationResult =
         }
     }
     
+    // Validate account lists (if present)
+    for (const list of ['include', 'exclude'] as const) {
+        const codes = varDef[list];
+        if (codes !== undefined && (!Array.isArray(codes) || codes.length === 0 ||
+            !codes.every(code => typeof code === 'string' && code !== ''))) {
+            errors.push(`${list} must be a non-empty array of account codes`);
+        }
+    }
+    if (Array.isArray(varDef.include) && Array.isArray(varDef.exclude)) {
+        const both = varDef.include.filter(code => varDef.exclude!.includes(code));
+        if (both.length > 0) {
+            errors.push(`Accounts both included and excluded: ${both.join(', ')}`);
+        }
+    }
+    
     return {
         isValid: errors.length === 0,
         errors
     };
 };
 
+/**
+ * Build the filter that selects the accounts of a variable
+ * 
+ * Combines the variable's filter with its include and exclude account lists.
+ * 
+ * @param varDef - Variable definition
+ * @returns Filter specification; the variable's own filter when it has no account lists
+ * 
+ * @example
+ * buildVariableFilter({ filter: { code1: '520' }, aggregate: 'sum', exclude: ['5210'], include: ['6100'] })
+ * // Returns: { anyOf: [{ allOf: [{ code1: '520' }, { not: { anyOf: [{ account_code: '5210' }] } }] }, { account_code: '6100' }] }
+ */
+export const buildVariableFilter = (varDef: Partial<Pick<VariableDefinition, 'filter' | 'include' | 'exclude'>>): FilterSpec => {
+    // Exact match per account code (codes may contain wildcards, e.g. '52*')
+    const accounts = (codes: readonly string[]): readonly FilterSpec[] => codes.map(code => ({ account_code: code }));
+    const filter = varDef.filter || {};
+    const selected = varDef.exclude && varDef.exclude.length > 0
+        ? { allOf: [filter, { not: { anyOf: accounts(varDef.exclude) } }] }
+        : filter;
+
+    return varDef.include && varDef.include.length > 0
+        ? { anyOf: [selected, ...accounts(varDef.include)] }
+        : selected;
+};
+
 // ============================================================================
 // Aggregation
 // ============================================================================
@@ -225,6 +282,7 @@ const applyAggregate = (amounts: readonly number[], aggregateFunc: AggregateFunc
     
     switch (aggregateFunc.toLowerCase()) {
         case 'sum':
+        case 'closing':
             return amounts.reduce((sum, val) => sum + (val || 0), 0);
         
         case 'average':
@@ -252,62 +310,97 @@ const applyAggregate = (amounts: readonly number[], aggregateFunc: AggregateFunc
 };
 
 /**
- * Aggregate filtered data by year
+ * Get the columns to resolve values for
  * 
- * Groups the filtered data by year and applies the specified aggregate function.
- * Returns an object with year keys.
+ * Uses the requested columns, or one full-year column per year in the data.
+ * 
+ * @param originalData - Original movements data (before filtering)
+ * @param columns - Optional requested period columns
+ * @returns Period columns
+ */
+const getResolutionColumns = (
+    originalData: ColumnTable,
+    columns?: readonly PeriodColumn[]
+): readonly PeriodColumn[] =>
+    columns && columns.length > 0 ? columns : buildYearColumns(getUniqueYears(originalData));
+
+/**
+ * Get the last period of a column present in the data
+ * 
+ * Uses the unfiltered data, so a column closes on the same period for every
+ * variable even when some accounts have no (zero) balance in that period.
+ * 
+ * @param sourceData - Arquero table before the variable filter
+ * @param column - Period column
+ * @returns Last period with data, or null if the column has no data
+ */
+const getClosingPeriod = (sourceData: ColumnTable, column: PeriodColumn): number | null => {
+    const periods = sourceData.filter(buildColumnFilterExpression(column)).array('period') as number[];
+    return periods.length > 0 ? periods.reduce((max, period) => Math.max(max, period)) : null;
+};
+
+/**
+ * Aggregate filtered data by period column
+ * 
+ * Selects the rows of each column (year and period range) and applies the
+ * specified aggregate function. Returns an object keyed by column key.
  * 
  * @param filteredData - Arquero table after filtering
  * @param aggregateFunc - Aggregate function name
- * @param originalData - Original movements data (before filtering) to determine available years
- * @returns Aggregated values by year
+ * @param columns - Period columns to aggregate for
+ * @param sourceData - Arquero table before filtering (for the closing period)
+ * @returns Aggregated values by column key
  * 
  * @example
- * aggregateByYear(filteredData, 'sum', originalData)
+ * aggregateByColumns(filteredData, 'sum', buildYearColumns([2024, 2025]))
  * // Returns: { 2024: 3000, 2025: 4000 }
  */
-const aggregateByYear = (
+const aggregateByColumns = (
     filteredData: ColumnTable,
     aggregateFunc: AggregateFunction,
-    originalData: ColumnTable
+    columns: readonly PeriodColumn[],
+    sourceData: ColumnTable = filteredData
 ): ResolvedValues => {
-    // Get unique years from original data
-    const availableYears = getUniqueYears(originalData);
-    
-    if (availableYears.length === 0) {
+    if (columns.length === 0) {
         return {};
     }
     
-    // Aggregate for each year
-    const result: Record<number, number> = {};
+    // Aggregate for each column
+    const result: Record<string, number> = {};
     
-    for (const year of availableYears) {
-        // Filter for this year
-        const yearData = filteredData.filter(`d => d.year === ${year}`);
+    for (const column of columns) {
+        // Filter for this column's year and periods
+        let columnData = filteredData.filter(buildColumnFilterExpression(column));
+
+        // Balances: keep only the column's closing period
+        if (aggregateFunc === 'closing' && columnData.numRows() > 0) {
+            const closingPeriod = getClosingPeriod(sourceData, column);
+            columnData = columnData.filter(`d => d.period === ${Number(closingPeriod)}`);
+        }
         
-        if (yearData.numRows() === 0) {
-            result[year] = 0;
+        if (columnData.numRows() === 0) {
+            result[column.key] = 0;
             continue;
         }
         
-        // Get amounts for this year
+        // Get amounts for this column
         // Try 'movement_amount' first, then fall back to 'amount' for backward compatibility
         try {
             let amounts: number[];
-            const columns = yearData.columnNames();
+            const columnNames = columnData.columnNames();
             
-            if (columns.includes('movement_amount')) {
-                amounts = yearData.array('movement_amount') as number[];
-            } else if (columns.includes('amount')) {
-                amounts = yearData.array('amount') as number[];
+            if (columnNames.includes('movement_amount')) {
+                amounts = columnData.array('movement_amount') as number[];
+            } else if (columnNames.includes('amount')) {
+                amounts = columnData.array('amount') as number[];
             } else {
                 throw new Error(
                     `Neither 'movement_amount' nor 'amount' column found in data. ` +
-                    `Available columns: ${columns.join(', ')}`
+                    `Available columns: ${columnNames.join(', ')}`
                 );
             }
             
-            result[year] = applyAggregate(amounts, aggregateFunc) || 0;
+            result[column.key] = applyAggregate(amounts, aggregateFunc) || 0;
         } catch (error) {
             if (error instanceof Error) {
                 throw error;
@@ -327,9 +420,10 @@ const aggregateByYear = (
  * Resolve a single variable definition
  * 
  * Applies the filter specification to movements data, then executes the aggregate
- * function to compute values for each year/period combination.
+ * function to compute values for each period column (each year by default).
  * 
  * @param varDef - Variable definition with filter and aggregate
+ * @param columns - Optional period columns to resolve values for
  * @returns Curried function that takes movements data and returns Result with resolved values
  * 
  * @example
@@ -338,8 +432,11 @@ const aggregateByYear = (
  * if (result.success) {
  *   console.log('2024:', result.value[2024]);
  * }
+ * 
+ * // Monthly columns
+ * const monthly = resolveVariable(varDef, buildMonthColumns(2025))(movementsData);
  */
-export const resolveVariable = (varDef: VariableDefinition) => (
+export const resolveVariable = (varDef: VariableDefinition, columns?: readonly PeriodColumn[]) => (
     movementsData: ColumnTable
 ): Result<ResolvedValues, Error> => {
     // Validate variable definition
@@ -356,27 +453,28 @@ export const resolveVariable = (varDef: VariableDefinition) => (
     // Apply filter to movements data
     let filteredData: ColumnTable;
     try {
-        filteredData = applyFilter(varDef.filter)(movementsData);
+        filteredData = applyFilter(buildVariableFilter(varDef))(movementsData);
     } catch (filterError) {
         const filterDesc = JSON.stringify(varDef.filter);
         const errorMessage = filterError instanceof Error ? filterError.message : String(filterError);
         return err(new Error(`Filter failed: ${errorMessage}. Filter: ${filterDesc}`));
     }
     
+    const resolutionColumns = getResolutionColumns(movementsData, columns);
+    
     // Check if filter returned any data
     if (!filteredData || filteredData.numRows() === 0) {
-        // Return zeros for all years in original data
-        const availableYears = getUniqueYears(movementsData);
-        const result: Record<number, number> = {};
-        for (const year of availableYears) {
-            result[year] = 0;
+        // Return zeros for all columns
+        const result: Record<string, number> = {};
+        for (const column of resolutionColumns) {
+            result[column.key] = 0;
         }
         return ok(result);
     }
     
-    // Execute aggregate function for each year
+    // Execute aggregate function for each column
     try {
-        const result = aggregateByYear(filteredData, varDef.aggregate, movementsData);
+        const result = aggregateByColumns(filteredData, varDef.aggregate, resolutionColumns, movementsData);
         return ok(result);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -409,13 +507,15 @@ const checkCircularDependency = (
  * @param varDef - Variable definition
  * @param movementsData - Movements data
  * @param context - Resolution context with cache and stack
+ * @param columns - Optional period columns
  * @returns Result with updated context and resolved value
  */
 const resolveVariableWithContext = (
     varName: string,
     varDef: VariableDefinition,
     movementsData: ColumnTable,
-    context: ResolutionContext
+    context: ResolutionContext,
+    columns?: readonly PeriodColumn[]
 ): Result<{ context: ResolutionContext; value: ResolvedValues }, Error> => {
     // Check cache first
     if (context.cache.has(varName)) {
@@ -439,7 +539,7 @@ const resolveVariableWithContext = (
     };
     
     // Resolve the variable
-    const result = resolveVariable(varDef)(movementsData);
+    const result = resolveVariable(varDef, columns)(movementsData);
     
     if (!result.success) {
         return err(new Error(`Failed to resolve variable '${varName}': ${result.error.message}`));
@@ -485,7 +585,7 @@ const resolveVariableWithContext = (
 export const resolveVariables = (variables: Variables) => (
     movementsData: ColumnTable
 ) => (
-    _periodOptions: PeriodOptions
+    periodOptions: PeriodOptions
 ): Result<ReadonlyMap<string, ResolvedValues>, Error> => {
     // Validate inputs
     if (!variables || typeof variables !== 'object') {
@@ -506,7 +606,9 @@ export const resolveVariables = (variables: Variables) => (
     
     // Resolve each variable
     for (const [varName, varDef] of Object.entries(variables)) {
-        const result = resolveVariableWithContext(varName, varDef, movementsData, context);
+        const result = resolveVariableWithContext(
+            varName, varDef, movementsData, context, periodOptions?.columns
+        );
         
         if (!result.success) {
             return err(result.error);
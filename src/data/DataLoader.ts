@@ -5,13 +5,35 @@
  * Dependencies: ExcelJS (global from CDN), aq/Arquero (global from CDN), Day.js (global from CDN)
  */
 
-import { MONTH_MAP, EXCEL_COLUMNS, STATEMENT_TYPES, VALIDATION_CONFIG } from '../constants.ts';
-import { initializeDayJS, getMonthNumber, getAllMonthNames } from '../core/transformations/date.ts';
+import { STATEMENT_TYPES, VALIDATION_CONFIG } from '../constants.ts';
+import { initializeDayJS } from '../core/transformations/date.ts';
 import ValidationResult from '../utils/ValidationResult.ts';
 import HierarchyCodeMapper from '../utils/HierarchyCodeMapper.ts';
 import { AccountMapper } from '../config/accountMappings.ts';
 import Logger from '../utils/Logger.ts';
 import { ErrorFactory } from '../errors/index.ts';
+import { ACTUAL_SCENARIO } from '../core/calculations/columns.ts';
+import { buildEliminationRows, type IntercompanyRule } from '../core/calculations/consolidation.ts';
+import { INTERCOMPANY_ACCOUNTS } from '../config/intercompany.ts';
+import {
+    DEFAULT_PRESENTATION_CURRENCY,
+    parseFxRates,
+    translateTrialBalance,
+    type FxRate
+} from '../core/calculations/currency.ts';
+import { ResourceType } from '../config/DataSourceConfig.ts';
+import type { ConfigurationManager } from '../config/ConfigurationManager.ts';
+import { CacheManager } from '../config/CacheManager.ts';
+import { isDelimitedFile, parseDelimited } from '../core/transformations/delimited.ts';
+import {
+    DEFAULT_IMPORT_PROFILE,
+    findMissingColumns,
+    findPeriodColumns,
+    mapStatementType,
+    readProfileRows,
+    validateImportProfile,
+    type ImportProfile
+} from '../core/transformations/import-profile.ts';
 
 // Global types for libraries loaded via CDN
 declare const aq: any;
@@ -27,29 +49,42 @@ declare global {
 // Type definitions
 type ArqueroTable = any;
 
-interface Config {
+export interface Config {
     inputFiles: {
         trialBalance2024: string;
         trialBalance2025: string;
+        /** Workbook per year, e.g. trialBalance2026 */
+        [trialBalance: `trialBalance${string}`]: string;
+        /** Scenario workbooks by scenario and year, e.g. { budget: { '2025': 'budget_2025.xlsx' } } */
+        scenarios?: Record<string, Record<string, string>>;
+        /** Trial balances of several legal entities by entity and year, e.g. { holding: { '2025': 'holding_2025.xlsx' } } */
+        entities?: Record<string, Record<string, string>>;
     };
+    /** Layout of the trial balance files (default: DEFAULT_IMPORT_PROFILE) */
+    importProfile?: ImportProfile;
+    /** Currency translation of datasets kept in a foreign currency */
+    currency?: CurrencyConfig;
     [key: string]: any;
 }
 
-interface PeriodMapping {
-    period: number;
-    year: number;
-    type: 'movement' | 'balance';
-}
-
-interface PeriodColumn {
-    columnIndex: number;
-    period: number;
-    columnName: string;
-}
-
-interface PeriodColumns {
-    movements: PeriodColumn[];
-    balances: PeriodColumn[];
+export interface CurrencyConfig {
+    /** Currency the statements are presented in (default: EUR) */
+    presentationCurrency?: string;
+    /** Local currency by dataset: an entity id, or the scenario of a single trial balance (actual, budget) */
+    datasets?: Record<string, string>;
+    /** FX rate table, fetched as a dim table (ResourceType.DIM_TABLE) */
+    fxRates?: string;
+    /** Equity account the translation difference is posted to */
+    translationAccount?: {
+        accountCode: string;
+        accountDescription?: string;
+        code1: string;
+        name1?: string;
+        code2?: string;
+        name2?: string;
+        code3?: string;
+        name3?: string;
+    };
 }
 
 interface BaseRow {
@@ -69,12 +104,14 @@ interface BaseRow {
 interface MovementRow extends BaseRow {
     period: number;
     year: number;
+    scenario: string;
     movement_amount: number;
 }
 
 interface BalanceRow extends BaseRow {
     period: number;
     year: number;
+    scenario: string;
     balance_amount: number;
 }
 
@@ -97,8 +134,14 @@ export default class DataLoader {
     public inputDirHandle: FileSystemDirectoryHandle | null;
     private outputDirHandle: FileSystemDirectoryHandle | null;
     private config: Config | null;
+    private fxRates: FxRate[];
+    private factTableSource: ConfigurationManager | null;
+    private tableCache: CacheManager | null;
 
     constructor() {
+        this.fxRates = [];
+        this.factTableSource = null;
+        this.tableCache = null;
         this.inputDirHandle = null;
         this.outputDirHandle = null;
         this.config = null; // Will be set via setConfig()
@@ -159,6 +202,51 @@ export default class DataLoader {
         }
     }
 
+    // Read trial balances through the factTable data source (e.g. an S3 bucket)
+    // instead of the selected input directory; null switches back to the directory
+    setFactTableSource(manager: ConfigurationManager | null): void {
+        this.factTableSource = manager;
+    }
+
+    // Keep parsed trial balances (serialized Arquero tables) in a cache, so reopening
+    // the app does not parse the same workbooks again; null disables it
+    setTableCache(cache: CacheManager | null): void {
+        this.tableCache = cache;
+    }
+
+    // Serialize parsed trial balance tables for the table cache
+    serializeLoadResult(result: LoadResult): string {
+        return `{"movements":${result.movements.toJSON()},"balances":${result.balances.toJSON()},"metadata":${JSON.stringify(result.metadata)}}`;
+    }
+
+    // Restore parsed trial balance tables serialized by serializeLoadResult()
+    deserializeLoadResult(serialized: string): LoadResult {
+        const { movements, balances, metadata } = JSON.parse(serialized);
+        return {
+            movements: aq.fromJSON(movements),
+            balances: aq.fromJSON(balances),
+            metadata
+        };
+    }
+
+    // Cache key of a parsed trial balance: the file contents and the import profile determine the tables
+    async getTableCacheKey(arrayBuffer: ArrayBuffer, filename: string, period: string, scenario: string): Promise<string> {
+        const profile = new TextEncoder().encode(JSON.stringify(this.getImportProfile()));
+        const digest = await crypto.subtle.digest('SHA-256', await new Blob([arrayBuffer, profile]).arrayBuffer());
+        const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+        return CacheManager.generateKey(ResourceType.FACT_TABLE, `parsed:${filename}:${period}:${scenario}:${hash}`);
+    }
+
+    // Read file from the factTable data source
+    async readFileFromSource(filename: string): Promise<Blob> {
+        if (!this.factTableSource) {
+            throw ErrorFactory.missingConfig('dataSources.factTable');
+        }
+
+        const { content } = await this.factTableSource.getResource(ResourceType.FACT_TABLE, filename);
+        return content instanceof Blob ? content : new Blob([content]);
+    }
+
     // Read file from input directory
     async readFileFromDirectory(filename: string): Promise<File> {
         if (!this.inputDirHandle) {
@@ -204,79 +292,6 @@ export default class DataLoader {
         return result;
     }
 
-    // Map month name and year to period number
-    mapMonthToPeriod(columnName: string, year: string): PeriodMapping | null {
-        const lowerCol = String(columnName).toLowerCase();
-
-        // Check for "Voorafgaandejournaalposten" - map to period 12 (December)
-        if (lowerCol.includes('voorafgaandejournaalposten') || lowerCol.includes('voorafgaande')) {
-            if (lowerCol.includes(year)) {
-                return {
-                    period: 12,
-                    year: parseInt(year),
-                    type: 'movement'
-                };
-            }
-        }
-
-        // Check for month patterns (e.g., "januari2024", "februari2024")
-        // Try all Dutch month names using DateUtils
-        const monthNames = getAllMonthNames();
-        for (const monthName of monthNames) {
-            const lowerMonth = monthName.toLowerCase();
-            if (lowerCol.includes(lowerMonth) && lowerCol.includes(year)) {
-                const periodNumOption = getMonthNumber(monthName);
-                if (periodNumOption.some) {
-                    return {
-                        period: periodNumOption.value,
-                        year: parseInt(year),
-                        type: 'movement'
-                    };
-                }
-            }
-        }
-
-        // Check for balance indicators
-        if (lowerCol.includes('saldo') || lowerCol.includes('balance')) {
-            return {
-                period: 12, // End of year
-                year: parseInt(year),
-                type: 'balance'
-            };
-        }
-
-        return null;
-    }
-
-    // Identify period columns from headers
-    identifyPeriodColumns(headers: any[], year: string): PeriodColumns {
-        const movements: PeriodColumn[] = [];
-        const balances: PeriodColumn[] = [];
-
-        headers.forEach((header, index) => {
-            if (!header) return;
-
-            const mapping = this.mapMonthToPeriod(header, year);
-            if (mapping) {
-                if (mapping.type === 'movement') {
-                    movements.push({
-                        columnIndex: index,
-                        period: mapping.period,
-                        columnName: header
-                    });
-                } else if (mapping.type === 'balance') {
-                    balances.push({
-                        columnIndex: index,
-                        period: mapping.period,
-                        columnName: header
-                    });
-                }
-            }
-        });
-
-        return { movements, balances };
-    }
-
     // Calculate cumulative profit from balances table
     calculateCumulativeProfit(balancesTable: ArqueroTable): number {
         try {
@@ -293,79 +308,80 @@ export default class DataLoader {
         }
     }
 
-    // Transform wide format data to long format
-    transformWideToLong(worksheet: any, year: string): TransformResult {
-        const movements: MovementRow[] = [];
-        const balances: BalanceRow[] = [];
-
-        // Get headers from first row
-        const headers: any[] = [];
-        const headerRow = worksheet.getRow(1);
-        headerRow.eachCell((cell: any, colNumber: number) => {
-            headers[colNumber] = cell.value;
-        });
+    // Get the import profile describing the trial balance layout
+    // config.json "importProfile" overrides the default Dutch layout
+    getImportProfile(): ImportProfile {
+        const config = this.config || (globalThis as any).window?.config;
+        const profile = config?.importProfile;
+        if (!profile) {
+            return DEFAULT_IMPORT_PROFILE;
+        }
 
-        // Identify period columns
-        const periodColumns = this.identifyPeriodColumns(headers, year);
+        const validation = validateImportProfile(profile);
+        if (!validation.isValid) {
+            throw ErrorFactory.schemaValidation('importProfile', [...validation.errors]);
+        }
+        return profile;
+    }
 
-        Logger.debug(`Found ${periodColumns.movements.length} movement columns and ${periodColumns.balances.length} balance columns for ${year}`);
+    // Transform a worksheet to long format using the import profile (rows are tagged with their scenario)
+    // Wide layouts have a column per period; long layouts a row per account and period
+    transformWideToLong(
+        worksheet: any,
+        year: string,
+        scenario: string = ACTUAL_SCENARIO,
+        profile: ImportProfile = this.getImportProfile(),
+        filename: string = worksheet?.name ?? 'worksheet'
+    ): TransformResult {
+        // Sheet rows as 0-based arrays (ExcelJS row values are 1-based)
+        const rows: unknown[][] = [];
+        for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+            const values = worksheet.getRow(rowNumber).values;
+            rows.push(Array.isArray(values) ? values.slice(1) : []);
+        }
 
-        // Process each data row
-        worksheet.eachRow((row: any, rowNumber: number) => {
-            if (rowNumber === 1) return; // Skip header row
+        return this.transformRows(rows, year, scenario, profile, filename);
+    }
 
-            const accountCode = row.getCell(EXCEL_COLUMNS.ACCOUNT_CODE).value;
-            const accountDescription = row.getCell(EXCEL_COLUMNS.ACCOUNT_DESCRIPTION).value;
+    // Transform rows of cell values (worksheet or delimited text) to long format using the import profile
+    transformRows(
+        rows: unknown[][],
+        year: string,
+        scenario: string = ACTUAL_SCENARIO,
+        profile: ImportProfile = this.getImportProfile(),
+        filename: string = 'rows'
+    ): TransformResult {
+        const movements: MovementRow[] = [];
+        const balances: BalanceRow[] = [];
 
-            if (!accountCode) return;
+        const headers = rows[(profile.headerRow ?? 1) - 1] || [];
+        const missingColumns = findMissingColumns(headers, profile);
+        if (missingColumns.length > 0) {
+            throw ErrorFactory.missingColumns(filename, missingColumns);
+        }
 
-            // Extract hierarchy columns
-            let statementType = row.getCell(EXCEL_COLUMNS.STATEMENT_TYPE).value;
-            let level1Code = row.getCell(EXCEL_COLUMNS.CODE1).value;
-            let level1Label = row.getCell(EXCEL_COLUMNS.NAME1).value;
-            let level2Code = row.getCell(EXCEL_COLUMNS.CODE2).value;
-            let level2Label = row.getCell(EXCEL_COLUMNS.NAME2).value;
-            let level3Code = row.getCell(EXCEL_COLUMNS.CODE3).value;
-            let level3Label = row.getCell(EXCEL_COLUMNS.NAME3).value;
+        if (profile.layout === 'wide') {
+            const periodColumns = findPeriodColumns(headers, profile, year);
+            Logger.debug(`Found ${periodColumns.movements.length} movement columns and ${periodColumns.balances.length} balance columns for ${year}`);
+        }
 
+        for (const record of readProfileRows(rows, profile, year)) {
             // Apply special account mappings (e.g., Afrondingsverschil)
-            const rowData = {
-                accountCode,
-                accountDescription,
-                statementType,
-                level1Code,
-                level1Label,
-                level2Code,
-                level2Label,
-                level3Code,
-                level3Label
-            };
+            const remappedRow = AccountMapper.applySpecialMappings(record as Record<string, any>);
 
-            const remappedRow = AccountMapper.applySpecialMappings(rowData);
-
-            // Use remapped values if changed
-            statementType = remappedRow.statementType;
-            level1Code = remappedRow.level1Code;
-            level1Label = remappedRow.level1Label;
-            level2Code = remappedRow.level2Code;
-            level2Label = remappedRow.level2Label;
-            level3Code = remappedRow.level3Code;
-            level3Label = remappedRow.level3Label;
-
-            // Determine statement type
-            let stmtType: string = STATEMENT_TYPES.INCOME_STATEMENT; // Default
-            if (statementType === 'Balans') {
-                stmtType = STATEMENT_TYPES.BALANCE_SHEET;
-            } else if (statementType === 'Winst & verlies') {
-                stmtType = STATEMENT_TYPES.INCOME_STATEMENT;
-            }
+            const level1Code = remappedRow.level1Code;
+            const level1Label = remappedRow.level1Label;
+            const level2Code = remappedRow.level2Code;
+            const level2Label = remappedRow.level2Label;
+            const level3Code = remappedRow.level3Code;
+            const level3Label = remappedRow.level3Label;
 
             // Determine Code0 and Name0 based on code1 using HierarchyCodeMapper
-            const { code0, name0 } = HierarchyCodeMapper.getCode0AndName0(level1Code);
+            const { code0, name0 } = HierarchyCodeMapper.getCode0AndName0(level1Code ?? '');
 
             // Create base row with hierarchy
             const baseRow: BaseRow = {
-                statement_type: stmtType,
+                statement_type: mapStatementType(remappedRow.statementType, profile),
                 code0: code0,
                 name0: name0,
                 code1: level1Code !== null && level1Code !== undefined ? String(level1Code) : '',
@@ -373,49 +389,346 @@ export default class DataLoader {
                 code2: level2Code !== null && level2Code !== undefined ? String(level2Code) : '',
                 name2: (level2Label ?? level1Label ?? '').toString(),
                 code3: level3Code !== null && level3Code !== undefined ? String(level3Code) : '',
-                name3: level3Label ?? '',
-                account_code: String(accountCode),
-                account_description: String(accountDescription ?? '')
+                name3: (level3Label ?? '').toString(),
+                account_code: record.accountCode,
+                account_description: record.accountDescription
             };
 
-            // Process movement columns
-            periodColumns.movements.forEach(col => {
-                const value = row.getCell(col.columnIndex).value;
-
-                // Only include non-zero and non-null values (sparse representation)
-                if (value !== null && value !== undefined && value !== 0) {
-                    movements.push({
-                        ...baseRow,
-                        period: col.period,
-                        year: parseInt(year),
-                        movement_amount: Number(value)
-                    });
-                }
+            // Only non-zero amounts are read (sparse representation)
+            record.movements.forEach(({ period, amount }) => {
+                movements.push({
+                    ...baseRow,
+                    period,
+                    year: parseInt(year),
+                    scenario,
+                    movement_amount: amount
+                });
             });
 
-            // Process balance columns
-            periodColumns.balances.forEach(col => {
-                const value = row.getCell(col.columnIndex).value;
-
-                // Only include non-zero and non-null values (sparse representation)
-                if (value !== null && value !== undefined && value !== 0) {
-                    balances.push({
-                        ...baseRow,
-                        period: col.period,
-                        year: parseInt(year),
-                        balance_amount: Number(value)
-                    });
-                }
+            record.balances.forEach(({ period, amount }) => {
+                balances.push({
+                    ...baseRow,
+                    period,
+                    year: parseInt(year),
+                    scenario,
+                    balance_amount: amount
+                });
             });
-        });
+        }
 
         Logger.debug(`Transformed to ${movements.length} movement rows and ${balances.length} balance rows`);
 
         return { movements, balances };
     }
 
+    // Resolve the workbook filename for a period and scenario
+    resolveTrialBalanceFilename(config: Config, period: string, scenario: string = ACTUAL_SCENARIO, entity?: string): string {
+        const filename = entity !== undefined
+            ? config.inputFiles.entities?.[entity]?.[period]
+            : scenario === ACTUAL_SCENARIO
+                ? config.inputFiles[`trialBalance${period}`]
+                : config.inputFiles.scenarios?.[scenario]?.[period];
+
+        if (!filename) {
+            const key = entity !== undefined
+                ? `inputFiles.entities.${entity}.${period}`
+                : scenario === ACTUAL_SCENARIO
+                    ? `inputFiles.trialBalance${period}`
+                    : `inputFiles.scenarios.${scenario}.${period}`;
+            throw ErrorFactory.invalidConfig('config.json', key, undefined,
+                `no ${entity ?? scenario} workbook configured for ${period}`);
+        }
+        return filename;
+    }
+
+    // Get the legal entities with a trial balance configured for a period (inputFiles.entities)
+    getConfiguredEntities(period: string, config: Config | null = this.config || (globalThis as any).config): string[] {
+        const entities = config?.inputFiles?.entities || {};
+        return Object.keys(entities).filter(entity => !!entities[entity]?.[period]);
+    }
+
+    // Combine the trial balances of several entities: rows are tagged with their entity and
+    // intercompany rows get elimination rows (entity 'elimination') with the opposite amount
+    combineEntityTrialBalances(
+        results: Record<string, LoadResult>,
+        rules: Record<string, IntercompanyRule> = INTERCOMPANY_ACCOUNTS
+    ): LoadResult {
+        const tag = (table: ArqueroTable, entity: string): any[] =>
+            table.objects().map((row: any) => ({ ...row, entity }));
+
+        const entries = Object.entries(results);
+        const movements = entries.flatMap(([entity, result]) => tag(result.movements, entity));
+        const balances = entries.flatMap(([entity, result]) => tag(result.balances, entity));
+        const movementEliminations = buildEliminationRows(movements, rules);
+        const balanceEliminations = buildEliminationRows(balances, rules);
+
+        // Consolidated profit: the entities' profit less the eliminated income statement balances
+        const eliminatedProfit = balanceEliminations
+            .filter(row => row.statement_type === STATEMENT_TYPES.INCOME_STATEMENT && row.period === 12)
+            .reduce((total, row) => total + (Number(row.movement_amount) || 0), 0);
+
+        Logger.info(`Consolidated ${entries.length} entities: ${movementEliminations.length} movement and ${balanceEliminations.length} balance rows eliminated`);
+
+        return {
+            movements: aq.from([...movements, ...movementEliminations]),
+            balances: aq.from([...balances, ...balanceEliminations]),
+            metadata: {
+                rows: entries.reduce((total, [, result]) => total + result.metadata.rows, 0),
+                columns: Math.max(...entries.map(([, result]) => result.metadata.columns)),
+                cumulativeProfit: entries.reduce((total, [, result]) => total + result.metadata.cumulativeProfit, 0) + eliminatedProfit
+            }
+        };
+    }
+
+    // Get the currency statements are presented in (currency.presentationCurrency, default EUR)
+    getPresentationCurrency(config: Config | null = this.config || (globalThis as any).config): string {
+        return (config?.currency?.presentationCurrency || DEFAULT_PRESENTATION_CURRENCY).toUpperCase();
+    }
+
+    // Set the FX rates used to translate foreign datasets
+    setFxRates(rates: FxRate[]): void {
+        this.fxRates = rates;
+        Logger.debug(`${rates.length} FX rates stored`);
+    }
+
+    // Parse an FX rate table: a .json array of rate objects, or delimited text with a header row
+    parseFxRateTable(text: string, filename: string): FxRate[] {
+        try {
+            const rows = filename.toLowerCase().endsWith('.json')
+                ? JSON.parse(text)
+                : parseDelimited(text);
+            return parseFxRates(Array.isArray(rows) ? rows : []);
+        } catch (error) {
+            throw ErrorFactory.fileParse(filename, error as Error);
+        }
+    }
+
+    // Fetch the FX rate table in currency.fxRates as a dim table and keep its rates
+    async loadFxRates(manager: ConfigurationManager, config: Config | null = this.config || (globalThis as any).config): Promise<FxRate[]> {
+        const resourceId = config?.currency?.fxRates;
+        if (!resourceId) {
+            return [];
+        }
+
+        const { content } = await manager.getResource(ResourceType.DIM_TABLE, resourceId);
+        const text = typeof content === 'string'
+            ? content
+            : content instanceof Blob
+                ? await content.text()
+                : new TextDecoder().decode(content);
+
+        const rates = this.parseFxRateTable(text, resourceId);
+        this.setFxRates(rates);
+        Logger.info(`Loaded ${rates.length} FX rates from ${resourceId}`);
+        return rates;
+    }
+
+    // Translate a dataset kept in a foreign currency (currency.datasets) into the presentation currency
+    // Income statement rows use average rates, balance sheet rows closing rates; the translation
+    // difference is posted to currency.translationAccount
+    translateTrialBalance(result: LoadResult, dataset: string, config: Config | null = this.config || (globalThis as any).config): LoadResult {
+        const currencyConfig = config?.currency;
+        const currency = currencyConfig?.datasets?.[dataset]?.toUpperCase();
+        const presentationCurrency = this.getPresentationCurrency(config);
+        if (!currency || currency === presentationCurrency) {
+            return result;
+        }
+
+        const account = currencyConfig?.translationAccount;
+        if (!account?.accountCode || !account.code1) {
+            throw ErrorFactory.invalidConfig('config.json', 'currency.translationAccount', account,
+                `accountCode and code1 are required to translate ${dataset} from ${currency}`);
+        }
+        if (this.fxRates.length === 0) {
+            throw ErrorFactory.invalidConfig('config.json', 'currency.fxRates', currencyConfig?.fxRates,
+                `no FX rates loaded to translate ${dataset} from ${currency}`);
+        }
+
+        const { code0, name0 } = HierarchyCodeMapper.getCode0AndName0(account.code1);
+        const translationAccount = {
+            code0,
+            name0,
+            code1: account.code1,
+            name1: account.name1 ?? '',
+            code2: account.code2 ?? '',
+            name2: account.name2 ?? account.name1 ?? '',
+            code3: account.code3 ?? '',
+            name3: account.name3 ?? '',
+            account_code: account.accountCode,
+            account_description: account.accountDescription ?? 'Translation differences'
+        };
+
+        let translated;
+        try {
+            translated = translateTrialBalance(
+                { movements: result.movements.objects(), balances: result.balances.objects() },
+                currency,
+                this.fxRates,
+                translationAccount
+            );
+        } catch (error) {
+            throw ErrorFactory.dataIntegrity(`FX rates for ${dataset}`, [(error as Error).message]);
+        }
+
+        const profit = translated.balances
+            .filter(row => row.statement_type === STATEMENT_TYPES.INCOME_STATEMENT && row.period === 12)
+            .reduce((total, row) => total + (Number(row.movement_amount) || 0), 0);
+
+        Logger.info(`Translated ${dataset} from ${currency} to ${presentationCurrency}`);
+
+        return {
+            movements: aq.from(translated.movements),
+            balances: aq.from(translated.balances),
+            metadata: { ...result.metadata, cumulativeProfit: profit }
+        };
+    }
+
+    // Get the scenarios (other than actuals) with a workbook configured for a period
+    getConfiguredScenarios(period: string): string[] {
+        const config = this.config || (window as any).config;
+        const scenarios = config?.inputFiles?.scenarios || {};
+        return Object.keys(scenarios).filter(scenario => !!scenarios[scenario]?.[period]);
+    }
+
+    // Parse a trial balance workbook (contents of an .xlsx file) into movements and balances tables
+    // Used by loadTrialBalance() and by headless tools that read files from disk
+    async parseTrialBalanceWorkbook(
+        arrayBuffer: ArrayBuffer,
+        filename: string,
+        period: string,
+        scenario: string = ACTUAL_SCENARIO
+    ): Promise<LoadResult> {
+        const workbook = new ExcelJS.Workbook();
+        await workbook.xlsx.load(arrayBuffer);
+
+        // Validate workbook has worksheets
+        if (!workbook.worksheets || workbook.worksheets.length === 0) {
+            throw ErrorFactory.invalidFormat(filename, 'Excel file with worksheets');
+        }
+
+        const worksheet = workbook.worksheets[0];
+
+        // Validate worksheet has data
+        if (!worksheet || worksheet.rowCount < 2) {
+            throw ErrorFactory.emptyFile(filename);
+        }
+
+        Logger.debug(`Transforming ${filename} from wide to long format...`);
+        Logger.debug(`  - Worksheet: ${worksheet.name}`);
+        Logger.debug(`  - Rows: ${worksheet.rowCount}, Columns: ${worksheet.columnCount}`);
+
+        // Transform wide format to long format
+        const { movements, balances } = this.transformWideToLong(worksheet, period, scenario, this.getImportProfile(), filename);
+
+        return this.buildLoadResult(movements, balances, filename, period, scenario, {
+            rows: worksheet.rowCount,
+            columns: worksheet.columnCount
+        });
+    }
+
+    // Parse a delimited text file (CSV/TSV contents) into movements and balances tables
+    // The import profile describes the columns; the delimiter is detected unless the profile sets one
+    parseTrialBalanceText(
+        text: string,
+        filename: string,
+        period: string,
+        scenario: string = ACTUAL_SCENARIO
+    ): LoadResult {
+        const profile = this.getImportProfile();
+        const rows = parseDelimited(text, profile.delimiter);
+
+        if (rows.length < (profile.headerRow ?? 1) + 1) {
+            throw ErrorFactory.emptyFile(filename);
+        }
+
+        Logger.debug(`Transforming ${filename} (${profile.layout} layout) to long format...`);
+        Logger.debug(`  - Rows: ${rows.length}, Columns: ${rows[0].length}`);
+
+        const { movements, balances } = this.transformRows(rows, period, scenario, profile, filename);
+
+        return this.buildLoadResult(movements, balances, filename, period, scenario, {
+            rows: rows.length,
+            columns: rows.reduce((widest, row) => Math.max(widest, row.length), 0)
+        });
+    }
+
+    // Parse trial balance file contents: .csv/.tsv/.txt as delimited text, anything else as a workbook
+    async parseTrialBalanceFile(
+        arrayBuffer: ArrayBuffer,
+        filename: string,
+        period: string,
+        scenario: string = ACTUAL_SCENARIO
+    ): Promise<LoadResult> {
+        if (!isDelimitedFile(filename)) {
+            return await this.parseTrialBalanceWorkbook(arrayBuffer, filename, period, scenario);
+        }
+
+        const encoding = this.getImportProfile().encoding ?? 'utf-8';
+        let decoder: TextDecoder;
+        try {
+            decoder = new TextDecoder(encoding);
+        } catch {
+            throw ErrorFactory.invalidConfig('config.json', 'importProfile.encoding', encoding, 'a supported text encoding (e.g. utf-8, windows-1252)');
+        }
+        return this.parseTrialBalanceText(decoder.decode(arrayBuffer), filename, period, scenario);
+    }
+
+    // Convert transformed rows to Arquero tables and validate them
+    private buildLoadResult(
+        movements: MovementRow[],
+        balances: BalanceRow[],
+        filename: string,
+        period: string,
+        scenario: string,
+        size: { rows: number; columns: number }
+    ): LoadResult {
+        // Validate transformation results
+        if (!movements || movements.length === 0) {
+            Logger.warn(`No movements found in ${filename}. This may indicate a data issue.`);
+        }
+
+        // Convert arrays to Arquero tables
+        const movementsTable = aq.from(movements);
+        let balancesTable = aq.from(balances);
+
+        // Calculate cumulative profit BEFORE renaming the column
+        const cumulativeProfit = this.calculateCumulativeProfit(balancesTable);
+
+        // Normalize balances table to use 'movement_amount' column name for consistency
+        // This allows the same statement generation logic to work with both movements and balances
+        if (balancesTable.numRows() > 0 && balancesTable.columnNames().includes('balance_amount')) {
+            balancesTable = balancesTable.rename({ balance_amount: 'movement_amount' });
+        }
+
+        Logger.info(`Trial Balance ${period}${scenario === ACTUAL_SCENARIO ? '' : ` (${scenario})`} loaded successfully:`);
+        Logger.debug(`  - Movements: ${movementsTable.numRows()} rows`);
+        Logger.debug(`  - Balances: ${balancesTable.numRows()} rows`);
+
+        // Validate required columns exist
+        const requiredColumns = ['account_code', 'statement_type', 'code1', 'name1'];
+        const movementColumns = movementsTable.columnNames();
+        const missingColumns = requiredColumns.filter((col: string) => !movementColumns.includes(col));
+
+        if (missingColumns.length > 0) {
+            throw ErrorFactory.missingColumns(filename, missingColumns);
+        }
+
+        return {
+            movements: movementsTable,
+            balances: balancesTable,
+            metadata: {
+                rows: size.rows,
+                columns: size.columns,
+                cumulativeProfit: cumulativeProfit
+            }
+        };
+    }
+
     // Load trial balance amounts for a specific period
-    async loadTrialBalance(period: string): Promise<LoadResult> {
+    // Pass a scenario (e.g. 'budget') to load a budget/forecast workbook with the same layout
+    // With inputFiles.entities configured, the actuals of each entity are loaded and consolidated
+    // Datasets in a foreign currency are translated into the presentation currency
+    async loadTrialBalance(period: string, scenario: string = ACTUAL_SCENARIO): Promise<LoadResult> {
         // Use instance config or fall back to global window.config
         const config = this.config || (window as any).config;
 
@@ -424,18 +737,33 @@ export default class DataLoader {
                 new Error('Configuration not loaded'));
         }
 
-        const filename = period === '2024'
-            ? config.inputFiles.trialBalance2024
-            : config.inputFiles.trialBalance2025;
+        const entities = scenario === ACTUAL_SCENARIO ? this.getConfiguredEntities(period) : [];
+        if (entities.length > 0) {
+            const results: Record<string, LoadResult> = {};
+            for (const entity of entities) {
+                const filename = this.resolveTrialBalanceFilename(config, period, scenario, entity);
+                const result = await this.loadTrialBalanceFile(filename, period, scenario);
+                results[entity] = this.translateTrialBalance(result, entity, config);
+            }
+            return this.combineEntityTrialBalances(results);
+        }
 
+        const result = await this.loadTrialBalanceFile(this.resolveTrialBalanceFilename(config, period, scenario), period, scenario);
+        return this.translateTrialBalance(result, scenario, config);
+    }
+
+    // Read and parse one trial balance file from the input directory
+    private async loadTrialBalanceFile(filename: string, period: string, scenario: string): Promise<LoadResult> {
         try {
             // Validate period parameter
-            if (!period || (period !== '2024' && period !== '2025')) {
-                throw ErrorFactory.invalidValue('period', period, 'string (2024 or 2025)');
+            if (!period || !/^\d{4}$/.test(period)) {
+                throw ErrorFactory.invalidValue('period', period, 'string (four-digit year, e.g. 2025)');
             }
 
             // Read file
-            const file = await this.readFileFromDirectory(filename);
+            const file = this.factTableSource
+                ? await this.readFileFromSource(filename)
+                : await this.readFileFromDirectory(filename);
 
             // Validate file size (warn if > threshold)
             if (file.size > VALIDATION_CONFIG.LARGE_FILE_THRESHOLD) {
@@ -443,68 +771,30 @@ export default class DataLoader {
             }
 
             const arrayBuffer = await file.arrayBuffer();
-            const workbook = new ExcelJS.Workbook();
-            await workbook.xlsx.load(arrayBuffer);
-
-            // Validate workbook has worksheets
-            if (!workbook.worksheets || workbook.worksheets.length === 0) {
-                throw ErrorFactory.invalidFormat(filename, 'Excel file with worksheets');
-            }
-
-            const worksheet = workbook.worksheets[0];
-
-            // Validate worksheet has data
-            if (!worksheet || worksheet.rowCount < 2) {
-                throw ErrorFactory.emptyFile(filename);
+            if (!this.tableCache) {
+                return await this.parseTrialBalanceFile(arrayBuffer, filename, period, scenario);
             }
 
-            Logger.debug(`Transforming ${filename} from wide to long format...`);
-            Logger.debug(`  - Worksheet: ${worksheet.name}`);
-            Logger.debug(`  - Rows: ${worksheet.rowCount}, Columns: ${worksheet.columnCount}`);
-
-            // Transform wide format to long format
-            const { movements, balances } = this.transformWideToLong(worksheet, period);
-
-            // Validate transformation results
-            if (!movements || movements.length === 0) {
-                Logger.warn(`No movements found in ${filename}. This may indicate a data issue.`);
+            const cacheKey = await this.getTableCacheKey(arrayBuffer, filename, period, scenario);
+            const cached = await this.tableCache.get(cacheKey);
+            if (cached && typeof cached.content === 'string') {
+                Logger.info(`Trial Balance ${period} restored from cache (${filename})`);
+                return this.deserializeLoadResult(cached.content);
             }
 
-            // Convert arrays to Arquero tables
-            const movementsTable = aq.from(movements);
-            let balancesTable = aq.from(balances);
-
-            // Calculate cumulative profit BEFORE renaming the column
-            const cumulativeProfit = this.calculateCumulativeProfit(balancesTable);
-
-            // Normalize balances table to use 'movement_amount' column name for consistency
-            // This allows the same statement generation logic to work with both movements and balances
-            if (balancesTable.numRows() > 0 && balancesTable.columnNames().includes('balance_amount')) {
-                balancesTable = balancesTable.rename({ balance_amount: 'movement_amount' });
-            }
-
-            Logger.info(`Trial Balance ${period} loaded successfully:`);
-            Logger.debug(`  - Movements: ${movementsTable.numRows()} rows`);
-            Logger.debug(`  - Balances: ${balancesTable.numRows()} rows`);
-
-            // Validate required columns exist
-            const requiredColumns = ['account_code', 'statement_type', 'code1', 'name1'];
-            const movementColumns = movementsTable.columnNames();
-            const missingColumns = requiredColumns.filter((col: string) => !movementColumns.includes(col));
-
-            if (missingColumns.length > 0) {
-                throw ErrorFactory.missingColumns(filename, missingColumns);
-            }
-
-            return {
-                movements: movementsTable,
-                balances: balancesTable,
+            const result = await this.parseTrialBalanceFile(arrayBuffer, filename, period, scenario);
+            const serialized = this.serializeLoadResult(result);
+            await this.tableCache.set(cacheKey, {
+                content: serialized,
                 metadata: {
-                    rows: worksheet.rowCount,
-                    columns: worksheet.columnCount,
-                    cumulativeProfit: cumulativeProfit
-                }
-            };
+                    path: filename,
+                    size: serialized.length,
+                    lastModified: new Date(),
+                    contentType: 'application/json'
+                },
+                source: 'arquero'
+            });
+            return result;
 
         } catch (error: any) {
             Logger.error(`Error loading trial balance for ${period}:`, error);
@@ -523,7 +813,8 @@ export default class DataLoader {
                 throw ErrorFactory.wrap(error, { 
                     operation: 'loadTrialBalance',
                     filename,
-                    period 
+                    period,
+                    scenario
                 });
             }
         }
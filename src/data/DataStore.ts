@@ -1,8 +1,11 @@
 import Logger from '../utils/Logger.ts';
+import { entitiesOf } from '../core/calculations/consolidation.ts';
 
 /**
  * DataStore - Singleton state management for financial data
  * Manages fact tables, hierarchy tables, and combined movements data
+ * Scenario datasets (budget, forecast) are kept apart from the actuals
+ * With several legal entities loaded, rows carry an `entity` field (eliminations included)
  */
 
 // Type for Arquero table (using any since it's loaded globally)
@@ -24,6 +27,7 @@ export default class DataStore {
     private combinedMovements: ArqueroTable | null;
     private combinedBalances: ArqueroTable | null;
     private hierarchyTable?: ArqueroTable;
+    private scenarioTables: Record<string, FactTables>;
 
     constructor() {
         if (DataStore.instance) {
@@ -33,6 +37,7 @@ export default class DataStore {
         this.factTables = {}; // Store FactTables by period and type: {2024: {movements: table, balances: table}, 2025: {...}}
         this.combinedMovements = null; // Combined movements table for both years
         this.combinedBalances = null; // Combined balances table for both years
+        this.scenarioTables = {}; // Store scenario tables (all years) by scenario and type: {budget: {movements: table, balances: table}}
 
         DataStore.instance = this;
     }
@@ -109,6 +114,34 @@ export default class DataStore {
         return this.combinedBalances;
     }
 
+    // Get the legal entities in the combined movements (empty for a single trial balance)
+    getEntities(): string[] {
+        const movements = this.combinedMovements;
+        if (!movements || !movements.columnNames().includes('entity')) {
+            return [];
+        }
+        return entitiesOf(movements.array('entity'));
+    }
+
+    // Store table for a scenario dataset (e.g. budget) and type
+    setScenarioTable(table: ArqueroTable, scenario: string, type: 'movements' | 'balances' = 'movements'): void {
+        if (!this.scenarioTables[scenario]) {
+            this.scenarioTables[scenario] = {};
+        }
+        this.scenarioTables[scenario][type] = table;
+        Logger.debug(`Scenario ${type} for ${scenario} stored (${table.numRows()} rows)`);
+    }
+
+    // Retrieve table for a scenario dataset and type
+    getScenarioTable(scenario: string, type: 'movements' | 'balances' = 'movements'): ArqueroTable | null {
+        return this.scenarioTables[scenario]?.[type] || null;
+    }
+
+    // Get all loaded scenario datasets
+    getScenarios(): string[] {
+        return Object.keys(this.scenarioTables);
+    }
+
     // Check if all required data is loaded
     isDataComplete(): boolean {
         const has2024Movements = this.factTables['2024']?.movements;
@@ -124,6 +157,7 @@ export default class DataStore {
         this.factTables = {};
         this.combinedMovements = null;
         this.combinedBalances = null;
+        this.scenarioTables = {};
         Logger.debug('DataStore cleared');
     }
 }
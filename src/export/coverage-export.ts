@@ -0,0 +1,96 @@
+/**
+ * coverage-export.ts - Export a chart-of-accounts coverage analysis to CSV and JSON
+ *
+ * Works on the output of analyzeCoverage() (src/core/variables/coverage.ts).
+ * The CSV lists the uncaptured and multiply counted accounts and the trial
+ * balance total, the report total (its total rows, named in the Description
+ * column) and the difference, with one amount column per period column.
+ */
+
+import type { CoverageAnalysis } from '../core/variables/coverage.ts';
+import { escapeCSV } from './statement-export.ts';
+
+/**
+ * Fixed columns of an exported coverage analysis, before the amount columns
+ */
+export const COVERAGE_EXPORT_HEADERS = ['Section', 'Statement type', 'Account', 'Description', 'Variables'] as const;
+
+/**
+ * Convert a coverage analysis to plain records keyed by header
+ *
+ * @param analysis - Result of analyzeCoverage
+ * @returns One record per uncaptured account, per multiply counted account and
+ *   three per reconciled statement type (trial balance, report total, difference)
+ */
+export function coverageToRecords(analysis: CoverageAnalysis): Record<string, string | number | null>[] {
+    const amounts = (values: Record<string, number>) => Object.fromEntries(
+        analysis.columns.map(column => [column.label || column.key, values[column.key] ?? null]));
+
+    const accountRecords = (section: string, accounts: CoverageAnalysis['uncaptured']) => accounts.map(account => ({
+        'Section': section,
+        'Statement type': account.statement_type ?? null,
+        'Account': account.account_code,
+        'Description': account.account_description ?? null,
+        'Variables': account.variables.join(', ') || null,
+        ...amounts(account.amounts)
+    }));
+
+    const reconciliationRecords = analysis.reconciliation.flatMap(reconciliation =>
+        ([['Trial balance', reconciliation.trialBalance, null],
+            ['Report total', reconciliation.reportTotal, reconciliation.totalRows.join(' + ')],
+            ['Difference', reconciliation.difference, null]] as const).map(([section, values, description]) => ({
+            'Section': section,
+            'Statement type': reconciliation.statement_type,
+            'Account': null,
+            'Description': description,
+            'Variables': null,
+            ...amounts(values)
+        })));
+
+    return [
+        ...accountRecords('Uncaptured', analysis.uncaptured),
+        ...accountRecords('Multiple variables', analysis.multiple),
+        ...reconciliationRecords
+    ];
+}
+
+/**
+ * Export a coverage analysis as CSV
+ *
+ * Amounts are written unformatted so the file can be loaded by other tools.
+ *
+ * @param analysis - Result of analyzeCoverage
+ * @param delimiter - Field delimiter (default: comma)
+ * @returns CSV text with a header line
+ *
+ * @example
+ * const csv = coverageToCSV(analysis);
+ * // Section,Statement type,Account,Description,Variables,2024,2025
+ * // Uncaptured,IS,5299,Sundry costs,,800,1200
+ */
+export function coverageToCSV(analysis: CoverageAnalysis, delimiter: string = ','): string {
+    const headers = [...COVERAGE_EXPORT_HEADERS, ...analysis.columns.map(column => column.label || column.key)];
+    const lines = [headers.map(header => escapeCSV(header, delimiter)).join(delimiter)];
+
+    for (const record of coverageToRecords(analysis)) {
+        lines.push(headers.map(header => escapeCSV(record[header], delimiter)).join(delimiter));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a coverage analysis as JSON
+ *
+ * @param analysis - Result of analyzeCoverage
+ * @returns Pretty-printed JSON text
+ */
+export function coverageToJSON(analysis: CoverageAnalysis): string {
+    return JSON.stringify(analysis, null, 2) + '\n';
+}
+
+export default {
+    coverageToRecords,
+    coverageToCSV,
+    coverageToJSON
+};
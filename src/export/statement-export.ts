@@ -0,0 +1,229 @@
+/**
+ * statement-export.ts - Export rendered statement data to CSV, JSON and Excel
+ *
+ * Works on the output of ReportRenderer.renderStatement() rather than on an
+ * ag-Grid instance, so statements can be exported without a browser (see the
+ * render-statement CLI in tools/).
+ *
+ * Each statement row becomes one record: the label, one amount per period
+ * column and, when the statement has a comparison, the variance columns.
+ * Records are keyed by row field (amount_2025); only the CSV header line and
+ * the worksheet use the column headers, so columns with the same label do
+ * not overwrite each other.
+ */
+
+import type { RowData, StatementData } from '../reports/ReportRenderer.ts';
+import type { FormatType } from '../reports/ReportValidator.ts';
+import { amountField } from '../core/calculations/columns.ts';
+
+// Global ExcelJS type
+declare const ExcelJS: any;
+
+/**
+ * Column of an exported statement
+ */
+export interface ExportColumn {
+    /** Field on the rendered row */
+    field: string;
+    /** Header text */
+    header: string;
+    /** Whether the column holds numbers */
+    numeric: boolean;
+}
+
+/**
+ * Decimals amounts are exported with, per row format
+ *
+ * Percent rows hold fractions (0.25 for 25%), so they keep more decimals.
+ */
+const EXPORT_DECIMALS: Readonly<Record<FormatType, number>> = {
+    currency: 2,
+    decimal: 2,
+    integer: 0,
+    percent: 4
+};
+
+/**
+ * Round to a number of decimals, dropping floating-point noise (5280.000000000001)
+ */
+const roundAmount = (amount: number, decimals: number): number => {
+    const factor = Math.pow(10, decimals);
+    return Math.round(amount * factor) / factor;
+};
+
+/**
+ * Get the export columns for a rendered statement
+ *
+ * @param statement - Rendered statement data
+ * @returns Label, amount and (with a comparison) variance columns
+ */
+export function getExportColumns(statement: StatementData): ExportColumn[] {
+    const columns: ExportColumn[] = [{ field: 'label', header: 'Label', numeric: false }];
+
+    for (const column of statement.metadata.columns) {
+        columns.push({ field: amountField(column.key), header: column.label || column.key, numeric: true });
+    }
+
+    if (statement.metadata.comparison) {
+        columns.push({ field: 'variance_amount', header: 'Variance', numeric: true });
+        columns.push({ field: 'variance_percent', header: 'Variance %', numeric: true });
+    }
+
+    return columns;
+}
+
+/**
+ * Get the exported value of a row in a column
+ *
+ * Amounts are rounded to the decimals of the row format (the variance
+ * percentage to two decimals); missing values become null.
+ */
+function exportValue(row: RowData, column: ExportColumn): string | number | null {
+    const value = (row as any)[column.field];
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (!column.numeric || typeof value !== 'number') {
+        return value;
+    }
+
+    const decimals = column.field === 'variance_percent' ? 2 : EXPORT_DECIMALS[row.format] ?? 2;
+    return roundAmount(value, decimals);
+}
+
+/**
+ * Convert rendered statement rows to plain records keyed by field
+ *
+ * Spacer rows are skipped; missing amounts become null.
+ *
+ * @param statement - Rendered statement data
+ * @returns One record per row, e.g. { label: 'Revenue', amount_2025: 1200 }
+ */
+export function statementToRecords(statement: StatementData): Record<string, string | number | null>[] {
+    const columns = getExportColumns(statement);
+
+    return statement.rows
+        .filter(row => row.type !== 'spacer')
+        .map(row => {
+            const record: Record<string, string | number | null> = {};
+            for (const column of columns) {
+                record[column.field] = exportValue(row, column);
+            }
+            return record;
+        });
+}
+
+/**
+ * Quote a CSV value when it contains a delimiter, quote or newline
+ */
+export function escapeCSV(value: string | number | null, delimiter: string): string {
+    if (value === null) {
+        return '';
+    }
+    const text = String(value);
+    if (text.includes(delimiter) || text.includes('"') || text.includes('\n')) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+/**
+ * Export a rendered statement as CSV
+ *
+ * Amounts are written unformatted so the file can be loaded by other tools.
+ *
+ * @param statement - Rendered statement data
+ * @param delimiter - Field delimiter (default: comma)
+ * @returns CSV text with a header line
+ *
+ * @example
+ * const csv = statementToCSV(statementData);
+ * // Label,2024,2025,Variance,Variance %
+ * // Revenue,1000,1200,200,20
+ */
+export function statementToCSV(statement: StatementData, delimiter: string = ','): string {
+    const columns = getExportColumns(statement);
+    const lines = [columns.map(column => escapeCSV(column.header, delimiter)).join(delimiter)];
+
+    for (const record of statementToRecords(statement)) {
+        lines.push(columns.map(column => escapeCSV(record[column.field], delimiter)).join(delimiter));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a rendered statement as JSON
+ *
+ * Includes the report identity, columns and comparison alongside the rows.
+ * Rows are keyed by field; `fields` maps each field to its header.
+ *
+ * @param statement - Rendered statement data
+ * @returns Pretty-printed JSON text
+ */
+export function statementToJSON(statement: StatementData): string {
+    return JSON.stringify({
+        reportId: statement.reportId,
+        reportName: statement.reportName,
+        reportVersion: statement.reportVersion,
+        statementType: statement.statementType,
+        generatedAt: statement.generatedAt,
+        columns: statement.metadata.columns,
+        comparison: statement.metadata.comparison,
+        fields: getExportColumns(statement),
+        rows: statementToRecords(statement)
+    }, null, 2) + '\n';
+}
+
+/**
+ * Export a rendered statement to an Excel workbook
+ *
+ * Requires the global ExcelJS library. Total and subtotal rows are bold.
+ *
+ * @param statement - Rendered statement data
+ * @returns ExcelJS workbook with a single worksheet
+ *
+ * @example
+ * const workbook = statementToWorkbook(statementData);
+ * const buffer = await workbook.xlsx.writeBuffer();
+ */
+export function statementToWorkbook(statement: StatementData): any {
+    const columns = getExportColumns(statement);
+    const workbook = new ExcelJS.Workbook();
+    const worksheet = workbook.addWorksheet(statement.reportName.substring(0, 31) || 'Statement');
+
+    worksheet.columns = columns.map(column => ({
+        header: column.header,
+        key: column.field,
+        width: column.numeric ? 15 : 45
+    }));
+    worksheet.getRow(1).font = { bold: true };
+
+    const rows = statement.rows.filter(row => row.type !== 'spacer');
+    const records = statementToRecords(statement);
+    rows.forEach((row, rowIndex) => {
+        const excelRow = worksheet.addRow(records[rowIndex]);
+        if (row.style === 'total' || row.style === 'subtotal') {
+            excelRow.font = { bold: true };
+        }
+        columns.forEach((column, index) => {
+            if (column.numeric) {
+                excelRow.getCell(index + 1).numFmt = column.field === 'variance_percent' ? '0.0' : '#,##0';
+            }
+        });
+        if (row.indent) {
+            excelRow.getCell(1).alignment = { indent: row.indent };
+        }
+    });
+
+    worksheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+    return workbook;
+}
+
+export default {
+    getExportColumns,
+    statementToRecords,
+    statementToCSV,
+    statementToJSON,
+    statementToWorkbook
+};
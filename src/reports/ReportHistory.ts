@@ -0,0 +1,188 @@
+import Logger from '../utils/Logger.ts';
+import type { ReportDefinition } from './ReportValidator.ts';
+import { canonicalJson } from '../core/transformations/report-diff.ts';
+
+/**
+ * ReportHistory - Keeps earlier versions of report definitions
+ *
+ * Every definition recorded is stored as a snapshot with the SHA-256 hash of
+ * its contents and the time it was first seen. A definition that equals the
+ * latest snapshot of its report is not stored again, so loading unchanged
+ * files adds nothing. Snapshots are kept in localStorage, per report, up to a
+ * maximum number (the oldest are dropped first).
+ *
+ * @example
+ * const history = new ReportHistory();
+ * await history.record(reportDef, '/reports/income_statement.json');
+ *
+ * const [previous, latest] = history.getHistory('income_statement_default').slice(-2);
+ * const diff = diffReportDefinitions(previous.definition, latest.definition);
+ */
+
+/**
+ * Stored version of a report definition
+ */
+export interface ReportSnapshot {
+    reportId: string;
+    /** Version field of the definition */
+    version: string;
+    /** SHA-256 of the definition's canonical JSON (hex) */
+    hash: string;
+    /** When this version was first recorded (ISO 8601) */
+    timestamp: string;
+    /** Path or URL the definition was loaded from */
+    source?: string;
+    definition: ReportDefinition;
+}
+
+/**
+ * History options
+ */
+export interface ReportHistoryOptions {
+    /** Storage for the snapshots; defaults to localStorage */
+    storage?: Storage;
+    /** Snapshots kept per report (default 20) */
+    maxSnapshots?: number;
+    /** Prefix of the storage keys (default 'reportHistory:') */
+    keyPrefix?: string;
+}
+
+export default class ReportHistory {
+    private storage: Storage | null;
+    private maxSnapshots: number;
+    private keyPrefix: string;
+
+    /**
+     * Create a new ReportHistory
+     * @param options - History options
+     */
+    constructor(options: ReportHistoryOptions = {}) {
+        this.storage = options.storage ?? (typeof localStorage !== 'undefined' ? localStorage : null);
+        this.maxSnapshots = options.maxSnapshots ?? 20;
+        this.keyPrefix = options.keyPrefix ?? 'reportHistory:';
+    }
+
+    /**
+     * Hash a report definition
+     *
+     * @param reportDef - Report definition
+     * @returns SHA-256 of the canonical JSON, as hex; equal for definitions that differ only in key order
+     */
+    static async hash(reportDef: ReportDefinition): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJson(reportDef)));
+        return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+
+    /**
+     * Record a report definition
+     *
+     * @param reportDef - Report definition (with extends resolved)
+     * @param source - Path or URL the definition was loaded from
+     * @returns The new snapshot, or the latest snapshot when the definition did not change
+     *
+     * @example
+     * const snapshot = await history.record(reportDef, '/reports/income_statement.json');
+     * console.log(`${snapshot.reportId} ${snapshot.hash.slice(0, 8)} ${snapshot.timestamp}`);
+     */
+    async record(reportDef: ReportDefinition, source?: string): Promise<ReportSnapshot> {
+        const hash = await ReportHistory.hash(reportDef);
+        const snapshots = this.getHistory(reportDef.reportId);
+        const latest = snapshots[snapshots.length - 1];
+        if (latest?.hash === hash) {
+            return latest;
+        }
+
+        const snapshot: ReportSnapshot = {
+            reportId: reportDef.reportId,
+            version: reportDef.version,
+            hash,
+            timestamp: new Date().toISOString(),
+            ...(source ? { source } : {}),
+            definition: structuredClone(reportDef)
+        };
+        this.write(reportDef.reportId, [...snapshots, snapshot].slice(-this.maxSnapshots));
+        Logger.debug(`Recorded version ${hash.slice(0, 8)} of report ${reportDef.reportId}`);
+
+        return snapshot;
+    }
+
+    /**
+     * Get the recorded versions of a report
+     *
+     * @param reportId - Report to get the versions of
+     * @returns Snapshots, oldest first
+     */
+    getHistory(reportId: string): ReportSnapshot[] {
+        if (!this.storage) {
+            return [];
+        }
+
+        try {
+            const stored = this.storage.getItem(this.keyPrefix + reportId);
+            return stored ? JSON.parse(stored) : [];
+        } catch (error) {
+            Logger.warn(`Failed to read history of report ${reportId}:`, error);
+            return [];
+        }
+    }
+
+    /**
+     * Get a recorded version of a report
+     *
+     * @param reportId - Report the version belongs to
+     * @param hash - Hash of the version (a prefix is enough when it is unique)
+     * @returns Snapshot, or null when not found
+     */
+    getSnapshot(reportId: string, hash: string): ReportSnapshot | null {
+        const matches = this.getHistory(reportId).filter(snapshot => snapshot.hash.startsWith(hash));
+        return matches.length === 1 ? matches[0] : null;
+    }
+
+    /**
+     * Get the reports that have recorded versions
+     *
+     * @returns Report IDs
+     */
+    getReportIds(): string[] {
+        if (!this.storage) {
+            return [];
+        }
+
+        const reportIds: string[] = [];
+        for (let index = 0; index < this.storage.length; index++) {
+            const key = this.storage.key(index);
+            if (key?.startsWith(this.keyPrefix)) {
+                reportIds.push(key.slice(this.keyPrefix.length));
+            }
+        }
+        return reportIds.sort();
+    }
+
+    /**
+     * Remove the recorded versions of a report, or of all reports
+     *
+     * @param reportId - Report to clear; clears all reports when omitted
+     */
+    clear(reportId?: string): void {
+        const reportIds = reportId ? [reportId] : this.getReportIds();
+        for (const id of reportIds) {
+            this.storage?.removeItem(this.keyPrefix + id);
+        }
+    }
+
+    // Store the snapshots of a report; when storage is full, drop the oldest snapshots and retry
+    private write(reportId: string, snapshots: ReportSnapshot[]): void {
+        if (!this.storage) {
+            return;
+        }
+
+        for (let kept = snapshots; kept.length > 0; kept = kept.slice(1)) {
+            try {
+                this.storage.setItem(this.keyPrefix + reportId, JSON.stringify(kept));
+                return;
+            } catch (error) {
+                Logger.warn(`Failed to store history of report ${reportId}, dropping its oldest version:`, error);
+            }
+        }
+    }
+}
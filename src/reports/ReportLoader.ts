@@ -2,7 +2,11 @@ import ValidationResult from '../utils/ValidationResult.ts';
 import Logger from '../utils/Logger.ts';
 import { ErrorFactory } from '../errors/index.ts';
 import type ReportValidator from './ReportValidator.ts';
-import type { ReportDefinition } from './ReportValidator.ts';
+import type ReportHistory from './ReportHistory.ts';
+import type { LayoutItem, ReportDefinition, ReportOverride } from './ReportValidator.ts';
+import type { ConfigurationManager } from '../config/ConfigurationManager.ts';
+import { ResourceType } from '../config/DataSourceConfig.ts';
+import { migrateReportDefinition } from '../core/transformations/report-migrations.ts';
 
 /**
  * ReportLoader - Loads and validates report definitions from JSON files
@@ -10,8 +14,11 @@ import type { ReportDefinition } from './ReportValidator.ts';
  * Provides functionality to:
  * - Load report definitions from files, URLs, or directories
  * - Parse JSON with detailed error messages
+ * - Migrate definitions written for older schema versions
+ * - Resolve reports that extend another report
  * - Validate report definitions before use
  * - Cache loaded definitions in memory
+ * - Record each loaded version in a ReportHistory
  * - Support hot-reloading during development
  * 
  * @example
@@ -37,10 +44,49 @@ export interface ReportManifest {
     reports: string[];
 }
 
+/**
+ * Merge a report definition into the report it extends
+ *
+ * Variables and formatting rules are merged by name. Layout items are merged
+ * by order: an item with a type replaces the parent item, an item without a
+ * type changes fields of it (e.g. the label), and remove: true deletes it.
+ *
+ * @param parent - Resolved definition of the extended report
+ * @param child - Report definition as written
+ * @returns Merged report definition
+ *
+ * @example
+ * const report = mergeReportDefinitions(incomeStatementDefault, {
+ *   ...child, layout: [{ order: 100, label: 'Net sales' }, { order: 310, remove: true }]
+ * });
+ */
+export function mergeReportDefinitions(parent: ReportDefinition, child: ReportDefinition | ReportOverride): ReportDefinition {
+    const layout = new Map<number, LayoutItem>(parent.layout.map(item => [item.order, item]));
+    for (const { remove, ...item } of (child.layout ?? []) as ReportOverride['layout']) {
+        if (remove) {
+            layout.delete(item.order);
+        } else if (item.type) {
+            layout.set(item.order, item as LayoutItem);
+        } else {
+            layout.set(item.order, { ...layout.get(item.order), ...item } as LayoutItem);
+        }
+    }
+
+    return {
+        ...parent,
+        ...child,
+        variables: { ...parent.variables, ...child.variables },
+        formatting: { ...parent.formatting, ...child.formatting },
+        layout: [...layout.values()].sort((a, b) => a.order - b.order)
+    };
+}
+
 export default class ReportLoader {
     private validator: ReportValidator | null;
     private cache: Map<string, ReportDefinition>;
     private lastModified: Map<string, Date>;
+    private definitions: Map<string, ReportDefinition>;
+    private history: ReportHistory | null;
 
     /**
      * Create a new ReportLoader
@@ -55,6 +101,25 @@ export default class ReportLoader {
         
         // Track last modified times for hot-reloading
         this.lastModified = new Map();
+
+        // Definitions as written, before extends is resolved
+        // Key: reportId, Value: report definition object
+        this.definitions = new Map();
+
+        // Version history of loaded definitions (see setHistory)
+        this.history = null;
+    }
+
+    /**
+     * Record every definition loaded from now on in a version history
+     *
+     * @param history - History to record in, or null to stop recording
+     *
+     * @example
+     * loader.setHistory(new ReportHistory());
+     */
+    setHistory(history: ReportHistory | null): void {
+        this.history = history;
     }
 
     /**
@@ -94,16 +159,10 @@ export default class ReportLoader {
             const jsonText = await response.text();
             
             // Parse JSON with error handling
-            const reportDef = this.parseJSON(jsonText, filePath);
-            
-            // Validate the report definition
-            const validationResult = this.validateReport(reportDef);
+            const parsed = this.parseJSON(jsonText, filePath);
             
-            if (!validationResult.isValid) {
-                const errors = validationResult.errors.map(e => e.message);
-                Logger.error(`Report definition validation failed for ${filePath}`);
-                throw ErrorFactory.schemaValidation('ReportDefinition', errors);
-            }
+            // Merge in the extended report and validate the result
+            const reportDef = await this.resolveReport(parsed, filePath, path => this.loadReport(path));
 
             // Cache the loaded definition
             this.cache.set(filePath, reportDef);
@@ -264,6 +323,216 @@ export default class ReportLoader {
         return this.loadReport(url);
     }
 
+    /**
+     * Load a report definition from the local file system (Deno only)
+     *
+     * Used by headless tools, where relative paths cannot be fetched from a server.
+     *
+     * @param filePath - Path to the report definition JSON file
+     * @returns Validated report definition
+     * @throws FileNotFoundError if the file does not exist
+     * @throws SchemaValidationError if the definition is invalid
+     *
+     * @example
+     * const report = await loader.loadReportFromFile('reports/income_statement_default.json');
+     */
+    async loadReportFromFile(filePath: string): Promise<ReportDefinition> {
+        if (this.cache.has(filePath)) {
+            return this.cache.get(filePath)!;
+        }
+
+        let jsonText: string;
+        try {
+            jsonText = await Deno.readTextFile(filePath);
+        } catch (error) {
+            if (error instanceof Deno.errors.NotFound) {
+                throw ErrorFactory.fileNotFound(filePath, error);
+            }
+            throw ErrorFactory.wrap(error as Error, {
+                operation: 'loadReportFromFile',
+                filePath
+            });
+        }
+
+        const parsed = this.parseJSON(jsonText, filePath);
+        const reportDef = await this.resolveReport(parsed, filePath, path => this.loadReportFromFile(path));
+
+        this.cache.set(filePath, reportDef);
+        return reportDef;
+    }
+
+    /**
+     * Load all report definitions from the configured reportDefinitions data source
+     *
+     * Used for report definitions kept outside the application (e.g. in a shared
+     * GitHub repository); every .json file in the directory except the manifest
+     * is loaded. Definitions that fail to load are logged and skipped.
+     *
+     * @param manager - Configuration manager with the reportDefinitions source
+     * @param dirPath - Directory within the source (default: its root)
+     * @returns Array of report definition objects
+     *
+     * @example
+     * const reports = await loader.loadReportsFromSource(manager);
+     */
+    async loadReportsFromSource(manager: ConfigurationManager, dirPath: string = ''): Promise<ReportDefinition[]> {
+        const entries = await manager.listResources(ResourceType.REPORT_DEFINITION, dirPath);
+        const files = entries
+            .map(entry => entry.path)
+            .filter(path => path.endsWith('.json') && !path.endsWith('manifest.json'));
+
+        const results = await Promise.allSettled(files.map(path => this.loadReportFromSource(manager, path)));
+
+        results.forEach((result, index) => {
+            if (result.status === 'rejected') {
+                Logger.warn(`Skipping report definition ${files[index]}:`, result.reason);
+            }
+        });
+
+        return results
+            .filter((result): result is PromiseFulfilledResult<ReportDefinition> => result.status === 'fulfilled')
+            .map(result => result.value);
+    }
+
+    /**
+     * Load one report definition from the reportDefinitions data source
+     *
+     * @param manager - Configuration manager with the reportDefinitions source
+     * @param path - Path within the source
+     * @returns Validated report definition
+     * @private
+     */
+    private async loadReportFromSource(manager: ConfigurationManager, path: string): Promise<ReportDefinition> {
+        const cacheKey = `source:${path}`;
+        if (this.cache.has(cacheKey)) {
+            return this.cache.get(cacheKey)!;
+        }
+
+        const { content } = await manager.getResource(ResourceType.REPORT_DEFINITION, path);
+        const jsonText = typeof content === 'string'
+            ? content
+            : content instanceof Blob
+                ? await content.text()
+                : new TextDecoder().decode(content);
+
+        const parsed = this.parseJSON(jsonText, path);
+        const reportDef = await this.resolveReport(parsed, path, parentPath => this.loadReportFromSource(manager, parentPath));
+
+        this.cache.set(cacheKey, reportDef);
+        return reportDef;
+    }
+
+    /**
+     * Merge the report a definition extends into it and validate the result
+     *
+     * The definition is first migrated to the current schema version. The parent is looked up by reportId among the definitions loaded so far.
+     * A parent that has not been loaded yet is loaded with loadParent from
+     * `<reportId>.json` in the directory of the child.
+     *
+     * @param reportDef - Parsed report definition
+     * @param filePath - Path the definition was loaded from
+     * @param loadParent - Loads a report definition from a path
+     * @returns Validated report definition with the extends chain resolved
+     * @throws SchemaValidationError if the schemaVersion, the chain or the resulting definition is invalid
+     * @private
+     */
+    private async resolveReport(
+        reportDef: ReportDefinition,
+        filePath: string,
+        loadParent: (path: string) => Promise<ReportDefinition | null>
+    ): Promise<ReportDefinition> {
+        reportDef = this.migrateReport(reportDef, filePath);
+
+        if (reportDef && typeof reportDef.reportId === 'string') {
+            this.definitions.set(reportDef.reportId, reportDef);
+        }
+
+        if (reportDef?.extends && !this.definitions.has(reportDef.extends)) {
+            const parentPath = `${filePath.slice(0, filePath.lastIndexOf('/') + 1)}${reportDef.extends}.json`;
+            try {
+                await loadParent(parentPath);
+            } catch (error) {
+                Logger.warn(`Could not load report ${parentPath} extended by ${filePath}:`, error);
+            }
+        }
+
+        const inheritanceResult = this.validator
+            ? this.validator.validateInheritance(reportDef, this.definitions)
+            : new ValidationResult();
+        const resolved = inheritanceResult.isValid ? this.extendReport(reportDef) : reportDef;
+        const validationResult = inheritanceResult.isValid ? this.validateReport(resolved) : inheritanceResult;
+
+        if (!validationResult.isValid) {
+            const errors = validationResult.errors.map(e => e.message);
+            Logger.error(`Report definition validation failed for ${filePath}`);
+            throw ErrorFactory.schemaValidation('ReportDefinition', errors);
+        }
+
+        // A history that cannot be written does not stop the report from loading
+        if (this.history) {
+            try {
+                await this.history.record(resolved, filePath);
+            } catch (error) {
+                Logger.warn(`Could not record history of report ${resolved.reportId}:`, error);
+            }
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Upgrade a report definition written for an older schema version
+     *
+     * @param reportDef - Parsed report definition
+     * @param filePath - Path the definition was loaded from
+     * @returns Definition for the current schema version
+     * @throws SchemaValidationError if the schemaVersion is invalid or not supported
+     * @private
+     */
+    private migrateReport(reportDef: ReportDefinition, filePath: string): ReportDefinition {
+        if (!reportDef || typeof reportDef !== 'object' || Array.isArray(reportDef)) {
+            return reportDef;
+        }
+
+        try {
+            const migration = migrateReportDefinition(reportDef);
+            if (migration.changed) {
+                const changes = migration.steps.flatMap(step => step.changes);
+                Logger.info(`Migrated ${filePath} from schema ${migration.fromVersion} to ${migration.toVersion} ` +
+                    `(${changes.length} change(s)); run tools/migrate-report.js --write to update the file`, changes);
+            }
+            migration.warnings.forEach(warning => Logger.warn(`${filePath}: ${warning}`));
+            return migration.definition as ReportDefinition;
+        } catch (error: any) {
+            Logger.error(`Report definition migration failed for ${filePath}`);
+            throw ErrorFactory.schemaValidation('ReportDefinition', [error.message]);
+        }
+    }
+
+    /**
+     * Merge the chain of reports a definition extends into it
+     *
+     * @param reportDef - Report definition as written
+     * @param seen - reportIds of the children being resolved
+     * @returns Report definition with all parents merged in
+     * @private
+     */
+    private extendReport(reportDef: ReportDefinition, seen: Set<string> = new Set()): ReportDefinition {
+        if (!reportDef?.extends) {
+            return reportDef;
+        }
+
+        const parentDef = this.definitions.get(reportDef.extends);
+        if (!parentDef || seen.has(reportDef.reportId)) {
+            throw ErrorFactory.schemaValidation('ReportDefinition', [
+                `Cannot resolve report '${reportDef.extends}' extended by '${reportDef.reportId}'`
+            ]);
+        }
+        seen.add(reportDef.reportId);
+
+        return mergeReportDefinitions(this.extendReport(parentDef, seen), reportDef);
+    }
+
     /**
      * Validate a report definition
      * 
@@ -371,11 +640,16 @@ export default class ReportLoader {
      */
     clearCache(filePath?: string): void {
         if (filePath) {
+            const reportId = this.cache.get(filePath)?.reportId;
+            if (reportId) {
+                this.definitions.delete(reportId);
+            }
             this.cache.delete(filePath);
             this.lastModified.delete(filePath);
         } else {
             this.cache.clear();
             this.lastModified.clear();
+            this.definitions.clear();
         }
     }
 
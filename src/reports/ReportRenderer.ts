@@ -2,13 +2,31 @@ import { ErrorFactory } from '../errors/index.ts';
 import type VariableResolver from './VariableResolverCompat.ts';
 import type ExpressionEvaluator from './ExpressionEvaluatorCompat.ts';
 import FilterEngine from './FilterEngineCompat.ts';
+import { YEAR_CONFIG } from '../constants.ts';
+import {
+    resolvePeriodColumns,
+    resolveComparison,
+    buildColumnFilterExpression,
+    amountField,
+    formattedField,
+    amountKeysOf,
+    buildReferenceColumns,
+    type PeriodColumn,
+    type PeriodReferences,
+    type ComparisonPair,
+    type ColumnValues
+} from '../core/calculations/columns.ts';
+import { getDependencies, parseReferenceKey } from '../core/expressions/evaluator.ts';
+import { currencySymbol, DEFAULT_PRESENTATION_CURRENCY } from '../core/calculations/currency.ts';
+import { resolveLocalizedText } from '../core/transformations/locale.ts';
 import type { 
     ReportDefinition, 
     LayoutItem, 
     FormattingRules,
     FormatType,
     StyleType,
-    LayoutType
+    LayoutType,
+    FavorableDirection
 } from './ReportValidator.ts';
 
 /**
@@ -20,9 +38,13 @@ import type {
  * - Processing layout items in order
  * - Calculating subtotals
  * - Applying formatting rules
- * - Calculating variances
+ * - Calculating variances between a chosen pair of period columns
  * - Generating row metadata for ag-Grid
  * 
+ * Amounts are rendered for an ordered list of period columns (see
+ * core/calculations/columns.ts). Each row carries one amount_<key> and
+ * formatted_<key> field per column; by default there is one column per year.
+ * 
  * All data processing uses Arquero DataFrames for consistency with the rest of the application.
  * 
  * @example
@@ -35,17 +57,49 @@ import type {
  * );
  * 
  * // Returns statement data with rows ready for ag-Grid
+ * 
+ * // Five fiscal years, variance between the first and the last
+ * renderer.renderStatement(reportDefinition, movementsData, {
+ *   years: [2021, 2022, 2023, 2024, 2025],
+ *   periods: 'all',
+ *   comparison: { base: '2021', compare: '2025' }
+ * });
+ * 
+ * // Actual vs Budget, year-to-date through period 6 (movements tagged with a scenario)
+ * renderer.renderStatement(reportDefinition, actualsAndBudget, {
+ *   years: [2025],
+ *   periods: 'all',
+ *   ...buildScenarioComparison(2025, 'budget', 'actual', { fromPeriod: 1, toPeriod: 6 })
+ * });
  */
 
+export type { PeriodColumn, ComparisonPair };
+
 /**
  * Period options for statement generation
+ * 
+ * `columns` overrides the default of one full-year column per entry in `years`.
+ * `comparison` selects the pair of columns variances are calculated between
+ * (defaults to the last two columns).
  */
 export interface PeriodOptions {
     years: number[];
     periods: string | string[];
+    columns?: PeriodColumn[];
+    comparison?: ComparisonPair;
+    /** Presentation currency (ISO 4217 code) shown by currency formatted rows */
+    currency?: string;
+    /** Locale of the labels (e.g. 'en'); defaults to the defaultLocale of the report */
+    locale?: string;
     [key: string]: any;
 }
 
+/**
+ * Variables calculated outside the report definition (e.g. by the cash flow
+ * engine) for the given columns
+ */
+export type DerivedVariables = (columns: PeriodColumn[]) => Map<string, ColumnValues>;
+
 /**
  * Row data object for statement display
  */
@@ -56,15 +110,17 @@ export interface RowData {
     style: StyleType;
     indent: number;
     format: FormatType;
-    amount_2024: number | null;
-    amount_2025: number | null;
+    /** Direction in which the value improves (KPI trend arrows) */
+    favorable?: FavorableDirection;
     variance_amount: number | null;
     variance_percent: number | null;
-    formatted_2024?: string;
-    formatted_2025?: string;
     formatted_variance_amount?: string;
     formatted_variance_percent?: string;
     _metadata: RowMetadata;
+    /** Amount per period column, e.g. amount_2024 */
+    [amount: `amount_${string}`]: number | null;
+    /** Formatted amount per period column, e.g. formatted_2024 */
+    [formatted: `formatted_${string}`]: string | undefined;
 }
 
 /**
@@ -81,11 +137,14 @@ export interface RowMetadata {
  * Rendering context
  */
 export interface RenderingContext {
-    variables: Map<string, Record<number, number>>;
+    variables: Map<string, ColumnValues>;
     rows: Map<number, RowData>;
     reportDef: ReportDefinition;
     periodOptions: PeriodOptions;
     movementsData: any; // Arquero table
+    columns?: PeriodColumn[];
+    /** Column referenced by each period selector (revenue[prior]), per column key */
+    periodReferences?: PeriodReferences;
 }
 
 /**
@@ -106,6 +165,10 @@ export interface StatementData {
  */
 export interface StatementMetadata {
     periodOptions: PeriodOptions;
+    columns: PeriodColumn[];
+    comparison: ComparisonPair | null;
+    /** Presentation currency (ISO 4217 code) */
+    currency: string;
     variableCount: number;
     layoutItemCount: number;
 }
@@ -128,10 +191,10 @@ export interface FormatOptions {
 }
 
 /**
- * Subtotal values by year
+ * Subtotal values by column key
  */
 export interface SubtotalValues {
-    [year: number]: number;
+    [columnKey: string]: number;
 }
 
 export default class ReportRenderer {
@@ -182,6 +245,8 @@ export default class ReportRenderer {
      * @param reportDef - Report definition object
      * @param movementsData - Arquero table containing movements data
      * @param periodOptions - Period selection options
+     * @param derivedVariables - Variables calculated outside the report; report
+     *   variables with the same name take precedence
      * @returns Statement data with rows and metadata
      * 
      * @example
@@ -197,7 +262,12 @@ export default class ReportRenderer {
      *   { years: [2024, 2025], periods: 'all' }
      * );
      */
-    renderStatement(reportDef: ReportDefinition, movementsData: any, periodOptions: PeriodOptions): StatementData {
+    renderStatement(
+        reportDef: ReportDefinition,
+        movementsData: any,
+        periodOptions: PeriodOptions,
+        derivedVariables?: DerivedVariables
+    ): StatementData {
         if (!reportDef) {
             throw ErrorFactory.missingField('reportDef', 'renderStatement');
         }
@@ -211,34 +281,65 @@ export default class ReportRenderer {
         // Validate report definition structure
         this._validateReportDefinition(reportDef);
 
+        // Determine period columns and the pair variances are calculated between
+        const columns = resolvePeriodColumns(periodOptions);
+        let comparison: ComparisonPair | null;
+        try {
+            comparison = resolveComparison(columns, periodOptions.comparison);
+        } catch (error) {
+            throw ErrorFactory.invalidValue('comparison', periodOptions.comparison,
+                `pair of column keys (${columns.map(column => column.key).join(', ')})`);
+        }
+
+        // Cross-period references (revenue[prior]) need the referenced periods
+        // calculated as hidden columns alongside the displayed ones
+        const { columns: hiddenColumns, references } = buildReferenceColumns(
+            columns,
+            this._collectPeriodSelectors(reportDef.layout || [])
+        );
+        const evaluationColumns = [...columns, ...hiddenColumns];
+
         // Resolve all variables
         // Cast to the VariableResolver's Variables type since ReportValidator's FilterSpec
         // is compatible (it's a subset of FilterEngine's FilterSpec with index signature)
         const resolvedVariables = this.variableResolver.resolveVariables(
             reportDef.variables as any || {},
             movementsData,
-            periodOptions
+            { ...periodOptions, columns: evaluationColumns }
         );
 
+        const variables = derivedVariables
+            ? new Map([...derivedVariables(evaluationColumns), ...resolvedVariables])
+            : resolvedVariables;
+
         // Build context for expression evaluation
         const context: RenderingContext = {
-            variables: resolvedVariables,
+            variables,
             rows: new Map(),
             reportDef,
             periodOptions,
-            movementsData
+            movementsData,
+            columns: evaluationColumns,
+            periodReferences: references
         };
 
-        // Process layout items
+        // Process layout items, then drop the hidden columns
         const rows = this.processLayoutItems(reportDef.layout || [], context);
+        for (const row of rows) {
+            for (const column of hiddenColumns) {
+                delete row[amountField(column.key)];
+            }
+        }
 
         // Calculate variances for all rows
-        const rowsWithVariances = this._calculateVariances(rows, periodOptions);
+        const rowsWithVariances = this._calculateVariances(rows, { ...periodOptions, columns, comparison });
 
         // Apply formatting to all rows
         const formattedRows = this._applyFormattingToRows(
             rowsWithVariances,
-            reportDef.formatting || {}
+            reportDef.formatting || {},
+            columns,
+            periodOptions.currency
         );
 
         // Return statement data
@@ -251,6 +352,9 @@ export default class ReportRenderer {
             rows: formattedRows,
             metadata: {
                 periodOptions,
+                columns,
+                comparison,
+                currency: periodOptions.currency || DEFAULT_PRESENTATION_CURRENCY,
                 variableCount: Object.keys(reportDef.variables || {}).length,
                 layoutItemCount: (reportDef.layout || []).length
             }
@@ -333,21 +437,24 @@ export default class ReportRenderer {
         // Validate layout item
         this._validateLayoutItem(item);
 
-        // Create base row object
+        // Create base row object with an empty amount per period column
         const row: RowData = {
             order: item.order,
-            label: item.label || '',
+            label: resolveLocalizedText(item.label, context.periodOptions?.locale, context.reportDef?.defaultLocale),
             type: item.type,
             style: item.style || 'normal',
             indent: item.indent || 0,
             format: item.format || 'decimal',
-            amount_2024: null,
-            amount_2025: null,
+            ...(item.favorable ? { favorable: item.favorable } : {}),
             variance_amount: null,
             variance_percent: null,
             _metadata: {}
         };
 
+        for (const column of this._getColumns(context)) {
+            row[amountField(column.key)] = null;
+        }
+
         // Process based on type
         switch (item.type) {
             case 'variable':
@@ -382,27 +489,39 @@ export default class ReportRenderer {
      * Calculate subtotal for a range of rows
      * 
      * Sums all non-spacer, non-subtotal rows with order numbers in the range [from, to].
-     * Calculates separately for each year/period.
+     * Calculates separately for each period column. When no columns are given, the
+     * columns are taken from the amount fields of the rows (or the configured years).
      * 
      * @param fromOrder - Starting order number (inclusive)
      * @param toOrder - Ending order number (inclusive)
      * @param rows - Map of order numbers to row data
-     * @returns Subtotal values by year { 2024: number, 2025: number }
+     * @param columns - Period columns to sum (optional)
+     * @returns Subtotal values by column key { 2024: number, 2025: number }
      * 
      * @example
      * const subtotal = renderer.calculateSubtotal(10, 30, context.rows);
      * // Returns: { 2024: 150000, 2025: 180000 }
      */
-    calculateSubtotal(fromOrder: number, toOrder: number, rows: Map<number, RowData>): SubtotalValues {
+    calculateSubtotal(
+        fromOrder: number,
+        toOrder: number,
+        rows: Map<number, RowData>,
+        columns?: PeriodColumn[]
+    ): SubtotalValues {
         if (fromOrder > toOrder) {
             throw ErrorFactory.invalidValue('subtotalRange', `${fromOrder}-${toOrder}`, 
                 'from <= to');
         }
 
-        const subtotals: SubtotalValues = {
-            2024: 0,
-            2025: 0
-        };
+        const rowKeys = [...new Set([...rows.values()].flatMap(row => amountKeysOf(row)))];
+        const keys = columns
+            ? columns.map(column => column.key)
+            : rowKeys.length > 0 ? rowKeys : [...YEAR_CONFIG.years];
+
+        const subtotals: SubtotalValues = {};
+        for (const key of keys) {
+            subtotals[key] = 0;
+        }
 
         // Sum all rows in range
         for (let order = fromOrder; order <= toOrder; order++) {
@@ -418,8 +537,9 @@ export default class ReportRenderer {
             }
 
             // Add to subtotals
-            subtotals[2024] += row.amount_2024 || 0;
-            subtotals[2025] += row.amount_2025 || 0;
+            for (const key of keys) {
+                subtotals[key] += row[amountField(key)] || 0;
+            }
         }
 
         return subtotals;
@@ -430,20 +550,31 @@ export default class ReportRenderer {
      * 
      * Formats a numeric value according to the format specification.
      * Supports currency, percent, integer, and decimal formats.
+     * Currency values show the symbol of the presentation currency, unless the
+     * format specification of the row sets its own symbol.
      * 
      * @param value - Value to format
      * @param formatSpec - Format type or format specification object
      * @param defaultFormatting - Default formatting rules from report definition
+     * @param currency - Presentation currency (ISO 4217 code)
      * @returns Formatted value
      * 
      * @example
      * applyFormatting(100000, 'currency', { currency: { symbol: '€', decimals: 0 } })
      * // Returns: "€ 100,000"
      * 
+     * applyFormatting(100000, 'currency', { currency: { decimals: 0 } }, 'USD')
+     * // Returns: "$ 100,000"
+     * 
      * applyFormatting(0.25, 'percent', { percent: { decimals: 1 } })
      * // Returns: "25.0%"
      */
-    applyFormatting(value: number | null, formatSpec: FormatSpec, defaultFormatting: FormattingRules = {}): string {
+    applyFormatting(
+        value: number | null,
+        formatSpec: FormatSpec,
+        defaultFormatting: FormattingRules = {},
+        currency?: string
+    ): string {
         // Handle null/undefined values
         if (value === null || value === undefined) {
             return '';
@@ -469,7 +600,10 @@ export default class ReportRenderer {
         // Apply formatting based on type
         switch (formatType) {
             case 'currency':
-                return this._formatCurrency(value, options);
+                return this._formatCurrency(value, {
+                    ...options,
+                    symbol: formatOptions.symbol ?? (currency ? currencySymbol(currency) : options.symbol)
+                });
 
             case 'percent':
                 return this._formatPercent(value, options);
@@ -582,8 +716,9 @@ export default class ReportRenderer {
         }
 
         // Set amounts from variable
-        row.amount_2024 = variableValue[2024] || 0;
-        row.amount_2025 = variableValue[2025] || 0;
+        for (const column of this._getColumns(context)) {
+            row[amountField(column.key)] = variableValue[column.key] || 0;
+        }
 
         // Store metadata
         row._metadata.variable = item.variable;
@@ -598,14 +733,13 @@ export default class ReportRenderer {
      * @param context - Context object
      */
     private _processCalculatedItem(item: any, row: RowData, context: RenderingContext): void {
-        // Build evaluation context with variables and order references
-        const evalContext = this._buildEvaluationContext(context, 2024);
-        const evalContext2025 = this._buildEvaluationContext(context, 2025);
-
-        // Evaluate expression for each year
+        // Evaluate expression for each period column, with variables and
+        // order references taken from the same column
         try {
-            row.amount_2024 = this.expressionEvaluator.evaluate(item.expression, evalContext);
-            row.amount_2025 = this.expressionEvaluator.evaluate(item.expression, evalContext2025);
+            for (const column of this._getColumns(context)) {
+                const evalContext = this._buildEvaluationContext(context, column.key, item.expression);
+                row[amountField(column.key)] = this.expressionEvaluator.evaluate(item.expression, evalContext);
+            }
         } catch (error) {
             // Re-throw custom errors
             if ((error as any).code) {
@@ -633,11 +767,13 @@ export default class ReportRenderer {
             item.filter
         );
 
-        // Aggregate by year
-        const amounts = this._aggregateByYear(filteredData);
+        // Aggregate by period column
+        const columns = this._getColumns(context);
+        const amounts = this._aggregateByColumn(filteredData, columns);
 
-        row.amount_2024 = amounts[2024] || 0;
-        row.amount_2025 = amounts[2025] || 0;
+        for (const column of columns) {
+            row[amountField(column.key)] = amounts[column.key] || 0;
+        }
 
         // Store metadata
         row._metadata.filter = item.filter;
@@ -652,56 +788,127 @@ export default class ReportRenderer {
      * @param context - Context object
      */
     private _processSubtotalItem(item: any, row: RowData, context: RenderingContext): void {
-        const subtotals = this.calculateSubtotal(item.from, item.to, context.rows);
+        const columns = this._getColumns(context);
+        const subtotals = this.calculateSubtotal(item.from, item.to, context.rows, columns);
 
-        row.amount_2024 = subtotals[2024];
-        row.amount_2025 = subtotals[2025];
+        for (const column of columns) {
+            row[amountField(column.key)] = subtotals[column.key];
+        }
 
         // Store metadata
         row._metadata.calculatedFrom = [item.from, item.to];
     }
 
+    /**
+     * Get the period columns for a rendering context
+     * 
+     * @private
+     * @param context - Rendering context
+     * @returns Period columns (from the context, or derived from its period options)
+     */
+    private _getColumns(context: RenderingContext): PeriodColumn[] {
+        return context.columns || resolvePeriodColumns(context.periodOptions);
+    }
+
+    /**
+     * Collect the period selectors used in calculated items (revenue[prior] -> 'prior')
+     * 
+     * @private
+     * @param layout - Layout items
+     * @returns Distinct period selectors
+     */
+    private _collectPeriodSelectors(layout: LayoutItem[]): string[] {
+        const selectors = new Set<string>();
+
+        for (const item of layout) {
+            if (item.type !== 'calculated' || !item.expression) {
+                continue;
+            }
+            // Invalid expressions are reported when the item is evaluated
+            const dependencies = getDependencies(item.expression);
+            if (!dependencies.success) {
+                continue;
+            }
+            for (const key of dependencies.value) {
+                const { period } = parseReferenceKey(key);
+                if (period) {
+                    selectors.add(period);
+                }
+            }
+        }
+
+        return [...selectors];
+    }
+
     /**
      * Build evaluation context for expression evaluator
      * 
+     * Cross-period references in the expression (revenue[prior], @100[2024])
+     * are added with the value of the referenced column, or 0 when that
+     * period is outside the data.
+     * 
      * @private
      * @param context - Rendering context
-     * @param year - Year to build context for
+     * @param columnKey - Period column to build context for
+     * @param expression - Expression being evaluated (for cross-period references)
      * @returns Evaluation context
      */
-    private _buildEvaluationContext(context: RenderingContext, year: number): Record<string, number> {
+    private _buildEvaluationContext(context: RenderingContext, columnKey: string, expression?: string): Record<string, number> {
         const evalContext: Record<string, number> = {};
 
         // Add variables
         for (const [varName, varValue] of context.variables.entries()) {
-            evalContext[varName] = varValue[year] || 0;
+            evalContext[varName] = varValue[columnKey] || 0;
         }
 
         // Add order references
         for (const [order, row] of context.rows.entries()) {
-            evalContext[`@${order}`] = row[`amount_${year}` as keyof RowData] as number || 0;
+            evalContext[`@${order}`] = row[amountField(columnKey)] || 0;
+        }
+
+        // Add cross-period references
+        const dependencies = expression ? getDependencies(expression) : null;
+        if (dependencies?.success) {
+            for (const key of dependencies.value) {
+                const { name, period } = parseReferenceKey(key);
+                if (!period || !(name in evalContext)) {
+                    continue;
+                }
+                const targetKey = context.periodReferences?.[columnKey]?.[period] ?? null;
+                evalContext[key] = targetKey === null ? 0 : this._referenceValue(context, name, targetKey);
+            }
         }
 
         return evalContext;
     }
 
     /**
-     * Aggregate filtered data by year
+     * Get the value of a variable or order reference in another column
+     * 
+     * @private
+     */
+    private _referenceValue(context: RenderingContext, name: string, columnKey: string): number {
+        if (name.startsWith('@')) {
+            return context.rows.get(Number(name.substring(1)))?.[amountField(columnKey)] || 0;
+        }
+        return context.variables.get(name)?.[columnKey] || 0;
+    }
+
+    /**
+     * Aggregate filtered data by period column
      * 
      * @private
      * @param filteredData - Arquero table
-     * @returns Amounts by year { 2024: number, 2025: number }
+     * @param columns - Period columns
+     * @returns Amounts by column key { 2024: number, 2025: number }
      */
-    private _aggregateByYear(filteredData: any): SubtotalValues {
+    private _aggregateByColumn(filteredData: any, columns: PeriodColumn[]): SubtotalValues {
         const amounts: SubtotalValues = {};
 
-        // Get unique years
-        const years = filteredData.array('year').filter((v: any, i: number, a: any[]) => a.indexOf(v) === i);
-
-        for (const year of years) {
-            const yearData = filteredData.filter(`d => d.year === ${year}`);
-            const amountArray = yearData.array('movement_amount');
-            amounts[year] = amountArray.reduce((sum: number, val: number) => sum + (val || 0), 0);
+        for (const column of columns) {
+            const columnData = filteredData.filter(buildColumnFilterExpression(column));
+            const amountArray = columnData.array('movement_amount');
+            amounts[column.key] = amountArray.reduce((sum: number, val: number) => sum + (val || 0), 0);
         }
 
         return amounts;
@@ -710,23 +917,31 @@ export default class ReportRenderer {
     /**
      * Calculate variances for all rows
      * 
+     * Variances compare the `compare` column against the `base` column of the
+     * comparison pair (by default the last two period columns).
+     * 
      * @private
      * @param rows - Array of row objects
      * @param periodOptions - Period options
      * @returns Rows with variance calculations
      */
     private _calculateVariances(rows: RowData[], periodOptions: PeriodOptions): RowData[] {
+        const comparison = resolveComparison(
+            resolvePeriodColumns(periodOptions),
+            periodOptions.comparison
+        );
+
         return rows.map(row => {
-            if (row.type === 'spacer') {
+            if (row.type === 'spacer' || !comparison) {
                 return row;
             }
 
-            const amount2024 = row.amount_2024 || 0;
-            const amount2025 = row.amount_2025 || 0;
+            const baseAmount = row[amountField(comparison.base)] || 0;
+            const compareAmount = row[amountField(comparison.compare)] || 0;
 
-            row.variance_amount = amount2025 - amount2024;
-            row.variance_percent = amount2024 !== 0 
-                ? ((amount2025 - amount2024) / Math.abs(amount2024)) * 100 
+            row.variance_amount = compareAmount - baseAmount;
+            row.variance_percent = baseAmount !== 0 
+                ? ((compareAmount - baseAmount) / Math.abs(baseAmount)) * 100 
                 : 0;
 
             return row;
@@ -739,20 +954,34 @@ export default class ReportRenderer {
      * @private
      * @param rows - Array of row objects
      * @param defaultFormatting - Default formatting rules
+     * @param columns - Period columns to format
+     * @param currency - Presentation currency
      * @returns Rows with formatted values
      */
-    private _applyFormattingToRows(rows: RowData[], defaultFormatting: FormattingRules): RowData[] {
+    private _applyFormattingToRows(
+        rows: RowData[],
+        defaultFormatting: FormattingRules,
+        columns: PeriodColumn[],
+        currency?: string
+    ): RowData[] {
         return rows.map(row => {
             // Determine format for this row
             const format = row.format || 'decimal';
 
             // Format all numeric columns
-            row.formatted_2024 = this.applyFormatting(row.amount_2024, format, defaultFormatting);
-            row.formatted_2025 = this.applyFormatting(row.amount_2025, format, defaultFormatting);
+            for (const column of columns) {
+                row[formattedField(column.key)] = this.applyFormatting(
+                    row[amountField(column.key)],
+                    format,
+                    defaultFormatting,
+                    currency
+                );
+            }
             row.formatted_variance_amount = this.applyFormatting(
                 row.variance_amount, 
                 format, 
-                defaultFormatting
+                defaultFormatting,
+                currency
             );
             row.formatted_variance_percent = this.applyFormatting(
                 row.variance_percent, 
@@ -775,7 +1004,7 @@ export default class ReportRenderer {
     private _formatCurrency(value: number, options: FormatOptions = {}): string {
         const decimals = options.decimals !== undefined ? options.decimals : 0;
         const thousands = options.thousands !== undefined ? options.thousands : true;
-        const symbol = options.symbol || '€';
+        const symbol = options.symbol || currencySymbol(DEFAULT_PRESENTATION_CURRENCY);
 
         const formatted = this._formatNumber(value, decimals, thousands);
         return `${symbol} ${formatted}`;
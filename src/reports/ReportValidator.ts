@@ -1,4 +1,19 @@
 import ValidationResult from '../utils/ValidationResult.ts';
+import {
+    EXPRESSION_FUNCTIONS,
+    PERIOD_SELECTOR_PATTERN,
+    normalizePeriodSelector
+} from '../core/expressions/evaluator.ts';
+import { isCashFlowVariable } from '../core/calculations/cashflow.ts';
+import { LOCALE_PATTERN, type LocalizedText } from '../core/transformations/locale.ts';
+import { CURRENT_SCHEMA_VERSION, parseVersion } from '../core/transformations/report-migrations.ts';
+import {
+    findAccountGaps,
+    findAccountOverlaps,
+    findListOverlaps,
+    type AccountOverlap,
+    type ChartAccount
+} from '../core/variables/accounts.ts';
 
 /**
  * ReportValidator - Validates report definitions against schema and business rules
@@ -8,6 +23,7 @@ import ValidationResult from '../utils/ValidationResult.ts';
  * - Business rule validation (uniqueness, references)
  * - Expression syntax validation
  * - Variable reference validation
+ * - Account assignment against a chart of accounts (validateAccounts)
  * 
  * @example
  * const validator = new ReportValidator(schema);
@@ -20,8 +36,10 @@ import ValidationResult from '../utils/ValidationResult.ts';
 
 /**
  * Valid statement types
+ * 
+ * Ratio reports combine income statement movements with balance sheet balances.
  */
-export type StatementType = 'balance' | 'income' | 'cashflow';
+export type StatementType = 'balance' | 'income' | 'cashflow' | 'ratios';
 
 /**
  * Valid layout item types
@@ -31,7 +49,7 @@ export type LayoutType = 'variable' | 'calculated' | 'category' | 'subtotal' | '
 /**
  * Valid aggregate functions
  */
-export type AggregateFunction = 'sum' | 'average' | 'count' | 'min' | 'max' | 'first' | 'last';
+export type AggregateFunction = 'sum' | 'average' | 'count' | 'min' | 'max' | 'first' | 'last' | 'closing';
 
 /**
  * Valid format types
@@ -43,13 +61,18 @@ export type FormatType = 'currency' | 'percent' | 'integer' | 'decimal';
  */
 export type StyleType = 'normal' | 'metric' | 'subtotal' | 'total' | 'spacer';
 
+/**
+ * Direction in which a value improves (used for KPI trend arrows)
+ */
+export type FavorableDirection = 'higher' | 'lower';
+
 /**
  * Valid filter fields
  */
-export type FilterField = 'code1' | 'code2' | 'code3' | 'name1' | 'name2' | 'name3' | 'statement_type';
+export type FilterField = 'code1' | 'code2' | 'code3' | 'name1' | 'name2' | 'name3' | 'statement_type' | 'account_code';
 
 /**
- * Pattern match object for name filters
+ * Pattern match object for name filters (case-insensitive)
  */
 export interface PatternMatch {
     contains?: string;
@@ -58,17 +81,36 @@ export interface PatternMatch {
     regex?: string;
 }
 
+/**
+ * Range object for code filters; a bound ending in * includes all codes starting with it
+ */
+export interface RangeMatch {
+    gte?: string;
+    lte?: string;
+    gt?: string;
+    lt?: string;
+}
+
 /**
  * Filter specification
+ *
+ * Code values may contain wildcards: * for any characters, ? for one.
  */
 export interface FilterSpec {
-    code1?: string | string[];
-    code2?: string | string[];
-    code3?: string | string[];
+    code1?: string | string[] | RangeMatch;
+    code2?: string | string[] | RangeMatch;
+    code3?: string | string[] | RangeMatch;
+    account_code?: string | string[] | RangeMatch;
     name1?: string | PatternMatch;
     name2?: string | PatternMatch;
     name3?: string | PatternMatch;
     statement_type?: string;
+    /** Matches when any of the specifications matches */
+    anyOf?: FilterSpec[];
+    /** Matches when all of the specifications match */
+    allOf?: FilterSpec[];
+    /** Matches when the specification does not match */
+    not?: FilterSpec;
 }
 
 /**
@@ -77,6 +119,10 @@ export interface FilterSpec {
 export interface VariableDefinition {
     filter: FilterSpec;
     aggregate: AggregateFunction;
+    /** Account codes counted in addition to the filter */
+    include?: string[];
+    /** Account codes not counted even when the filter selects them */
+    exclude?: string[];
 }
 
 /**
@@ -84,11 +130,13 @@ export interface VariableDefinition {
  */
 export interface BaseLayoutItem {
     order: number;
-    label?: string;
+    /** Label, or labels per locale such as { nl: 'Netto-omzet', en: 'Revenue' } */
+    label?: LocalizedText;
     format?: FormatType;
     style?: StyleType;
     indent?: number;
     filter?: FilterSpec;
+    favorable?: FavorableDirection;
 }
 
 /**
@@ -141,6 +189,18 @@ export type LayoutItem =
     | SubtotalLayoutItem 
     | SpacerLayoutItem;
 
+/**
+ * Layout item of a report that extends another report
+ *
+ * An item with a type replaces the parent item with the same order, or is
+ * inserted when the parent has none. An item without a type is merged into the
+ * parent item (e.g. to change its label); remove: true deletes the parent item.
+ */
+export type LayoutOverride = Partial<LayoutItem> & {
+    order: number;
+    remove?: boolean;
+};
+
 /**
  * Currency formatting rules
  */
@@ -188,14 +248,27 @@ export interface FormattingRules {
  */
 export interface ReportDefinition {
     reportId: string;
+    /** reportId of the report this one extends */
+    extends?: string;
     name: string;
     version: string;
+    /** Schema version the definition was written for (see report-migrations.ts) */
+    schemaVersion?: string;
     statementType: StatementType;
+    /** Locale of the labels shown when no locale is requested (e.g. 'nl') */
+    defaultLocale?: string;
     layout: LayoutItem[];
     variables?: Record<string, VariableDefinition>;
     formatting?: FormattingRules;
 }
 
+/**
+ * Report definition as written when it extends another report
+ */
+export interface ReportOverride extends Omit<ReportDefinition, 'layout'> {
+    layout: LayoutOverride[];
+}
+
 /**
  * JSON Schema interface (simplified)
  */
@@ -203,6 +276,13 @@ export interface JSONSchema {
     [key: string]: any;
 }
 
+/**
+ * Remove period selectors from an expression (revenue[prior] -> revenue)
+ * so they are not mistaken for variable or order references
+ */
+const stripPeriodSelectors = (expression: string): string =>
+    expression.replace(/\[[^\]]*\]?/g, '');
+
 export default class ReportValidator {
     private schema: JSONSchema;
     private validStatementTypes: readonly StatementType[];
@@ -210,6 +290,7 @@ export default class ReportValidator {
     private validAggregates: readonly AggregateFunction[];
     private validFormatTypes: readonly FormatType[];
     private validStyleTypes: readonly StyleType[];
+    private validFavorableDirections: readonly FavorableDirection[];
     private validFilterFields: readonly FilterField[];
 
     /**
@@ -220,12 +301,13 @@ export default class ReportValidator {
         this.schema = schema;
         
         // Valid values for enums
-        this.validStatementTypes = ['balance', 'income', 'cashflow'] as const;
+        this.validStatementTypes = ['balance', 'income', 'cashflow', 'ratios'] as const;
         this.validLayoutTypes = ['variable', 'calculated', 'category', 'subtotal', 'spacer'] as const;
-        this.validAggregates = ['sum', 'average', 'count', 'min', 'max', 'first', 'last'] as const;
+        this.validAggregates = ['sum', 'average', 'count', 'min', 'max', 'first', 'last', 'closing'] as const;
         this.validFormatTypes = ['currency', 'percent', 'integer', 'decimal'] as const;
         this.validStyleTypes = ['normal', 'metric', 'subtotal', 'total', 'spacer'] as const;
-        this.validFilterFields = ['code1', 'code2', 'code3', 'name1', 'name2', 'name3', 'statement_type'] as const;
+        this.validFavorableDirections = ['higher', 'lower'] as const;
+        this.validFilterFields = ['code1', 'code2', 'code3', 'name1', 'name2', 'name3', 'statement_type', 'account_code'] as const;
     }
 
     /**
@@ -290,6 +372,15 @@ export default class ReportValidator {
             result.addError('reportId', 'reportId must be between 1 and 100 characters');
         }
 
+        // Validate extends if present (the chain itself is checked by validateInheritance)
+        if (reportDef.extends !== undefined) {
+            if (typeof reportDef.extends !== 'string' || !/^[a-z0-9_-]+$/.test(reportDef.extends)) {
+                result.addError('extends', 'extends must be the reportId of another report');
+            } else if (reportDef.extends === reportDef.reportId) {
+                result.addError('extends', 'A report cannot extend itself');
+            }
+        }
+
         // Validate name
         if (typeof reportDef.name !== 'string' || reportDef.name.length < 1 || reportDef.name.length > 200) {
             result.addError('name', 'name must be a string between 1 and 200 characters');
@@ -300,6 +391,21 @@ export default class ReportValidator {
             result.addError('version', 'version must follow semantic versioning format (e.g., "1.0.0")');
         }
 
+        // Validate schemaVersion if present (older schema versions are migrated before validation)
+        if (reportDef.schemaVersion !== undefined) {
+            if (!parseVersion(reportDef.schemaVersion)) {
+                result.addError('schemaVersion', 'schemaVersion must follow semantic versioning format (e.g., "2.0.0")');
+            } else if (parseVersion(reportDef.schemaVersion)[0] > parseVersion(CURRENT_SCHEMA_VERSION)[0]) {
+                result.addError('schemaVersion', `schemaVersion ${reportDef.schemaVersion} is newer than the supported schema ${CURRENT_SCHEMA_VERSION}`);
+            }
+        }
+
+        // Validate defaultLocale if present
+        if (reportDef.defaultLocale !== undefined &&
+            (typeof reportDef.defaultLocale !== 'string' || !LOCALE_PATTERN.test(reportDef.defaultLocale))) {
+            result.addError('defaultLocale', 'defaultLocale must be a locale code such as "nl" or "en-GB"');
+        }
+
         // Validate statementType
         if (!this.validStatementTypes.includes(reportDef.statementType)) {
             result.addError('statementType', `statementType must be one of: ${this.validStatementTypes.join(', ')}`);
@@ -383,6 +489,10 @@ export default class ReportValidator {
         }
 
         // Validate optional fields
+        if (item.label !== undefined) {
+            this.validateLabel(item.label, `${prefix}.label`, result);
+        }
+
         if (item.format && !this.validFormatTypes.includes(item.format)) {
             result.addError(`${prefix}.format`, `format must be one of: ${this.validFormatTypes.join(', ')}`);
         }
@@ -397,12 +507,43 @@ export default class ReportValidator {
             }
         }
 
+        if (item.favorable !== undefined && !this.validFavorableDirections.includes(item.favorable)) {
+            result.addError(`${prefix}.favorable`, `favorable must be one of: ${this.validFavorableDirections.join(', ')}`);
+        }
+
         // Validate filter if present
         if (item.filter) {
             this.validateFilter(item.filter, `${prefix}.filter`, result);
         }
     }
 
+    /**
+     * Validate a label: a string, or an object of texts per locale
+     * 
+     * @param label - Label to validate
+     * @param prefix - Field path prefix for error messages
+     * @param result - Result to add errors to
+     * @private
+     */
+    private validateLabel(label: any, prefix: string, result: ValidationResult): void {
+        if (typeof label === 'string') {
+            return;
+        }
+
+        if (!label || typeof label !== 'object' || Array.isArray(label) || Object.keys(label).length === 0) {
+            result.addError(prefix, 'label must be a string or an object of texts per locale');
+            return;
+        }
+
+        for (const [locale, text] of Object.entries(label)) {
+            if (!LOCALE_PATTERN.test(locale)) {
+                result.addError(`${prefix}.${locale}`, `Invalid locale '${locale}'. Use a locale code such as "nl" or "en-GB"`);
+            } else if (typeof text !== 'string') {
+                result.addError(`${prefix}.${locale}`, 'Label text must be a string');
+            }
+        }
+    }
+
     /**
      * Validate a variable definition
      * 
@@ -431,6 +572,21 @@ export default class ReportValidator {
         } else if (!this.validAggregates.includes(varDef.aggregate)) {
             result.addError(`${prefix}.aggregate`, `aggregate must be one of: ${this.validAggregates.join(', ')}`);
         }
+
+        // Account lists
+        for (const list of ['include', 'exclude']) {
+            const codes = varDef[list];
+            if (codes !== undefined && (!Array.isArray(codes) || codes.length === 0 ||
+                !codes.every((code: any) => typeof code === 'string' && code.length > 0))) {
+                result.addError(`${prefix}.${list}`, `${list} must be a non-empty array of account codes`);
+            }
+        }
+        if (Array.isArray(varDef.include) && Array.isArray(varDef.exclude)) {
+            const both = varDef.include.filter((code: any) => varDef.exclude.includes(code));
+            if (both.length > 0) {
+                result.addError(prefix, `Accounts both included and excluded: ${both.join(', ')}`);
+            }
+        }
     }
 
     /**
@@ -454,19 +610,31 @@ export default class ReportValidator {
             return;
         }
 
-        // Check that all properties are valid filter fields
+        // Check that all properties are valid filter fields or groups
+        const groupKeys = ['anyOf', 'allOf', 'not'];
         for (const key of filterKeys) {
-            if (!this.validFilterFields.includes(key as FilterField)) {
-                result.addError(`${prefix}.${key}`, `Invalid filter field. Valid fields are: ${this.validFilterFields.join(', ')}`);
+            if (!this.validFilterFields.includes(key as FilterField) && !groupKeys.includes(key)) {
+                result.addError(`${prefix}.${key}`, `Invalid filter field. Valid fields are: ${this.validFilterFields.join(', ')} (or groups: ${groupKeys.join(', ')})`);
             }
         }
 
         // Validate filter values
         for (const [key, value] of Object.entries(filter)) {
-            if (key.startsWith('code')) {
-                // code fields can be string or array of strings
-                if (typeof value !== 'string' && !Array.isArray(value)) {
-                    result.addError(`${prefix}.${key}`, 'Code filter must be a string or array of strings');
+            if (key === 'anyOf' || key === 'allOf') {
+                // groups hold one or more filter specifications
+                if (!Array.isArray(value) || value.length === 0) {
+                    result.addError(`${prefix}.${key}`, `${key} must be a non-empty array of filters`);
+                } else {
+                    value.forEach((spec, index) => this.validateFilter(spec, `${prefix}.${key}[${index}]`, result));
+                }
+            } else if (key === 'not') {
+                this.validateFilter(value, `${prefix}.${key}`, result);
+            } else if (key.startsWith('code') || key === 'account_code') {
+                // code fields can be string, array of strings or range object
+                if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+                    this.validateRangeMatch(value, `${prefix}.${key}`, result);
+                } else if (typeof value !== 'string' && !Array.isArray(value)) {
+                    result.addError(`${prefix}.${key}`, 'Code filter must be a string, array of strings or range object');
                 } else if (Array.isArray(value)) {
                     if (value.length === 0) {
                         result.addError(`${prefix}.${key}`, 'Code filter array must not be empty');
@@ -512,6 +680,38 @@ export default class ReportValidator {
                 result.addError(`${prefix}.${key}`, `Invalid pattern match property. Valid properties are: ${validPatternKeys.join(', ')}`);
             } else if (typeof pattern[key] !== 'string') {
                 result.addError(`${prefix}.${key}`, 'Pattern match value must be a string');
+            } else if (key === 'regex') {
+                try {
+                    new RegExp(pattern[key]);
+                } catch (error: any) {
+                    result.addError(`${prefix}.${key}`, `Invalid regular expression: ${error.message}`);
+                }
+            }
+        }
+    }
+
+    /**
+     * Validate a range object of a code filter
+     * 
+     * @param range - Range object
+     * @param prefix - Field path prefix for error messages
+     * @param result - Result to add errors to
+     * @private
+     */
+    private validateRangeMatch(range: any, prefix: string, result: ValidationResult): void {
+        const validRangeKeys: (keyof RangeMatch)[] = ['gte', 'lte', 'gt', 'lt'];
+        const rangeKeys = Object.keys(range);
+
+        if (rangeKeys.length === 0) {
+            result.addError(prefix, 'Range must have at least one property');
+            return;
+        }
+
+        for (const key of rangeKeys) {
+            if (!validRangeKeys.includes(key as keyof RangeMatch)) {
+                result.addError(`${prefix}.${key}`, `Invalid range property. Valid properties are: ${validRangeKeys.join(', ')}`);
+            } else if (typeof range[key] !== 'string') {
+                result.addError(`${prefix}.${key}`, 'Range value must be a string');
             }
         }
     }
@@ -531,6 +731,13 @@ export default class ReportValidator {
             return;
         }
 
+        // Number format strings are converted to rules by the 1.1.0 -> 2.0.0 migration
+        for (const [kind, rules] of Object.entries(formatting)) {
+            if (rules !== undefined && (rules === null || typeof rules !== 'object')) {
+                result.addError(`${prefix}.${kind}`, `${prefix}.${kind} must be an object with formatting rules`);
+            }
+        }
+
         // Validate currency formatting
         if (formatting.currency) {
             this.validateCurrencyFormatting(formatting.currency, `${prefix}.currency`, result);
@@ -659,9 +866,66 @@ export default class ReportValidator {
             }
         });
 
+        // An account may be included in only one of the variables a total adds up
+        if (reportDef.variables && typeof reportDef.variables === 'object') {
+            for (const overlap of findListOverlaps(reportDef.layout, reportDef.variables)) {
+                result.addError(`variables.${overlap.variables[1]}.include`,
+                    `Account ${overlap.account_code} is included in ${this.describeOverlap(overlap)}`);
+            }
+        }
+
         return result;
     }
 
+    /**
+     * Validate the accounts the variables count against a chart of accounts
+     * 
+     * Accounts counted in more than one variable that a total adds up are
+     * errors; accounts of the report's statement type that no variable counts
+     * are warnings.
+     * 
+     * @param reportDef - Report definition to validate
+     * @param accounts - Chart of accounts, e.g. listAccounts(movements.objects())
+     * @returns Validation result
+     * 
+     * @example
+     * const result = validator.validateAccounts(reportDef, listAccounts(dataStore.getCombinedMovements().objects()));
+     */
+    validateAccounts(reportDef: any, accounts: readonly ChartAccount[]): ValidationResult {
+        const result = new ValidationResult();
+
+        if (!reportDef || !Array.isArray(reportDef.layout) || !reportDef.variables || typeof reportDef.variables !== 'object') {
+            return result;
+        }
+
+        const account = (code: string, description?: string) => description ? `${code} (${description})` : code;
+
+        for (const overlap of findAccountOverlaps(reportDef.layout, reportDef.variables, accounts)) {
+            result.addError(`variables.${overlap.variables[1]}`,
+                `Account ${account(overlap.account_code, overlap.account_description)} is counted in ${this.describeOverlap(overlap)}`);
+        }
+
+        for (const gap of findAccountGaps(reportDef.variables, accounts, reportDef.statementType)) {
+            result.addWarning('variables', `Account ${account(gap.account_code, gap.account_description)} is not counted in any variable`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Describe the variables and totals of an account overlap
+     * 
+     * @param overlap - Account overlap
+     * @returns e.g. "both 'rent' and 'housing', which @500, @900 add up"
+     * @private
+     */
+    private describeOverlap(overlap: AccountOverlap): string {
+        const variables = overlap.variables.map(variable => `'${variable}'`);
+        const orders = overlap.orders.map(order => `@${order}`).join(', ');
+        return `${variables.length === 2 ? 'both ' : ''}${variables.join(variables.length === 2 ? ' and ' : ', ')}, ` +
+            `which ${orders} ${overlap.orders.length === 1 ? 'adds' : 'add'} up`;
+    }
+
     /**
      * Validate expressions in calculated layout items
      * Checks syntax and basic structure
@@ -721,11 +985,32 @@ export default class ReportValidator {
         }
 
         // Check for invalid characters (basic check)
-        const validChars = /^[a-zA-Z0-9_@+\-*/().\s]+$/;
+        const validChars = /^[a-zA-Z0-9_@+\-*/().,<>=!\[\]\s]+$/;
         if (!validChars.test(expression)) {
             result.addError(prefix, 'Expression contains invalid characters');
         }
 
+        // Check period selectors of cross-period references (revenue[prior])
+        const selectorRegex = /([@a-zA-Z0-9_]*)\[([^\]]*)\]?/g;
+        let selectorMatch: RegExpExecArray | null;
+        while ((selectorMatch = selectorRegex.exec(expression)) !== null) {
+            const [text, reference, selector] = selectorMatch;
+            if (!/^(@\d+|[a-zA-Z_][a-zA-Z0-9_]*)$/.test(reference)) {
+                result.addError(prefix, `Period selector '${text}' must follow a variable or order reference`);
+            } else if (!text.endsWith(']')) {
+                result.addError(prefix, `Period selector of '${reference}' is missing a closing bracket`);
+            } else if (!PERIOD_SELECTOR_PATTERN.test(normalizePeriodSelector(selector))) {
+                result.addError(prefix, `Invalid period selector '${selector}' (expected prior, P-<n> or a year)`);
+            }
+        }
+
+        // Check that function calls use a known function
+        for (const name of this.extractFunctionNames(expression)) {
+            if (!(name in EXPRESSION_FUNCTIONS)) {
+                result.addError(prefix, `Unknown function '${name}'. Available functions: ${Object.keys(EXPRESSION_FUNCTIONS).join(', ')}`);
+            }
+        }
+
         // Check for consecutive operators
         if (/[+\-*/]{2,}/.test(expression.replace(/--/g, ''))) {
             result.addError(prefix, 'Expression contains consecutive operators');
@@ -766,6 +1051,10 @@ export default class ReportValidator {
             }
         }
 
+        // Cash flow reports can also use the variables of the cash flow engine
+        const isDefinedVariable = (name: string): boolean =>
+            definedVariables.has(name) || (reportDef.statementType === 'cashflow' && isCashFlowVariable(name));
+
         // Build set of defined order numbers
         const definedOrders = new Set<number>();
         reportDef.layout.forEach((item: any) => {
@@ -777,7 +1066,7 @@ export default class ReportValidator {
         // Check variable references in layout items
         reportDef.layout.forEach((item: any, index: number) => {
             if (item.type === 'variable' && item.variable) {
-                if (!definedVariables.has(item.variable)) {
+                if (!isDefinedVariable(item.variable)) {
                     result.addError(`layout[${index}].variable`, `Variable '${item.variable}' is not defined in variables section`);
                 }
             }
@@ -796,7 +1085,7 @@ export default class ReportValidator {
             if (item.type === 'calculated' && item.expression) {
                 const varRefs = this.extractVariableReferences(item.expression);
                 for (const varRef of varRefs) {
-                    if (!definedVariables.has(varRef)) {
+                    if (!isDefinedVariable(varRef)) {
                         result.addError(`layout[${index}].expression`, `Variable '${varRef}' is not defined in variables section`);
                     }
                 }
@@ -816,6 +1105,82 @@ export default class ReportValidator {
         return result;
     }
 
+    /**
+     * Validate the extends chain of a report definition
+     * Checks that every parent exists, that the chain has no cycles, and that
+     * overrides and removals refer to items of the parent layout
+     * 
+     * @param reportDef - Report definition before its parent is merged in
+     * @param definitions - Loaded report definitions by reportId
+     * @returns Validation result
+     * 
+     * @example
+     * const result = validator.validateInheritance(child, new Map([[parent.reportId, parent]]));
+     */
+    validateInheritance(reportDef: any, definitions: ReadonlyMap<string, any>): ValidationResult {
+        const result = new ValidationResult();
+
+        if (!reportDef || reportDef.extends === undefined) {
+            return result;
+        }
+
+        // Walk up to the root report, stopping at an unknown parent or a report seen before
+        const chain: any[] = [reportDef];
+        let current = reportDef;
+        while (current.extends !== undefined) {
+            const ids = chain.map(def => def.reportId);
+            if (ids.includes(current.extends)) {
+                result.addError('extends', `Circular extends chain: ${[...ids, current.extends].join(' -> ')}`);
+                return result;
+            }
+
+            const parent = definitions.get(current.extends);
+            if (!parent) {
+                result.addError('extends', `Report '${current.reportId}' extends unknown report '${current.extends}'`);
+                return result;
+            }
+
+            chain.push(parent);
+            current = parent;
+        }
+
+        const root = chain[chain.length - 1];
+        if (reportDef.statementType !== undefined && reportDef.statementType !== root.statementType) {
+            result.addError('statementType', `statementType '${reportDef.statementType}' differs from '${root.statementType}' of the extended report`);
+        }
+
+        if (reportDef.layout === undefined) {
+            return result;
+        }
+        if (!Array.isArray(reportDef.layout)) {
+            result.addError('layout', 'layout must be an array');
+            return result;
+        }
+
+        // Order numbers of the parent layout, with the changes of every report in between applied
+        const parentOrders = new Set<number>();
+        for (const def of chain.slice(1).reverse()) {
+            for (const item of Array.isArray(def.layout) ? def.layout : []) {
+                if (item?.remove) {
+                    parentOrders.delete(item.order);
+                } else if (typeof item?.order === 'number') {
+                    parentOrders.add(item.order);
+                }
+            }
+        }
+
+        reportDef.layout.forEach((item: any, index: number) => {
+            if (typeof item?.order !== 'number') {
+                result.addError(`layout[${index}].order`, 'order must be a number');
+            } else if ((item.remove || !item.type) && !parentOrders.has(item.order)) {
+                const change = item.remove ? 'Removal' : 'Override';
+                result.addError(`layout[${index}]`, `${change} of order ${item.order} does not match an item of '${reportDef.extends}'`);
+            }
+        });
+
+        return result;
+    }
+
     /**
      * Extract order references from an expression
      * Order references are in the format @10, @20, etc.
@@ -829,13 +1194,33 @@ export default class ReportValidator {
         const regex = /@(\d+)/g;
         let match: RegExpExecArray | null;
 
-        while ((match = regex.exec(expression)) !== null) {
+        while ((match = regex.exec(stripPeriodSelectors(expression))) !== null) {
             orderRefs.push(parseInt(match[1], 10));
         }
 
         return orderRefs;
     }
 
+    /**
+     * Extract function names from an expression
+     * Function calls are identifiers followed by (, e.g. round(x, 2)
+     * 
+     * @param expression - Expression to parse
+     * @returns Array of function names
+     * @private
+     */
+    private extractFunctionNames(expression: string): string[] {
+        const names: string[] = [];
+        const regex = /(?<!@)\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(expression)) !== null) {
+            names.push(match[1]);
+        }
+
+        return names;
+    }
+
     /**
      * Extract variable references from an expression
      * Variable references are identifiers (not preceded by @)
@@ -848,9 +1233,10 @@ export default class ReportValidator {
         const varRefs: string[] = [];
         // Match identifiers that are not preceded by @ and not followed by (
         const regex = /(?<!@)\b([a-zA-Z_][a-zA-Z0-9_]*)\b(?!\s*\()/g;
+        const withoutSelectors = stripPeriodSelectors(expression);
         let match: RegExpExecArray | null;
 
-        while ((match = regex.exec(expression)) !== null) {
+        while ((match = regex.exec(withoutSelectors)) !== null) {
             varRefs.push(match[1]);
         }
 
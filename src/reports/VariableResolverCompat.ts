@@ -132,16 +132,16 @@ export default class VariableResolver {
      * 
      * @param varDef - Variable definition with filter and aggregate
      * @param movementsData - Arquero table containing movements data
-     * @param periodOptions - Period selection options
-     * @returns Value object with year keys { 2024: number, 2025: number }
+     * @param periodOptions - Period selection options (optional period columns)
+     * @returns Value object keyed by column { 2024: number, 2025: number }
      */
     resolveVariable(
         varDef: VariableDefinition,
         movementsData: any,
-        _periodOptions: PeriodOptions
+        periodOptions: PeriodOptions
     ): ResolvedValues {
         // Use functional implementation
-        const result = resolveVariable(varDef)(movementsData);
+        const result = resolveVariable(varDef, periodOptions?.columns)(movementsData);
         
         if (!result.success) {
             throw result.error;
@@ -117,10 +117,7 @@ export class FileSelectionService {
      * @returns Promise resolving to check results with missing files list
      */
     async checkRequiredFiles(): Promise<RequiredFilesCheck> {
-        const requiredFiles = [
-            APP_CONFIG.excel.trialBalance2024,
-            APP_CONFIG.excel.trialBalance2025
-        ];
+        const requiredFiles = this.getRequiredFileNames();
 
         const missingFiles: string[] = [];
 
@@ -142,13 +139,26 @@ export class FileSelectionService {
 
     /**
      * Get list of required file names
+     * Uses the trial balance files in config.json (workbooks or CSV files), falling back to the defaults
+     * A year with entity trial balances (inputFiles.entities) requires those instead
      * @returns Array of required file names
      */
     getRequiredFileNames(): string[] {
-        return [
-            APP_CONFIG.excel.trialBalance2024,
-            APP_CONFIG.excel.trialBalance2025
-        ];
+        const inputFiles = (globalThis as any).config?.inputFiles || {};
+        const entities: Record<string, Record<string, string>> = inputFiles.entities || {};
+        const entityFiles = (year: string): string[] => Object.values(entities)
+            .map(files => files?.[year])
+            .filter((filename): filename is string => !!filename);
+
+        const defaults: Record<string, string> = {
+            '2024': APP_CONFIG.excel.trialBalance2024,
+            '2025': APP_CONFIG.excel.trialBalance2025
+        };
+
+        return Object.entries(defaults).flatMap(([year, fallback]) => {
+            const files = entityFiles(year);
+            return files.length > 0 ? files : [inputFiles[`trialBalance${year}`] || fallback];
+        });
     }
 
     /**
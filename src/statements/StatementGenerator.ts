@@ -27,13 +27,27 @@ import {
 import { calculateVariancePercent } from '../core/calculations/variance.ts';
 import { flipSignForPassiva } from '../core/transformations/sign.ts';
 import { calculateLTMInfo } from '../core/calculations/ltm.ts';
+import { buildCashFlowVariables, CASH_FLOW_CHANGE_PATTERN } from '../core/calculations/cashflow.ts';
+import { getDependencies, parseReferenceKey } from '../core/expressions/evaluator.ts';
+import {
+    amountField,
+    formattedField,
+    amountKeysOf,
+    scenariosOf,
+    type PeriodColumn,
+    type ComparisonPair
+} from '../core/calculations/columns.ts';
 import {
     buildNormalModeSpec,
     buildLTMModeSpec,
     buildLTMCategoryTotalsSpec,
     buildCategoryTotalsSpec
 } from '../utils/RollupSpecBuilderCompat.ts';
-import ReportRenderer from '../reports/ReportRenderer.ts';
+import ReportRenderer, {
+    type DerivedVariables,
+    type PeriodOptions,
+    type StatementData
+} from '../reports/ReportRenderer.ts';
 import VariableResolver from '../reports/VariableResolverCompat.ts';
 import ExpressionEvaluator from '../reports/ExpressionEvaluatorCompat.ts';
 import FilterEngine from '../reports/FilterEngineCompat.ts';
@@ -85,6 +99,11 @@ interface StatementResult {
         version: string;
         statementType: string;
     };
+    /** Rows and variable definitions behind the statement (see core/calculations/drilldown.ts) */
+    drillDown?: {
+        data: ArqueroTable;
+        variables: Record<string, any>;
+    };
 }
 
 interface GenerationOptions {
@@ -94,6 +113,10 @@ interface GenerationOptions {
     detailLevel?: string;
     orderBy?: boolean;
     name?: string;
+    columns?: PeriodColumn[];
+    comparison?: ComparisonPair;
+    entity?: string;
+    currency?: string;
     calculateMetrics?: (totals: ArqueroTable, details: ArqueroTable) => StatementMetrics;
     validateBalance?: (totals: ArqueroTable) => { balanced: boolean; imbalance?: number };
 }
@@ -567,6 +590,12 @@ class StatementGenerator {
      *   varianceMode: 'Both',
      *   detailLevel: 'All Levels'
      * });
+     * 
+     * // Twelve monthly columns, variance between March and February
+     * generator.generateStatementFromDefinition(reportDef, {
+     *   columns: buildMonthColumns(2025),
+     *   comparison: { base: '2025_P2', compare: '2025_P3' }
+     * });
      */
     generateStatementFromDefinition(reportDef: ReportDefinition, options: GenerationOptions = {}): StatementResult {
         if (!reportDef) {
@@ -574,27 +603,8 @@ class StatementGenerator {
         }
 
         try {
-            // Get movements data based on statement type
-            const statementType = this._mapStatementType(reportDef.statementType);
-            const combinedMovements = this.validateRequiredData(statementType);
-
-            // Filter for specific statement type
-            let filtered = combinedMovements
-                .params({ statementType })
-                .filter((d: any) => d.statement_type === statementType);
-
-            // Build period options from the options parameter
-            const periodOptions = this._buildPeriodOptions(options);
-
-            // Apply period filtering if needed
-            filtered = this._applyPeriodFiltering(filtered, options, statementType);
-
-            // Render statement using report definition
-            const statementData = this.reportRenderer.renderStatement(
-                reportDef,
-                filtered,
-                periodOptions
-            );
+            const data = this._selectReportData(reportDef, options);
+            const statementData = this._renderReportData(reportDef, data, options);
 
             // Transform to format expected by existing UI components
             const result = this._transformToLegacyFormat(statementData, options);
@@ -607,6 +617,12 @@ class StatementGenerator {
                 statementType: reportDef.statementType
             };
 
+            // Keep the rows behind the statement for drill-down
+            result.drillDown = {
+                data,
+                variables: reportDef.variables || {}
+            };
+
             // Debug logging
             Logger.debug('Statement generation result:', {
                 hasDetails: !!result.details,
@@ -633,8 +649,78 @@ class StatementGenerator {
         }
     }
 
+    /**
+     * Render statement data from a report definition without the legacy UI transform
+     *
+     * Selects the movements or balances for the report's statement type (both
+     * for ratio reports), applies period filtering (or appends scenario data for
+     * explicit columns) and runs the report renderer. Cash flow reports also get
+     * the variables of the indirect-method cash flow engine (net_income,
+     * depreciation, change_<code1>, ...; see core/calculations/cashflow.ts). Used by generateStatementFromDefinition() and by
+     * headless tools that export the rendered rows directly.
+     *
+     * @param reportDef - Report definition object
+     * @param options - Generation options
+     * @returns Rendered statement data
+     *
+     * @example
+     * const statementData = generator.renderStatementFromDefinition(reportDef, {
+     *   columns: buildYearColumns([2024, 2025])
+     * });
+     */
+    renderStatementFromDefinition(reportDef: ReportDefinition, options: GenerationOptions = {}): StatementData {
+        return this._renderReportData(reportDef, this._selectReportData(reportDef, options), options);
+    }
+
     // REMOVED: Feature flag methods - Configurable reports are now the only option
 
+    /**
+     * Select the rows a report is rendered from
+     * 
+     * @private
+     * @param reportDef - Report definition object
+     * @param options - Generation options
+     * @returns Arquero table with the statement type's rows for the selected periods
+     */
+    private _selectReportData(reportDef: ReportDefinition, options: GenerationOptions): ArqueroTable {
+        // Get movements or balances for the statement type
+        const statementType = this._mapStatementType(reportDef.statementType);
+        const selected = this._selectEntityData(this._selectStatementData(statementType), options.entity);
+
+        // Apply period filtering if needed (explicit columns select their own periods)
+        return options.columns
+            ? this._appendScenarioData(selected, options.columns, statementType)
+            : this._applyPeriodFiltering(selected, options, statementType);
+    }
+
+    /**
+     * Render a report from the rows selected for it
+     * 
+     * @private
+     * @param reportDef - Report definition object
+     * @param filtered - Rows selected by _selectReportData()
+     * @param options - Generation options
+     * @returns Rendered statement data
+     */
+    private _renderReportData(reportDef: ReportDefinition, filtered: ArqueroTable, options: GenerationOptions): StatementData {
+        const statementType = this._mapStatementType(reportDef.statementType);
+
+        // Build period options from the options parameter
+        const periodOptions = this._buildPeriodOptions(options);
+
+        const derivedVariables = statementType === STATEMENT_TYPES.CASH_FLOW
+            ? this._cashFlowVariables(reportDef, filtered, options)
+            : undefined;
+
+        // Render statement using report definition
+        return this.reportRenderer.renderStatement(
+            reportDef,
+            filtered,
+            periodOptions,
+            derivedVariables
+        );
+    }
+
     /**
      * Map report definition statement type to internal statement type
      * 
@@ -646,18 +732,65 @@ class StatementGenerator {
         const mapping: Record<string, string> = {
             'balance': STATEMENT_TYPES.BALANCE_SHEET,
             'income': STATEMENT_TYPES.INCOME_STATEMENT,
-            'cashflow': STATEMENT_TYPES.CASH_FLOW
+            'cashflow': STATEMENT_TYPES.CASH_FLOW,
+            'ratios': STATEMENT_TYPES.RATIOS
         };
 
         const mapped = mapping[reportStatementType];
         if (!mapped) {
             throw ErrorFactory.invalidValue('statementType', reportStatementType, 
-                'income, balance, or cashflow');
+                'income, balance, cashflow, or ratios');
         }
 
         return mapped;
     }
 
+    /**
+     * Select the rows a statement type is rendered from
+     * 
+     * Ratio reports combine income statement movements with balance sheet
+     * balances, so variables can relate e.g. receivables to revenue. Cash flow
+     * reports use the movements of all accounts.
+     * 
+     * @private
+     * @param statementType - Internal statement type constant
+     * @returns Arquero table with the rows of the statement type
+     */
+    private _selectStatementData(statementType: string): ArqueroTable {
+        if (statementType === STATEMENT_TYPES.RATIOS) {
+            return this._selectStatementData(STATEMENT_TYPES.INCOME_STATEMENT)
+                .concat(this._selectStatementData(STATEMENT_TYPES.BALANCE_SHEET));
+        }
+        if (statementType === STATEMENT_TYPES.CASH_FLOW) {
+            return this.validateRequiredData(STATEMENT_TYPES.INCOME_STATEMENT);
+        }
+
+        return this.validateRequiredData(statementType)
+            .params({ statementType })
+            .filter((d: any) => d.statement_type === statementType);
+    }
+
+    /**
+     * Select the rows of a single legal entity
+     * 
+     * Without an entity all rows are kept, which is the consolidated view:
+     * the entities' rows plus the intercompany elimination rows.
+     * 
+     * @private
+     * @param table - Arquero table with actuals
+     * @param entity - Entity id (undefined for the consolidated view)
+     * @returns Arquero table with the rows of the entity
+     */
+    private _selectEntityData(table: ArqueroTable, entity?: string): ArqueroTable {
+        if (!entity) {
+            return table;
+        }
+
+        return table
+            .params({ entity })
+            .filter((d: any) => d.entity === entity);
+    }
+
     /**
      * Build period options object from generation options
      * 
@@ -665,12 +798,16 @@ class StatementGenerator {
      * @param options - Generation options
      * @returns Period options for report renderer
      */
-    private _buildPeriodOptions(options: GenerationOptions): any {
+    private _buildPeriodOptions(options: GenerationOptions): PeriodOptions {
         const year1 = YEAR_CONFIG.getYear(0);
         const year2 = YEAR_CONFIG.getYear(1);
 
         return {
-            years: [year1, year2],
+            years: YEAR_CONFIG.years.map(year => parseInt(year)),
+            periods: 'all',
+            columns: options.columns,
+            comparison: options.comparison,
+            currency: options.currency,
             period2024: options.period2024 || `${year1}-all`,
             period2025: options.period2025 || `${year2}-all`,
             varianceMode: options.varianceMode || 'Both',
@@ -678,6 +815,110 @@ class StatementGenerator {
         };
     }
 
+    /**
+     * Append the rows of scenario datasets (budget, forecast) used by the columns
+     * 
+     * @private
+     * @param filtered - Arquero table with actuals for the statement type
+     * @param columns - Period columns of the statement
+     * @param statementType - Statement type
+     * @returns Arquero table with actuals and scenario rows
+     * @throws {ConfigurationError} If a scenario dataset is not loaded
+     */
+    private _appendScenarioData(filtered: ArqueroTable, columns: PeriodColumn[], statementType: string): ArqueroTable {
+        if (statementType === STATEMENT_TYPES.RATIOS) {
+            const withIncome = this._appendScenarioData(filtered, columns, STATEMENT_TYPES.INCOME_STATEMENT);
+            return this._appendScenarioData(withIncome, columns, STATEMENT_TYPES.BALANCE_SHEET);
+        }
+
+        const type = statementType === STATEMENT_TYPES.BALANCE_SHEET ? 'balances' : 'movements';
+
+        return scenariosOf(columns).reduce((table: ArqueroTable, scenario: string) => {
+            const scenarioData = this.dataStore.getScenarioTable(scenario, type);
+            if (!scenarioData) {
+                throw ErrorFactory.missingConfig('scenarioData',
+                    new Error(`Scenario '${scenario}' ${type} not loaded`));
+            }
+
+            return table.concat(statementType === STATEMENT_TYPES.CASH_FLOW
+                ? scenarioData
+                : scenarioData
+                    .params({ statementType })
+                    .filter((d: any) => d.statement_type === statementType)
+            );
+        }, filtered);
+    }
+
+    /**
+     * Build the cash flow engine variables for a cash flow report
+     * 
+     * The engine needs the balance sheet balances for the cash reconciliation,
+     * selected with the same periods (or scenarios) as the movements. Columns
+     * where the statement does not reconcile with the cash accounts are logged.
+     * 
+     * @private
+     * @param reportDef - Cash flow report definition
+     * @param movements - Movements of all accounts, as rendered
+     * @param options - Generation options
+     * @returns Derived variables for the report renderer
+     */
+    private _cashFlowVariables(
+        reportDef: ReportDefinition,
+        movements: ArqueroTable,
+        options: GenerationOptions
+    ): DerivedVariables {
+        const balances = this._selectEntityData(
+            this._selectStatementData(STATEMENT_TYPES.BALANCE_SHEET), options.entity);
+        const periodBalances = options.columns
+            ? this._appendScenarioData(balances, options.columns, STATEMENT_TYPES.BALANCE_SHEET)
+            : this._applyPeriodFiltering(balances, options, STATEMENT_TYPES.BALANCE_SHEET);
+
+        // Categories the report shows are 0 rather than undefined without movements
+        const referenced = this._referencedCashFlowCategories(reportDef);
+
+        return (columns: PeriodColumn[]) => {
+            const variables = buildCashFlowVariables(movements, periodBalances, columns, referenced);
+            const differences = variables.get('cash_difference') || {};
+
+            for (const [key, difference] of Object.entries(differences)) {
+                if (Math.abs(difference) >= VALIDATION_CONFIG.BALANCE_TOLERANCE) {
+                    Logger.warn(`Cash flow for column ${key} does not reconcile with the cash accounts (difference: ${difference.toFixed(2)})`);
+                }
+            }
+
+            return variables;
+        };
+    }
+
+    /**
+     * Find the change_<code1> variables a cash flow report references
+     * 
+     * @private
+     * @param reportDef - Cash flow report definition
+     * @returns Variable names
+     */
+    private _referencedCashFlowCategories(reportDef: ReportDefinition): string[] {
+        const names = new Set<string>();
+
+        for (const item of reportDef.layout || []) {
+            if (item.type === 'variable' && item.variable) {
+                names.add(item.variable);
+            }
+            if (item.type !== 'calculated' || !item.expression) {
+                continue;
+            }
+            // Invalid expressions are reported when the item is evaluated
+            const dependencies = getDependencies(item.expression);
+            if (dependencies.success) {
+                for (const key of dependencies.value) {
+                    names.add(parseReferenceKey(key).name);
+                }
+            }
+        }
+
+        return [...names].filter(name => CASH_FLOW_CHANGE_PATTERN.test(name));
+    }
+
     /**
      * Apply period filtering to movements data
      * 
@@ -772,30 +1013,38 @@ class StatementGenerator {
      * @returns Statement data in legacy format
      */
     private _transformToLegacyFormat(statementData: any, options: GenerationOptions): StatementResult {
+        const columns: PeriodColumn[] | undefined = statementData.metadata?.columns;
+
         // Convert rows array to Arquero table for compatibility
-        const rowsData = statementData.rows.map((row: any) => ({
-            // Core fields
-            order: row.order,
-            label: row.label,
-            type: row.type,
-            style: row.style,
-            indent: row.indent,
+        const rowsData = statementData.rows.map((row: any) => {
+            const keys = columns ? columns.map(column => column.key) : amountKeysOf(row);
+            const amounts: Record<string, unknown> = {};
+            for (const key of keys) {
+                amounts[amountField(key)] = row[amountField(key)];
+                amounts[formattedField(key)] = row[formattedField(key)];
+            }
+
+            return {
+                // Core fields
+                order: row.order,
+                label: row.label,
+                type: row.type,
+                style: row.style,
+                indent: row.indent,
             
-            // Amount fields
-            amount_2024: row.amount_2024,
-            amount_2025: row.amount_2025,
-            variance_amount: row.variance_amount,
-            variance_percent: row.variance_percent,
+                // Amount and formatted fields per period column
+                ...amounts,
+                variance_amount: row.variance_amount,
+                variance_percent: row.variance_percent,
             
-            // Formatted fields
-            formatted_2024: row.formatted_2024,
-            formatted_2025: row.formatted_2025,
-            formatted_variance_amount: row.formatted_variance_amount,
-            formatted_variance_percent: row.formatted_variance_percent,
+                // Formatted variance fields
+                formatted_variance_amount: row.formatted_variance_amount,
+                formatted_variance_percent: row.formatted_variance_percent,
             
-            // Metadata
-            _metadata: row._metadata
-        }));
+                // Metadata
+                _metadata: row._metadata
+            };
+        });
 
         const aq = (globalThis as any).aq;
         const detailsTable = aq.from(rowsData);
@@ -36,8 +36,7 @@ interface RowData {
     code1?: string | number;
     code2?: string;
     code3?: string;
-    amount_2024: number | null;
-    amount_2025: number | null;
+    [amount: `amount_${string}`]: number | null;
     variance_amount: number | null;
     variance_percent: number | null;
     _isMetric: boolean;
@@ -70,8 +69,7 @@ export class BalanceSheetSpecialRows {
                 // Create a copy with all amount fields set to null
                 return {
                     ...row,
-                    amount_2024: null,
-                    amount_2025: null,
+                    ...YEAR_CONFIG.amountsFor(),
                     variance_amount: null,
                     variance_percent: null
                 };
@@ -134,6 +132,8 @@ export class BalanceSheetSpecialRows {
      */
     calculateTotalAssets(data: any[]): YearTotals {
         let year1 = 0, year2 = 0;
+        const column1 = YEAR_CONFIG.getAmountColumn(YEAR_CONFIG.getYear(0));
+        const column2 = YEAR_CONFIG.getAmountColumn(YEAR_CONFIG.getYear(1));
 
         // Sum level 1 rows under "Activa" section
         // These are the direct children of the "Activa" section (vaste activa, vlottende activa)
@@ -143,8 +143,8 @@ export class BalanceSheetSpecialRows {
                                  (row.name0 === 'Activa' || row.hierarchy?.[0] === 'Activa');
 
             if (isActivaChild) {
-                year1 += row.amount_2024 || 0;
-                year2 += row.amount_2025 || 0;
+                year1 += row[column1] || 0;
+                year2 += row[column2] || 0;
             }
         });
 
@@ -160,6 +160,8 @@ export class BalanceSheetSpecialRows {
      */
     calculateTotalLiabilitiesEquity(data: any[]): YearTotals {
         let year1 = 0, year2 = 0;
+        const column1 = YEAR_CONFIG.getAmountColumn(YEAR_CONFIG.getYear(0));
+        const column2 = YEAR_CONFIG.getAmountColumn(YEAR_CONFIG.getYear(1));
 
         // Sum level 1 rows under "Passiva" section
         // These are the direct children of the "Passiva" section
@@ -171,8 +173,8 @@ export class BalanceSheetSpecialRows {
                                   (row.name0 === 'Passiva' || row.hierarchy?.[0] === 'Passiva');
 
             if (isPassivaChild) {
-                year1 += row.amount_2024 || 0;
-                year2 += row.amount_2025 || 0;
+                year1 += row[column1] || 0;
+                year2 += row[column2] || 0;
             }
         });
 
@@ -224,8 +226,7 @@ export class BalanceSheetSpecialRows {
             code1: '60',  // Changed from '69' to '60' to group with eigen vermogen
             code2: '60999',  // Special code for Resultaat boekjaar within equity
             code3: '',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: false,
@@ -250,8 +251,7 @@ export class BalanceSheetSpecialRows {
             name0: '',
             name1: '',
             name2: 'Totaal activa',
-            amount_2024: totals.year1,
-            amount_2025: totals.year2,
+            ...YEAR_CONFIG.amountsFor({ [year1]: totals.year1, [year2]: totals.year2 }),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -276,8 +276,7 @@ export class BalanceSheetSpecialRows {
             name0: '',
             name1: '',
             name2: 'Totaal passiva',
-            amount_2024: totals.year1,
-            amount_2025: totals.year2,
+            ...YEAR_CONFIG.amountsFor({ [year1]: totals.year1, [year2]: totals.year2 }),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -298,8 +297,7 @@ export class BalanceSheetSpecialRows {
             name0: '',
             name1: '',
             name2: '',
-            amount_2024: null,
-            amount_2025: null,
+            ...YEAR_CONFIG.amountsFor(),
             variance_amount: null,
             variance_percent: null,
             _isMetric: false,
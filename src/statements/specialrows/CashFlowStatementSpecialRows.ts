@@ -31,8 +31,7 @@ interface RowData {
     name0: string;
     name1: string;
     name2: string;
-    amount_2024: number | null;
-    amount_2025: number | null;
+    [amount: `amount_${string}`]: number | null;
     variance_amount: number | null;
     variance_percent: number | null;
     _isMetric: boolean;
@@ -92,8 +91,7 @@ export class CashFlowStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Starting Cash (Σ)',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -118,8 +116,7 @@ export class CashFlowStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Change in Cash (Δ)',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -144,8 +141,7 @@ export class CashFlowStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Ending Cash (Σ)',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -166,8 +162,7 @@ export class CashFlowStatementSpecialRows {
             name0: '',
             name1: '',
             name2: '',
-            amount_2024: null,
-            amount_2025: null,
+            ...YEAR_CONFIG.amountsFor(),
             variance_amount: null,
             variance_percent: null,
             _isMetric: false,
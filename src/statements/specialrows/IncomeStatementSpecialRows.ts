@@ -34,8 +34,7 @@ interface RowData {
     name1: string;
     name2: string;
     code1?: string | number;
-    amount_2024: number | null;
-    amount_2025: number | null;
+    [amount: `amount_${string}`]: number | null;
     variance_amount: number | null;
     variance_percent: number | null;
     _isMetric: boolean;
@@ -182,8 +181,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Bruto marge',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -208,8 +206,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Totaal bedrijfskosten',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -234,8 +231,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Bedrijfsresultaat',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -260,8 +256,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Resultaat voor belastingen',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -286,8 +281,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Operating Income',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -312,8 +306,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: 'Resultaat na belastingen',
-            amount_2024: amounts[year1],
-            amount_2025: amounts[year2],
+            ...YEAR_CONFIG.amountsFor(amounts),
             variance_amount: amount,
             variance_percent: percent,
             _isMetric: true,
@@ -334,8 +327,7 @@ export class IncomeStatementSpecialRows {
             name0: '',
             name1: '',
             name2: '',
-            amount_2024: null,
-            amount_2025: null,
+            ...YEAR_CONFIG.amountsFor(),
             variance_amount: null,
             variance_percent: null,
             _isMetric: false,
@@ -7,6 +7,7 @@
  * Depends on:
  * - ag-Grid (agGrid) - loaded globally from CDN
  * - VarianceCalculator for variance calculations
+ * - DrillDownPanel for the accounts and formula behind a clicked row
  * - YEAR_CONFIG, UI_CONFIG, UI_STATEMENT_TYPES constants
  * - Report definitions for calculated rows and subtotals
  */
@@ -14,10 +15,18 @@
 // CategoryMatcher removed - no longer needed with configurable report system
 import Logger from '../utils/Logger.ts';
 import { calculateVariancePercent } from '../core/calculations/variance.ts';
+import { currencySymbol } from '../core/calculations/currency.ts';
+import {
+    amountField,
+    formattedField,
+    amountKeysOf,
+    type PeriodColumn
+} from '../core/calculations/columns.ts';
 import HierarchyBuilder from '../utils/HierarchyBuilder.ts';
 import HierarchyTreeBuilder from '../utils/HierarchyTreeBuilder.ts';
 // SpecialRowsFactory removed - all statements now use configurable report system with calculated/subtotal rows
 import ColumnDefBuilder from './columns/ColumnDefBuilder.ts';
+import DrillDownPanel from './DrillDownPanel.ts';
 import { YEAR_CONFIG, UI_CONFIG, UI_STATEMENT_TYPES } from '../constants.ts';
 import { exportGridToExcel, exportLTMGridToExcel } from '../export/excel-export.ts';
 
@@ -51,12 +60,18 @@ interface StatementData {
     isLTMMode?: boolean;
     ltmInfo?: LTMInfo;
     metadata?: {
+        columns?: PeriodColumn[];
+        currency?: string;
         reportId?: string;
         reportName?: string;
         reportVersion?: string;
     };
     reportName?: string;
     reportVersion?: string;
+    drillDown?: {
+        data: any;
+        variables: Record<string, any>;
+    };
 }
 
 interface GridRow {
@@ -65,17 +80,15 @@ interface GridRow {
     type?: string;
     style?: string;
     indent?: number;
-    amount_2024?: number;
-    amount_2025?: number;
     variance_amount?: number;
     variance_percent?: number;
-    formatted_2024?: string;
-    formatted_2025?: string;
     formatted_variance_amount?: string;
     formatted_variance_percent?: string;
     _rowType?: string;
     _metadata?: any;
     _alwaysVisible?: boolean;
+    [amount: `amount_${string}`]: number | undefined;
+    [formatted: `formatted_${string}`]: string | undefined;
     level?: number;
     hierarchy?: string[];
     orgHierarchy?: string[];
@@ -109,8 +122,9 @@ class AgGridStatementRenderer {
     private currentStatementData: StatementData | null;
     private hierarchyTreeBuilder: HierarchyTreeBuilder;
     private expansionState: Map<string, boolean>;
+    private drillDownPanel: DrillDownPanel;
 
-    constructor(containerId: string) {
+    constructor(containerId: string, drillDownContainerId = 'drill-down-panel') {
         this.gridDiv = document.querySelector(`#${containerId}`);
         this.gridApi = null;
         this.columnApi = null;
@@ -118,6 +132,7 @@ class AgGridStatementRenderer {
         this.currentStatementData = null;
         this.hierarchyTreeBuilder = new HierarchyTreeBuilder();
         this.expansionState = new Map(); // Store node expansion state
+        this.drillDownPanel = new DrillDownPanel(drillDownContainerId);
     }
 
     /**
@@ -145,6 +160,7 @@ class AgGridStatementRenderer {
 
         this.currentStatementType = statementType;
         this.currentStatementData = statementData;
+        this.closeDrillDown();
 
         const year1 = YEAR_CONFIG.getYear(0);
         const year2 = YEAR_CONFIG.getYear(1);
@@ -210,6 +226,13 @@ class AgGridStatementRenderer {
                     const pathKey = params.node.data.orgHierarchy.join('|');
                     this.expansionState.set(pathKey, params.node.expanded);
                 }
+            },
+
+            // Drill down to the accounts (or formula) behind a report row
+            onRowClicked: (params: any) => {
+                if (params.data?._metadata && this.currentStatementData) {
+                    this.drillDownPanel.show(params.data, this.currentStatementData);
+                }
             }
         };
 
@@ -222,6 +245,13 @@ class AgGridStatementRenderer {
         this.gridApi = (globalThis as any).agGrid.createGrid(this.gridDiv, gridOptions);
     }
 
+    /**
+     * Close the drill-down panel (e.g. when the grid is hidden)
+     */
+    closeDrillDown(): void {
+        this.drillDownPanel.hide();
+    }
+
     // Prepare data for ag-Grid with tree structure
     prepareDataForGrid(statementData: StatementData, statementType: string): GridRow[] {
         Logger.debug('prepareDataForGrid called', { statementType, hasRows: !!statementData.rows });
@@ -300,7 +330,17 @@ class AgGridStatementRenderer {
      * @returns Grid data ready for ag-Grid with proper styling and indentation
      */
     private _prepareConfigurableReportData(statementData: StatementData): GridRow[] {
+        const columns = statementData.metadata?.columns;
+
         const gridData = statementData.rows!.map(row => {
+            // Amount (raw, for calculations) and formatted (for display) fields per period column
+            const keys = columns ? columns.map(column => column.key) : amountKeysOf(row);
+            const amounts: Record<string, unknown> = {};
+            for (const key of keys) {
+                amounts[amountField(key)] = row[amountField(key)];
+                amounts[formattedField(key)] = row[formattedField(key)];
+            }
+
             // Transform report definition row to ag-Grid format
             return {
                 // Core fields
@@ -310,15 +350,12 @@ class AgGridStatementRenderer {
                 style: row.style || 'normal',
                 indent: row.indent !== undefined ? row.indent : 0,
                 
-                // Amount fields (use raw values for calculations)
-                amount_2024: row.amount_2024,
-                amount_2025: row.amount_2025,
+                // Amount fields
+                ...amounts,
                 variance_amount: row.variance_amount,
                 variance_percent: row.variance_percent,
                 
-                // Formatted fields (for display)
-                formatted_2024: row.formatted_2024,
-                formatted_2025: row.formatted_2025,
+                // Formatted variance fields
                 formatted_variance_amount: row.formatted_variance_amount,
                 formatted_variance_percent: row.formatted_variance_percent,
                 
@@ -584,6 +621,10 @@ class AgGridStatementRenderer {
 
         // Pass report metadata if available (from configurable reports)
         if (this.currentStatementData && this.currentStatementData.metadata) {
+            builder.setPeriodColumns(this.currentStatementData.metadata.columns || null);
+            if (this.currentStatementData.metadata.currency) {
+                builder.setCurrencySymbol(currencySymbol(this.currentStatementData.metadata.currency));
+            }
             builder.setReportMetadata({
                 reportId: this.currentStatementData.metadata.reportId,
                 reportName: this.currentStatementData.metadata.reportName || this.currentStatementData.reportName,
@@ -0,0 +1,208 @@
+/**
+ * CoveragePanel - Chart-of-accounts coverage of the displayed report
+ *
+ * Shown in the validation panel after a statement is rendered. Lists the
+ * accounts no variable of the report counts, the accounts counted by more
+ * than one variable, and whether the report's total rows reconcile to the
+ * trial balance total of its statement type. Accounts counted twice in a total
+ * (ReportValidator.validateAccounts) are listed as errors above the analysis.
+ * The analysis can be exported as CSV or JSON.
+ *
+ * @example
+ * const panel = new CoveragePanel('validation-coverage');
+ * const accountCheck = validator.validateAccounts(reportDef, listAccounts(movements.objects()));
+ * panel.show(reportDef, movements, statement, accountCheck.errors);
+ */
+
+import Logger from '../utils/Logger.ts';
+import type { PeriodColumn } from '../core/calculations/columns.ts';
+import type { ReportDefinition } from '../reports/ReportValidator.ts';
+import type { ValidationMessage } from '../utils/ValidationResult.ts';
+import {
+    analyzeCoverage,
+    totalAmounts,
+    type CoverageAccount,
+    type CoverageAnalysis,
+    type CoverageStatementRow
+} from '../core/variables/coverage.ts';
+import { coverageToCSV, coverageToJSON } from '../export/coverage-export.ts';
+import { escapeHtml, formatAmount } from './html.ts';
+
+// Arquero table type (using any since arquero is loaded globally via CDN)
+type ColumnTable = any;
+
+/**
+ * Rendered statement as far as the coverage is concerned
+ */
+interface CoverageStatement {
+    readonly rows?: readonly CoverageStatementRow[];
+    readonly metadata?: { readonly columns?: readonly PeriodColumn[] };
+}
+
+const amountCells = (values: Record<string, number>, columns: readonly PeriodColumn[]): string =>
+    columns.map(column => `<td class="coverage-amount">${formatAmount(values[column.key])}</td>`).join('');
+
+const accountTable = (title: string, accounts: readonly CoverageAccount[], columns: readonly PeriodColumn[], showVariables: boolean): string => {
+    if (accounts.length === 0) return '';
+
+    const header = columns.map(column => `<th>${escapeHtml(column.label || column.key)}</th>`).join('');
+    const body = accounts.map(account => `<tr>
+            <td>${escapeHtml(account.account_code)}</td>
+            <td>${escapeHtml(account.account_description ?? '')}</td>
+            ${showVariables ? `<td>${escapeHtml(account.variables.join(', '))}</td>` : ''}
+            ${amountCells(account.amounts, columns)}
+        </tr>`).join('');
+
+    return `<h5>${escapeHtml(title)} (${accounts.length})</h5>
+        <table class="coverage-table">
+            <thead><tr><th>Account</th><th>Description</th>${showVariables ? '<th>Variables</th>' : ''}${header}</tr></thead>
+            <tbody>${body}</tbody>
+            <tfoot><tr><td colspan="${showVariables ? 3 : 2}">Total</td>${amountCells(totalAmounts(accounts, columns), columns)}</tr></tfoot>
+        </table>`;
+};
+
+/**
+ * Render a coverage analysis
+ *
+ * @param analysis - Result of analyzeCoverage
+ * @param accountErrors - Errors of ReportValidator.validateAccounts (accounts counted twice in a total)
+ * @returns HTML with the account errors, the reconciliation of the report's totals and the uncaptured and multiply counted accounts
+ */
+export const renderCoverageHtml = (analysis: CoverageAnalysis, accountErrors: readonly ValidationMessage[] = []): string => {
+    const { columns } = analysis;
+    const errors = accountErrors.length === 0 ? '' : `<ul class="coverage-errors">${accountErrors.map(error =>
+        `<li class="coverage-error">${escapeHtml(error.message)}</li>`).join('')}</ul>`;
+    if (analysis.statementTypes.length === 0) {
+        return `${errors}<div class="coverage-empty">No variable of this report counts any account.</div>`;
+    }
+
+    const header = columns.map(column => `<th colspan="3">${escapeHtml(column.label || column.key)}</th>`).join('');
+    const subHeader = columns.map(() => '<th>Trial balance</th><th>Report total</th><th>Difference</th>').join('');
+    const rows = analysis.reconciliation.map(reconciliation => {
+        const cells = columns.map(column =>
+            `<td class="coverage-amount">${formatAmount(reconciliation.trialBalance[column.key])}</td>` +
+            `<td class="coverage-amount">${formatAmount(reconciliation.reportTotal[column.key])}</td>` +
+            `<td class="coverage-amount coverage-difference">${formatAmount(reconciliation.difference[column.key])}</td>`).join('');
+        const status = reconciliation.reconciles
+            ? '<span class="coverage-ok">reconciles</span>'
+            : '<span class="coverage-error">does not reconcile</span>';
+        return `<tr><td>${escapeHtml(reconciliation.statement_type)}</td><td>${escapeHtml(reconciliation.totalRows.join(' + '))}</td>` +
+            `<td>${status}</td>${cells}</tr>`;
+    }).join('');
+    const reconciliation = analysis.reconciliation.length === 0
+        ? '<div class="coverage-empty">The report has no totals to reconcile to the trial balance.</div>'
+        : `<table class="coverage-table">
+            <thead><tr><th>Statement type</th><th>Total rows</th><th></th>${header}</tr><tr><th></th><th></th><th></th>${subHeader}</tr></thead>
+            <tbody>${rows}</tbody>
+        </table>`;
+
+    const summary = analysis.uncaptured.length === 0 && analysis.multiple.length === 0
+        ? `<div class="coverage-ok">Every ${escapeHtml(analysis.statementTypes.join('/'))} account is counted by exactly one variable.</div>`
+        : '';
+
+    return `${errors}${summary}
+        ${reconciliation}
+        ${accountTable('Accounts counted by no variable', analysis.uncaptured, columns, false)}
+        ${accountTable('Accounts counted by more than one variable', analysis.multiple, columns, true)}`;
+};
+
+class CoveragePanel {
+    private container: HTMLElement | null;
+    private analysis: CoverageAnalysis | null;
+    private listening: boolean;
+
+    constructor(containerId: string) {
+        this.container = document.querySelector(`#${containerId}`);
+        this.analysis = null;
+        this.listening = false;
+    }
+
+    /**
+     * Analyze and show the coverage of a report
+     *
+     * @param reportDef - Displayed report definition
+     * @param data - Movements the statement was rendered from (balances for balance reports)
+     * @param statement - Rows and period columns of the rendered statement
+     * @param accountErrors - Errors of ReportValidator.validateAccounts for the same data
+     */
+    show(reportDef: ReportDefinition, data: ColumnTable, statement: CoverageStatement, accountErrors: readonly ValidationMessage[] = []): void {
+        if (!this.container) {
+            Logger.warn('Coverage container not found');
+            return;
+        }
+
+        let body: string;
+        try {
+            this.analysis = analyzeCoverage(reportDef as any, data, statement.metadata?.columns || [], statement.rows || []);
+            body = renderCoverageHtml(this.analysis, accountErrors);
+        } catch (error: any) {
+            Logger.debug('Coverage analysis failed:', error);
+            this.analysis = null;
+            body = `<div class="coverage-empty">${escapeHtml(error?.message || String(error))}</div>`;
+        }
+
+        this.container.innerHTML = `<div class="coverage-header">
+                <h4>Account coverage${reportDef.reportId ? `: ${escapeHtml(reportDef.reportId)}` : ''}</h4>
+                <button type="button" class="coverage-export" data-format="csv"${this.analysis ? '' : ' disabled'}>Export CSV</button>
+                <button type="button" class="coverage-export" data-format="json"${this.analysis ? '' : ' disabled'}>Export JSON</button>
+            </div>
+            ${body}`;
+        this.container.style.display = '';
+
+        // The coverage is part of the validation panel
+        const validationContainer = document.getElementById('validation-messages');
+        if (validationContainer) {
+            validationContainer.style.display = 'block';
+        }
+
+        this._listen();
+    }
+
+    /**
+     * Remove the coverage from the validation panel
+     */
+    hide(): void {
+        if (this.container) {
+            this.container.innerHTML = '';
+            this.container.style.display = 'none';
+        }
+        this.analysis = null;
+    }
+
+    /**
+     * Download the analysis shown
+     *
+     * @param format - 'csv' or 'json'
+     */
+    export(format: 'csv' | 'json'): void {
+        if (!this.analysis) return;
+
+        const text = format === 'csv' ? coverageToCSV(this.analysis) : coverageToJSON(this.analysis);
+        const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+        const timestamp = new Date().toISOString().split('T')[0];
+        const fileName = `${this.analysis.reportId || 'report'}_coverage_${timestamp}.${format}`;
+
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+
+        Logger.info('Exported account coverage:', fileName);
+    }
+
+    private _listen(): void {
+        if (this.listening || !this.container) return;
+        this.listening = true;
+
+        this.container.addEventListener('click', (event: Event) => {
+            const button = (event.target as HTMLElement).closest('.coverage-export') as HTMLElement | null;
+            if (button) {
+                this.export(button.dataset.format === 'json' ? 'json' : 'csv');
+            }
+        });
+    }
+}
+
+export default CoveragePanel;
@@ -0,0 +1,301 @@
+/**
+ * DrillDownPanel - Side panel explaining a statement row
+ *
+ * Opened by clicking a row in the statement grid. Variable and category rows
+ * list the accounts matched by their filter, with the amount per statement
+ * column and per period. Calculated rows and subtotals show the formula tree
+ * down to the variables and category rows they are built from; each leaf with
+ * a filter can be opened to see its accounts.
+ *
+ * @example
+ * const panel = new DrillDownPanel('drill-down-panel');
+ * panel.show(row, statementData); // statementData from generateStatementFromDefinition()
+ */
+
+import Logger from '../utils/Logger.ts';
+import type { PeriodColumn } from '../core/calculations/columns.ts';
+import {
+    buildAccountBreakdown,
+    buildFormulaTree,
+    type AccountBreakdown,
+    type DrillDownRow,
+    type DrillDownVariable,
+    type FormulaNode
+} from '../core/calculations/drilldown.ts';
+import { buildVariableFilter } from '../core/variables/resolver.ts';
+import { escapeHtml, formatAmount } from './html.ts';
+
+interface DrillDownStatementData {
+    rows?: DrillDownRow[];
+    metadata?: {
+        columns?: PeriodColumn[];
+    };
+    drillDown?: {
+        data: any;
+        variables: Record<string, DrillDownVariable>;
+    };
+}
+
+/**
+ * Describe a filter specification for display
+ *
+ * @param filter - Filter specification
+ * @returns Conditions joined with "and"
+ *
+ * @example
+ * describeFilter({ code1: ['500', '510'], statement_type: 'IS' }); // 'code1 in 500, 510 and statement_type = IS'
+ * describeFilter({ code1: { gte: '700', lte: '799' } }); // 'code1 >= 700 and code1 <= 799'
+ * describeFilter({ anyOf: [{ code1: '4*' }, { name1: { contains: 'huur' } }] }); // '(code1 = 4* or name1 contains huur)'
+ */
+export const describeFilter = (filter: Record<string, any> | null | undefined): string => {
+    if (!filter || Object.keys(filter).length === 0) {
+        return 'all accounts';
+    }
+
+    const operators: Record<string, string> = {
+        gte: '>=', lte: '<=', gt: '>', lt: '<',
+        startsWith: 'starts with', endsWith: 'ends with', regex: 'matches'
+    };
+    return Object.entries(filter).flatMap(([field, value]) => {
+        if ((field === 'anyOf' || field === 'allOf') && Array.isArray(value)) {
+            return [`(${value.map(describeFilter).join(field === 'anyOf' ? ' or ' : ' and ')})`];
+        }
+        if (field === 'not') {
+            return [`not (${describeFilter(value)})`];
+        }
+        if (Array.isArray(value)) {
+            return [`${field} in ${value.join(', ')}`];
+        }
+        if (value !== null && typeof value === 'object') {
+            return Object.entries(value).map(([operator, bound]) =>
+                `${field} ${operators[operator] ?? operator} ${bound}`);
+        }
+        return [`${field} = ${value}`];
+    }).join(' and ');
+};
+
+/**
+ * Render the accounts behind a row
+ *
+ * @param breakdown - Account breakdown (buildAccountBreakdown result)
+ * @param columns - Period columns of the statement
+ * @returns HTML with a table per column and an expandable table per period
+ */
+export const renderAccountBreakdownHtml = (breakdown: AccountBreakdown, columns: readonly PeriodColumn[]): string => {
+    if (breakdown.accounts.length === 0) {
+        return '<div class="drill-down-empty">No accounts match this row.</div>';
+    }
+
+    const accountCells = (account: AccountBreakdown['accounts'][number]) =>
+        `<td>${escapeHtml(account.account_code)}</td><td>${escapeHtml(account.account_description)}</td>`;
+    const amountCell = (value: number | undefined) =>
+        `<td class="drill-down-amount">${formatAmount(value ?? 0)}</td>`;
+
+    const columnHeader = columns.map(column => `<th>${escapeHtml(column.label || column.key)}</th>`).join('');
+    const columnRows = breakdown.accounts.map(account =>
+        `<tr>${accountCells(account)}${columns.map(column => amountCell(account.columns[column.key])).join('')}</tr>`
+    ).join('');
+    const columnTotals = columns.map(column => amountCell(breakdown.totals[column.key])).join('');
+
+    const periodHeader = breakdown.periods.map(period => `<th>${escapeHtml(period.label)}</th>`).join('');
+    const periodRows = breakdown.accounts.map(account =>
+        `<tr>${accountCells(account)}${breakdown.periods.map(period => amountCell(account.periods[period.key])).join('')}</tr>`
+    ).join('');
+
+    return `<table class="drill-down-table">
+            <thead><tr><th>Account</th><th>Description</th>${columnHeader}</tr></thead>
+            <tbody>${columnRows}</tbody>
+            <tfoot><tr><td colspan="2">Total (${breakdown.accounts.length} accounts)</td>${columnTotals}</tr></tfoot>
+        </table>
+        <details class="drill-down-periods">
+            <summary>Per period</summary>
+            <table class="drill-down-table">
+                <thead><tr><th>Account</th><th>Description</th>${periodHeader}</tr></thead>
+                <tbody>${periodRows}</tbody>
+            </table>
+        </details>`;
+};
+
+/**
+ * Render a formula tree as nested lists
+ *
+ * Nodes with a filter get a button (data-drill-index) that opens their accounts;
+ * the index refers to the node's position in `leaves`.
+ *
+ * @param node - Formula tree (buildFormulaTree result)
+ * @param columns - Period columns of the statement
+ * @param leaves - Collects the nodes with a filter, in render order
+ * @returns HTML list
+ */
+export const renderFormulaTreeHtml = (
+    node: FormulaNode,
+    columns: readonly PeriodColumn[],
+    leaves: FormulaNode[] = []
+): string => {
+    const amounts = node.amounts
+        ? columns.map(column =>
+            `<span class="drill-down-node-amount">${escapeHtml(column.label || column.key)}: ${formatAmount(node.amounts![column.key])}</span>`
+        ).join(' ')
+        : '';
+    const period = node.period ? ` <span class="drill-down-node-period">[${escapeHtml(node.period)}]</span>` : '';
+    const expression = node.expression ? `<code>${escapeHtml(node.expression)}</code>` : '';
+    const circular = node.circular ? ' <span class="drill-down-circular">(circular reference)</span>' : '';
+
+    let detail = '';
+    if (node.filter) {
+        leaves.push(node);
+        detail = `<button type="button" class="drill-down-open" data-drill-index="${leaves.length - 1}" ` +
+            `title="${escapeHtml(describeFilter(node.filter))}">Accounts</button>`;
+    } else if (node.variable) {
+        detail = '<span class="drill-down-derived">(calculated outside the report)</span>';
+    }
+
+    const children = node.children.length > 0
+        ? `<ul>${node.children.map(child => `<li>${renderFormulaTreeHtml(child, columns, leaves)}</li>`).join('')}</ul>`
+        : '';
+
+    return `<div class="drill-down-node drill-down-node-${node.kind}">
+            <span class="drill-down-node-reference">${escapeHtml(node.reference)}</span>
+            <span class="drill-down-node-label">${escapeHtml(node.label)}</span>${period}${circular}
+            ${expression} ${detail}
+            <div class="drill-down-node-amounts">${amounts}</div>
+        </div>${children}`;
+};
+
+class DrillDownPanel {
+    private container: HTMLElement | null;
+    private leaves: FormulaNode[];
+    private statementData: DrillDownStatementData | null;
+    private treeView: { title: string; body: string } | null;
+    private listening: boolean;
+
+    constructor(containerId: string) {
+        this.container = document.querySelector(`#${containerId}`);
+        this.leaves = [];
+        this.statementData = null;
+        this.treeView = null;
+        this.listening = false;
+    }
+
+    /**
+     * Show the panel for a statement row
+     *
+     * Variable and category rows show their accounts; calculated rows and
+     * subtotals their formula tree. Other rows (spacers) are ignored.
+     *
+     * @param row - Clicked statement row (with _metadata)
+     * @param statementData - Statement the row belongs to, with drill-down data
+     */
+    show(row: DrillDownRow, statementData: DrillDownStatementData): void {
+        if (!this.container) {
+            Logger.warn('Drill-down panel container not found');
+            return;
+        }
+
+        const metadata = row?._metadata;
+        if (!metadata || Object.keys(metadata).length === 0) {
+            return;
+        }
+
+        this.statementData = statementData;
+        this.treeView = null;
+        const variables = statementData.drillDown?.variables || {};
+
+        if (metadata.expression || metadata.calculatedFrom) {
+            const columns = this._columns();
+            const tree = buildFormulaTree(row, statementData.rows || [], variables, columns);
+            this.leaves = [];
+            this.treeView = {
+                title: row.label || '',
+                body: `<div class="drill-down-tree">${renderFormulaTreeHtml(tree, columns, this.leaves)}</div>`
+            };
+            this._open(this.treeView.title, this.treeView.body);
+            return;
+        }
+
+        if (metadata.variable) {
+            const variable = variables[metadata.variable];
+            if (!variable) {
+                this._open(row.label || '', `<div class="drill-down-empty">${escapeHtml(metadata.variable)} is calculated outside the report definition and has no account filter.</div>`);
+                return;
+            }
+            this._showAccounts(row.label || metadata.variable, buildVariableFilter(variable), variable.aggregate);
+            return;
+        }
+
+        if (metadata.filter) {
+            this._showAccounts(row.label || '', metadata.filter);
+        }
+    }
+
+    /**
+     * Close the panel
+     */
+    hide(): void {
+        if (this.container) {
+            this.container.innerHTML = '';
+            this.container.style.display = 'none';
+        }
+        this.leaves = [];
+        this.treeView = null;
+    }
+
+    private _columns(): PeriodColumn[] {
+        return this.statementData?.metadata?.columns || [];
+    }
+
+    private _showAccounts(title: string, filter: any, aggregate?: string, fromTree = false): void {
+        const data = this.statementData?.drillDown?.data;
+        if (!data) {
+            this._open(title, '<div class="drill-down-empty">No data available for drill-down.</div>', fromTree);
+            return;
+        }
+
+        const columns = this._columns();
+        const breakdown = buildAccountBreakdown(data, filter, columns, aggregate);
+        Logger.debug('Drill-down accounts', { title, accounts: breakdown.accounts.length });
+
+        const note = aggregate && !['sum', 'closing'].includes(aggregate)
+            ? `<div class="drill-down-note">Aggregate "${escapeHtml(aggregate)}": account amounts are sums and do not add up to the row.</div>`
+            : '';
+        this._open(title, `<div class="drill-down-filter">${escapeHtml(describeFilter(filter))}</div>${note}` +
+            renderAccountBreakdownHtml(breakdown, columns), fromTree);
+    }
+
+    private _open(title: string, body: string, showBack = false): void {
+        if (!this.container) return;
+
+        const back = showBack ? '<button type="button" class="drill-down-back" title="Back to formula">&larr;</button>' : '';
+        this.container.innerHTML = `<div class="drill-down-header">
+                ${back}<h3>${escapeHtml(title)}</h3>
+                <button type="button" class="drill-down-close" title="Close">&times;</button>
+            </div>
+            <div class="drill-down-body">${body}</div>`;
+        this.container.style.display = '';
+
+        // Buttons in the panel: close, back to the formula, accounts of a formula leaf
+        if (!this.listening) {
+            this.listening = true;
+            this.container.addEventListener('click', (event: Event) => {
+                const target = event.target as HTMLElement;
+                if (target.closest('.drill-down-close')) {
+                    this.hide();
+                    return;
+                }
+                if (target.closest('.drill-down-back') && this.treeView) {
+                    this._open(this.treeView.title, this.treeView.body);
+                    return;
+                }
+                const open = target.closest('[data-drill-index]') as HTMLElement | null;
+                if (open) {
+                    const node = this.leaves[Number(open.dataset.drillIndex)];
+                    if (node) {
+                        this._showAccounts(node.label, node.filter, node.aggregate, true);
+                    }
+                }
+            });
+        }
+    }
+}
+
+export default DrillDownPanel;
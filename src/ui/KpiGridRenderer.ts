@@ -0,0 +1,249 @@
+/**
+ * KpiGridRenderer - Compact KPI grid for ratio reports
+ *
+ * Ratio reports (statementType "ratios") are shown as a grid of cards instead
+ * of an ag-Grid table. Each layout row becomes a card with the value of the
+ * compared column, the value it is compared against and a trend arrow; spacer
+ * rows start a new group (e.g. Liquidity, Profitability).
+ *
+ * The arrow shows the direction of the change. Its colour follows the row's
+ * `favorable` direction: green when a ratio moved the way it improves, red when
+ * it moved the other way, grey when the report does not say.
+ *
+ * @example
+ * const kpiGrid = new KpiGridRenderer('kpi-grid-container');
+ * kpiGrid.render(statementGenerator.generateStatementFromDefinition(ratiosReport, options));
+ */
+
+import Logger from '../utils/Logger.ts';
+import {
+    amountField,
+    formattedField,
+    resolveComparison,
+    type ComparisonPair,
+    type PeriodColumn
+} from '../core/calculations/columns.ts';
+import { escapeHtml } from './html.ts';
+
+/**
+ * Direction of change between the compared columns
+ */
+export type KpiTrend = 'up' | 'down' | 'flat';
+
+/**
+ * Whether the change is an improvement
+ */
+export type KpiSentiment = 'positive' | 'negative' | 'neutral';
+
+/**
+ * Value of a KPI in one period column
+ */
+export interface KpiValue {
+    readonly label: string;
+    readonly value: string;
+}
+
+/**
+ * One KPI card
+ */
+export interface KpiCard {
+    readonly label: string;
+    readonly value: string;
+    readonly previous: string | null;
+    readonly previousLabel: string | null;
+    readonly trend: KpiTrend;
+    readonly sentiment: KpiSentiment;
+    readonly history: readonly KpiValue[];
+}
+
+/**
+ * Cards under a group heading (null for cards before the first spacer)
+ */
+export interface KpiGroup {
+    readonly title: string | null;
+    readonly cards: readonly KpiCard[];
+}
+
+interface KpiRow {
+    label?: string;
+    type?: string;
+    favorable?: 'higher' | 'lower';
+    [field: string]: any;
+}
+
+interface KpiStatementData {
+    rows?: KpiRow[];
+    metadata?: {
+        columns?: PeriodColumn[];
+        comparison?: ComparisonPair | null;
+    };
+}
+
+const TREND_ARROWS: Record<KpiTrend, string> = {
+    up: '▲',
+    down: '▼',
+    flat: '▶'
+};
+
+const SENTIMENT_COLORS: Record<KpiSentiment, string> = {
+    positive: '#2f855a',
+    negative: '#c53030',
+    neutral: '#718096'
+};
+
+/**
+ * Get the direction of change between two values
+ *
+ * @param current - Value of the compared column
+ * @param previous - Value of the base column
+ * @returns 'flat' when either value is missing or they are equal
+ */
+export const getTrend = (current: number | null | undefined, previous: number | null | undefined): KpiTrend => {
+    if (typeof current !== 'number' || typeof previous !== 'number' || !isFinite(current) || !isFinite(previous)) {
+        return 'flat';
+    }
+    if (Math.abs(current - previous) < 1e-9) {
+        return 'flat';
+    }
+    return current > previous ? 'up' : 'down';
+};
+
+/**
+ * Judge a change against the direction in which the KPI improves
+ *
+ * @param trend - Direction of change
+ * @param favorable - Direction in which the KPI improves, if known
+ * @returns Sentiment of the change
+ *
+ * @example
+ * getSentiment('up', 'lower'); // 'negative' (e.g. DSO went up)
+ */
+export const getSentiment = (trend: KpiTrend, favorable?: 'higher' | 'lower'): KpiSentiment => {
+    if (trend === 'flat' || !favorable) {
+        return 'neutral';
+    }
+    return (trend === 'up') === (favorable === 'higher') ? 'positive' : 'negative';
+};
+
+/**
+ * Build KPI cards from rendered report rows
+ *
+ * @param rows - Rendered rows (ReportRenderer output)
+ * @param columns - Period columns of the statement
+ * @param comparison - Columns to compare (defaults to the last two columns)
+ * @returns Groups of KPI cards in layout order
+ */
+export const buildKpiGroups = (
+    rows: readonly KpiRow[],
+    columns: readonly PeriodColumn[],
+    comparison: ComparisonPair | null = resolveComparison(columns)
+): KpiGroup[] => {
+    const groups: { title: string | null; cards: KpiCard[] }[] = [];
+    const compareKey = comparison?.compare ?? columns[columns.length - 1]?.key;
+    const baseKey = comparison?.base ?? null;
+    const labelOf = (key: string): string =>
+        columns.find(column => column.key === key)?.label || key;
+
+    for (const row of rows) {
+        if (row.type === 'spacer') {
+            groups.push({ title: row.label || null, cards: [] });
+            continue;
+        }
+        if (!compareKey) {
+            continue;
+        }
+        if (groups.length === 0) {
+            groups.push({ title: null, cards: [] });
+        }
+
+        const trend = baseKey ? getTrend(row[amountField(compareKey)], row[amountField(baseKey)]) : 'flat';
+        groups[groups.length - 1].cards.push({
+            label: row.label || '',
+            value: row[formattedField(compareKey)] ?? '',
+            previous: baseKey ? row[formattedField(baseKey)] ?? '' : null,
+            previousLabel: baseKey ? labelOf(baseKey) : null,
+            trend,
+            sentiment: getSentiment(trend, row.favorable),
+            history: columns.map(column => ({
+                label: column.label || column.key,
+                value: row[formattedField(column.key)] ?? ''
+            }))
+        });
+    }
+
+    return groups.filter(group => group.cards.length > 0);
+};
+
+/**
+ * Render KPI groups as HTML
+ *
+ * @param groups - KPI groups
+ * @returns HTML for the KPI grid container
+ */
+export const renderKpiGridHtml = (groups: readonly KpiGroup[]): string => {
+    if (groups.length === 0) {
+        return '<div class="kpi-empty">No ratios to display.</div>';
+    }
+
+    return groups.map(group => {
+        const cards = group.cards.map(card => {
+            const history = card.history
+                .map(item => `<span>${escapeHtml(item.label)}: ${escapeHtml(item.value)}</span>`)
+                .join(' · ');
+            const previous = card.previous !== null
+                ? `<div class="kpi-previous">${escapeHtml(card.previousLabel || '')}: ${escapeHtml(card.previous)}</div>`
+                : '';
+
+            return `<div class="kpi-card">
+                <div class="kpi-label">${escapeHtml(card.label)}</div>
+                <div class="kpi-value">${escapeHtml(card.value)}
+                    <span class="kpi-trend kpi-trend-${card.trend}" style="color: ${SENTIMENT_COLORS[card.sentiment]}">${TREND_ARROWS[card.trend]}</span>
+                </div>
+                ${previous}
+                <div class="kpi-history">${history}</div>
+            </div>`;
+        }).join('');
+
+        const title = group.title ? `<h3 class="kpi-group-title">${escapeHtml(group.title)}</h3>` : '';
+        return `<div class="kpi-group">${title}<div class="kpi-grid">${cards}</div></div>`;
+    }).join('');
+};
+
+class KpiGridRenderer {
+    private container: HTMLElement | null;
+
+    constructor(containerId: string) {
+        this.container = document.querySelector(`#${containerId}`);
+    }
+
+    /**
+     * Render a ratio statement (StatementGenerator.generateStatementFromDefinition result)
+     *
+     * @param statementData - Statement data with rows and period column metadata
+     */
+    render(statementData: KpiStatementData): void {
+        if (!this.container) {
+            Logger.warn('KPI grid container not found');
+            return;
+        }
+
+        const columns = statementData.metadata?.columns || [];
+        const groups = buildKpiGroups(statementData.rows || [], columns, statementData.metadata?.comparison ?? undefined);
+        Logger.debug('Rendering KPI grid', { groups: groups.length, columns: columns.length });
+
+        this.container.innerHTML = renderKpiGridHtml(groups);
+        this.container.style.display = '';
+    }
+
+    /**
+     * Clear and hide the KPI grid
+     */
+    clear(): void {
+        if (this.container) {
+            this.container.innerHTML = '';
+            this.container.style.display = 'none';
+        }
+    }
+}
+
+export default KpiGridRenderer;
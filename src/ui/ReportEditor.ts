@@ -0,0 +1,575 @@
+/**
+ * ReportEditor - Visual editor for report definitions
+ *
+ * Opened from the report selector with "Edit Definition". The editor has two
+ * parts: a layout list whose rows can be reordered by dragging and extended
+ * with variable, calculated, subtotal and spacer rows, and a variable builder
+ * whose code1/name1 fields autocomplete the values in the loaded data.
+ *
+ * Every edit is checked with ReportValidator (with data loaded, also against
+ * the accounts in the data) and the preview re-renders the statement shortly
+ * after typing stops. Saving writes the definition to a
+ * JSON file chosen with the File System Access API.
+ *
+ * @example
+ * const editor = new ReportEditor('report-editor', validator, {
+ *   preview: (reportDef) => generator.generateStatementFromDefinition(reportDef, periodOptions),
+ *   onSave: (reportDef) => registry.register(reportDef)
+ * });
+ * editor.open(report, dataStore.getCombinedMovements(), 'en');
+ */
+
+import Logger from '../utils/Logger.ts';
+import type ValidationResult from '../utils/ValidationResult.ts';
+import type ReportValidator from '../reports/ReportValidator.ts';
+import type { LayoutItem, ReportDefinition, VariableDefinition } from '../reports/ReportValidator.ts';
+import type { PeriodColumn } from '../core/calculations/columns.ts';
+import { describeFilter } from './DrillDownPanel.ts';
+import { resolveLocalizedText, setLocalizedText } from '../core/transformations/locale.ts';
+import { listAccounts, type ChartAccount } from '../core/variables/accounts.ts';
+import {
+    collectFieldSuggestions,
+    createLayoutItem,
+    formatFilterInput,
+    moveLayoutItem,
+    parseFilterInput,
+    renameVariableReferences,
+    type FieldSuggestion,
+    type NewLayoutItemType
+} from '../core/transformations/layout.ts';
+import { escapeHtml, formatAmount } from './html.ts';
+
+// File System Access API save dialog (not in the DOM typings)
+interface SaveFilePickerScope {
+    showSaveFilePicker?(options?: any): Promise<FileSystemFileHandle>;
+}
+
+export interface ReportEditorOptions {
+    /** Generate the statement shown in the preview; may throw when the report cannot be rendered */
+    preview?: (reportDef: ReportDefinition) => any;
+    /** Called after the definition was saved */
+    onSave?: (reportDef: ReportDefinition) => void;
+}
+
+interface PreviewStatementData {
+    rows?: Array<Record<string, any>>;
+    metadata?: {
+        columns?: PeriodColumn[];
+    };
+}
+
+// Delay between the last keystroke and re-rendering the preview
+const PREVIEW_DELAY = 300;
+
+const NEW_ITEM_TYPES: NewLayoutItemType[] = ['variable', 'calculated', 'subtotal', 'spacer'];
+
+const AGGREGATES = ['sum', 'closing', 'average', 'count', 'min', 'max', 'first', 'last'];
+
+// Filter fields edited in the variable builder; other conditions are kept as they are
+const BUILDER_FIELDS = ['code1', 'name1'];
+
+const options = (values: readonly string[], selected: string | undefined): string =>
+    values.map(value =>
+        `<option value="${escapeHtml(value)}"${value === selected ? ' selected' : ''}>${escapeHtml(value)}</option>`
+    ).join('');
+
+/**
+ * Render the layout list
+ *
+ * Each row is draggable (data-index) and has inputs named by data-field for the
+ * fields of its type. Labels show the text for the given locale.
+ *
+ * @param layout - Layout items, sorted by order
+ * @param variables - Variable names of the report
+ * @param locale - Locale labels are edited in
+ * @param defaultLocale - Default locale of the report
+ * @returns HTML list items
+ */
+export const renderLayoutListHtml = (
+    layout: readonly LayoutItem[],
+    variables: readonly string[],
+    locale?: string,
+    defaultLocale?: string
+): string => layout.map((item, index) => {
+    const field = (name: string, value: unknown, attributes = '') =>
+        `<input data-field="${name}" value="${escapeHtml(value == null ? '' : String(value))}" ${attributes}>`;
+
+    let fields = '';
+    switch (item.type) {
+        case 'variable':
+            fields = `<select data-field="variable">${options(variables, item.variable)}</select>`;
+            break;
+        case 'calculated':
+            fields = field('expression', item.expression, 'placeholder="e.g. @100 + @200" class="report-editor-expression"');
+            break;
+        case 'subtotal':
+            fields = `from ${field('from', item.from, 'type="number"')} to ${field('to', item.to, 'type="number"')}`;
+            break;
+        case 'category':
+            fields = `<span class="report-editor-filter">${escapeHtml(describeFilter(item.filter))}</span>`;
+            break;
+    }
+
+    const label = item.type === 'spacer'
+        ? '<span class="report-editor-spacer">(blank row)</span>'
+        : field('label', resolveLocalizedText(item.label, locale, defaultLocale), 'placeholder="Label"');
+
+    return `<li class="report-editor-item report-editor-item-${item.type}" draggable="true" data-index="${index}">
+            <span class="report-editor-handle" title="Drag to move">&#8942;&#8942;</span>
+            <span class="report-editor-order">@${item.order}</span>
+            <span class="report-editor-type">${escapeHtml(item.type)}</span>
+            ${label} ${fields}
+            <button type="button" class="report-editor-remove" data-remove-index="${index}" title="Remove row">&times;</button>
+        </li>`;
+}).join('');
+
+/**
+ * Render the variable builder rows
+ *
+ * The code1 and name1 inputs use the report-editor-code1 and report-editor-name1
+ * datalists for autocompletion. Other filter conditions and the include and
+ * exclude account lists are shown, not edited.
+ *
+ * @param variables - Variables of the report
+ * @returns HTML table rows (data-variable holds the variable name)
+ */
+export const renderVariableListHtml = (variables: Readonly<Record<string, VariableDefinition>>): string =>
+    Object.entries(variables).map(([name, definition]) => {
+        const filter: Record<string, any> = definition.filter || {};
+        const rest = Object.fromEntries(Object.entries(filter).filter(([field, value]) =>
+            !BUILDER_FIELDS.includes(field) || (value !== undefined && formatFilterInput(value) === '')));
+        const input = (field: string) =>
+            `<input data-variable-field="${field}" list="report-editor-${field}" value="${escapeHtml(formatFilterInput(filter[field]))}" placeholder="${field}">`;
+        const conditions = [
+            ...(Object.keys(rest).length > 0 ? [describeFilter(rest)] : []),
+            ...(definition.include?.length ? [`include ${definition.include.join(', ')}`] : []),
+            ...(definition.exclude?.length ? [`exclude ${definition.exclude.join(', ')}`] : [])
+        ];
+
+        return `<tr data-variable="${escapeHtml(name)}">
+                <td><input data-variable-field="name" value="${escapeHtml(name)}"></td>
+                <td>${input('code1')}</td>
+                <td>${input('name1')}</td>
+                <td><select data-variable-field="aggregate">${options(AGGREGATES, definition.aggregate)}</select></td>
+                <td class="report-editor-filter">${escapeHtml(conditions.join('; '))}</td>
+                <td><button type="button" class="report-editor-remove" data-remove-variable="${escapeHtml(name)}" title="Remove variable">&times;</button></td>
+            </tr>`;
+    }).join('');
+
+/**
+ * Render a datalist with suggestions
+ *
+ * @param id - Datalist id
+ * @param suggestions - Values with their description
+ * @returns HTML datalist
+ */
+export const renderSuggestionsHtml = (id: string, suggestions: readonly FieldSuggestion[]): string =>
+    `<datalist id="${id}">${suggestions.map(suggestion =>
+        `<option value="${escapeHtml(suggestion.value)}">${escapeHtml(suggestion.label)}</option>`
+    ).join('')}</datalist>`;
+
+/**
+ * Render validation messages
+ *
+ * @param result - Validation result of the edited report
+ * @returns HTML with errors and warnings, or a confirmation when valid
+ */
+export const renderValidationHtml = (result: ValidationResult): string => {
+    const messages = [
+        ...result.errors.map(error => ({ ...error, className: 'report-editor-error' })),
+        ...result.warnings.map(warning => ({ ...warning, className: 'report-editor-warning' }))
+    ];
+    if (messages.length === 0) {
+        return '<div class="report-editor-valid">&#10003; Report definition is valid</div>';
+    }
+
+    return `<ul class="report-editor-messages">${messages.map(message =>
+        `<li class="${message.className}"><code>${escapeHtml(message.field)}</code> ${escapeHtml(message.message)}</li>`
+    ).join('')}</ul>`;
+};
+
+/**
+ * Render the preview of a statement
+ *
+ * @param statementData - Statement generated from the edited report
+ * @returns HTML table with a row per statement row and a column per period column
+ */
+export const renderPreviewHtml = (statementData: PreviewStatementData): string => {
+    const rows = statementData.rows || [];
+    if (rows.length === 0) {
+        return '<div class="report-editor-empty">The report has no rows.</div>';
+    }
+
+    const columns = statementData.metadata?.columns || [];
+    const header = columns.map(column => `<th>${escapeHtml(column.label || column.key)}</th>`).join('');
+    const body = rows.map(row => {
+        const amounts = row.type === 'spacer' ? '' : columns.map(column =>
+            `<td class="report-editor-amount">${escapeHtml(row[`formatted_${column.key}`] ?? formatAmount(row[`amount_${column.key}`]))}</td>`
+        ).join('');
+        return `<tr class="report-editor-row-${escapeHtml(row.style || 'normal')}">` +
+            `<td style="padding-left: ${6 + 12 * (row.indent || 0)}px">${escapeHtml(row.label || '')}</td>${amounts}</tr>`;
+    }).join('');
+
+    return `<table class="report-editor-preview-table">
+            <thead><tr><th></th>${header}</tr></thead>
+            <tbody>${body}</tbody>
+        </table>`;
+};
+
+class ReportEditor {
+    private container: HTMLElement | null;
+    private validator: ReportValidator;
+    private options: ReportEditorOptions;
+    private report: ReportDefinition | null;
+    private locale: string | undefined;
+    private validation: ValidationResult | null;
+    private accounts: ChartAccount[];
+    private previewTimer: ReturnType<typeof setTimeout> | null;
+    private dragIndex: number | null;
+    private listening: boolean;
+
+    constructor(containerId: string, validator: ReportValidator, options: ReportEditorOptions = {}) {
+        this.container = document.querySelector(`#${containerId}`);
+        this.validator = validator;
+        this.options = options;
+        this.report = null;
+        this.locale = undefined;
+        this.validation = null;
+        this.accounts = [];
+        this.previewTimer = null;
+        this.dragIndex = null;
+        this.listening = false;
+    }
+
+    /**
+     * Open the editor for a report definition
+     *
+     * The definition is copied; the report passed in is not changed until saved.
+     *
+     * @param reportDef - Report definition to edit
+     * @param data - Loaded trial balance rows (Arquero table) for autocompletion and account checks, if any
+     * @param locale - Locale labels are edited in (defaults to the report's default locale)
+     */
+    open(reportDef: ReportDefinition, data: any = null, locale?: string): void {
+        if (!this.container) {
+            Logger.warn('Report editor container not found');
+            return;
+        }
+
+        this.report = structuredClone(reportDef);
+        this.report.layout = [...this.report.layout].sort((a, b) => a.order - b.order);
+        this.report.variables = this.report.variables || {};
+        this.locale = locale || reportDef.defaultLocale;
+        this.accounts = typeof data?.objects === 'function' ? listAccounts(data.objects()) : [];
+
+        this.container.innerHTML = `<div class="report-editor-header">
+                <h3>Edit: ${escapeHtml(reportDef.name || reportDef.reportId)}</h3>
+                <button type="button" class="btn btn-primary report-editor-save">Save As...</button>
+                <button type="button" class="report-editor-close" title="Close">&times;</button>
+            </div>
+            <div class="report-editor-body">
+                <div class="report-editor-main">
+                    <h4>Layout</h4>
+                    <div class="report-editor-add">
+                        ${NEW_ITEM_TYPES.map(type => `<button type="button" class="btn btn-secondary" data-add-type="${type}">+ ${type}</button>`).join('')}
+                    </div>
+                    <ol class="report-editor-layout"></ol>
+                    <h4>Variables</h4>
+                    <table class="report-editor-variables">
+                        <thead><tr><th>Name</th><th>code1</th><th>name1</th><th>Aggregate</th><th>Other conditions</th><th></th></tr></thead>
+                        <tbody></tbody>
+                    </table>
+                    <button type="button" class="btn btn-secondary report-editor-add-variable">+ variable</button>
+                    ${renderSuggestionsHtml('report-editor-code1', collectFieldSuggestions(data, 'code1', 'name1'))}
+                    ${renderSuggestionsHtml('report-editor-name1', collectFieldSuggestions(data, 'name1', 'code1'))}
+                </div>
+                <div class="report-editor-side">
+                    <h4>Validation</h4>
+                    <div class="report-editor-validation"></div>
+                    <h4>Preview</h4>
+                    <div class="report-editor-preview"></div>
+                </div>
+            </div>`;
+        this.container.style.display = '';
+
+        this._listen();
+        this._renderLists();
+        this._changed();
+        Logger.debug(`Editing report definition: ${reportDef.reportId}`);
+    }
+
+    /**
+     * Close the editor, discarding unsaved changes
+     */
+    hide(): void {
+        if (this.previewTimer) {
+            clearTimeout(this.previewTimer);
+            this.previewTimer = null;
+        }
+        if (this.container) {
+            this.container.innerHTML = '';
+            this.container.style.display = 'none';
+        }
+        this.report = null;
+        this.validation = null;
+        this.accounts = [];
+    }
+
+    /**
+     * Current state of the edited report definition
+     *
+     * @returns Copy of the edited definition, or null when the editor is closed
+     */
+    getReport(): ReportDefinition | null {
+        return this.report ? structuredClone(this.report) : null;
+    }
+
+    /**
+     * Save the edited report definition to a JSON file
+     *
+     * Invalid definitions are not saved. Canceling the save dialog is not an error.
+     *
+     * @returns True when the file was written
+     */
+    async save(): Promise<boolean> {
+        if (!this.report) return false;
+
+        if (!this.validation?.isValid) {
+            this._renderStatus('Fix the validation errors before saving.', 'error');
+            return false;
+        }
+        const scope = globalThis as SaveFilePickerScope;
+        if (typeof scope.showSaveFilePicker !== 'function') {
+            this._renderStatus('Saving requires the File System Access API (Chrome or Edge).', 'error');
+            return false;
+        }
+
+        try {
+            const handle = await scope.showSaveFilePicker({
+                suggestedName: `${this.report.reportId}.json`,
+                id: 'financial-statement-reports',
+                types: [{ description: 'Report definition', accept: { 'application/json': ['.json'] } }]
+            });
+            const writable = await handle.createWritable();
+            await writable.write(JSON.stringify(this.report, null, 2) + '\n');
+            await writable.close();
+        } catch (error: any) {
+            if (error?.name === 'AbortError') {
+                Logger.debug('Saving report definition canceled by user');
+                return false;
+            }
+            Logger.error('Error saving report definition:', error);
+            this._renderStatus(`Failed to save: ${error?.message || error}`, 'error');
+            return false;
+        }
+
+        Logger.info(`Report definition saved: ${this.report.reportId}`);
+        this._renderStatus(`Saved ${this.report.reportId}.json`, 'success');
+        this.options.onSave?.(structuredClone(this.report));
+        return true;
+    }
+
+    private _element(selector: string): HTMLElement | null {
+        return this.container?.querySelector(selector) ?? null;
+    }
+
+    private _renderLists(): void {
+        if (!this.report) return;
+
+        const layoutList = this._element('.report-editor-layout');
+        if (layoutList) {
+            layoutList.innerHTML = renderLayoutListHtml(
+                this.report.layout, Object.keys(this.report.variables), this.locale, this.report.defaultLocale);
+        }
+        const variableList = this._element('.report-editor-variables tbody');
+        if (variableList) {
+            variableList.innerHTML = renderVariableListHtml(this.report.variables);
+        }
+    }
+
+    private _renderStatus(message: string, type: 'error' | 'success'): void {
+        const validation = this._element('.report-editor-validation');
+        if (validation) {
+            validation.insertAdjacentHTML('afterbegin', `<div class="report-editor-${type}">${escapeHtml(message)}</div>`);
+        }
+    }
+
+    // Validate right away, re-render the preview once typing stops
+    private _changed(): void {
+        if (!this.report) return;
+
+        this.validation = this.validator.validate(this.report);
+        if (this.accounts.length > 0) {
+            this.validation.merge(this.validator.validateAccounts(this.report, this.accounts));
+        }
+        const validation = this._element('.report-editor-validation');
+        if (validation) {
+            validation.innerHTML = renderValidationHtml(this.validation);
+        }
+
+        if (this.previewTimer) {
+            clearTimeout(this.previewTimer);
+        }
+        this.previewTimer = setTimeout(() => {
+            this.previewTimer = null;
+            this._renderPreview();
+        }, PREVIEW_DELAY);
+    }
+
+    private _renderPreview(): void {
+        const preview = this._element('.report-editor-preview');
+        if (!preview || !this.report) return;
+
+        if (!this.options.preview) {
+            preview.innerHTML = '<div class="report-editor-empty">No preview available.</div>';
+            return;
+        }
+        if (!this.validation?.isValid) {
+            preview.innerHTML = '<div class="report-editor-empty">Fix the validation errors to update the preview.</div>';
+            return;
+        }
+
+        try {
+            preview.innerHTML = renderPreviewHtml(this.options.preview(this.report));
+        } catch (error: any) {
+            Logger.debug('Report editor preview failed:', error);
+            preview.innerHTML = `<div class="report-editor-error">${escapeHtml(error?.message || String(error))}</div>`;
+        }
+    }
+
+    // Update the report from an input in the layout list or the variable builder
+    private _applyInput(target: HTMLInputElement | HTMLSelectElement, committed: boolean): void {
+        if (!this.report) return;
+
+        const row = target.closest('[data-index]') as HTMLElement | null;
+        if (row && target.dataset.field) {
+            const index = Number(row.dataset.index);
+            const item: Record<string, any> = { ...this.report.layout[index] };
+            const field = target.dataset.field;
+            if (field === 'label') {
+                item.label = setLocalizedText(item.label, this.locale, target.value);
+            } else if (field === 'from' || field === 'to') {
+                item[field] = target.value === '' ? undefined : Number(target.value);
+            } else {
+                item[field] = target.value;
+            }
+            this.report.layout[index] = item as LayoutItem;
+            this._changed();
+            return;
+        }
+
+        const variableRow = target.closest('[data-variable]') as HTMLElement | null;
+        const variableField = target.dataset.variableField;
+        if (!variableRow || !variableField) return;
+
+        const name = variableRow.dataset.variable!;
+        const definition: VariableDefinition = { ...this.report.variables[name], filter: { ...this.report.variables[name].filter } };
+
+        if (variableField === 'name') {
+            // Rename once the input is left, so references are not rewritten for every keystroke
+            const newName = target.value.trim();
+            if (!committed || newName === name || !newName) return;
+            if (this.report.variables[newName]) {
+                this._renderLists();
+                this._renderStatus(`Variable '${newName}' already exists.`, 'error');
+                return;
+            }
+            this.report.variables = Object.fromEntries(Object.entries(this.report.variables).map(([key, value]) =>
+                [key === name ? newName : key, value]));
+            this.report.layout = renameVariableReferences(this.report.layout, name, newName);
+            this._renderLists();
+        } else if (variableField === 'aggregate') {
+            definition.aggregate = target.value as VariableDefinition['aggregate'];
+            this.report.variables[name] = definition;
+        } else {
+            const value = parseFilterInput(target.value);
+            const filter: Record<string, any> = definition.filter;
+            if (value === undefined) {
+                delete filter[variableField];
+            } else {
+                filter[variableField] = value;
+            }
+            this.report.variables[name] = definition;
+        }
+        this._changed();
+    }
+
+    private _listen(): void {
+        if (this.listening || !this.container) return;
+        this.listening = true;
+        const container = this.container;
+
+        container.addEventListener('input', (event: Event) => {
+            this._applyInput(event.target as HTMLInputElement, false);
+        });
+        container.addEventListener('change', (event: Event) => {
+            const target = event.target as HTMLInputElement;
+            if (target.dataset.variableField === 'name') {
+                this._applyInput(target, true);
+            }
+        });
+
+        // Buttons: save, close, add and remove rows and variables
+        container.addEventListener('click', (event: Event) => {
+            const target = event.target as HTMLElement;
+            if (!this.report) return;
+
+            if (target.closest('.report-editor-close')) {
+                this.hide();
+            } else if (target.closest('.report-editor-save')) {
+                this.save();
+            } else if (target.closest('[data-add-type]')) {
+                const type = (target.closest('[data-add-type]') as HTMLElement).dataset.addType as NewLayoutItemType;
+                this.report.layout.push(createLayoutItem(type, this.report.layout, Object.keys(this.report.variables)) as LayoutItem);
+                this._renderLists();
+                this._changed();
+            } else if (target.closest('[data-remove-index]')) {
+                const index = Number((target.closest('[data-remove-index]') as HTMLElement).dataset.removeIndex);
+                this.report.layout.splice(index, 1);
+                this._renderLists();
+                this._changed();
+            } else if (target.closest('.report-editor-add-variable')) {
+                let name = 'new_variable';
+                for (let suffix = 2; this.report.variables[name]; suffix++) {
+                    name = `new_variable_${suffix}`;
+                }
+                this.report.variables[name] = { filter: {}, aggregate: 'sum' };
+                this._renderLists();
+                this._changed();
+            } else if (target.closest('[data-remove-variable]')) {
+                delete this.report.variables[(target.closest('[data-remove-variable]') as HTMLElement).dataset.removeVariable!];
+                this._renderLists();
+                this._changed();
+            }
+        });
+
+        // Drag and drop in the layout list
+        container.addEventListener('dragstart', (event: DragEvent) => {
+            const row = (event.target as HTMLElement).closest?.('[data-index]') as HTMLElement | null;
+            if (row) {
+                this.dragIndex = Number(row.dataset.index);
+                event.dataTransfer?.setData('text/plain', row.dataset.index!);
+            }
+        });
+        container.addEventListener('dragover', (event: DragEvent) => {
+            if (this.dragIndex !== null && (event.target as HTMLElement).closest?.('[data-index]')) {
+                event.preventDefault();
+            }
+        });
+        container.addEventListener('drop', (event: DragEvent) => {
+            const row = (event.target as HTMLElement).closest?.('[data-index]') as HTMLElement | null;
+            if (row && this.dragIndex !== null && this.report) {
+                event.preventDefault();
+                this.report.layout = moveLayoutItem(this.report.layout, this.dragIndex, Number(row.dataset.index));
+                this._renderLists();
+                this._changed();
+            }
+            this.dragIndex = null;
+        });
+        container.addEventListener('dragend', () => {
+            this.dragIndex = null;
+        });
+    }
+}
+
+export default ReportEditor;
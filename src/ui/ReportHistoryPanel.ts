@@ -0,0 +1,231 @@
+/**
+ * ReportHistoryPanel - Versions of a report definition and their differences
+ *
+ * Opened with "History" next to the report selector. Lists the versions
+ * recorded in the ReportHistory and compares two of them: variables added,
+ * removed or changed, layout rows added, removed, changed or moved, and - when
+ * data is loaded - the statement rows whose amounts differ when the same data
+ * is rendered with both versions.
+ *
+ * @example
+ * const panel = new ReportHistoryPanel('report-history', history, {
+ *   render: (reportDef) => generator.generateStatementFromDefinition(reportDef, periodOptions)
+ * });
+ * panel.show('income_statement_default');
+ */
+
+import Logger from '../utils/Logger.ts';
+import type ReportHistory from '../reports/ReportHistory.ts';
+import type { ReportSnapshot } from '../reports/ReportHistory.ts';
+import type { PeriodColumn } from '../core/calculations/columns.ts';
+import { describeFilter } from './DrillDownPanel.ts';
+import {
+    compareStatementRows,
+    diffReportDefinitions,
+    isEmptyDiff,
+    layoutItemLabel,
+    type ReportDiff,
+    type StatementRowChange
+} from '../core/transformations/report-diff.ts';
+import { escapeHtml, formatAmount } from './html.ts';
+
+export interface ReportHistoryPanelOptions {
+    /** Render a version of the report with the loaded data; may throw when no data is loaded */
+    render?: (reportDef: ReportSnapshot['definition']) => any;
+}
+
+const list = (title: string, items: readonly string[]): string => items.length === 0 ? '' :
+    `<h5>${escapeHtml(title)}</h5><ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>`;
+
+const describeVariable = (definition: any): string =>
+    `${escapeHtml(describeFilter(definition?.filter))} <span class="report-history-aggregate">(${escapeHtml(String(definition?.aggregate ?? 'sum'))})</span>`;
+
+/**
+ * Describe a version for a version selector
+ *
+ * @param snapshot - Recorded version
+ * @returns e.g. 'v1.1.0 - 19-10-2026 14:05 (3fa2c9e1)'
+ */
+export const describeSnapshot = (snapshot: ReportSnapshot): string =>
+    `v${snapshot.version} - ${new Date(snapshot.timestamp).toLocaleString('nl-NL', { dateStyle: 'short', timeStyle: 'short' })} (${snapshot.hash.slice(0, 8)})`;
+
+/**
+ * Render the differences between two versions of a report
+ *
+ * @param diff - Result of diffReportDefinitions
+ * @returns HTML with a list per kind of change
+ */
+export const renderReportDiffHtml = (diff: ReportDiff): string => {
+    if (isEmptyDiff(diff)) {
+        return '<div class="report-history-empty">The versions are the same.</div>';
+    }
+
+    const code = (value: string) => `<code>${escapeHtml(value)}</code>`;
+    const at = (order: number) => `<span class="report-history-order">@${order}</span>`;
+
+    return `<div class="report-history-diff">
+            ${list('Changed properties', diff.properties.map(code))}
+            ${list('Variables added', diff.variables.added.map(code))}
+            ${list('Variables removed', diff.variables.removed.map(code))}
+            ${list('Variables changed', diff.variables.changed.map(change =>
+                `${code(change.name)}: ${describeVariable(change.before)} &rarr; ${describeVariable(change.after)}`))}
+            ${list('Rows added', diff.layout.added.map(item => `${at(item.order)} ${escapeHtml(layoutItemLabel(item))}`))}
+            ${list('Rows removed', diff.layout.removed.map(item => `${at(item.order)} ${escapeHtml(layoutItemLabel(item))}`))}
+            ${list('Rows moved', diff.layout.moved.map(move =>
+                `${escapeHtml(move.label)}: ${at(move.from)} &rarr; ${at(move.to)}`))}
+            ${list('Rows changed', diff.layout.changed.map(change =>
+                `${at(change.order)} ${escapeHtml(change.label)}: ${change.fields.map(code).join(', ')}`))}
+        </div>`;
+};
+
+/**
+ * Render the statement rows whose amounts differ between two versions
+ *
+ * @param changes - Result of compareStatementRows
+ * @param columns - Period columns compared
+ * @returns HTML table with the older and newer amount and the difference per column
+ */
+export const renderRowChangesHtml = (changes: readonly StatementRowChange[], columns: readonly PeriodColumn[]): string => {
+    if (changes.length === 0) {
+        return '<div class="report-history-empty">No amounts changed.</div>';
+    }
+
+    const header = columns.map(column =>
+        `<th colspan="3">${escapeHtml(column.label || column.key)}</th>`).join('');
+    const subHeader = columns.map(() => '<th>Before</th><th>After</th><th>Difference</th>').join('');
+    const body = changes.map(change => {
+        const cells = columns.map(column => {
+            const { before, after } = change.amounts[column.key] ?? { before: null, after: null };
+            const difference = before !== null && after !== null ? after - before : null;
+            return `<td class="report-history-amount">${formatAmount(before)}</td>` +
+                `<td class="report-history-amount">${formatAmount(after)}</td>` +
+                `<td class="report-history-amount report-history-difference">${formatAmount(difference)}</td>`;
+        }).join('');
+        return `<tr class="report-history-row-${change.status}">` +
+            `<td>${escapeHtml(change.label)}</td><td>${change.status}</td>${cells}</tr>`;
+    }).join('');
+
+    return `<table class="report-history-table">
+            <thead><tr><th>Row</th><th></th>${header}</tr><tr><th></th><th></th>${subHeader}</tr></thead>
+            <tbody>${body}</tbody>
+        </table>`;
+};
+
+class ReportHistoryPanel {
+    private container: HTMLElement | null;
+    private history: ReportHistory;
+    private options: ReportHistoryPanelOptions;
+    private snapshots: ReportSnapshot[];
+    private listening: boolean;
+
+    constructor(containerId: string, history: ReportHistory, options: ReportHistoryPanelOptions = {}) {
+        this.container = document.querySelector(`#${containerId}`);
+        this.history = history;
+        this.options = options;
+        this.snapshots = [];
+        this.listening = false;
+    }
+
+    /**
+     * Show the versions of a report, comparing the latest with the one before
+     *
+     * @param reportId - Report to show the versions of
+     */
+    show(reportId: string): void {
+        if (!this.container) {
+            Logger.warn('Report history container not found');
+            return;
+        }
+
+        this.snapshots = this.history.getHistory(reportId);
+        const options = (selected: number) => this.snapshots.map((snapshot, index) =>
+            `<option value="${index}"${index === selected ? ' selected' : ''}>${escapeHtml(describeSnapshot(snapshot))}</option>`
+        ).reverse().join('');
+
+        const body = this.snapshots.length < 2
+            ? `<div class="report-history-empty">${this.snapshots.length === 0 ? 'No versions' : 'Only one version'} of this report recorded yet. ` +
+                'A version is recorded each time a changed definition is loaded.</div>'
+            : `<div class="report-history-selectors">
+                    <label>Compare <select class="report-history-before">${options(this.snapshots.length - 2)}</select></label>
+                    <label>with <select class="report-history-after">${options(this.snapshots.length - 1)}</select></label>
+                </div>
+                <h4>Definition</h4>
+                <div class="report-history-definition"></div>
+                <h4>Amounts</h4>
+                <div class="report-history-rows"></div>`;
+
+        this.container.innerHTML = `<div class="report-history-header">
+                <h3>History: ${escapeHtml(reportId)}</h3>
+                <button type="button" class="report-history-close" title="Close">&times;</button>
+            </div>
+            ${body}`;
+        this.container.style.display = '';
+
+        this._listen();
+        if (this.snapshots.length >= 2) {
+            this._compare();
+        }
+    }
+
+    /**
+     * Close the panel
+     */
+    hide(): void {
+        if (this.container) {
+            this.container.innerHTML = '';
+            this.container.style.display = 'none';
+        }
+        this.snapshots = [];
+    }
+
+    private _selected(selector: string): ReportSnapshot | undefined {
+        const select = this.container?.querySelector(selector) as HTMLSelectElement | null;
+        return select ? this.snapshots[Number(select.value)] : undefined;
+    }
+
+    private _compare(): void {
+        const before = this._selected('.report-history-before');
+        const after = this._selected('.report-history-after');
+        const definition = this.container?.querySelector('.report-history-definition');
+        const rows = this.container?.querySelector('.report-history-rows');
+        if (!before || !after || !definition || !rows) return;
+
+        const diff = diffReportDefinitions(before.definition, after.definition);
+        definition.innerHTML = renderReportDiffHtml(diff);
+
+        if (!this.options.render) {
+            rows.innerHTML = '<div class="report-history-empty">No data to compare.</div>';
+            return;
+        }
+
+        // Render the same data with both versions
+        try {
+            const previous = this.options.render(before.definition);
+            const current = this.options.render(after.definition);
+            const columns: PeriodColumn[] = current.metadata?.columns || [];
+            const changes = compareStatementRows(previous.rows || [], current.rows || [], columns.map(column => column.key), diff);
+            rows.innerHTML = renderRowChangesHtml(changes, columns);
+        } catch (error: any) {
+            Logger.debug('Report history comparison failed:', error);
+            rows.innerHTML = `<div class="report-history-empty">${escapeHtml(error?.message || String(error))}</div>`;
+        }
+    }
+
+    private _listen(): void {
+        if (this.listening || !this.container) return;
+        this.listening = true;
+
+        this.container.addEventListener('change', (event: Event) => {
+            if ((event.target as HTMLElement).closest('.report-history-before, .report-history-after')) {
+                this._compare();
+            }
+        });
+        this.container.addEventListener('click', (event: Event) => {
+            if ((event.target as HTMLElement).closest('.report-history-close')) {
+                this.hide();
+            }
+        });
+    }
+}
+
+export default ReportHistoryPanel;
@@ -6,6 +6,10 @@
  * - DataStore (data storage)
  * - StatementGenerator (statement generation)
  * - AgGridStatementRenderer (statement rendering)
+ * - KpiGridRenderer (ratio report rendering)
+ * - ReportEditor (visual report definition editor)
+ * - ReportHistoryPanel (report definition versions and their differences)
+ * - CoveragePanel (accounts the displayed report counts, in the validation panel)
  *
  * It handles:
  * - File selection and loading
@@ -19,6 +23,10 @@ import DataLoader from '../data/DataLoader.ts';
 import DataStore from '../data/DataStore.ts';
 import StatementGenerator from '../statements/StatementGenerator.ts';
 import AgGridStatementRenderer from './AgGridStatementRenderer.ts';
+import KpiGridRenderer from './KpiGridRenderer.ts';
+import ReportEditor from './ReportEditor.ts';
+import ReportHistoryPanel from './ReportHistoryPanel.ts';
+import CoveragePanel from './CoveragePanel.ts';
 import { UI_CONFIG, UI_STATEMENT_TYPES, isLTMSelected } from '../constants.ts';
 import { YEAR_CONFIG } from '../constants.ts';
 import APP_CONFIG from '../config/appConfig.ts';
@@ -28,8 +36,21 @@ import FileMetricsService from '../services/FileMetricsService.ts';
 import ValidationService from '../services/ValidationService.ts';
 import ReportRegistry from '../reports/ReportRegistry.ts';
 import ReportLoader from '../reports/ReportLoader.ts';
-import ReportValidator, { type ReportDefinition } from '../reports/ReportValidator.ts';
+import ReportHistory from '../reports/ReportHistory.ts';
+import ReportValidator, { type ReportDefinition, type StatementType } from '../reports/ReportValidator.ts';
 import Logger from '../utils/Logger.ts';
+import { ConfigurationManager } from '../config/ConfigurationManager.ts';
+import { CacheManager } from '../config/CacheManager.ts';
+import { DEFAULT_CONFIG } from '../config/DataSourceConfig.ts';
+import {
+    buildScenarioComparison,
+    buildConsolidationColumns,
+    ACTUAL_SCENARIO,
+    type PeriodColumn,
+    type ComparisonPair
+} from '../core/calculations/columns.ts';
+import { collectLocales } from '../core/transformations/locale.ts';
+import { listAccounts } from '../core/variables/accounts.ts';
 
 interface FileMetadata {
     originalRows: number;
@@ -39,9 +60,16 @@ interface FileMetadata {
 }
 
 interface PeriodOptions {
-    [key: string]: string | boolean;
+    [key: string]: string | boolean | PeriodColumn[] | ComparisonPair;
 }
 
+// Performance selector values: scenario the variance is measured against, and the scenario compared
+const PERFORMANCE_COMPARISONS: Record<string, { base: string; compare: string }> = {
+    'budget-actual': { base: 'budget', compare: ACTUAL_SCENARIO },
+    'forecast-actual': { base: 'forecast', compare: ACTUAL_SCENARIO },
+    'budget-forecast': { base: 'budget', compare: 'forecast' }
+};
+
 interface ExportStatement {
     gridApi: any;
     columnDefs: any[];
@@ -53,6 +81,7 @@ class UIController {
     private dataLoader: DataLoader;
     private statementGenerator: StatementGenerator;
     private agGridRenderer: AgGridStatementRenderer;
+    private kpiGridRenderer: KpiGridRenderer;
     private currentStatementType: string;
     private currentStatementData: any;
     private fileMetadata: Record<string, FileMetadata | null>;
@@ -63,12 +92,17 @@ class UIController {
     private reportRegistry: ReportRegistry;
     private reportValidator: ReportValidator;
     private reportLoader: ReportLoader;
+    private reportEditor: ReportEditor;
+    private reportHistory: ReportHistory;
+    private reportHistoryPanel: ReportHistoryPanel;
+    private coveragePanel: CoveragePanel;
 
     constructor() {
         this.dataStore = new DataStore();
         this.dataLoader = new DataLoader();
         this.statementGenerator = new StatementGenerator(this.dataStore);
         this.agGridRenderer = new AgGridStatementRenderer('ag-grid-container');
+        this.kpiGridRenderer = new KpiGridRenderer('kpi-grid-container');
 
         // Use centralized config for defaults
         this.currentStatementType = this.mapStatementType(APP_CONFIG.statements.defaultType);
@@ -91,6 +125,28 @@ class UIController {
         this.reportValidator = new ReportValidator({} as any); // Schema loaded by ReportLoader
         this.reportLoader = new ReportLoader(this.reportValidator);
 
+        // Visual report editor, previewing with the loaded data and current period options
+        this.reportEditor = new ReportEditor('report-editor', this.reportValidator, {
+            preview: (reportDef) => this.previewReportDefinition(reportDef),
+            onSave: (reportDef) => this.handleReportSaved(reportDef)
+        });
+
+        // Record every loaded version of a report, so versions can be compared in the history panel
+        this.reportHistory = new ReportHistory();
+        this.reportLoader.setHistory(this.reportHistory);
+        this.reportHistoryPanel = new ReportHistoryPanel('report-history', this.reportHistory, {
+            render: (reportDef) => this.previewReportDefinition(reportDef)
+        });
+
+        // Accounts the displayed report counts no times or more than once, in the validation panel
+        this.coveragePanel = new CoveragePanel('validation-coverage');
+
+        // Keep parsed trial balances in IndexedDB, so reopening the app does not parse every workbook again
+        const cacheConfig = (globalThis as any).config?.cache;
+        if (cacheConfig?.enabled && cacheConfig.storage === 'indexedDB' && typeof indexedDB !== 'undefined') {
+            this.dataLoader.setTableCache(new CacheManager({ ...DEFAULT_CONFIG.cache, ...cacheConfig }));
+        }
+
         // Initialize UI with filenames from config
         this.initializeFilenames();
 
@@ -146,8 +202,7 @@ class UIController {
      * Initialize filenames from config
      */
     initializeFilenames(): void {
-        const filename2024 = APP_CONFIG.excel.trialBalance2024;
-        const filename2025 = APP_CONFIG.excel.trialBalance2025;
+        const [filename2024, filename2025] = this.fileSelectionService.getRequiredFileNames();
 
         const filenameElement2024 = document.getElementById('filename-tb2024');
         const filenameElement2025 = document.getElementById('filename-tb2025');
@@ -165,7 +220,8 @@ class UIController {
         const mapping: Record<string, string> = {
             'income-statement': UI_STATEMENT_TYPES.INCOME_STATEMENT,
             'balance-sheet': UI_STATEMENT_TYPES.BALANCE_SHEET,
-            'cash-flow': UI_STATEMENT_TYPES.CASH_FLOW
+            'cash-flow': UI_STATEMENT_TYPES.CASH_FLOW,
+            'ratios': UI_STATEMENT_TYPES.RATIOS
         };
         return mapping[configType] || UI_STATEMENT_TYPES.INCOME_STATEMENT;
     }
@@ -177,8 +233,36 @@ class UIController {
 
     // Status message methods removed - use this.statusMessageService directly
 
+    // Warn when resources were served from an expired cache entry because their source could not be reached
+    warnIfStale(manager: ConfigurationManager): void {
+        const cachedAt = [...manager.getStaleResources().values()].map(date => date.getTime());
+        if (cachedAt.length > 0) {
+            const oldest = new Date(Math.min(...cachedAt));
+            this.statusMessageService.showWarning(`Data source unavailable, showing cached data from ${oldest.toLocaleString()}`);
+        }
+    }
+
     // Handle input directory selection - delegate to service
+    // With a remote factTable data source (e.g. an S3 bucket) files are read from it instead
     async handleSelectInputDirectory(): Promise<void> {
+        const source = (globalThis as any).config?.dataSources?.factTable;
+        if (source && source.type !== 'local') {
+            const manager = new ConfigurationManager();
+            try {
+                await manager.loadConfig('config.json');
+                this.dataLoader.setFactTableSource(manager);
+                this.statusMessageService.updateDirectoryStatus(
+                    `${source.type}: ${source.config?.bucket || source.config?.repo || source.config?.baseUrl || ''}`, true);
+            } catch (error) {
+                Logger.error('Error configuring fact table source:', error);
+                this.statusMessageService.showError(error instanceof Error ? error.message : String(error));
+                return;
+            }
+            await this.handleLoadAllFiles();
+            this.warnIfStale(manager);
+            return;
+        }
+
         const result = await this.fileSelectionService.selectAndValidateDirectory();
 
         if (result.canceled) {
@@ -201,6 +285,9 @@ class UIController {
         this.statusMessageService.showLoading('Loading trial balance files...');
 
         try {
+            // FX rates first: trial balances in a foreign currency are translated while loading
+            await this.loadFxRates();
+
             // Step 1: Load trial balance for 2024 (movements and balances with hierarchy included)
             this.statusMessageService.showLoading('Loading 2024 trial balance...');
             this.updateFileStatus('tb2024', 'loading');
@@ -251,6 +338,15 @@ class UIController {
             const loadedYears = this.dataStore.getAllPeriods();
             Logger.debug(`Loaded trial balance years: ${loadedYears.join(', ')}`);
 
+            // Statements render one column per loaded year
+            YEAR_CONFIG.setYears(loadedYears);
+
+            // Step 4: Load budget/forecast workbooks configured for the loaded years
+            await this.loadScenarioData(loadedYears);
+
+            // Offer per-entity and consolidated views when several legal entities are loaded
+            this.populateEntitySelector();
+
             // Validate data and show results
             this.validateAndDisplayResults();
 
@@ -449,17 +545,35 @@ class UIController {
                 Logger.debug(`Using default report: ${report.name} (${report.reportId})`);
             }
 
+            // Offer the label languages of this report
+            this.populateLanguageSelector(report);
+
             // Generate statement using report definition
             const statementData = this.generateStatementFromDefinition(report, statementType);
             const statementName = report.name;
 
-            // Render with ag-Grid
-            this.agGridRenderer.render(statementData, statementType);
+            // Ratio reports are shown as a KPI grid, other statements with ag-Grid
+            const gridContainer = document.getElementById('ag-grid-container');
+            if (statementType === UI_STATEMENT_TYPES.RATIOS) {
+                if (gridContainer) gridContainer.style.display = 'none';
+                this.agGridRenderer.closeDrillDown();
+                this.kpiGridRenderer.render(statementData);
+            } else {
+                this.kpiGridRenderer.clear();
+                if (gridContainer) gridContainer.style.display = '';
+                this.agGridRenderer.render(statementData, statementType);
+            }
 
             // Update current statement tracking
             this.currentStatementType = statementType;
             this.currentStatementData = statementData;
 
+            // Check the report's variables against the accounts in the loaded data
+            const movements = this.dataStore.getCombinedMovements();
+            const accountCheck = this.reportValidator.validateAccounts(report, listAccounts(movements.objects()));
+            const coverageData = report.statementType === 'balance' ? this.dataStore.getCombinedBalances() : movements;
+            this.coveragePanel.show(report, coverageData, statementData, accountCheck.errors);
+
             Logger.debug(`${statementName} displayed successfully`);
 
         } catch (error: any) {
@@ -522,14 +636,137 @@ class UIController {
         }
     }
 
+    // Load the FX rate table (currency.fxRates in config.json) through the dimTables data source
+    async loadFxRates(): Promise<void> {
+        if (!(globalThis as any).config?.currency?.fxRates) {
+            return;
+        }
+
+        this.statusMessageService.showLoading('Loading FX rates...');
+        const manager = new ConfigurationManager();
+        await manager.loadConfig('config.json');
+        await this.dataLoader.loadFxRates(manager);
+    }
+
+    // Load scenario (budget/forecast) workbooks configured in config.json
+    // Scenario data is optional: a workbook that fails to load is reported and skipped
+    async loadScenarioData(years: string[]): Promise<void> {
+        const tables: Record<string, { movements: any[]; balances: any[] }> = {};
+
+        for (const year of years) {
+            for (const scenario of this.dataLoader.getConfiguredScenarios(year)) {
+                try {
+                    this.statusMessageService.showLoading(`Loading ${year} ${scenario}...`);
+                    const { movements, balances } = await this.dataLoader.loadTrialBalance(year, scenario);
+                    tables[scenario] = tables[scenario] || { movements: [], balances: [] };
+                    tables[scenario].movements.push(movements);
+                    tables[scenario].balances.push(balances);
+                } catch (error) {
+                    Logger.warn(`Could not load ${scenario} for ${year}:`, error);
+                }
+            }
+        }
+
+        for (const [scenario, { movements, balances }] of Object.entries(tables)) {
+            const concatAll = (list: any[]) => list.slice(1).reduce((all, table) => all.concat(table), list[0]);
+            this.dataStore.setScenarioTable(concatAll(movements), scenario, 'movements');
+            this.dataStore.setScenarioTable(concatAll(balances), scenario, 'balances');
+        }
+    }
+
+    // Fill the entity selector with the loaded legal entities (hidden for a single trial balance)
+    populateEntitySelector(): void {
+        const controls = document.getElementById('entity-controls');
+        const entitySelector = document.getElementById('entity-selector') as HTMLSelectElement | null;
+        if (!controls || !entitySelector) {
+            return;
+        }
+
+        const entities = this.dataStore.getEntities();
+        entitySelector.querySelectorAll('option[data-entity]').forEach(option => option.remove());
+        for (const entity of entities) {
+            const option = document.createElement('option');
+            option.value = entity;
+            option.textContent = entity;
+            option.dataset.entity = entity;
+            entitySelector.appendChild(option);
+        }
+
+        if (!entities.includes(entitySelector.value) && entitySelector.value !== 'overview') {
+            entitySelector.value = 'consolidated';
+        }
+        controls.style.display = entities.length > 0 ? 'flex' : 'none';
+    }
+
+    // Build period options for the entity selector: the overview shows a column per entity,
+    // the eliminations and the consolidated total; a single entity filters the rows
+    buildEntityOptions(periodValue: string): PeriodOptions | null {
+        const entitySelector = document.getElementById('entity-selector') as HTMLSelectElement | null;
+        const entities = this.dataStore.getEntities();
+        const selected = entitySelector?.value || 'consolidated';
+        if (entities.length === 0 || selected === 'consolidated') {
+            return null;
+        }
+
+        if (selected === 'overview') {
+            // Latest loaded year, year-to-date through the selected period
+            const year = parseInt(YEAR_CONFIG.getYear(YEAR_CONFIG.yearCount - 1));
+            const toPeriod = this.parsePeriodValue(periodValue);
+            return { columns: buildConsolidationColumns(year, entities, { fromPeriod: 1, toPeriod }) };
+        }
+
+        return entities.includes(selected) ? { entity: selected } : null;
+    }
+
+    // Build period options for the performance selector (e.g. Actual vs Budget), or null if not active
+    buildPerformanceOptions(periodValue: string): PeriodOptions | null {
+        const performanceSelector = document.getElementById('performance-selector') as HTMLSelectElement | null;
+        const performance = PERFORMANCE_COMPARISONS[performanceSelector?.value || 'none'];
+        if (!performance) {
+            return null;
+        }
+
+        const loaded = this.dataStore.getScenarios();
+        const missing = [performance.base, performance.compare]
+            .filter(scenario => scenario !== ACTUAL_SCENARIO && !loaded.includes(scenario));
+        if (missing.length > 0) {
+            Logger.warn(`Performance view needs ${missing.join(', ')} data, which is not loaded`);
+            return null;
+        }
+
+        // Latest loaded year, year-to-date through the selected period
+        const year = parseInt(YEAR_CONFIG.getYear(YEAR_CONFIG.yearCount - 1));
+        const toPeriod = this.parsePeriodValue(periodValue);
+        const { columns, comparison } = buildScenarioComparison(
+            year, performance.base, performance.compare, { fromPeriod: 1, toPeriod }
+        );
+
+        return { columns, comparison };
+    }
+
     // Build period options from current UI selections
     buildPeriodOptions(): PeriodOptions {
         const year1 = YEAR_CONFIG.getYear(0);
         const year2 = YEAR_CONFIG.getYear(1);
         const periodSelector = document.getElementById('period-selector') as HTMLSelectElement | null;
         const comparisonSelector = document.getElementById('comparison-selector') as HTMLSelectElement | null;
+        const languageSelector = document.getElementById('language-selector') as HTMLSelectElement | null;
         const periodValue = periodSelector?.value || 'all';
         const comparisonType = comparisonSelector?.value || 'yoy';
+        const currency = this.dataLoader.getPresentationCurrency();
+        const locale = languageSelector?.value || undefined;
+
+        // Performance view (Actual vs Budget etc.) takes precedence over period comparisons
+        const performanceOptions = this.buildPerformanceOptions(periodValue);
+        if (performanceOptions) {
+            return { ...performanceOptions, currency, locale };
+        }
+
+        // Entity overview replaces the period columns; a single entity keeps them
+        const entityOptions = this.buildEntityOptions(periodValue);
+        if (entityOptions?.columns) {
+            return { ...entityOptions, currency, locale };
+        }
 
         let periodOptions: PeriodOptions;
 
@@ -561,7 +798,31 @@ class UIController {
             };
         }
 
-        return periodOptions;
+        return { ...periodOptions, ...entityOptions, currency, locale };
+    }
+
+    // Fill the language selector with the locales of the report labels, keeping the choice when the report has it
+    populateLanguageSelector(report: ReportDefinition): void {
+        const languageSelector = document.getElementById('language-selector') as HTMLSelectElement | null;
+        if (!languageSelector) return;
+
+        const locales = collectLocales(report.layout.map(item => item.label));
+        const selected = languageSelector.value;
+        const languageName = (locale: string): string => {
+            try {
+                return new Intl.DisplayNames([locale], { type: 'language' }).of(locale) || locale;
+            } catch {
+                return locale;
+            }
+        };
+
+        languageSelector.innerHTML = '';
+        languageSelector.add(new Option('Report default', ''));
+        for (const locale of locales) {
+            languageSelector.add(new Option(languageName(locale), locale));
+        }
+        languageSelector.value = locales.includes(selected) ? selected : '';
+        languageSelector.disabled = locales.length === 0;
     }
 
     // Generate all three statements for export (without rendering to UI)
@@ -800,7 +1061,8 @@ class UIController {
     }
 
     /**
-     * Load report definitions from the /reports/ directory
+     * Load report definitions from the /reports/ directory, or from the
+     * reportDefinitions data source in config.json when that is remote (e.g. GitHub)
      * Registers them in the ReportRegistry
      */
     async loadReportDefinitions(): Promise<number> {
@@ -808,8 +1070,17 @@ class UIController {
             Logger.debug('Loading report definitions...');
             this.updateReportStatus('Loading report definitions...', 'loading');
             
-            // Load all report definitions from the /reports/ directory
-            const reports = await this.reportLoader.loadReportsFromDirectory('/reports/');
+            const source = (globalThis as any).config?.dataSources?.reportDefinitions;
+            let reports: ReportDefinition[];
+            if (source && source.type !== 'local') {
+                const manager = new ConfigurationManager();
+                await manager.loadConfig('config.json');
+                reports = await this.reportLoader.loadReportsFromSource(manager);
+                this.warnIfStale(manager);
+            } else {
+                // Load all report definitions from the /reports/ directory
+                reports = await this.reportLoader.loadReportsFromDirectory('/reports/');
+            }
             
             Logger.info(`Loaded ${reports.length} report definitions`);
             
@@ -891,13 +1162,14 @@ class UIController {
     /**
      * Map UI statement type to registry statement type
      * @param uiType - UI_STATEMENT_TYPES constant
-     * @returns Registry statement type (balance, income, cashflow)
+     * @returns Registry statement type (balance, income, cashflow, ratios)
      */
-    getStatementTypeForRegistry(uiType: string): 'balance' | 'income' | 'cashflow' {
-        const mapping: Record<string, 'balance' | 'income' | 'cashflow'> = {
+    getStatementTypeForRegistry(uiType: string): StatementType {
+        const mapping: Record<string, StatementType> = {
             [UI_STATEMENT_TYPES.INCOME_STATEMENT]: 'income',
             [UI_STATEMENT_TYPES.BALANCE_SHEET]: 'balance',
-            [UI_STATEMENT_TYPES.CASH_FLOW]: 'cashflow'
+            [UI_STATEMENT_TYPES.CASH_FLOW]: 'cashflow',
+            [UI_STATEMENT_TYPES.RATIOS]: 'ratios'
         };
         return mapping[uiType] || 'income';
     }
@@ -1155,6 +1427,22 @@ class UIController {
             });
         }
 
+        // Report history button
+        const reportHistoryBtn = document.getElementById('report-history-btn');
+        if (reportHistoryBtn) {
+            reportHistoryBtn.addEventListener('click', () => {
+                this.handleViewReportHistory();
+            });
+        }
+
+        // Edit report definition button
+        const editReportBtn = document.getElementById('edit-report-btn');
+        if (editReportBtn) {
+            editReportBtn.addEventListener('click', () => {
+                this.handleEditReportDefinition();
+            });
+        }
+
         // Close report modal buttons
         const closeModalBtn = document.getElementById('close-report-modal');
         const closeModalBtn2 = document.getElementById('close-report-modal-btn');
@@ -1244,6 +1532,36 @@ class UIController {
             });
         }
 
+        // Language selector - re-render the labels on change, the data stays loaded
+        const languageSelector = document.getElementById('language-selector') as HTMLSelectElement | null;
+        if (languageSelector) {
+            languageSelector.addEventListener('change', () => {
+                if (this.currentStatementType) {
+                    this.generateAndDisplayStatement(this.currentStatementType);
+                }
+            });
+        }
+
+        // Performance selector - re-render on change (Actual vs Budget/Forecast)
+        const performanceSelector = document.getElementById('performance-selector') as HTMLSelectElement | null;
+        if (performanceSelector) {
+            performanceSelector.addEventListener('change', () => {
+                if (this.currentStatementType) {
+                    this.generateAndDisplayStatement(this.currentStatementType);
+                }
+            });
+        }
+
+        // Entity selector - re-render on change (consolidated, overview or a single entity)
+        const entitySelector = document.getElementById('entity-selector') as HTMLSelectElement | null;
+        if (entitySelector) {
+            entitySelector.addEventListener('change', () => {
+                if (this.currentStatementType) {
+                    this.generateAndDisplayStatement(this.currentStatementType);
+                }
+            });
+        }
+
         // Variance selector - re-render on change
         const varianceSelector = document.getElementById('variance-selector') as HTMLSelectElement | null;
         if (varianceSelector) {
@@ -1385,6 +1703,67 @@ class UIController {
         Logger.debug(`Viewing report definition: ${report.name} (${reportId})`);
     }
 
+    /**
+     * Handle edit report definition button click
+     * Opens the visual editor for the selected report
+     */
+    handleEditReportDefinition(): void {
+        const reportSelector = document.getElementById('report-selector') as HTMLSelectElement | null;
+        const report = reportSelector?.value ? this.reportRegistry.getReport(reportSelector.value) : null;
+
+        if (!report) {
+            this.statusMessageService.showError('No report selected');
+            return;
+        }
+
+        // Edit labels in the language the statement is shown in
+        const languageSelector = document.getElementById('language-selector') as HTMLSelectElement | null;
+        this.reportEditor.open(report, this.dataStore.getCombinedMovements(), languageSelector?.value || undefined);
+    }
+
+    /**
+     * Handle report history button click
+     * Shows the recorded versions of the selected report
+     */
+    handleViewReportHistory(): void {
+        const reportSelector = document.getElementById('report-selector') as HTMLSelectElement | null;
+        if (!reportSelector || !reportSelector.value) {
+            this.statusMessageService.showError('No report selected');
+            return;
+        }
+
+        this.reportHistoryPanel.show(reportSelector.value);
+    }
+
+    // Render a report definition with the loaded data, for the editor preview and the history comparison
+    previewReportDefinition(reportDef: ReportDefinition): any {
+        if (!this.dataStore.getCombinedMovements()) {
+            throw new Error('Load the trial balance files to see a preview.');
+        }
+        return this.statementGenerator.generateStatementFromDefinition(reportDef, this.buildPeriodOptions());
+    }
+
+    // Replace a report in the registry with its saved definition and show it
+    handleReportSaved(reportDef: ReportDefinition): void {
+        this.reportHistory.record(reportDef).catch(error => {
+            Logger.warn(`Could not record history of report ${reportDef.reportId}:`, error);
+        });
+
+        const isDefault = this.reportRegistry.getDefaultReport(reportDef.statementType)?.reportId === reportDef.reportId;
+        this.reportRegistry.unregister(reportDef.reportId);
+        this.reportRegistry.register(reportDef, isDefault);
+
+        this.populateReportSelector();
+        const reportSelector = document.getElementById('report-selector') as HTMLSelectElement | null;
+        if (reportSelector && this.getStatementTypeForRegistry(this.currentStatementType) === reportDef.statementType) {
+            reportSelector.value = reportDef.reportId;
+            this.updateReportInfo(reportDef.reportId);
+            if (this.dataStore.getCombinedMovements()) {
+                this.generateAndDisplayStatement(this.currentStatementType);
+            }
+        }
+    }
+
     /**
      * Handle copy report JSON button click
      * Copies the report definition JSON to clipboard
@@ -5,6 +5,8 @@
  * and variance columns based on user settings
  */
 
+import { currencySymbol, DEFAULT_PRESENTATION_CURRENCY } from '../../core/calculations/currency.ts';
+
 interface LTMRange {
     readonly year: number;
     readonly startPeriod: number;
@@ -15,6 +17,11 @@ interface LTMInfo {
     readonly ranges: readonly LTMRange[];
 }
 
+interface PeriodColumnInfo {
+    readonly key: string;
+    readonly label?: string;
+}
+
 interface ReportMetadata {
     reportName?: string;
     reportVersion?: string;
@@ -49,6 +56,8 @@ export class ColumnDefBuilder {
     private isLTMMode: boolean = false;
     private ltmInfo: LTMInfo | null = null;
     private reportMetadata: ReportMetadata | null = null;
+    private periodColumns: readonly PeriodColumnInfo[] | null = null;
+    private currencySymbol: string = currencySymbol(DEFAULT_PRESENTATION_CURRENCY);
 
     /**
      * Create a column definition builder
@@ -70,6 +79,23 @@ export class ColumnDefBuilder {
         this.reportMetadata = metadata;
     }
 
+    /**
+     * Set the period columns of a configurable report
+     * Replaces the two year columns with one amount column per period column
+     * @param columns - Period columns in display order (key and optional label)
+     */
+    setPeriodColumns(columns: readonly PeriodColumnInfo[] | null): void {
+        this.periodColumns = columns && columns.length > 0 ? columns : null;
+    }
+
+    /**
+     * Set the symbol of the presentation currency shown in variance headers
+     * @param symbol - Currency symbol (e.g. '$')
+     */
+    setCurrencySymbol(symbol: string): void {
+        this.currencySymbol = symbol;
+    }
+
     /**
      * Set formatter functions from the renderer
      * @param formatCurrency - Currency formatting function
@@ -113,7 +139,7 @@ export class ColumnDefBuilder {
             return this.buildLTMColumns();
         }
 
-        // Normal mode: 2 columns + variance
+        // Normal mode: amount columns + variance
         // Get UI settings
         let period1Label = this.getPeriodLabel(this.year1);
         let period2Label = this.getPeriodLabel(this.year2);
@@ -129,13 +155,19 @@ export class ColumnDefBuilder {
         // Use the single variance selector for all variance columns
         const varianceMode = (document.getElementById('variance-selector') as HTMLSelectElement)?.value || 'none';
 
-        const columns: ColumnDef[] = [
-            this.buildCategoryColumn(),
-            this.buildAmountColumn('amount_2024', period1Label),
-            this.buildAmountColumn('amount_2025', period2Label)
-        ];
+        const columns: ColumnDef[] = [this.buildCategoryColumn()];
+
+        if (this.periodColumns) {
+            // One amount column per period column of the report
+            for (const column of this.periodColumns) {
+                columns.push(this.buildAmountColumn(`amount_${column.key}`, column.label || column.key));
+            }
+        } else {
+            columns.push(this.buildAmountColumn(`amount_${this.year1}`, period1Label));
+            columns.push(this.buildAmountColumn(`amount_${this.year2}`, period2Label));
+        }
 
-        // Add variance columns (comparing 2025 to 2024)
+        // Add variance columns (comparing the selected pair of columns)
         if (varianceMode === 'amount' || varianceMode === 'both') {
             columns.push(this.buildVarianceAmountColumn('variance_amount', false));
         }
@@ -233,7 +265,7 @@ export class ColumnDefBuilder {
     buildVarianceAmountColumn(field: string, hide: boolean = false): ColumnDef {
         return {
             field: field,
-            headerName: 'Var €',
+            headerName: `Var ${this.currencySymbol}`,
             type: 'numericColumn',
             valueFormatter: (params: CellParams) => this.formatCurrency ? this.formatCurrency(params.value, params) : String(params.value),
             cellRenderer: (params: CellParams) => this.varianceRenderer ? this.varianceRenderer(params) : (params.valueFormatted || ''),
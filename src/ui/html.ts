@@ -0,0 +1,32 @@
+/**
+ * html.ts - Helpers for the panels that render their markup as HTML strings
+ *
+ * Used by the KPI grid, drill-down, report editor, history and coverage panels.
+ *
+ * @example
+ * container.innerHTML = `<td>${escapeHtml(row.label)}</td><td>${formatAmount(row.amount)}</td>`;
+ */
+
+/**
+ * Escape text for use in HTML content and double-quoted attributes
+ *
+ * @param value - Text to escape
+ * @returns Text with &, <, > and " replaced by entities
+ */
+export const escapeHtml = (value: string): string =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Format an amount as a whole number with Dutch thousands separators
+ *
+ * @param value - Amount
+ * @returns Formatted amount, or an empty string for missing values
+ */
+export const formatAmount = (value: number | null | undefined): string => {
+    if (value == null || isNaN(value)) return '';
+    return new Intl.NumberFormat('nl-NL', {
+        style: 'decimal',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0
+    }).format(value);
+};
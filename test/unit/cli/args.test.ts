@@ -0,0 +1,110 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { parseRenderArgs } from "../../../src/cli/args.ts";
+import { buildRenderColumns, getConfiguredYears } from "../../../src/cli/render.ts";
+
+const REQUIRED = ['--data', 'input', '--report', 'income_statement_default'];
+
+describe('render-statement arguments', () => {
+    describe('parseRenderArgs', () => {
+        it('applies defaults', () => {
+            const args = parseRenderArgs(REQUIRED);
+
+            assertEquals(args.data, 'input');
+            assertEquals(args.report, 'income_statement_default');
+            assertEquals(args.reports, 'reports');
+            assertEquals(args.config, null);
+            assertEquals(args.years, null);
+            assertEquals(args.format, 'csv');
+            assertEquals(args.output, null);
+            assertEquals(args.months, false);
+            assertEquals(args.locale, null);
+        });
+
+        it('parses values given with = and as separate arguments', () => {
+            const args = parseRenderArgs([
+                ...REQUIRED,
+                '--years=2023,2024, 2025',
+                '--to-period', '6',
+                '--compare', '2023,2025',
+                '--locale=en-GB'
+            ]);
+
+            assertEquals(args.years, ['2023', '2024', '2025']);
+            assertEquals(args.toPeriod, 6);
+            assertEquals(args.compare, { base: '2023', compare: '2025' });
+            assertEquals(args.locale, 'en-GB');
+        });
+
+        it('derives the format from the output extension', () => {
+            assertEquals(parseRenderArgs([...REQUIRED, '--output', 'pl.xlsx']).format, 'xlsx');
+            assertEquals(parseRenderArgs([...REQUIRED, '--output', 'pl.JSON']).format, 'json');
+            assertEquals(parseRenderArgs([...REQUIRED, '--output', 'pl.txt']).format, 'csv');
+            assertEquals(parseRenderArgs([...REQUIRED, '--output', 'pl.txt', '--format', 'json']).format, 'json');
+        });
+
+        it('requires --data and --report unless --help is given', () => {
+            assertThrows(() => parseRenderArgs(['--data', 'input']), Error, '--report');
+            assertEquals(parseRenderArgs(['--help']).help, true);
+        });
+
+        it('requires an output file for xlsx', () => {
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--format', 'xlsx']), Error, '--output');
+        });
+
+        it('rejects invalid values and unknown options', () => {
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--format', 'pdf']), Error, '--format');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--years', '24']), Error, '--years');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--to-period', '13']), Error, '--to-period');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--compare', '2025']), Error, '--compare');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--locale', 'English']), Error, '--locale');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--period', '6']), Error, 'unknown option');
+            assertThrows(() => parseRenderArgs([...REQUIRED, '--report']), Error, 'a value is required');
+        });
+    });
+
+    describe('getConfiguredYears', () => {
+        it('lists the years with a trial balance workbook', () => {
+            const config = {
+                inputFiles: {
+                    trialBalance2025: 'b.xlsx',
+                    trialBalance2024: 'a.xlsx',
+                    scenarios: { budget: { '2025': 'budget.xlsx' } }
+                }
+            } as any;
+            assertEquals(getConfiguredYears(config), ['2024', '2025']);
+        });
+    });
+
+    describe('buildRenderColumns', () => {
+        it('renders one column per year', () => {
+            const { columns, comparison } = buildRenderColumns(parseRenderArgs(REQUIRED), ['2024', '2025']);
+
+            assertEquals(columns.map(column => column.key), ['2024', '2025']);
+            assertEquals(comparison, null);
+        });
+
+        it('narrows year columns to a year-to-date range', () => {
+            const args = parseRenderArgs([...REQUIRED, '--to-period', '6']);
+            const { columns } = buildRenderColumns(args, ['2024', '2025']);
+
+            assertEquals(columns.map(column => column.toPeriod), [6, 6]);
+            assertEquals(columns[1].label, '2025 P1-P6');
+        });
+
+        it('renders months of the latest year', () => {
+            const args = parseRenderArgs([...REQUIRED, '--months', '--to-period', '3']);
+            const { columns } = buildRenderColumns(args, ['2024', '2025']);
+
+            assertEquals(columns.map(column => column.key), ['2025_P1', '2025_P2', '2025_P3']);
+        });
+
+        it('compares actuals against a scenario', () => {
+            const args = parseRenderArgs([...REQUIRED, '--scenario', 'budget']);
+            const { columns, comparison } = buildRenderColumns(args, ['2024', '2025']);
+
+            assertEquals(columns.map(column => column.key), ['2025_actual', '2025_budget']);
+            assertEquals(comparison, { base: '2025_budget', compare: '2025_actual' });
+        });
+    });
+});
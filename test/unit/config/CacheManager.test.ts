@@ -66,6 +66,160 @@ Deno.test('CacheManager - set and get resource', async () => {
     assertEquals(retrieved.source, 'test');
 });
 
+Deno.test('CacheManager - keeps binary content of cached resources', async () => {
+    clearTestCache();
+
+    const config: CacheConfig = {
+        enabled: true,
+        ttl: 3600,
+        storage: 'localStorage',
+        keyPrefix: 'test_cache_',
+    };
+
+    const cache = new CacheManager(config);
+    const bytes = new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0x00, 0xff]);
+    await cache.set('blob-key', { ...createTestResource(''), content: new Blob([bytes], { type: 'application/zip' }) });
+    await cache.set('buffer-key', { ...createTestResource(''), content: bytes.slice().buffer });
+
+    const blob = (await cache.get('blob-key'))!.content as Blob;
+    const buffer = (await cache.get('buffer-key'))!.content as ArrayBuffer;
+
+    assertEquals(blob.type, 'application/zip');
+    assertEquals(new Uint8Array(await blob.arrayBuffer()), bytes);
+    assertEquals(new Uint8Array(buffer), bytes);
+});
+
+// Minimal in-memory IndexedDB: one database with object stores keyed out-of-line
+// Every request is recorded in `operations` as "<store>.<method> <key>"
+function createFakeIndexedDB(operations: string[] = []): IDBFactory {
+    const stores = new Map<string, Map<string, unknown>>();
+    const respond = (result: unknown) => {
+        const request: any = { result };
+        setTimeout(() => request.onsuccess?.());
+        return request;
+    };
+    const objectStore = (name: string) => {
+        const store = stores.get(name)!;
+        const record = (method: string, key?: string) => operations.push(`${name}.${method}${key ? ` ${key}` : ''}`);
+        return {
+            get: (key: string) => record('get', key) && respond(store.get(key)),
+            put: (value: unknown, key: string) => record('put', key) && respond(store.set(key, value) && key),
+            delete: (key: string) => record('delete', key) && respond(store.delete(key) && undefined),
+            getAll: () => record('getAll') && respond([...store.values()]),
+            getAllKeys: () => record('getAllKeys') && respond([...store.keys()]),
+        };
+    };
+
+    return {
+        open() {
+            const db = {
+                objectStoreNames: { contains: (name: string) => stores.has(name) },
+                createObjectStore: (name: string) => stores.set(name, new Map()),
+                transaction: () => ({ objectStore }),
+            };
+            const request: any = { result: db };
+            setTimeout(() => {
+                request.onupgradeneeded?.();
+                request.onsuccess?.();
+            });
+            return request;
+        },
+    } as unknown as IDBFactory;
+}
+
+Deno.test('CacheManager - stores entries in IndexedDB', async () => {
+    const original = (globalThis as any).indexedDB;
+    (globalThis as any).indexedDB = createFakeIndexedDB();
+
+    try {
+        const cache = new CacheManager({ enabled: true, ttl: 3600, storage: 'indexedDB', keyPrefix: 'test_cache_' });
+        const bytes = new Uint8Array([1, 2, 3]);
+        await cache.set('factTable:tb.xlsx', { ...createTestResource(''), content: new Blob([bytes]) });
+        await cache.set('reportDefinition:income', createTestResource('{}'));
+
+        const retrieved = await cache.get('factTable:tb.xlsx');
+        assertEquals(new Uint8Array(await (retrieved!.content as Blob).arrayBuffer()), bytes);
+        assertEquals(retrieved!.servedBy?.origin, 'cache');
+        assertEquals(localStorage.getItem('test_cache_factTable:tb.xlsx'), null);
+
+        await cache.clear('reportDefinition:');
+        assertEquals((await cache.getStats()).totalEntries, 1);
+    } finally {
+        (globalThis as any).indexedDB = original;
+    }
+});
+
+Deno.test('CacheManager - keeps hit and eviction bookkeeping out of the resource store', async () => {
+    const original = (globalThis as any).indexedDB;
+    const operations: string[] = [];
+    (globalThis as any).indexedDB = createFakeIndexedDB(operations);
+
+    try {
+        const cache = new CacheManager({ enabled: true, ttl: 3600, storage: 'indexedDB', keyPrefix: 'test_cache_', maxSize: 25 });
+        await cache.set('a', createTestResource('1234567890'));
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cache.set('b', createTestResource('1234567890'));
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cache.get('a');
+        await cache.set('c', createTestResource('1234567890'));
+
+        assertEquals(operations.filter(operation => operation.startsWith('resources.')), [
+            'resources.put test_cache_a',
+            'resources.put test_cache_b',
+            'resources.get test_cache_a',
+            'resources.delete test_cache_b',
+            'resources.put test_cache_c',
+        ]);
+        assertEquals(operations.includes('metadata.put test_cache_a'), true);
+        assertEquals((await cache.getStats()).totalEntries, 2);
+    } finally {
+        (globalThis as any).indexedDB = original;
+    }
+});
+
+Deno.test('CacheManager - evicts least recently used entries above maxSize', async () => {
+    clearTestCache();
+
+    const cache = new CacheManager({
+        enabled: true,
+        ttl: 3600,
+        storage: 'localStorage',
+        keyPrefix: 'test_cache_',
+        maxSize: 25,
+    });
+
+    await cache.set('a', createTestResource('1234567890'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.set('b', createTestResource('1234567890'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await cache.get('a'); // b is now the least recently used
+    await cache.set('c', createTestResource('1234567890'));
+
+    assertExists(await cache.get('a'));
+    assertEquals(await cache.get('b'), null);
+    assertExists(await cache.get('c'));
+});
+
+Deno.test('CacheManager - applies the TTL of the resource type', async () => {
+    clearTestCache();
+
+    const cache = new CacheManager({
+        enabled: true,
+        ttl: 3600,
+        ttls: { reportDefinition: 1 },
+        storage: 'localStorage',
+        keyPrefix: 'test_cache_',
+    });
+
+    await cache.set(CacheManager.generateKey('reportDefinition', 'income'), createTestResource('{}'));
+    await cache.set(CacheManager.generateKey('factTable', 'tb.xlsx'), createTestResource('data'));
+
+    await new Promise(resolve => setTimeout(resolve, 1100));
+
+    assertEquals(await cache.get('reportDefinition:income'), null);
+    assertExists(await cache.get('factTable:tb.xlsx'));
+});
+
 Deno.test('CacheManager - returns null for missing key', async () => {
     clearTestCache();
     
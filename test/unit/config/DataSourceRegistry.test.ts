@@ -0,0 +1,205 @@
+/**
+ * Unit tests for the fallback chain of DataSourceRegistry
+ */
+
+import './setup.ts'; // Mock Logger and localStorage
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { DataSourceRegistry } from '../../../src/config/DataSourceRegistry.ts';
+import { CacheManager } from '../../../src/config/CacheManager.ts';
+import { ResourceType } from '../../../src/config/DataSourceConfig.ts';
+import type { FallbackConfig, SourceDefinition } from '../../../src/config/DataSourceConfig.ts';
+import type {
+    ConnectionTestResult,
+    DataResource,
+    DataSourceProvider,
+    FetchOptions,
+    ResourceMetadata,
+} from '../../../src/config/datasources/DataSourceProvider.ts';
+import { ErrorCodes, ErrorFactory } from '../../../src/errors/index.ts';
+
+// In-memory stand-in for a server per base path; `unavailable` makes the next requests fail with 503
+// `revalidated` records the cached copies passed to the provider
+const servers: Record<string, { files: Record<string, string>; unavailable: number; requests: number; revalidated: string[] }> = {};
+
+class MemoryProvider implements DataSourceProvider {
+    readonly type = 'local' as const;
+    readonly name = 'Memory Provider';
+    private basePath = '';
+
+    async initialize(config: unknown): Promise<void> {
+        this.basePath = (config as { basePath: string }).basePath;
+    }
+
+    async fetch(path: string, options?: FetchOptions): Promise<DataResource> {
+        const server = servers[this.basePath];
+        server.requests++;
+        if (options?.cached) {
+            server.revalidated.push(String(options.cached.content));
+        }
+        if (server.unavailable > 0) {
+            server.unavailable--;
+            throw ErrorFactory.fetchFailed(`${this.basePath}/${path}`, 503, 'Service Unavailable');
+        }
+        if (!(path in server.files)) {
+            throw ErrorFactory.fileNotFound(path);
+        }
+        return {
+            content: server.files[path],
+            metadata: { path, size: server.files[path].length, lastModified: new Date(), contentType: 'text/csv' },
+            source: this.basePath,
+        };
+    }
+
+    async list(): Promise<ResourceMetadata[]> {
+        const server = servers[this.basePath];
+        server.requests++;
+        if (server.unavailable > 0) {
+            server.unavailable--;
+            throw ErrorFactory.fetchFailed(this.basePath, 503, 'Service Unavailable');
+        }
+        return Object.keys(server.files)
+            .map(path => ({ path, size: 0, lastModified: new Date(), contentType: 'text/csv' }));
+    }
+
+    async exists(path: string): Promise<boolean> {
+        return path in servers[this.basePath].files;
+    }
+
+    async getMetadata(path: string): Promise<ResourceMetadata> {
+        return (await this.fetch(path)).metadata;
+    }
+
+    async testConnection(): Promise<ConnectionTestResult> {
+        return { success: true, responseTime: 0 };
+    }
+}
+
+const fallback: FallbackConfig = {
+    enabled: true,
+    order: ['cache', 'primary', 'fallback'],
+    retryAttempts: 2,
+    retryDelay: 10,
+};
+
+function createRegistry(
+    config: FallbackConfig = fallback,
+    cache: CacheManager | null = null
+): DataSourceRegistry {
+    servers.primary = { files: { 'tb.csv': 'primary' }, unavailable: 0, requests: 0, revalidated: [] };
+    servers.mirror = { files: { 'tb.csv': 'mirror', 'only-mirror.csv': 'mirror' }, unavailable: 0, requests: 0, revalidated: [] };
+
+    const source: SourceDefinition = {
+        type: 'local',
+        config: { basePath: 'primary' },
+        fallback: { type: 'local', config: { basePath: 'mirror' } },
+    };
+
+    const registry = new DataSourceRegistry();
+    registry.registerProvider(new MemoryProvider());
+    registry.configureSource(ResourceType.FACT_TABLE, source);
+    registry.configureFallback(config, cache);
+    return registry;
+}
+
+function createCache(ttl: number = 3600): CacheManager {
+    for (const key of Object.keys(localStorage)) {
+        if (key.startsWith('test_registry_')) {
+            localStorage.removeItem(key);
+        }
+    }
+    return new CacheManager({ enabled: true, ttl, storage: 'localStorage', keyPrefix: 'test_registry_' });
+}
+
+Deno.test('DataSourceRegistry - retries the primary source with exponential backoff', async () => {
+    const registry = createRegistry();
+    servers.primary.unavailable = 2;
+
+    const started = Date.now();
+    const resource = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+
+    assertEquals(resource.content, 'primary');
+    assertEquals(resource.servedBy, { origin: 'primary' });
+    assertEquals(servers.primary.requests, 3);
+    assert(Date.now() - started >= 10 + 20);
+});
+
+Deno.test('DataSourceRegistry - falls back to a secondary source of the same provider type', async () => {
+    const registry = createRegistry();
+    servers.primary.unavailable = 3;
+
+    const resource = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+    const missing = await registry.fetch(ResourceType.FACT_TABLE, 'only-mirror.csv');
+
+    assertEquals(resource.content, 'mirror');
+    assertEquals(resource.servedBy, { origin: 'fallback' });
+    // A missing file is not retried, but may still exist in the fallback source
+    assertEquals(servers.primary.requests, 4);
+    assertEquals(missing.content, 'mirror');
+
+    servers.mirror.unavailable = 3;
+    assertEquals((await registry.list(ResourceType.FACT_TABLE, '')).map(entry => entry.path), ['tb.csv']);
+});
+
+Deno.test('DataSourceRegistry - follows the configured order', async () => {
+    const registry = createRegistry({ ...fallback, order: ['primary'], retryAttempts: 0 });
+    servers.primary.unavailable = 1;
+
+    const error = await assertRejects(() => registry.fetch(ResourceType.FACT_TABLE, 'tb.csv'));
+
+    assertEquals((error as any).code, ErrorCodes.NET_SERVER_ERROR);
+    assertEquals(servers.mirror.requests, 0);
+});
+
+Deno.test('DataSourceRegistry - serves cache entries and expired entries as a last resort', async () => {
+    const cache = createCache(1);
+    const registry = createRegistry(fallback, cache);
+
+    const fetched = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+    const cached = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+
+    assertEquals(fetched.servedBy?.origin, 'primary');
+    assertEquals(cached.servedBy?.origin, 'cache');
+    assertEquals(servers.primary.requests, 1);
+    assertEquals(servers.primary.revalidated, []);
+
+    // Let the entry expire while both sources are down
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    servers.primary.unavailable = 3;
+    servers.mirror.unavailable = 3;
+
+    const stale = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+
+    assertEquals(stale.content, 'primary');
+    assertEquals(stale.servedBy?.origin, 'stale-cache');
+    assertEquals(stale.servedBy?.cachedAt, cached.servedBy?.cachedAt);
+});
+
+Deno.test('DataSourceRegistry - fetches once without fallback configuration', async () => {
+    const registry = createRegistry({ ...fallback, enabled: false }, createCache());
+    servers.primary.unavailable = 1;
+
+    await assertRejects(() => registry.fetch(ResourceType.FACT_TABLE, 'tb.csv'));
+    const resource = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+
+    assertEquals(servers.primary.requests, 2);
+    assertEquals(servers.mirror.requests, 0);
+    assertEquals(resource.servedBy?.origin, 'primary');
+});
+
+Deno.test('DataSourceRegistry - passes expired cache entries to the source for revalidation', async () => {
+    const cache = createCache(1);
+    const registry = createRegistry(fallback, cache);
+
+    await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    servers.primary.files['tb.csv'] = 'updated';
+
+    const refreshed = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+    const cached = await registry.fetch(ResourceType.FACT_TABLE, 'tb.csv');
+
+    assertEquals(servers.primary.revalidated, ['primary']);
+    assertEquals(refreshed.content, 'updated');
+    assertEquals(cached.content, 'updated');
+    assertEquals(cached.servedBy?.origin, 'cache');
+    assertEquals((await cache.getStats()).totalEntries, 1);
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for GitHubProvider
+ */
+
+import './setup.ts'; // Mock Logger and localStorage
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { GitHubProvider } from '../../../src/config/datasources/GitHubProvider.ts';
+import { ErrorCodes } from '../../../src/errors/index.ts';
+
+interface RecordedRequest {
+    url: string;
+    headers: Record<string, string>;
+}
+
+// Helper to replace fetch with canned responses for the duration of a test
+async function withFetch(
+    respond: (request: RecordedRequest) => Response,
+    run: (requests: RecordedRequest[]) => Promise<void>
+): Promise<void> {
+    const originalFetch = globalThis.fetch;
+    const requests: RecordedRequest[] = [];
+    globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+        const request = {
+            url: String(input),
+            headers: Object.fromEntries(new Headers(init?.headers).entries()),
+        };
+        requests.push(request);
+        return Promise.resolve(respond(request));
+    }) as typeof fetch;
+
+    try {
+        await run(requests);
+    } finally {
+        globalThis.fetch = originalFetch;
+    }
+}
+
+Deno.test('GitHubProvider - requires owner and repo', async () => {
+    const provider = new GitHubProvider();
+
+    await assertRejects(() => provider.initialize({ owner: 'acme' }));
+    await assertRejects(() => provider.fetch('income_statement.json'));
+});
+
+Deno.test('GitHubProvider - fetches raw content from the configured branch and path', async () => {
+    const provider = new GitHubProvider();
+    await provider.initialize({ owner: 'acme', repo: 'reports', branch: 'release', path: '/definitions/', token: 'secret' });
+
+    await withFetch(
+        () => new Response('{"reportId":"income_statement"}', { headers: { etag: '"abc"' } }),
+        async (requests) => {
+            const resource = await provider.fetch('income statement.json');
+
+            assertEquals(requests[0].url,
+                'https://api.github.com/repos/acme/reports/contents/definitions/income%20statement.json?ref=release');
+            assertEquals(requests[0].headers['authorization'], 'Bearer secret');
+            assertEquals(requests[0].headers['accept'], 'application/vnd.github.raw');
+            assertEquals(resource.content, '{"reportId":"income_statement"}');
+            assertEquals(resource.metadata.etag, '"abc"');
+            assertEquals(resource.source, 'github');
+        }
+    );
+});
+
+Deno.test('GitHubProvider - revalidates a cached copy with its ETag', async () => {
+    const provider = new GitHubProvider();
+    await provider.initialize({ owner: 'acme', repo: 'reports' });
+
+    await withFetch(
+        (request) => request.headers['if-none-match'] === '"v1"'
+            ? new Response(null, { status: 304 })
+            : new Response('{"version":1}', { headers: { etag: '"v1"' } }),
+        async (requests) => {
+            const first = await provider.fetch('balance_sheet.json');
+            const second = await provider.fetch('balance_sheet.json', { cached: first });
+
+            assertEquals(requests.length, 2);
+            assertEquals(requests[0].headers['if-none-match'], undefined);
+            assertEquals(requests[1].headers['if-none-match'], '"v1"');
+            assertEquals(first.content, '{"version":1}');
+            assertEquals(second.content, '{"version":1}');
+        }
+    );
+});
+
+Deno.test('GitHubProvider - maps error responses', async () => {
+    const provider = new GitHubProvider();
+    await provider.initialize({ owner: 'acme', repo: 'reports' });
+
+    await withFetch(
+        (request) => request.url.includes('missing')
+            ? new Response('Not Found', { status: 404 })
+            : request.url.includes('limited')
+                ? new Response('rate limit', { status: 403, headers: { 'x-ratelimit-remaining': '0' } })
+                : new Response('Bad credentials', { status: 401 }),
+        async () => {
+            const missing = await assertRejects(() => provider.fetch('missing.json'));
+            const limited = await assertRejects(() => provider.fetch('limited.json'));
+            const denied = await assertRejects(() => provider.fetch('private.json'));
+
+            assertEquals((missing as any).code, ErrorCodes.DL_FILE_NOT_FOUND);
+            assertEquals(limited.message.includes('API rate limit exceeded'), true);
+            assertEquals((denied as any).code, ErrorCodes.DL_PERMISSION_DENIED);
+            assertEquals(await provider.exists('missing.json'), false);
+        }
+    );
+});
+
+Deno.test('GitHubProvider - lists a directory relative to the configured path', async () => {
+    const provider = new GitHubProvider();
+    await provider.initialize({ owner: 'acme', repo: 'reports', path: 'definitions' });
+
+    await withFetch(
+        () => Response.json([
+            { type: 'file', name: 'income_statement.json', path: 'definitions/income_statement.json', sha: 'a1', size: 120 },
+            { type: 'dir', name: 'archive', path: 'definitions/archive', sha: 'b2', size: 0 },
+        ]),
+        async (requests) => {
+            const entries = await provider.list('');
+
+            assertEquals(requests[0].url, 'https://api.github.com/repos/acme/reports/contents/definitions?ref=main');
+            assertEquals(entries.map(entry => [entry.path, entry.type, entry.size, entry.etag]), [
+                ['income_statement.json', 'file', 120, 'a1'],
+                ['archive', 'dir', 0, 'b2'],
+            ]);
+        }
+    );
+});
+
+Deno.test('GitHubProvider - tests the connection against the branch', async () => {
+    const provider = new GitHubProvider();
+    await provider.initialize({ owner: 'acme', repo: 'reports', branch: 'main' });
+
+    await withFetch(
+        () => Response.json({ name: 'main' }, { headers: { 'x-ratelimit-remaining': '4999' } }),
+        async (requests) => {
+            const result = await provider.testConnection();
+
+            assertEquals(requests[0].url, 'https://api.github.com/repos/acme/reports/branches/main');
+            assertEquals(result.success, true);
+            assertEquals(result.details?.rateLimitRemaining, '4999');
+        }
+    );
+});
@@ -0,0 +1,217 @@
+/**
+ * Unit tests for S3Provider
+ *
+ * Runs against an in-memory, MinIO-style stand-in (path-style addressing on
+ * http://localhost:9000) that checks the SigV4 signature of every request.
+ */
+
+import './setup.ts'; // Mock Logger and localStorage
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.208.0/assert/mod.ts';
+import { S3Provider } from '../../../src/config/datasources/S3Provider.ts';
+import { presignUrl, signRequest } from '../../../src/config/datasources/sigv4.ts';
+import { ErrorCodes } from '../../../src/errors/index.ts';
+
+const ENDPOINT = 'http://localhost:9000';
+const credentials = { accessKeyId: 'minioadmin', secretAccessKey: 'minio-secret' };
+
+interface StandInRequest {
+    method: string;
+    url: URL;
+    signedWith: 'header' | 'presigned' | 'none';
+}
+
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+// Parse the x-amz-date timestamp back into a Date
+const fromAmzDate = (value: string) => new Date(
+    `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T${value.slice(9, 11)}:${value.slice(11, 13)}:${value.slice(13, 15)}Z`
+);
+
+// Replace fetch with an in-memory bucket for the duration of a test
+async function withStandIn(
+    objects: Record<string, string>,
+    run: (requests: StandInRequest[]) => Promise<void>,
+    pageSize: number = 1000
+): Promise<void> {
+    const originalFetch = globalThis.fetch;
+    const requests: StandInRequest[] = [];
+
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+        const url = new URL(String(input));
+        const method = init?.method || 'GET';
+        const headers = new Headers(init?.headers);
+
+        // Verify the signature the way the server would
+        let signedWith: StandInRequest['signedWith'] = 'none';
+        let valid = false;
+        if (headers.has('authorization')) {
+            signedWith = 'header';
+            const expected = await signRequest({
+                method,
+                url: url.href,
+                region: 'us-east-1',
+                date: fromAmzDate(headers.get('x-amz-date')!),
+            }, credentials);
+            valid = expected.authorization === headers.get('authorization');
+        } else if (url.searchParams.has('X-Amz-Signature')) {
+            signedWith = 'presigned';
+            const unsigned = new URL(url.href);
+            for (const name of [...unsigned.searchParams.keys()].filter(key => key.startsWith('X-Amz-'))) {
+                unsigned.searchParams.delete(name);
+            }
+            const expected = await presignUrl({
+                method,
+                url: unsigned.href,
+                region: 'us-east-1',
+                expiresIn: Number(url.searchParams.get('X-Amz-Expires')),
+                date: fromAmzDate(url.searchParams.get('X-Amz-Date')!),
+            }, credentials);
+            valid = new URL(expected).searchParams.get('X-Amz-Signature') === url.searchParams.get('X-Amz-Signature');
+        }
+        requests.push({ method, url, signedWith });
+
+        if (!valid) {
+            return new Response('<Error><Code>SignatureDoesNotMatch</Code></Error>', { status: 403 });
+        }
+
+        const [, bucket, ...keyParts] = url.pathname.split('/');
+        if (bucket !== 'finance') {
+            return new Response('<Error><Code>NoSuchBucket</Code></Error>', { status: 404 });
+        }
+
+        // ListObjectsV2
+        if (url.searchParams.get('list-type') === '2') {
+            const prefix = url.searchParams.get('prefix') || '';
+            const keys = Object.keys(objects).filter(key => key.startsWith(prefix)).sort();
+            const files = keys.filter(key => !key.slice(prefix.length).includes('/'));
+            const folders = [...new Set(keys
+                .filter(key => key.slice(prefix.length).includes('/'))
+                .map(key => prefix + key.slice(prefix.length).split('/')[0] + '/'))];
+            const start = Number(url.searchParams.get('continuation-token') || 0);
+            const page = files.slice(start, start + pageSize);
+            const truncated = start + pageSize < files.length;
+
+            return new Response(
+                '<?xml version="1.0" encoding="UTF-8"?><ListBucketResult>' +
+                `<Name>finance</Name><Prefix>${escapeXml(prefix)}</Prefix><IsTruncated>${truncated}</IsTruncated>` +
+                (truncated ? `<NextContinuationToken>${start + pageSize}</NextContinuationToken>` : '') +
+                page.map(key => `<Contents><Key>${escapeXml(key)}</Key><LastModified>2025-02-01T08:00:00.000Z</LastModified>` +
+                    `<ETag>&quot;${key.length}&quot;</ETag><Size>${objects[key].length}</Size></Contents>`).join('') +
+                (start === 0 ? folders.map(folder => `<CommonPrefixes><Prefix>${escapeXml(folder)}</Prefix></CommonPrefixes>`).join('') : '') +
+                '</ListBucketResult>',
+                { headers: { 'content-type': 'application/xml' } }
+            );
+        }
+
+        const key = decodeURIComponent(keyParts.join('/'));
+        if (!(key in objects)) {
+            return new Response('<Error><Code>NoSuchKey</Code></Error>', { status: 404 });
+        }
+        return new Response(method === 'HEAD' ? null : objects[key], {
+            headers: {
+                'content-length': String(objects[key].length),
+                'content-type': 'text/csv',
+                'last-modified': 'Sat, 01 Feb 2025 08:00:00 GMT',
+                etag: `"${key.length}"`,
+            },
+        });
+    }) as typeof fetch;
+
+    try {
+        await run(requests);
+    } finally {
+        globalThis.fetch = originalFetch;
+    }
+}
+
+async function createProvider(config: Record<string, unknown> = {}): Promise<S3Provider> {
+    const provider = new S3Provider();
+    await provider.initialize({
+        bucket: 'finance',
+        region: 'us-east-1',
+        endpoint: ENDPOINT,
+        prefix: 'trial-balances/',
+        credentials,
+        ...config,
+    });
+    return provider;
+}
+
+const objects = {
+    'trial-balances/2025 (final).csv': 'Account;Amount\n8000;-100\n',
+    'trial-balances/2024.csv': 'Account;Amount\n8000;-90\n',
+    'trial-balances/archive/2023.csv': 'Account;Amount\n',
+    'other/readme.txt': 'not listed',
+};
+
+Deno.test('S3Provider - validates configuration', async () => {
+    const provider = new S3Provider();
+
+    await assertRejects(() => provider.initialize({ bucket: 'finance' }));
+    await assertRejects(() => provider.initialize({ bucket: 'finance', region: 'us-east-1', usePresignedUrls: true }));
+    await assertRejects(() => provider.initialize({ bucket: 'finance', region: 'us-east-1', endpoint: 'localhost:9000' }));
+    await assertRejects(() => provider.fetch('2025.csv'));
+});
+
+Deno.test('S3Provider - fetches objects with header signatures', async () => {
+    const provider = await createProvider();
+
+    await withStandIn(objects, async (requests) => {
+        const resource = await provider.fetch('2025 (final).csv');
+
+        assertEquals(requests[0].url.pathname, '/finance/trial-balances/2025%20%28final%29.csv');
+        assertEquals(requests[0].signedWith, 'header');
+        assertEquals(await (resource.content as Blob).text(), 'Account;Amount\n8000;-100\n');
+        assertEquals(resource.metadata.etag, '"31"');
+        assertEquals(resource.source, 's3');
+    });
+});
+
+Deno.test('S3Provider - fetches objects through presigned URLs', async () => {
+    const provider = await createProvider({ usePresignedUrls: true, presignedUrlExpiry: 60 });
+
+    await withStandIn(objects, async (requests) => {
+        const resource = await provider.fetch('2024.csv');
+        const url = new URL(await provider.getPresignedUrl('2024.csv', 300));
+
+        assertEquals(requests[0].signedWith, 'presigned');
+        assertEquals(requests[0].url.searchParams.get('X-Amz-Expires'), '60');
+        assertEquals(await (resource.content as Blob).text(), 'Account;Amount\n8000;-90\n');
+        assertEquals(url.searchParams.get('X-Amz-Expires'), '300');
+    });
+});
+
+Deno.test('S3Provider - lists by prefix across pages', async () => {
+    const provider = await createProvider();
+
+    await withStandIn(objects, async (requests) => {
+        const entries = await provider.list('');
+
+        assertEquals(requests.length, 2);
+        assertEquals(requests[0].url.searchParams.get('prefix'), 'trial-balances/');
+        assertEquals(entries.map(entry => [entry.path, entry.type, entry.size]), [
+            ['2024.csv', 'file', 24],
+            ['archive', 'dir', 0],
+            ['2025 (final).csv', 'file', 25],
+        ]);
+        assertEquals((await provider.list('archive')).map(entry => entry.path), ['archive/2023.csv']);
+    }, 1);
+});
+
+Deno.test('S3Provider - maps missing objects and rejected signatures', async () => {
+    const provider = await createProvider();
+    const wrongKey = await createProvider({ credentials: { accessKeyId: 'minioadmin', secretAccessKey: 'wrong' } });
+
+    await withStandIn(objects, async () => {
+        const missing = await assertRejects(() => provider.fetch('2026.csv'));
+        const denied = await assertRejects(() => wrongKey.fetch('2024.csv'));
+
+        assertEquals((missing as any).code, ErrorCodes.DL_FILE_NOT_FOUND);
+        assertEquals((denied as any).code, ErrorCodes.DL_PERMISSION_DENIED);
+        assertEquals(await provider.exists('2024.csv'), true);
+        assertEquals(await provider.exists('2026.csv'), false);
+        assertEquals((await provider.getMetadata('2024.csv')).size, 24);
+        assertEquals((await provider.testConnection()).success, true);
+        assertEquals((await wrongKey.testConnection()).success, false);
+    });
+});
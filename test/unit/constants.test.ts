@@ -91,3 +91,22 @@ Deno.test("YEAR_CONFIG - all getters work consistently", () => {
         assertEquals(YEAR_CONFIG.getAmountColumn(year), amountColumns[index]);
     });
 });
+
+Deno.test("YEAR_CONFIG.setYears - overrides years with loaded years", () => {
+    YEAR_CONFIG.setYears(['2025', 2023, '2024', '2023']);
+    try {
+        assertEquals(YEAR_CONFIG.years, ['2023', '2024', '2025']);
+        assertEquals(YEAR_CONFIG.yearCount, 3);
+        assertEquals(YEAR_CONFIG.getYear(2), '2025');
+        assertEquals(YEAR_CONFIG.amountColumns, ['amount_2023', 'amount_2024', 'amount_2025']);
+        assertEquals(YEAR_CONFIG.yearPairs.length, 2);
+    } finally {
+        YEAR_CONFIG.resetYears();
+    }
+    assertEquals(YEAR_CONFIG.years, APP_CONFIG.YEARS);
+});
+
+Deno.test("YEAR_CONFIG.amountsFor - maps values to amount columns", () => {
+    assertEquals(YEAR_CONFIG.amountsFor({ '2024': 100 }), { amount_2024: 100, amount_2025: null });
+    assertEquals(YEAR_CONFIG.amountsFor(), { amount_2024: null, amount_2025: null });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit Tests for the indirect-method cash flow engine
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    buildCashFlowVariables,
+    changeVariable,
+    classifyCashFlowCategory,
+    isCashFlowVariable
+} from "../../../../src/core/calculations/cashflow.ts";
+import { buildYearColumns } from "../../../../src/core/calculations/columns.ts";
+
+// Mock Arquero for testing (string filter expressions and objects())
+const mockAq = {
+    from: (data: any[]): any => ({
+        filter: (expr: string) => {
+            const filterFn = new Function('d', `return ${expr.replace('d => ', '')}`);
+            return mockAq.from(data.filter(row => filterFn(row)));
+        },
+        objects: () => data
+    })
+};
+
+const ACCOUNTS: Record<string, { statement_type: string; code1: string; name1: string }> = {
+    revenue: { statement_type: 'IS', code1: '500', name1: 'Netto-omzet' },
+    depreciation: { statement_type: 'IS', code1: '520', name1: 'Afschrijvingen' },
+    fixed: { statement_type: 'BS', code1: '10', name1: 'Materiële vaste activa' },
+    receivables: { statement_type: 'BS', code1: '40', name1: 'Vorderingen' },
+    cash: { statement_type: 'BS', code1: '50', name1: 'Liquide middelen' },
+    equity: { statement_type: 'BS', code1: '60', name1: 'Eigen vermogen' },
+    loans: { statement_type: 'BS', code1: '70', name1: 'Langlopende schulden' }
+};
+
+// Balanced journal entries per period: [account, amount] (debit positive)
+const JOURNAL: Record<number, [string, number][]> = {
+    1: [['receivables', 1000], ['revenue', -1000], ['depreciation', 50], ['fixed', -50]],
+    2: [['cash', 800], ['receivables', -800], ['fixed', 400], ['cash', -400]],
+    3: [['cash', 300], ['loans', -300]]
+};
+const OPENING: Record<string, number> = { cash: 200, equity: -200 };
+
+const buildData = () => {
+    const movements: any[] = [];
+    const balances: any[] = [];
+    const running: Record<string, number> = { ...OPENING };
+
+    for (const period of [1, 2, 3]) {
+        for (const [account, amount] of JOURNAL[period]) {
+            movements.push({ ...ACCOUNTS[account], year: 2025, period, movement_amount: amount });
+            running[account] = (running[account] ?? 0) + amount;
+        }
+        for (const [account, amount] of Object.entries(running)) {
+            if (ACCOUNTS[account].statement_type === 'BS' && amount !== 0) {
+                balances.push({ ...ACCOUNTS[account], year: 2025, period, movement_amount: amount });
+            }
+        }
+    }
+
+    return { movements: mockAq.from(movements), balances: mockAq.from(balances) };
+};
+
+describe("Cash Flow Engine", () => {
+    describe("classifyCashFlowCategory()", () => {
+        it("should assign balance sheet categories to sections", () => {
+            assertEquals(classifyCashFlowCategory('10', 'Materiële vaste activa'), 'investing');
+            assertEquals(classifyCashFlowCategory('20', 'Immateriële vaste activa'), 'investing');
+            assertEquals(classifyCashFlowCategory('40', 'Vorderingen'), 'operating');
+            assertEquals(classifyCashFlowCategory('50', 'Liquide middelen'), 'cash');
+            assertEquals(classifyCashFlowCategory('60', 'Eigen vermogen'), 'financing');
+            assertEquals(classifyCashFlowCategory('70', 'Langlopende schulden'), 'financing');
+            assertEquals(classifyCashFlowCategory('80', 'Kortlopende schulden'), 'operating');
+        });
+
+        it("should not treat bank debts as cash", () => {
+            assertEquals(classifyCashFlowCategory('80', 'Schulden aan banken'), 'operating');
+        });
+    });
+
+    describe("variable names", () => {
+        it("should name category variables by code1", () => {
+            assertEquals(changeVariable('40'), 'change_40');
+            assertEquals(changeVariable('4.1'), 'change_4_1');
+            assertEquals(changeVariable(''), 'change_other');
+        });
+
+        it("should recognise engine variables", () => {
+            assertEquals(isCashFlowVariable('net_income'), true);
+            assertEquals(isCashFlowVariable('change_40'), true);
+            assertEquals(isCashFlowVariable('revenue'), false);
+        });
+    });
+
+    describe("buildCashFlowVariables()", () => {
+        it("should build the indirect-method sections", () => {
+            const { movements, balances } = buildData();
+            const variables = buildCashFlowVariables(movements, balances, buildYearColumns([2025]));
+            const value = (name: string) => variables.get(name)?.['2025'];
+
+            assertEquals(value('net_income'), 950);
+            assertEquals(value('depreciation'), 50);
+            assertEquals(value('change_40'), -200);
+            assertEquals(value('working_capital'), -200);
+            assertEquals(value('operating_cash_flow'), 800);
+            assertEquals(value('investing_cash_flow'), -400);
+            assertEquals(value('financing_cash_flow'), 300);
+            assertEquals(value('net_change_in_cash'), 700);
+        });
+
+        it("should reconcile with the cash balances", () => {
+            const { movements, balances } = buildData();
+            const variables = buildCashFlowVariables(movements, balances, buildYearColumns([2025]));
+
+            assertEquals(variables.get('cash_start'), { '2025': 200 });
+            assertEquals(variables.get('cash_end'), { '2025': 900 });
+            assertEquals(variables.get('cash_difference'), { '2025': 0 });
+        });
+
+        it("should calculate each column over its own periods", () => {
+            const { movements, balances } = buildData();
+            const columns = [
+                { key: 'P1', year: 2025, fromPeriod: 1, toPeriod: 1 },
+                { key: 'P2-P3', year: 2025, fromPeriod: 2, toPeriod: 3 }
+            ];
+            const variables = buildCashFlowVariables(movements, balances, columns);
+
+            assertEquals(variables.get('net_income'), { 'P1': 950, 'P2-P3': 0 });
+            assertEquals(variables.get('cash_start'), { 'P1': 200, 'P2-P3': 200 });
+            assertEquals(variables.get('cash_end'), { 'P1': 200, 'P2-P3': 900 });
+            assertEquals(variables.get('cash_difference'), { 'P1': 0, 'P2-P3': 0 });
+        });
+
+        it("should reconcile when only the year-end balances are known", () => {
+            const { movements, balances } = buildData();
+            const yearEnd = mockAq.from(balances.objects()
+                .filter(row => row.period === 3)
+                .map(row => ({ ...row, period: 12 })));
+            const columns = [...buildYearColumns([2025]), { key: 'P2', year: 2025, fromPeriod: 2, toPeriod: 2 }];
+            const variables = buildCashFlowVariables(movements, yearEnd, columns);
+
+            assertEquals(variables.get('cash_start'), { '2025': 200, 'P2': 200 });
+            assertEquals(variables.get('cash_end'), { '2025': 900, 'P2': 600 });
+            assertEquals(variables.get('cash_difference'), { '2025': 0, 'P2': 0 });
+        });
+
+        it("should report a difference when the cash accounts do not match", () => {
+            const { movements } = buildData();
+            const variables = buildCashFlowVariables(movements, mockAq.from([
+                { ...ACCOUNTS.cash, year: 2025, period: 1, movement_amount: 200 },
+                { ...ACCOUNTS.cash, year: 2025, period: 3, movement_amount: 850 }
+            ]), buildYearColumns([2025]));
+
+            assertEquals(variables.get('cash_difference'), { '2025': 50 });
+        });
+
+        it("should return included categories without movements as 0", () => {
+            const { movements, balances } = buildData();
+            const variables = buildCashFlowVariables(movements, balances, buildYearColumns([2025]), ['change_30']);
+
+            assertEquals(variables.get('change_30'), { '2025': 0 });
+            assertEquals(variables.has('change_90'), false);
+        });
+    });
+});
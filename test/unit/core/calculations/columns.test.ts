@@ -0,0 +1,254 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    buildYearColumns,
+    buildMonthColumns,
+    buildScenarioColumns,
+    buildScenarioComparison,
+    buildConsolidationColumns,
+    scenariosOf,
+    ACTUAL_SCENARIO,
+    ELIMINATION_ENTITY,
+    amountField,
+    formattedField,
+    resolvePeriodColumns,
+    resolveComparison,
+    buildColumnFilterExpression,
+    amountKeysOf,
+    resolvePeriodSelector,
+    buildReferenceColumns
+} from "../../../../src/core/calculations/columns.ts";
+
+describe('Period Columns', () => {
+    describe('buildYearColumns', () => {
+        it('creates one column per year keyed by year', () => {
+            const columns = buildYearColumns([2023, '2024', 2025]);
+
+            assertEquals(columns.map(column => column.key), ['2023', '2024', '2025']);
+            assertEquals(columns[1].year, 2024);
+            assertEquals(columns[1].label, '2024');
+            assertEquals(columns[1].fromPeriod, undefined);
+        });
+
+        it('returns no columns for no years', () => {
+            assertEquals(buildYearColumns([]), []);
+        });
+    });
+
+    describe('buildMonthColumns', () => {
+        it('creates twelve monthly columns by default', () => {
+            const columns = buildMonthColumns(2025);
+
+            assertEquals(columns.length, 12);
+            assertEquals(columns[0].key, '2025_P1');
+            assertEquals(columns[11].key, '2025_P12');
+            assertEquals(columns[2].fromPeriod, 3);
+            assertEquals(columns[2].toPeriod, 3);
+            assertEquals(columns[2].label, '2025 P3');
+        });
+
+        it('creates columns for a period range', () => {
+            const columns = buildMonthColumns(2024, 10, 12);
+
+            assertEquals(columns.map(column => column.key), ['2024_P10', '2024_P11', '2024_P12']);
+        });
+    });
+
+    describe('scenario columns', () => {
+        it('creates one column per scenario', () => {
+            const columns = buildScenarioColumns(2025, ['actual', 'budget'], { fromPeriod: 1, toPeriod: 6 });
+
+            assertEquals(columns.map(column => column.key), ['2025_actual', '2025_budget']);
+            assertEquals(columns[1].label, 'Budget 2025');
+            assertEquals(columns[1].scenario, 'budget');
+            assertEquals(columns[1].toPeriod, 6);
+        });
+
+        it('compares actuals against a scenario', () => {
+            const { columns, comparison } = buildScenarioComparison(2025, 'budget');
+
+            assertEquals(columns.map(column => column.scenario), [ACTUAL_SCENARIO, 'budget']);
+            assertEquals(comparison, { base: '2025_budget', compare: '2025_actual' });
+        });
+
+        it('lists scenarios other than actuals', () => {
+            const columns = [
+                ...buildScenarioColumns(2025, ['actual', 'budget', 'forecast']),
+                ...buildScenarioColumns(2024, ['budget'])
+            ];
+            assertEquals(scenariosOf(columns), ['budget', 'forecast']);
+            assertEquals(scenariosOf(buildYearColumns([2024, 2025])), []);
+        });
+    });
+
+    describe('consolidation columns', () => {
+        it('creates entity and elimination columns and a consolidated total', () => {
+            const columns = buildConsolidationColumns(2025, ['holding', 'opco'], { fromPeriod: 1, toPeriod: 6 });
+
+            assertEquals(columns.map(column => column.key), ['2025_holding', '2025_opco', '2025_elimination', '2025_consolidated']);
+            assertEquals(columns.map(column => column.entity), ['holding', 'opco', ELIMINATION_ENTITY, undefined]);
+            assertEquals(columns[2].label, 'Elimination 2025');
+            assertEquals(columns[3].toPeriod, 6);
+        });
+    });
+
+    describe('field names', () => {
+        it('builds amount and formatted field names', () => {
+            assertEquals(amountField('2024'), 'amount_2024');
+            assertEquals(formattedField('2025_P3'), 'formatted_2025_P3');
+        });
+
+        it('finds amount keys on a row', () => {
+            const row = { label: 'Revenue', amount_2024: 1, amount_2025_P1: 2, variance_amount: 1 };
+            assertEquals(amountKeysOf(row), ['2024', '2025_P1']);
+        });
+    });
+
+    describe('resolvePeriodColumns', () => {
+        it('derives year columns from years', () => {
+            const columns = resolvePeriodColumns({ years: [2024, 2025] });
+            assertEquals(columns.map(column => column.key), ['2024', '2025']);
+        });
+
+        it('prefers explicit columns over years', () => {
+            const columns = resolvePeriodColumns({
+                years: [2024, 2025],
+                columns: buildMonthColumns(2025, 1, 2)
+            });
+            assertEquals(columns.map(column => column.key), ['2025_P1', '2025_P2']);
+        });
+
+        it('pins columns without a scenario to actuals when scenarios are mixed', () => {
+            const columns = resolvePeriodColumns({
+                columns: [
+                    { key: '2025', year: 2025 },
+                    { key: '2025_budget', year: 2025, scenario: 'budget' }
+                ]
+            });
+            assertEquals(columns.map(column => column.scenario), [ACTUAL_SCENARIO, 'budget']);
+        });
+
+        it('returns no columns without options', () => {
+            assertEquals(resolvePeriodColumns(), []);
+        });
+    });
+
+    describe('resolveComparison', () => {
+        it('defaults to the last two columns', () => {
+            const comparison = resolveComparison(buildYearColumns([2021, 2022, 2023, 2024, 2025]));
+            assertEquals(comparison, { base: '2024', compare: '2025' });
+        });
+
+        it('uses a requested pair', () => {
+            const comparison = resolveComparison(
+                buildYearColumns([2021, 2022, 2023, 2024, 2025]),
+                { base: '2021', compare: '2025' }
+            );
+            assertEquals(comparison, { base: '2021', compare: '2025' });
+        });
+
+        it('returns null with fewer than two columns', () => {
+            assertEquals(resolveComparison(buildYearColumns([2025])), null);
+        });
+
+        it('throws for an unknown column key', () => {
+            assertThrows(
+                () => resolveComparison(buildYearColumns([2024, 2025]), { base: '2023', compare: '2025' }),
+                Error,
+                'Unknown comparison column: 2023'
+            );
+        });
+    });
+
+    describe('buildColumnFilterExpression', () => {
+        it('filters a full-year column on year only', () => {
+            assertEquals(
+                buildColumnFilterExpression({ key: '2024', year: 2024 }),
+                'd => d.year === 2024'
+            );
+        });
+
+        it('filters a period range on year and period', () => {
+            assertEquals(
+                buildColumnFilterExpression({ key: 'YTD', year: 2025, fromPeriod: 1, toPeriod: 9 }),
+                'd => d.year === 2025 && d.period >= 1 && d.period <= 9'
+            );
+        });
+
+        it('filters a scenario column on scenario', () => {
+            assertEquals(
+                buildColumnFilterExpression({ key: '2025_budget', year: 2025, scenario: 'budget' }),
+                'd => d.year === 2025 && d.scenario === "budget"'
+            );
+        });
+
+        it('filters an entity column on entity', () => {
+            assertEquals(
+                buildColumnFilterExpression({ key: '2025_opco', year: 2025, entity: 'opco' }),
+                'd => d.year === 2025 && d.entity === "opco"'
+            );
+        });
+    });
+
+    describe('resolvePeriodSelector', () => {
+        const month = { key: '2025_P1', year: 2025, fromPeriod: 1, toPeriod: 1 };
+
+        it('resolves prior to the same periods a year earlier', () => {
+            assertEquals(resolvePeriodSelector({ key: '2025', year: 2025 }, 'prior'), { key: 'ref:2024', year: 2024, label: '2024' });
+            assertEquals(resolvePeriodSelector(month, 'prior')?.key, 'ref:2024_P1');
+        });
+
+        it('resolves a year to the same periods in that year', () => {
+            const target = resolvePeriodSelector({ key: 'YTD', year: 2025, fromPeriod: 1, toPeriod: 6 }, '2023');
+            assertEquals(target, { key: 'ref:2023_P1-P6', year: 2023, fromPeriod: 1, toPeriod: 6, label: '2023 P1-P6' });
+        });
+
+        it('steps back by the column length for P-n', () => {
+            assertEquals(resolvePeriodSelector(month, 'P-1'), { key: 'ref:2024_P12', year: 2024, fromPeriod: 12, toPeriod: 12, label: '2024 P12' });
+            assertEquals(resolvePeriodSelector(month, 'P-13')?.key, 'ref:2023_P12');
+            assertEquals(resolvePeriodSelector({ key: '2025', year: 2025 }, 'P-2')?.key, 'ref:2023');
+            assertEquals(resolvePeriodSelector({ key: 'H2', year: 2025, fromPeriod: 7, toPeriod: 12 }, 'P-1')?.key, 'ref:2025_P1-P6');
+        });
+
+        it('returns null when the target would span two years', () => {
+            assertEquals(resolvePeriodSelector({ key: 'Q', year: 2025, fromPeriod: 2, toPeriod: 4 }, 'P-1'), null);
+        });
+
+        it('keeps the scenario of the column', () => {
+            const target = resolvePeriodSelector({ key: '2025_budget', year: 2025, scenario: 'budget' }, 'prior');
+            assertEquals(target?.key, 'ref:2024_budget');
+            assertEquals(target?.scenario, 'budget');
+        });
+
+        it('throws for an unknown selector', () => {
+            assertThrows(() => resolvePeriodSelector(month, 'last'), Error, 'Invalid period selector');
+        });
+    });
+
+    describe('buildReferenceColumns', () => {
+        it('references displayed columns and adds hidden ones for the rest', () => {
+            const { columns, references } = buildReferenceColumns(buildYearColumns([2024, 2025]), ['prior']);
+
+            assertEquals(columns.map(column => column.key), ['ref:2023']);
+            assertEquals(references, {
+                '2024': { prior: 'ref:2023' },
+                '2025': { prior: '2024' },
+                'ref:2023': { prior: null }
+            });
+        });
+
+        it('adds each hidden column once', () => {
+            const { columns, references } = buildReferenceColumns(buildMonthColumns(2025, 1, 2), ['P-1', 'prior']);
+
+            assertEquals(columns.map(column => column.key), ['ref:2024_P12', 'ref:2024_P1', 'ref:2024_P2']);
+            assertEquals(references['2025_P2'], { 'P-1': '2025_P1', prior: 'ref:2024_P2' });
+            assertEquals(references['ref:2024_P2'], { 'P-1': 'ref:2024_P1', prior: null });
+        });
+
+        it('returns no hidden columns without selectors', () => {
+            const { columns, references } = buildReferenceColumns(buildYearColumns([2025]), []);
+            assertEquals(columns, []);
+            assertEquals(references, { '2025': {} });
+        });
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    buildEliminationRows,
+    entitiesOf,
+    isIntercompanyAccount,
+    type IntercompanyRule
+} from "../../../../src/core/calculations/consolidation.ts";
+import { ELIMINATION_ENTITY } from "../../../../src/core/calculations/columns.ts";
+
+const rules: Record<string, IntercompanyRule> = {
+    receivables: { accountCodes: ['^145\\d$'] },
+    groupCompanies: { descriptions: ['Groepsmaatschappij'] }
+};
+
+describe('Consolidation', () => {
+    describe('isIntercompanyAccount', () => {
+        it('matches account code patterns and descriptions', () => {
+            assertEquals(isIntercompanyAccount({ account_code: '1450' }, rules), true);
+            assertEquals(isIntercompanyAccount({ account_code: '14500' }, rules), false);
+            assertEquals(isIntercompanyAccount({ account_code: '1600', account_description: 'Schuld aan groepsmaatschappijen' }, rules), true);
+            assertEquals(isIntercompanyAccount({ account_code: '8000', account_description: 'Omzet' }, rules), false);
+            assertEquals(isIntercompanyAccount({ account_code: '1450' }, {}), false);
+        });
+    });
+
+    describe('buildEliminationRows', () => {
+        it('reverses the intercompany rows of each entity', () => {
+            const rows = [
+                { entity: 'holding', account_code: '1450', period: 3, movement_amount: 500 },
+                { entity: 'opco', account_code: '1600', account_description: 'Groepsmaatschappij', period: 3, movement_amount: -500 },
+                { entity: 'opco', account_code: '8000', period: 3, movement_amount: -1200 },
+                { entity: ELIMINATION_ENTITY, account_code: '1450', period: 3, movement_amount: -500 }
+            ];
+
+            const eliminations = buildEliminationRows(rows, rules);
+            assertEquals(eliminations.map(row => [row.entity, row.account_code, row.movement_amount]), [
+                [ELIMINATION_ENTITY, '1450', -500],
+                [ELIMINATION_ENTITY, '1600', 500]
+            ]);
+            assertEquals(eliminations[0].period, 3);
+        });
+
+        it('negates the given amount field', () => {
+            const eliminations = buildEliminationRows([{ entity: 'opco', account_code: '1451', balance_amount: 75 }], rules, 'balance_amount');
+            assertEquals(eliminations[0].balance_amount, -75);
+        });
+    });
+
+    describe('entitiesOf', () => {
+        it('lists distinct entities without the eliminations', () => {
+            assertEquals(entitiesOf(['holding', 'opco', 'holding', ELIMINATION_ENTITY, null, '']), ['holding', 'opco']);
+        });
+    });
+});
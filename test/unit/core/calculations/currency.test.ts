@@ -0,0 +1,95 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    createRateLookup,
+    currencySymbol,
+    parseFxRates,
+    translateTrialBalance,
+    type FxRate
+} from "../../../../src/core/calculations/currency.ts";
+
+const rates: FxRate[] = [
+    { currency: 'USD', year: 2025, period: 1, average: 0.9, closing: 0.8 },
+    { currency: 'USD', year: 2025, period: 2, average: 0.5, closing: 0.5 }
+];
+
+const account = { account_code: '0590', account_description: 'Omrekeningsverschillen', code1: '05' };
+
+const row = (account_code: string, statement_type: string, period: number, movement_amount: number) =>
+    ({ account_code, statement_type, year: 2025, period, scenario: 'actual', movement_amount });
+
+describe('Currency Translation', () => {
+    describe('parseFxRates', () => {
+        it('reads rows with a header row and rate objects', () => {
+            const parsed = parseFxRates([
+                ['Currency', 'Year', 'Period', 'Average', 'Closing'],
+                ['usd', '2025', '1', '0,9', '0.8']
+            ]);
+            assertEquals(parsed, [rates[0]]);
+            assertEquals(parseFxRates([{ Currency: 'USD', year: 2025, period: 2, average: 0.5, closing: 0.5 }]), [rates[1]]);
+            assertEquals(parseFxRates([]), []);
+        });
+
+        it('rejects missing columns and invalid rates', () => {
+            assertThrows(() => parseFxRates([['currency', 'year', 'period', 'rate']]), Error, 'missing columns: average, closing');
+            assertThrows(() => parseFxRates([{ currency: 'USD', year: 2025, period: 1, average: 0, closing: 1 }]), Error, 'row 1');
+        });
+    });
+
+    describe('createRateLookup', () => {
+        it('finds rates by currency, year and period', () => {
+            const lookup = createRateLookup(rates);
+            assertEquals(lookup('usd', 2025, 1, 'average'), 0.9);
+            assertEquals(lookup('USD', 2025, 2, 'closing'), 0.5);
+            assertEquals(lookup('GBP', 2025, 1, 'closing'), undefined);
+        });
+    });
+
+    describe('translateTrialBalance', () => {
+        it('translates income statement rows at average and balance sheet rows at closing rates', () => {
+            const { movements } = translateTrialBalance({
+                movements: [row('8000', 'IS', 1, -100), row('1300', 'BS', 1, 100)],
+                balances: []
+            }, 'USD', rates, account);
+
+            assertEquals(movements.map(movement => [movement.account_code, movement.movement_amount, movement.local_amount]), [
+                ['8000', -90, -100],
+                ['1300', 80, 100],
+                ['0590', 10, 0]
+            ]);
+            assertEquals(movements[2].statement_type, 'BS');
+            assertEquals(movements[2].currency, 'USD');
+            assertEquals(movements.reduce((total, movement) => total + movement.movement_amount, 0), 0);
+        });
+
+        it('translates income statement balances as their translated movements', () => {
+            const { balances } = translateTrialBalance({
+                movements: [row('8000', 'IS', 1, -100), row('8000', 'IS', 2, -100), row('1300', 'BS', 2, 200)],
+                balances: [row('8000', 'IS', 2, -200), row('1300', 'BS', 2, 200)]
+            }, 'USD', rates, account);
+
+            assertEquals(balances.map(balance => [balance.account_code, balance.movement_amount]), [
+                ['8000', -140],
+                ['1300', 100],
+                ['0590', 40]
+            ]);
+        });
+
+        it('throws when a rate is missing', () => {
+            assertThrows(
+                () => translateTrialBalance({ movements: [row('8000', 'IS', 3, -100)], balances: [] }, 'USD', rates, account),
+                Error,
+                'No average USD rate for 2025 period 3'
+            );
+        });
+    });
+
+    describe('currencySymbol', () => {
+        it('returns the symbol, or the code without one', () => {
+            assertEquals(currencySymbol('EUR'), '€');
+            assertEquals(currencySymbol('USD'), '$');
+            assertEquals(currencySymbol('XYZ'), 'XYZ');
+            assertEquals(currencySymbol('not a code'), 'not a code');
+        });
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Unit Tests for statement row drill-down
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    buildAccountBreakdown,
+    buildFormulaTree
+} from "../../../../src/core/calculations/drilldown.ts";
+import { buildYearColumns } from "../../../../src/core/calculations/columns.ts";
+
+// Mock Arquero for testing (string filter expressions, objects() and array())
+const mockAq = {
+    from: (data: any[]): any => ({
+        filter: (expr: string) => {
+            const filterFn = new Function('d', `return ${expr.replace(/^d => /, '')}`);
+            return mockAq.from(data.filter(row => filterFn(row)));
+        },
+        objects: () => data,
+        array: (column: string) => data.map(row => row[column])
+    })
+};
+
+const row = (account_code: string, code1: string, year: number, period: number, movement_amount: number) => ({
+    account_code,
+    account_description: `Account ${account_code}`,
+    code1,
+    name1: `Category ${code1}`,
+    year,
+    period,
+    movement_amount
+});
+
+const data = mockAq.from([
+    row('8000', '500', 2024, 1, -100),
+    row('8000', '500', 2024, 2, -150),
+    row('8010', '500', 2025, 1, -200),
+    row('8000', '500', 2025, 2, -300),
+    row('7000', '510', 2025, 1, 120)
+]);
+
+const columns = buildYearColumns([2024, 2025]);
+
+describe("Drill-Down", () => {
+    describe("buildAccountBreakdown()", () => {
+        it("should list the filtered accounts with amounts per column and period", () => {
+            const breakdown = buildAccountBreakdown(data, { code1: '500' }, columns);
+
+            assertEquals(breakdown.accounts.map(account => account.account_code), ['8000', '8010']);
+            assertEquals(breakdown.accounts[0].columns, { '2024': -250, '2025': -300 });
+            assertEquals(breakdown.accounts[0].periods, { '2024-1': -100, '2024-2': -150, '2025-2': -300 });
+            assertEquals(breakdown.periods.map(period => period.label), ['2024 P1', '2024 P2', '2025 P1', '2025 P2']);
+            assertEquals(breakdown.totals, { '2024': -250, '2025': -500 });
+        });
+
+        it("should only include periods of the columns", () => {
+            const breakdown = buildAccountBreakdown(data, { code1: '500' }, [
+                { key: 'P1', year: 2025, fromPeriod: 1, toPeriod: 1 }
+            ]);
+
+            assertEquals(breakdown.accounts.map(account => account.account_code), ['8010']);
+            assertEquals(breakdown.accounts[0].columns, { 'P1': -200 });
+            assertEquals(breakdown.periods.map(period => period.key), ['2025-1']);
+            assertEquals(breakdown.totals, { 'P1': -200 });
+        });
+
+        it("should use the closing period for closing variables", () => {
+            const balances = mockAq.from([
+                row('1000', '50', 2025, 1, 400),
+                row('1000', '50', 2025, 2, 450),
+                row('1010', '50', 2025, 1, 100),
+                row('4000', '40', 2025, 2, 75)
+            ]);
+            const breakdown = buildAccountBreakdown(balances, { code1: '50' }, buildYearColumns([2025]), 'closing');
+
+            assertEquals(breakdown.accounts.map(account => account.columns), [{ '2025': 450 }, { '2025': 0 }]);
+            assertEquals(breakdown.totals, { '2025': 450 });
+        });
+
+        it("should return no accounts when nothing matches", () => {
+            const breakdown = buildAccountBreakdown(data, { code1: '999' }, columns);
+
+            assertEquals(breakdown.accounts, []);
+            assertEquals(breakdown.totals, { '2024': 0, '2025': 0 });
+        });
+    });
+
+    describe("buildFormulaTree()", () => {
+        const rows = [
+            { order: 100, label: 'Revenue', type: 'variable', amount_2025: 500, _metadata: { variable: 'revenue' } },
+            { order: 200, label: 'Costs', type: 'category', amount_2025: -120, _metadata: { filter: { code1: '510' } } },
+            { order: 250, type: 'spacer', _metadata: {} },
+            { order: 300, label: 'Gross margin', type: 'subtotal', amount_2025: 380, _metadata: { calculatedFrom: [100, 250] as [number, number] } },
+            { order: 400, label: 'Margin %', type: 'calculated', amount_2025: 76, _metadata: { expression: '@300 / revenue[prior] * 100' } },
+            { order: 500, label: 'Loop', type: 'calculated', amount_2025: 0, _metadata: { expression: '@500 + tax' } }
+        ];
+        const variables = {
+            revenue: { filter: { code1: '500' }, aggregate: 'sum' },
+            tax: { filter: { code1: '540' } }
+        };
+        const yearColumns = buildYearColumns([2025]);
+
+        it("should expand calculated rows and subtotals down to filtered leaves", () => {
+            const tree = buildFormulaTree(rows[4], rows, variables, yearColumns);
+
+            assertEquals(tree.expression, '@300 / revenue[prior] * 100');
+            assertEquals(tree.amounts, { '2025': 76 });
+            assertEquals(tree.children.map(child => child.reference), ['@300', 'revenue[prior]']);
+
+            const subtotal = tree.children[0];
+            assertEquals(subtotal.label, 'Gross margin');
+            assertEquals(subtotal.children.map(child => child.label), ['Revenue', 'Costs']);
+            assertEquals(subtotal.children[0].filter, { code1: '500' });
+            assertEquals(subtotal.children[0].aggregate, 'sum');
+            assertEquals(subtotal.children[1].filter, { code1: '510' });
+        });
+
+        it("should describe variables with their filter and period", () => {
+            const variable = buildFormulaTree(rows[4], rows, variables, yearColumns).children[1];
+
+            assertEquals(variable.kind, 'variable');
+            assertEquals(variable.label, 'Revenue');
+            assertEquals(variable.period, 'prior');
+            assertEquals(variable.amounts, undefined);
+            assertEquals(variable.filter, { code1: '500' });
+        });
+
+        it("should mark circular references", () => {
+            const tree = buildFormulaTree(rows[5], rows, variables, yearColumns);
+
+            assertEquals(tree.children[0].circular, true);
+            assertEquals(tree.children[1].label, 'tax');
+            assertEquals(tree.children[1].amounts, undefined);
+        });
+
+        it("should return a leaf for variable rows", () => {
+            const tree = buildFormulaTree(rows[0], rows, variables, yearColumns);
+
+            assertEquals(tree.children, []);
+            assertEquals(tree.variable, 'revenue');
+            assertEquals(tree.filter, { code1: '500' });
+        });
+    });
+});
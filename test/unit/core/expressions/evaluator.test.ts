@@ -18,7 +18,12 @@ import {
     type ASTNode,
     type NumberNode,
     type VariableNode,
-    type BinaryNode
+    type BinaryNode,
+    type FunctionNode,
+    type OrderNode,
+    EXPRESSION_FUNCTIONS,
+    referenceKey,
+    parseReferenceKey
 } from '../../../../src/core/expressions/evaluator.ts';
 
 describe('Expression Evaluator - Functional', () => {
@@ -661,6 +666,202 @@ describe('Expression Evaluator - Functional', () => {
         });
     });
 
+    // ========================================================================
+    // Comparison Tests
+    // ========================================================================
+
+    describe('comparisons', () => {
+        it('should tokenize two-character comparison operators', () => {
+            const result = tokenize('a <= b != c');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value.map(t => t.value), ['a', '<=', 'b', '!=', 'c']);
+            }
+        });
+
+        it('should evaluate comparisons to 1 or 0', () => {
+            const cases: Array<[string, number]> = [
+                ['1 < 2', 1], ['2 < 1', 0], ['2 <= 2', 1], ['3 > 2', 1],
+                ['2 >= 3', 0], ['2 == 2', 1], ['2 != 2', 0]
+            ];
+            for (const [expression, expected] of cases) {
+                const result = evaluateExpression(expression, {});
+                assertEquals(result.success && result.value, expected, expression);
+            }
+        });
+
+        it('should compare after arithmetic', () => {
+            const result = evaluateExpression('revenue - cogs > 100', { revenue: 500, cogs: 300 });
+            assertEquals(result.success && result.value, 1);
+        });
+
+        it('should reject a single equals sign', () => {
+            const result = evaluateExpression('revenue = 0', { revenue: 0 });
+            assertEquals(result.success, false);
+            if (!result.success) {
+                assertEquals(result.error.message.includes("use '=='"), true);
+            }
+        });
+
+        it('should not chain comparisons', () => {
+            assertEquals(validateExpression('1 < 2 < 3').isValid, false);
+        });
+    });
+
+    // ========================================================================
+    // Function Tests
+    // ========================================================================
+
+    describe('functions', () => {
+        it('should parse a function call into a function node', () => {
+            const result = parseExpressionPure('round(revenue, 2)');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value.type, 'function');
+                const node = result.value as FunctionNode;
+                assertEquals(node.name, 'round');
+                assertEquals(node.args.length, 2);
+            }
+        });
+
+        it('should evaluate abs, min and max', () => {
+            assertEquals(evaluateExpression('abs(-5)', {}), { success: true, value: 5 });
+            assertEquals(evaluateExpression('min(3, -1, 2)', {}), { success: true, value: -1 });
+            assertEquals(evaluateExpression('max(a, b) * 2', { a: 3, b: 7 }), { success: true, value: 14 });
+        });
+
+        it('should round half away from zero', () => {
+            assertEquals(evaluateExpression('round(2.5)', {}), { success: true, value: 3 });
+            assertEquals(evaluateExpression('round(-2.5)', {}), { success: true, value: -3 });
+            assertEquals(evaluateExpression('round(12.345, 2)', {}), { success: true, value: 12.35 });
+            assertEquals(evaluateExpression('round(1250, -2)', {}), { success: true, value: 1300 });
+        });
+
+        it('should divide safely', () => {
+            assertEquals(evaluateExpression('safe_div(10, 4)', {}), { success: true, value: 2.5 });
+            assertEquals(evaluateExpression('safe_div(10, 0)', {}), { success: true, value: 0 });
+            assertEquals(evaluateExpression('safe_div(10, 0, -1)', {}), { success: true, value: -1 });
+        });
+
+        it('should only evaluate the selected branch of if', () => {
+            const expression = 'if(revenue == 0, 0, ebitda / revenue * 100)';
+            assertEquals(evaluateExpression(expression, { revenue: 0, ebitda: 50 }), { success: true, value: 0 });
+            assertEquals(evaluateExpression(expression, { revenue: 200, ebitda: 50 }), { success: true, value: 25 });
+        });
+
+        it('should treat any non-zero condition as true', () => {
+            assertEquals(evaluateExpression('if(-3, 1, 2)', {}), { success: true, value: 1 });
+        });
+
+        it('should nest functions', () => {
+            const result = evaluateExpression('round(safe_div(ebitda, revenue) * 100, 1)', { ebitda: 125, revenue: 1000 });
+            assertEquals(result, { success: true, value: 12.5 });
+        });
+
+        it('should reject unknown functions', () => {
+            const result = validateExpression('sqrt(4)');
+            assertEquals(result.isValid, false);
+            assertEquals(result.errors[0].includes("Unknown function 'sqrt'"), true);
+        });
+
+        it('should check the number of arguments', () => {
+            assertEquals(validateExpression('abs(1, 2)').isValid, false);
+            assertEquals(validateExpression('if(1, 2)').isValid, false);
+            assertEquals(validateExpression('min()').isValid, false);
+            assertEquals(validateExpression('round(1,)').isValid, false);
+        });
+
+        it('should report a missing closing parenthesis', () => {
+            const result = validateExpression('abs(1');
+            assertEquals(result.errors, ['Missing closing parenthesis']);
+        });
+
+        it('should collect dependencies from arguments', () => {
+            const result = getDependencies('if(revenue > 0, safe_div(ebitda, revenue), @10)');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals([...result.value].sort(), ['@10', 'ebitda', 'revenue']);
+            }
+        });
+
+        it('should expose function definitions', () => {
+            assertEquals(Object.keys(EXPRESSION_FUNCTIONS).sort(), ['abs', 'if', 'max', 'min', 'round', 'safe_div']);
+        });
+    });
+
+    // ========================================================================
+    // Cross-Period References
+    // ========================================================================
+
+    describe('period references', () => {
+        it('should tokenize period selectors on variables and order references', () => {
+            const result = tokenize('revenue[prior] - @100[2024]');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value[0], { type: 'variable', value: 'revenue', position: 0, period: 'prior' });
+                assertEquals(result.value[2], { type: 'order', value: '@100', position: 17, period: '2024' });
+            }
+        });
+
+        it('should normalize selectors', () => {
+            const result = parseExpressionPure('revenue[ PRIOR ] + cash[p-1]');
+            assertEquals(result.success, true);
+            if (result.success) {
+                const node = result.value as BinaryNode;
+                assertEquals((node.left as VariableNode).period, 'prior');
+                assertEquals((node.right as VariableNode).period, 'P-1');
+            }
+        });
+
+        it('should parse order references with a selector', () => {
+            const result = parseExpressionPure('@100[P-12]');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value as OrderNode, { type: 'order', name: '@100', period: 'P-12' });
+            }
+        });
+
+        it('should evaluate references from the context by full key', () => {
+            const context = { revenue: 120, 'revenue[prior]': 100 };
+            const result = evaluateExpression('(revenue - revenue[prior]) / revenue[prior] * 100', context);
+            assertEquals(result, { success: true, value: 20 });
+        });
+
+        it('should average opening and closing balances', () => {
+            const result = evaluateExpression('(@100 + @100[P-1]) / 2', { '@100': 300, '@100[P-1]': 100 });
+            assertEquals(result, { success: true, value: 200 });
+        });
+
+        it('should report a missing reference with its selector', () => {
+            const result = evaluateExpression('revenue[prior]', { revenue: 1 });
+            assertEquals(result.success, false);
+            if (!result.success) {
+                assertEquals(result.error.message, 'Undefined variable: revenue[prior]');
+            }
+        });
+
+        it('should reject invalid or unclosed selectors', () => {
+            assertEquals(tokenize('revenue[last]').success, false);
+            assertEquals(tokenize('revenue[P-0]').success, false);
+            assertEquals(tokenize('revenue[prior').success, false);
+        });
+
+        it('should include selectors in dependencies', () => {
+            const result = getDependencies('revenue / revenue[prior] + @10[2024]');
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals([...result.value].sort(), ['@10[2024]', 'revenue', 'revenue[prior]']);
+            }
+        });
+
+        it('should build and split reference keys', () => {
+            assertEquals(referenceKey('revenue', 'prior'), 'revenue[prior]');
+            assertEquals(referenceKey('revenue'), 'revenue');
+            assertEquals(parseReferenceKey('@100[P-1]'), { name: '@100', period: 'P-1' });
+            assertEquals(parseReferenceKey('revenue'), { name: 'revenue', period: null });
+        });
+    });
+
     // ========================================================================
     // Edge Cases and Error Handling
     // ========================================================================
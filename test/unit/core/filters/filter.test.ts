@@ -15,18 +15,28 @@ import {
     filterArrayMatch,
     filterRangeMatch,
     combineFilters,
+    matchesFilter,
     VALID_FIELDS,
     OPERATORS,
     type FilterSpec,
     type ValidationResult
 } from '../../../../src/core/filters/filter.ts';
 
+// Arquero op functions used by pattern and wildcard filter expressions
+const op = {
+    lower: (value: any) => value == null ? value : String(value).toLowerCase(),
+    includes: (value: any, search: string) => value != null && String(value).includes(search),
+    startswith: (value: any, search: string) => value != null && String(value).startsWith(search),
+    endswith: (value: any, search: string) => value != null && String(value).endsWith(search),
+    match: (value: any, regex: RegExp) => value == null ? null : String(value).match(regex)
+};
+
 // Mock Arquero table for testing
 const createMockTable = (data: any[]) => ({
     data,
     filter: function(expr: string) {
         // Simple mock implementation that evaluates the filter expression
-        const filterFn = eval(expr);
+        const filterFn = new Function('op', `return ${expr}`)(op);
         const filtered = this.data.filter(filterFn);
         return createMockTable(filtered);
     },
@@ -426,6 +436,118 @@ describe('Filter Functions - Functional', () => {
         });
     });
 
+    // ========================================================================
+    // Pattern, Wildcard and Group Filter Tests
+    // ========================================================================
+
+    describe('Pattern, Wildcard and Group Filters', () => {
+        it('should build case-insensitive pattern expressions', () => {
+            assertEquals(
+                buildFilterExpression({ name1: { contains: 'Rev' } }),
+                "d => op.includes(op.lower(d.name1), 'rev')"
+            );
+            assertEquals(
+                buildFilterExpression({ name1: { startsWith: "O'B", endsWith: 'x' } }),
+                "d => op.startswith(op.lower(d.name1), 'o\\'b') && op.endswith(op.lower(d.name1), 'x')"
+            );
+            assertEquals(
+                buildFilterExpression({ name1: { regex: '^(rev|cogs)$' } }),
+                "d => op.match(d.name1, /^(rev|cogs)$/i) != null"
+            );
+        });
+
+        it('should filter with pattern operators', () => {
+            assertEquals(applyFilter({ name1: { contains: 'ENSE' } })(mockTable).array('code1'), ['720']);
+            assertEquals(applyFilter({ name1: { startsWith: 'c' } })(mockTable).array('code1'), ['710']);
+            assertEquals(applyFilter({ name1: { endsWith: 'S' } })(mockTable).array('code1'), ['710', '720', '100', '200']);
+            assertEquals(applyFilter({ name1: { regex: '^(revenue|assets)$' } })(mockTable).array('code1'), ['700', '100']);
+        });
+
+        it('should treat code values with wildcards as patterns', () => {
+            assertEquals(buildFilterExpression({ code1: '7*' }), "d => op.startswith(d.code1, '7')");
+            assertEquals(buildFilterExpression({ code1: '7?0' }), "d => op.match(d.code1, /^7.0$/i) != null");
+            assertEquals(applyFilter({ code1: '7*' })(mockTable).numRows(), 3);
+            assertEquals(applyFilter({ code1: ['1*', '710'] })(mockTable).array('code1'), ['710', '100']);
+            // Names are matched literally
+            assertEquals(buildFilterExpression({ name1: 'A*' }), "d => d.name1 === 'A*'");
+        });
+
+        it('should include all codes starting with a wildcard range bound', () => {
+            const testTable = createMockTable([
+                { account_code: '3999' },
+                { account_code: '4' },
+                { account_code: '4510' },
+                { account_code: '4599' },
+                { account_code: '46' }
+            ]);
+            const filtered = applyFilter({ account_code: { gte: '4*', lte: '45*' } })(testTable);
+            assertEquals(filtered.array('account_code'), ['4', '4510', '4599']);
+            assertEquals(applyFilter({ account_code: { gt: '45*' } })(testTable).array('account_code'), ['46']);
+        });
+
+        it('should combine anyOf, allOf and not groups', () => {
+            assertEquals(
+                buildFilterExpression({ anyOf: [{ code1: '700' }, { code1: '100' }] }),
+                "d => ((d.code1 === '700') || (d.code1 === '100'))"
+            );
+            assertEquals(
+                applyFilter({ anyOf: [{ code1: '700' }, { name1: { contains: 'liab' } }] })(mockTable).array('code1'),
+                ['700', '200']
+            );
+            assertEquals(
+                applyFilter({ statement_type: 'Income', not: { code2: '20' } })(mockTable).array('code1'),
+                ['700', '720']
+            );
+            assertEquals(
+                applyFilter({
+                    allOf: [{ code1: '7*' }, { anyOf: [{ code2: '10' }, { code2: '30' }] }],
+                    not: { name1: { startsWith: 'exp' } }
+                })(mockTable).array('code1'),
+                ['700']
+            );
+        });
+
+        it('should validate patterns and groups', () => {
+            assertEquals(validateFilter({
+                account_code: { gte: '4*', lte: '45*' },
+                anyOf: [{ name1: { contains: 'huur' } }, { name2: { regex: '^lease' } }],
+                not: { code1: '8*' }
+            }).isValid, true);
+
+            const result = validateFilter({
+                name1: { regex: '(' },
+                name2: { contains: 5 },
+                anyOf: [],
+                not: { allOf: [{ invalid_field: 'x' }] }
+            } as any);
+            assertEquals(result.isValid, false);
+            assertEquals(result.errors.length, 4);
+            assertEquals(result.errors[0].startsWith('Invalid regex for name1'), true);
+            assertEquals(result.errors[1], 'Pattern for name2.contains must be a string');
+            assertEquals(result.errors[2], 'anyOf must be a non-empty array of filter specifications');
+            assertEquals(result.errors[3].startsWith('Invalid filter field: not.allOf[0].invalid_field'), true);
+        });
+
+        it('should match rows the way the filter expression selects them', () => {
+            const specs: FilterSpec[] = [
+                { code1: '7*' },
+                { code1: ['1*', '710'] },
+                { name1: { contains: 'ENSE' } },
+                { code1: { gte: '700', lt: '720' } },
+                { statement_type: 'Income', not: { code2: '20' } },
+                { anyOf: [{ code1: '700' }, { name1: { regex: '^liab' } }] }
+            ];
+            for (const spec of specs) {
+                assertEquals(
+                    mockTable.data.filter(matchesFilter(spec)).map((row: any) => row.code1),
+                    applyFilter(spec)(mockTable).array('code1')
+                );
+            }
+            assertEquals(matchesFilter({ code1: '700' })({ code1: null }), false);
+            assertEquals(matchesFilter({ account_code: '4510' })({ account_code: 4510 }), true);
+        });
+    });
+
     // ========================================================================
     // Integration Tests
     // ========================================================================
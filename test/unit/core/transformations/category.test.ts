@@ -14,6 +14,7 @@ import {
     isOtherIncome,
     isTax,
     isDepreciation,
+    isCash,
     isCurrentAsset,
     isFixedAsset,
     isLongTermLiability,
@@ -206,6 +207,18 @@ describe('Category Matching', () => {
             });
         });
 
+        describe('isCash', () => {
+            it('identifies cash and cash equivalents', () => {
+                assertEquals(isCash('Liquide middelen'), true);
+                assertEquals(isCash('Cash and cash equivalents'), true);
+            });
+
+            it('rejects other categories', () => {
+                assertEquals(isCash('Vorderingen'), false);
+                assertEquals(isCash(null), false);
+            });
+        });
+
         describe('isCurrentAsset', () => {
             it('identifies current assets', () => {
                 assertEquals(isCurrentAsset('Vlottende activa'), true);
@@ -0,0 +1,41 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    detectDelimiter,
+    isDelimitedFile,
+    parseDelimited
+} from "../../../../src/core/transformations/delimited.ts";
+
+describe('Delimited Text', () => {
+    describe('isDelimitedFile', () => {
+        it('recognises csv, tsv and txt files', () => {
+            assertEquals(isDelimitedFile('2025_trial_balance.CSV'), true);
+            assertEquals(isDelimitedFile('journal.tsv'), true);
+            assertEquals(isDelimitedFile('2025_BalansenWinstverliesperperiode.xlsx'), false);
+        });
+    });
+
+    describe('detectDelimiter', () => {
+        it('picks the most frequent delimiter outside quotes', () => {
+            assertEquals(detectDelimiter('Account;Description;Amount\n8000;Sales;1,5'), ';');
+            assertEquals(detectDelimiter('Account\tDescription\tAmount'), '\t');
+            assertEquals(detectDelimiter('"a;b;c",d\n'), ',');
+            assertEquals(detectDelimiter('Account'), ',');
+        });
+    });
+
+    describe('parseDelimited', () => {
+        it('handles quotes, embedded delimiters and line breaks', () => {
+            const text = '\uFEFFAccount,Description,Amount\r\n8000,"Sales, ""EU""",-100\r\n\r\n8010,"Multi\nline",\r\n';
+            assertEquals(parseDelimited(text), [
+                ['Account', 'Description', 'Amount'],
+                ['8000', 'Sales, "EU"', '-100'],
+                ['8010', 'Multi\nline', '']
+            ]);
+        });
+
+        it('uses the given delimiter', () => {
+            assertEquals(parseDelimited('a;b,c\n1;2,3', ';'), [['a', 'b,c'], ['1', '2,3']]);
+        });
+    });
+});
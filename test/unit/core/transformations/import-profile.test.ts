@@ -0,0 +1,198 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    DEFAULT_IMPORT_PROFILE,
+    cellValue,
+    findMissingColumns,
+    findPeriodColumns,
+    mapStatementType,
+    parseAmount,
+    parseDateValue,
+    parsePeriodValue,
+    readProfileRows,
+    resolveColumn,
+    validateImportProfile,
+    type ImportProfile
+} from "../../../../src/core/transformations/import-profile.ts";
+
+const longProfile: ImportProfile = {
+    profileId: 'generic-long',
+    layout: 'long',
+    columns: {
+        accountCode: 'Account',
+        accountDescription: 'Description',
+        statementType: 'Type',
+        code1: 'Group',
+        name1: 'Group name',
+        year: 'Year',
+        period: 'Period',
+        amount: 'Amount'
+    },
+    statementTypes: { 'Balance sheet': 'BS', 'Profit and loss': 'IS' }
+};
+
+describe('Import Profiles', () => {
+    describe('validateImportProfile', () => {
+        it('accepts the default profile', () => {
+            assertEquals(validateImportProfile(DEFAULT_IMPORT_PROFILE), { isValid: true, errors: [] });
+            assertEquals(validateImportProfile(longProfile).isValid, true);
+        });
+
+        it('reports missing layout columns and invalid rules', () => {
+            const result = validateImportProfile({
+                profileId: 'broken',
+                layout: 'long',
+                columns: { accountCode: 'Account', code1: 0 }
+            });
+            assertEquals(result.errors, [
+                'columns.code1 must be a header name or a column number',
+                'columns.period is required for the long layout',
+                'columns.amount, columns.debit/credit or columns.balance is required for the long layout'
+            ]);
+
+            const wide = validateImportProfile({
+                profileId: 'wide',
+                layout: 'wide',
+                columns: { accountCode: 1 },
+                periodColumns: [{ match: '(', period: 0 }],
+                statementTypes: { 'Assets': 'XX' as any }
+            });
+            assertEquals(wide.errors, [
+                'periodColumns[0].match must be a valid regular expression',
+                'periodColumns[0].period must be a positive integer',
+                'statementTypes["Assets"] must be BS or IS'
+            ]);
+        });
+    });
+
+    describe('resolveColumn', () => {
+        it('finds headers case-insensitively and accepts column numbers', () => {
+            const headers = ['Account', ' Amount ', { richText: [{ text: 'Per' }, { text: 'iod' }] }];
+            assertEquals(resolveColumn(headers, 'amount'), 1);
+            assertEquals(resolveColumn(headers, 'Period'), 2);
+            assertEquals(resolveColumn(headers, 1), 0);
+            assertEquals(resolveColumn(headers, 'Missing'), -1);
+            assertEquals(findMissingColumns(headers, longProfile), ['Description', 'Type', 'Group', 'Group name', 'Year']);
+        });
+    });
+
+    describe('cellValue and parsePeriodValue', () => {
+        it('reads formula results and period notations', () => {
+            assertEquals(cellValue({ formula: 'A1*2', result: 40 }), 40);
+            assertEquals(cellValue({ text: 'link', hyperlink: 'https://example.com' }), 'link');
+            assertEquals(parsePeriodValue('P03'), 3);
+            assertEquals(parsePeriodValue('2025-11'), 11);
+            assertEquals(parsePeriodValue(7), 7);
+            assertEquals(parsePeriodValue('total'), null);
+        });
+    });
+
+    describe('parseAmount and parseDateValue', () => {
+        it('parses text amounts with either decimal separator', () => {
+            assertEquals(parseAmount('-1.200,50', ','), -1200.5);
+            assertEquals(parseAmount('1,200.50'), 1200.5);
+            assertEquals(parseAmount('(300)'), -300);
+            assertEquals(parseAmount(' '), null);
+            assertEquals(parseAmount('n/a'), null);
+        });
+
+        it('parses dates in the configured order', () => {
+            assertEquals(parseDateValue('2025-03-15'), { year: 2025, month: 3 });
+            assertEquals(parseDateValue('20250315'), { year: 2025, month: 3 });
+            assertEquals(parseDateValue('15/03/2025'), { year: 2025, month: 3 });
+            assertEquals(parseDateValue('03/15/2025', 'MM-DD-YYYY'), { year: 2025, month: 3 });
+            assertEquals(parseDateValue(new Date(Date.UTC(2024, 11, 31))), { year: 2024, month: 12 });
+            assertEquals(parseDateValue('15/13/2025'), null);
+        });
+    });
+
+    describe('findPeriodColumns', () => {
+        it('maps the Dutch headers of the default profile for the loaded year', () => {
+            const headers = ['Rekening', 'Voorafgaande journaalposten 2025', 'januari2025', 'mei2025', 'januari2024', 'Saldo'];
+            const { movements, balances } = findPeriodColumns(headers, DEFAULT_IMPORT_PROFILE, '2025');
+
+            assertEquals(movements.map(column => [column.columnIndex, column.period]), [[1, 12], [2, 1], [3, 5]]);
+            assertEquals(balances.map(column => [column.columnIndex, column.period]), [[5, 12]]);
+        });
+    });
+
+    describe('mapStatementType', () => {
+        it('maps profile values, the Dutch defaults and falls back to the default type', () => {
+            assertEquals(mapStatementType('balance SHEET', longProfile), 'BS');
+            assertEquals(mapStatementType('Balans', longProfile), 'BS');
+            assertEquals(mapStatementType('Profit and loss', longProfile), 'IS');
+            assertEquals(mapStatementType('', longProfile), 'IS');
+            assertEquals(mapStatementType('', { ...longProfile, defaultStatementType: 'BS' }), 'BS');
+        });
+    });
+
+    describe('readProfileRows', () => {
+        it('reads wide rows with sparse amounts', () => {
+            const profile: ImportProfile = {
+                profileId: 'wide',
+                layout: 'wide',
+                headerRow: 2,
+                columns: { accountCode: 'Account', accountDescription: 'Name', code1: 'Group' },
+                periodColumns: [
+                    { match: '^P(0?1)$', period: 1 },
+                    { match: '^P(0?2)$', period: 2 },
+                    { match: '^Closing$', period: 2, type: 'balance' }
+                ]
+            };
+            const rows = [
+                ['Exported trial balance'],
+                ['Account', 'Name', 'Group', 'P01', 'P02', 'Closing'],
+                ['8000', 'Sales', '500', -100, { formula: 'D3*2', result: -200 }, -300],
+                ['8010', 'Other', '500', 0, null, null],
+                [null, 'Total', null, -100, -200, -300]
+            ];
+
+            const records = readProfileRows(rows, profile, '2025');
+            assertEquals(records.map(record => record.accountCode), ['8000', '8010']);
+            assertEquals(records[0].movements, [{ period: 1, amount: -100 }, { period: 2, amount: -200 }]);
+            assertEquals(records[0].balances, [{ period: 2, amount: -300 }]);
+            assertEquals(records[0].level1Code, '500');
+            assertEquals(records[1].movements, []);
+        });
+
+        it('reads long rows of the loaded year', () => {
+            const rows = [
+                ['Account', 'Description', 'Type', 'Group', 'Group name', 'Year', 'Period', 'Amount'],
+                ['1000', 'Cash', 'Balance sheet', '50', 'Cash', 2025, 'P01', '250.5'],
+                ['8000', 'Sales', 'Profit and loss', '500', 'Revenue', 2025, 2, -400],
+                ['8000', 'Sales', 'Profit and loss', '500', 'Revenue', 2024, 12, -900]
+            ];
+
+            const records = readProfileRows(rows, longProfile, '2025');
+            assertEquals(records.map(record => [record.accountCode, record.statementType, record.movements]), [
+                ['1000', 'Balance sheet', [{ period: 1, amount: 250.5 }]],
+                ['8000', 'Profit and loss', [{ period: 2, amount: -400 }]]
+            ]);
+            assertEquals(records[0].balances, [{ period: 12, amount: 250.5 }]);
+        });
+
+        it('buckets journal lines into periods per account', () => {
+            const profile: ImportProfile = {
+                profileId: 'journal',
+                layout: 'journal',
+                columns: { accountCode: 'Grootboek', date: 'Datum', debit: 'Debet', credit: 'Credit' },
+                decimalSeparator: ','
+            };
+            const rows = [
+                ['Grootboek', 'Datum', 'Debet', 'Credit'],
+                ['8000', '15-01-2025', '', '1.000,10'],
+                ['8000', '31-01-2025', '', '0,20'],
+                ['8000', '01-02-2025', '50', ''],
+                ['1300', '2025-01-15', '1.000,30', ''],
+                ['1300', '31-12-2024', '99', ''],
+                ['1300', 'unknown', '99', '']
+            ];
+
+            const records = readProfileRows(rows, profile, '2025');
+            assertEquals(records.map(record => [record.accountCode, record.movements, record.balances]), [
+                ['8000', [{ period: 1, amount: -1000.3 }, { period: 2, amount: 50 }], [{ period: 12, amount: -950.3 }]],
+                ['1300', [{ period: 1, amount: 1000.3 }], [{ period: 12, amount: 1000.3 }]]
+            ]);
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    createLayoutItem,
+    renumberLayout,
+    moveLayoutItem,
+    renameVariableReferences,
+    collectFieldSuggestions,
+    parseFilterInput,
+    formatFilterInput
+} from "../../../../src/core/transformations/layout.ts";
+
+// Mock Arquero table (columnNames() and array())
+const table = (rows: Record<string, unknown>[]) => ({
+    columnNames: () => Object.keys(rows[0] ?? {}),
+    array: (column: string) => rows.map(row => row[column])
+});
+
+describe('Report Layout Editing', () => {
+    const layout = [
+        { order: 100, type: 'variable', variable: 'revenue' },
+        { order: 200, type: 'variable', variable: 'cogs' },
+        { order: 300, type: 'calculated', expression: '@100 + @200' },
+        { order: 400, type: 'subtotal', from: 100, to: 300 }
+    ];
+
+    describe('createLayoutItem', () => {
+        it('appends after the last order', () => {
+            assertEquals(createLayoutItem('spacer', layout), { order: 410, type: 'spacer' });
+            assertEquals(createLayoutItem('variable', [], ['revenue']), { order: 10, type: 'variable', label: 'revenue', variable: 'revenue' });
+        });
+
+        it('creates a subtotal over the whole layout', () => {
+            assertEquals(createLayoutItem('subtotal', layout),
+                { order: 410, type: 'subtotal', label: 'Subtotal', from: 100, to: 400, style: 'subtotal' });
+        });
+    });
+
+    describe('renumberLayout', () => {
+        it('rewrites order references and subtotal ranges', () => {
+            const renumbered = renumberLayout(layout, [10, 20, 30, 40]);
+
+            assertEquals(renumbered.map(item => item.order), [10, 20, 30, 40]);
+            assertEquals(renumbered[2].expression, '@10 + @20');
+            assertEquals([renumbered[3].from, renumbered[3].to], [10, 30]);
+        });
+
+        it('keeps period selectors and unknown references', () => {
+            const renumbered = renumberLayout([{ order: 1, type: 'calculated', expression: '@1[prior] + @999' }], [10]);
+
+            assertEquals(renumbered[0].expression, '@10[prior] + @999');
+        });
+    });
+
+    describe('moveLayoutItem', () => {
+        it('gives the moved item a free order between its neighbours', () => {
+            const moved = moveLayoutItem(layout, 3, 0);
+
+            assertEquals(moved.map(item => item.order), [50, 100, 200, 300]);
+            assertEquals(moved[0].type, 'subtotal');
+            assertEquals(moved[3].expression, '@100 + @200');
+        });
+
+        it('renumbers the layout when there is no free order', () => {
+            const moved = moveLayoutItem([
+                { order: 1, type: 'variable' },
+                { order: 2, type: 'calculated', expression: '@1 * 2' },
+                { order: 3, type: 'spacer' }
+            ], 2, 1);
+
+            assertEquals(moved.map(item => [item.order, item.type]), [[10, 'variable'], [20, 'spacer'], [30, 'calculated']]);
+            assertEquals(moved[2].expression, '@10 * 2');
+        });
+
+        it('leaves the layout as it is for a move to the same position', () => {
+            assertEquals(moveLayoutItem(layout, 1, 1), layout);
+        });
+    });
+
+    describe('renameVariableReferences', () => {
+        it('renames variable rows and identifiers in expressions', () => {
+            const renamed = renameVariableReferences([
+                { order: 100, type: 'variable', variable: 'cogs' },
+                { order: 200, type: 'calculated', expression: 'revenue - cogs + cogs_other + cogs[prior]' }
+            ], 'cogs', 'cost_of_sales');
+
+            assertEquals(renamed[0].variable, 'cost_of_sales');
+            assertEquals(renamed[1].expression, 'revenue - cost_of_sales + cogs_other + cost_of_sales[prior]');
+        });
+    });
+
+    describe('collectFieldSuggestions', () => {
+        it('collects distinct values with their description, sorted', () => {
+            const data = table([
+                { code1: '510', name1: 'Kostprijs' },
+                { code1: '500', name1: 'Netto-omzet' },
+                { code1: '510', name1: 'Kostprijs' },
+                { code1: null, name1: '' }
+            ]);
+
+            assertEquals(collectFieldSuggestions(data, 'code1', 'name1'), [
+                { value: '500', label: 'Netto-omzet' },
+                { value: '510', label: 'Kostprijs' }
+            ]);
+            assertEquals(collectFieldSuggestions(data, 'code2'), []);
+            assertEquals(collectFieldSuggestions(null, 'code1'), []);
+        });
+    });
+
+    describe('parseFilterInput / formatFilterInput', () => {
+        it('converts between typed text and filter values', () => {
+            assertEquals(parseFilterInput('500'), '500');
+            assertEquals(parseFilterInput(' 500, 510 ,'), ['500', '510']);
+            assertEquals(parseFilterInput('  '), undefined);
+            assertEquals(formatFilterInput(['500', '510']), '500, 510');
+            assertEquals(formatFilterInput({ gte: '700' }), '');
+        });
+    });
+});
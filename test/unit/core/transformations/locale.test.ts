@@ -0,0 +1,70 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    LOCALE_PATTERN,
+    localeFallbacks,
+    resolveLocalizedText,
+    setLocalizedText,
+    collectLocales
+} from "../../../../src/core/transformations/locale.ts";
+
+describe('Localized Labels', () => {
+    const revenue = { nl: 'Netto-omzet', en: 'Revenue' };
+
+    describe('localeFallbacks', () => {
+        it('lists the locale and its less specific forms', () => {
+            assertEquals(localeFallbacks('en'), ['en']);
+            assertEquals(localeFallbacks('en-GB'), ['en-GB', 'en']);
+            assertEquals(localeFallbacks('zh-Hant-TW'), ['zh-Hant-TW', 'zh-Hant', 'zh']);
+        });
+    });
+
+    describe('resolveLocalizedText', () => {
+        it('returns plain strings as they are', () => {
+            assertEquals(resolveLocalizedText('Netto-omzet', 'en', 'nl'), 'Netto-omzet');
+            assertEquals(resolveLocalizedText(undefined, 'en'), '');
+        });
+
+        it('picks the requested locale, also from a regional locale', () => {
+            assertEquals(resolveLocalizedText(revenue, 'en', 'nl'), 'Revenue');
+            assertEquals(resolveLocalizedText(revenue, 'en-GB', 'nl'), 'Revenue');
+            assertEquals(resolveLocalizedText({ 'en-US': 'Sales', EN: 'Revenue' }, 'en-us'), 'Sales');
+            assertEquals(resolveLocalizedText({ 'en-US': 'Sales', EN: 'Revenue' }, 'en-GB'), 'Revenue');
+        });
+
+        it('falls back to the default locale, then to the first text', () => {
+            assertEquals(resolveLocalizedText(revenue, 'de', 'nl'), 'Netto-omzet');
+            assertEquals(resolveLocalizedText(revenue, undefined, 'en'), 'Revenue');
+            assertEquals(resolveLocalizedText(revenue, 'de', 'fr'), 'Netto-omzet');
+            assertEquals(resolveLocalizedText({ nl: '', en: 'Revenue' }, 'nl'), 'Revenue');
+        });
+    });
+
+    describe('setLocalizedText', () => {
+        it('replaces the text of a locale, keeping the other locales', () => {
+            assertEquals(setLocalizedText(revenue, 'en', 'Net sales'), { nl: 'Netto-omzet', en: 'Net sales' });
+            assertEquals(setLocalizedText({ 'en-GB': 'Turnover' }, 'en-gb', 'Revenue'), { 'en-GB': 'Revenue' });
+            assertEquals(setLocalizedText(revenue, 'de', 'Umsatz'), { ...revenue, de: 'Umsatz' });
+            assertEquals(setLocalizedText(revenue, undefined, 'Omzet'), { nl: 'Omzet', en: 'Revenue' });
+        });
+
+        it('replaces plain strings as a whole', () => {
+            assertEquals(setLocalizedText('Netto-omzet', 'en', 'Revenue'), 'Revenue');
+            assertEquals(setLocalizedText(undefined, 'en', 'Revenue'), 'Revenue');
+        });
+    });
+
+    describe('collectLocales', () => {
+        it('collects locales in order of first appearance', () => {
+            assertEquals(collectLocales(['Totaal', revenue, undefined, { en: 'Costs', de: 'Kosten' }]), ['nl', 'en', 'de']);
+            assertEquals(collectLocales(['Totaal']), []);
+        });
+    });
+
+    describe('LOCALE_PATTERN', () => {
+        it('accepts language codes with an optional region', () => {
+            assertEquals(['nl', 'en-GB', 'zh-Hant-TW'].every(locale => LOCALE_PATTERN.test(locale)), true);
+            assertEquals(['', 'NL', 'english', 'en_GB'].some(locale => LOCALE_PATTERN.test(locale)), false);
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    canonicalJson,
+    diffReportDefinitions,
+    isEmptyDiff,
+    compareStatementRows
+} from "../../../../src/core/transformations/report-diff.ts";
+
+const report = {
+    reportId: 'income',
+    name: 'Income',
+    version: '1.0.0',
+    variables: {
+        revenue: { filter: { code1: '500' }, aggregate: 'sum' },
+        cogs: { filter: { code1: '510' }, aggregate: 'sum' }
+    },
+    layout: [
+        { order: 100, type: 'variable', variable: 'revenue', label: 'Revenue' },
+        { order: 200, type: 'variable', variable: 'cogs', label: 'Cost of sales' },
+        { order: 250, type: 'spacer' },
+        { order: 300, type: 'calculated', expression: '@100 - @200', label: 'Gross profit' }
+    ]
+};
+
+describe("canonicalJson", () => {
+    it("should sort object keys at every level", () => {
+        assertEquals(canonicalJson({ b: 1, a: [2, { d: 3, c: 4 }] }), '{"a":[2,{"c":4,"d":3}],"b":1}');
+    });
+
+    it("should skip undefined properties", () => {
+        assertEquals(canonicalJson({ a: undefined, b: null }), '{"b":null}');
+    });
+});
+
+describe("diffReportDefinitions", () => {
+    it("should find no differences between equal versions", () => {
+        assertEquals(isEmptyDiff(diffReportDefinitions(report, structuredClone(report))), true);
+    });
+
+    it("should report added, removed and changed variables", () => {
+        const diff = diffReportDefinitions(report, {
+            ...report,
+            variables: {
+                revenue: { filter: { code1: ['500', '505'] }, aggregate: 'sum' },
+                other_income: { filter: { code1: '520' } }
+            }
+        });
+
+        assertEquals(diff.variables.added, ['other_income']);
+        assertEquals(diff.variables.removed, ['cogs']);
+        assertEquals(diff.variables.changed.map(change => [change.name, change.fields]), [['revenue', ['filter']]]);
+    });
+
+    it("should report moved layout items instead of changes at both orders", () => {
+        const diff = diffReportDefinitions(report, {
+            ...report,
+            layout: [
+                { order: 100, type: 'variable', variable: 'revenue', label: 'Revenue' },
+                { order: 150, type: 'variable', variable: 'cogs', label: 'Cost of sales' },
+                { order: 250, type: 'spacer' },
+                { order: 300, type: 'calculated', expression: '@100 - @150', label: 'Gross profit' }
+            ]
+        });
+
+        assertEquals(diff.layout.moved, [{ label: 'Cost of sales', type: 'variable', from: 200, to: 150 }]);
+        assertEquals(diff.layout.changed, [{ order: 300, label: 'Gross profit', fields: ['expression'] }]);
+        assertEquals(diff.layout.added, []);
+        assertEquals(diff.layout.removed, []);
+    });
+
+    it("should report added and removed layout items", () => {
+        const diff = diffReportDefinitions(report, {
+            ...report,
+            layout: [
+                ...report.layout.filter(item => item.order !== 250),
+                { order: 400, type: 'calculated', expression: '@300 * 0.75', label: 'Net profit' }
+            ]
+        });
+
+        assertEquals(diff.layout.added.map(item => item.order), [400]);
+        assertEquals(diff.layout.removed.map(item => item.order), [250]);
+    });
+
+    it("should match items at the same order when their content changed", () => {
+        const diff = diffReportDefinitions(report, {
+            ...report,
+            layout: report.layout.map(item => item.order === 100 ? { ...item, label: 'Net revenue' } : item)
+        });
+
+        assertEquals(diff.layout.changed, [{ order: 100, label: 'Net revenue', fields: ['label'] }]);
+        assertEquals(diff.layout.added, []);
+    });
+
+    it("should report other changed properties", () => {
+        const diff = diffReportDefinitions(report, { ...report, version: '1.1.0' } as any);
+        assertEquals(diff.properties, ['version']);
+    });
+});
+
+describe("compareStatementRows", () => {
+    const rows = [
+        { order: 100, label: 'Revenue', amount_2025: 1000, amount_2024: 900 },
+        { order: 200, label: 'Cost of sales', amount_2025: -400, amount_2024: -350 },
+        { order: 250, type: 'spacer' },
+        { order: 300, label: 'Gross profit', amount_2025: 600, amount_2024: 550 }
+    ];
+
+    it("should return no changes for equal amounts", () => {
+        assertEquals(compareStatementRows(rows, structuredClone(rows), ['2025', '2024']), []);
+    });
+
+    it("should ignore differences within the tolerance", () => {
+        const after = rows.map(row => row.order === 100 ? { ...row, amount_2025: 1000.001 } : row);
+        assertEquals(compareStatementRows(rows, after, ['2025']), []);
+    });
+
+    it("should return rows whose amounts changed", () => {
+        const after = rows.map(row => row.order === 300 ? { ...row, amount_2025: 700 } : row);
+
+        assertEquals(compareStatementRows(rows, after, ['2025']), [{
+            order: 300,
+            label: 'Gross profit',
+            status: 'changed',
+            amounts: { 2025: { before: 600, after: 700 } }
+        }]);
+    });
+
+    it("should follow moved rows", () => {
+        const after = rows.map(row => row.order === 200 ? { ...row, order: 150 } : row);
+        const diff = diffReportDefinitions(report, {
+            ...report,
+            layout: report.layout.map(item => item.order === 200 ? { ...item, order: 150 } : item)
+        });
+
+        assertEquals(compareStatementRows(rows, after, ['2025'], diff), []);
+        assertEquals(compareStatementRows(rows, after, ['2025']).map(change => [change.order, change.status]),
+            [[150, 'added'], [200, 'removed']]);
+    });
+});
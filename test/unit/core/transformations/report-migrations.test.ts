@@ -0,0 +1,141 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    CURRENT_SCHEMA_VERSION,
+    parseVersion,
+    compareVersions,
+    parseNumberFormat,
+    migrateReportDefinition,
+    type ReportMigration
+} from "../../../../src/core/transformations/report-migrations.ts";
+
+const legacy = {
+    reportId: 'legacy',
+    name: 'Legacy',
+    version: '1.2.0',
+    statementType: 'income',
+    layout: [
+        { order: 10, type: 'variable', variable: 'revenue', level: 1 },
+        { order: 20, type: 'spacer' },
+        { order: 30, type: 'calculated', expression: '@10', level: 2, indent: 0 }
+    ],
+    formatting: { currency: '€ #,##0.00', percent: '0.0%', integer: { thousands: true } }
+};
+
+describe("parseVersion and compareVersions", () => {
+    it("should parse MAJOR.MINOR.PATCH", () => {
+        assertEquals(parseVersion('2.10.1'), [2, 10, 1]);
+        assertEquals(parseVersion('v2'), null);
+        assertEquals(parseVersion(2), null);
+    });
+
+    it("should compare numerically", () => {
+        assertEquals(compareVersions('1.10.0', '1.9.3') > 0, true);
+        assertEquals(compareVersions('1.0.0', '2.0.0') < 0, true);
+        assertEquals(compareVersions('2.0.0', '2.0.0'), 0);
+        assertThrows(() => compareVersions('1.0', '1.0.0'), Error, "Invalid version '1.0'");
+    });
+});
+
+describe("parseNumberFormat", () => {
+    it("should read symbol, decimals and thousands separator", () => {
+        assertEquals(parseNumberFormat('€ #,##0', 'currency'), { symbol: '€', decimals: 0, thousands: true });
+        assertEquals(parseNumberFormat('"EUR" 0.00', 'currency'), { symbol: 'EUR', decimals: 2, thousands: false });
+    });
+
+    it("should keep only the fields of the kind of rule", () => {
+        assertEquals(parseNumberFormat('0.0%', 'percent'), { symbol: '%', decimals: 1 });
+        assertEquals(parseNumberFormat('#,##0', 'integer'), { thousands: true });
+    });
+
+    it("should return null without a number format", () => {
+        assertEquals(parseNumberFormat('euro', 'currency'), null);
+    });
+});
+
+describe("migrateReportDefinition", () => {
+    it("should upgrade a definition without schemaVersion to the current schema", () => {
+        const report = migrateReportDefinition(legacy);
+
+        assertEquals(report.fromVersion, '1.0.0');
+        assertEquals(report.toVersion, CURRENT_SCHEMA_VERSION);
+        assertEquals(report.changed, true);
+        assertEquals(report.steps.map(step => [step.from, step.to, step.changes.length]), [['1.0.0', '1.1.0', 2], ['1.1.0', '2.0.0', 2]]);
+        assertEquals(report.definition.layout, [
+            { order: 10, type: 'variable', variable: 'revenue', indent: 1 },
+            { order: 20, type: 'spacer' },
+            { order: 30, type: 'calculated', expression: '@10', indent: 0 }
+        ]);
+        assertEquals(report.definition.formatting, {
+            currency: { symbol: '€', decimals: 2, thousands: true },
+            percent: { symbol: '%', decimals: 1 },
+            integer: { thousands: true }
+        });
+    });
+
+    it("should place a new schemaVersion after version and not change its argument", () => {
+        const original = structuredClone(legacy);
+        const { definition } = migrateReportDefinition(legacy);
+
+        assertEquals(Object.keys(definition).slice(0, 5), ['reportId', 'name', 'version', 'schemaVersion', 'statementType']);
+        assertEquals(legacy, original);
+    });
+
+    it("should report the changes of each step", () => {
+        const { steps } = migrateReportDefinition(legacy);
+
+        assertEquals(steps[0].changes, [
+            'layout[0] (order 10): renamed level to indent',
+            'layout[2] (order 30): removed level, indent is already set'
+        ]);
+        assertEquals(steps[1].changes[0], `formatting.currency: converted '€ #,##0.00' to {"symbol":"€","decimals":2,"thousands":true}`);
+    });
+
+    it("should only set schemaVersion on a current definition", () => {
+        const current = { reportId: 'current', version: '1.0.0', layout: [{ order: 10, indent: 1 }] };
+        const report = migrateReportDefinition(current);
+
+        assertEquals(report.changed, false);
+        assertEquals(report.definition, { ...current, schemaVersion: CURRENT_SCHEMA_VERSION });
+        assertEquals(migrateReportDefinition(report.definition).steps, []);
+    });
+
+    it("should start from the given schemaVersion", () => {
+        const report = migrateReportDefinition({ ...legacy, schemaVersion: '1.1.0' });
+
+        assertEquals(report.steps.map(step => step.from), ['1.1.0']);
+        assertEquals(report.definition.layout[0].level, 1);
+    });
+
+    it("should continue from a version between two migrations", () => {
+        const report = migrateReportDefinition({ ...legacy, schemaVersion: '1.0.3' });
+        assertEquals(report.steps.map(step => step.from), ['1.0.0', '1.1.0']);
+    });
+
+    it("should accept a newer minor version with a warning", () => {
+        const definition = { ...legacy, schemaVersion: '2.1.0' };
+        const report = migrateReportDefinition(definition);
+
+        assertEquals(report.definition, definition);
+        assertEquals(report.toVersion, '2.1.0');
+        assertEquals(report.warnings.length, 1);
+    });
+
+    it("should reject a newer major version and invalid versions", () => {
+        assertThrows(() => migrateReportDefinition({ ...legacy, schemaVersion: '3.0.0' }), Error, 'newer than the supported schema');
+        assertThrows(() => migrateReportDefinition({ ...legacy, schemaVersion: 'latest' }), Error, "Invalid schemaVersion 'latest'");
+    });
+
+    it("should apply custom migrations up to a target version", () => {
+        const migrations: ReportMigration[] = [{
+            from: '1.0.0',
+            to: '1.5.0',
+            description: 'Rename title to name',
+            migrate: ({ title, ...rest }) => ({ definition: { ...rest, name: title }, changes: ['renamed title to name'] })
+        }];
+
+        const report = migrateReportDefinition({ title: 'Old' }, migrations, '1.5.0');
+        assertEquals(report.definition, { name: 'Old', schemaVersion: '1.5.0' });
+        assertThrows(() => migrateReportDefinition({ title: 'Old' }, migrations, '2.0.0'), Error, 'No migration from schema 1.5.0');
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Account Assignment of Variables
+ *
+ * Tests the functions that find the variables each total adds up, accounts
+ * counted in more than one of them, and accounts no variable counts.
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    listAccounts,
+    findSummedVariables,
+    findAccountOverlaps,
+    findListOverlaps,
+    findAccountGaps
+} from "../../../../src/core/variables/accounts.ts";
+
+const accounts = listAccounts([
+    { account_code: "8000", account_description: "Revenue", statement_type: "IS", code1: "700", code2: "800" },
+    { account_code: "5210", account_description: "Rent", statement_type: "IS", code1: "500", code2: "520" },
+    { account_code: "5210", account_description: "Rent", statement_type: "IS", code1: "500", code2: "520" },
+    { account_code: "5230", account_description: "Energy", statement_type: "IS", code1: "500", code2: "520" },
+    { account_code: "5299", account_description: "Sundry costs", statement_type: "IS", code1: "500", code2: "529" },
+    { account_code: "0100", account_description: "Buildings", statement_type: "BS", code1: "010", code2: "011" }
+]);
+
+const layout = [
+    { order: 100, type: "variable", variable: "revenue" },
+    { order: 200, type: "variable", variable: "housing" },
+    { order: 300, type: "variable", variable: "other_costs" },
+    { order: 400, type: "subtotal", from: 200, to: 300 },
+    { order: 500, type: "calculated", expression: "@100 - @400" },
+    { order: 600, type: "calculated", expression: "@100 / @400" }
+];
+
+describe("Account Assignment of Variables", () => {
+    describe("listAccounts()", () => {
+        it("should list each account once, sorted by code", () => {
+            assertEquals(accounts.map(account => account.account_code), ["0100", "5210", "5230", "5299", "8000"]);
+            assertEquals(accounts[1].account_description, "Rent");
+        });
+
+        it("should skip rows without an account code", () => {
+            assertEquals(listAccounts([{ code1: "700" }, { account_code: "" }, { account_code: 8000 }]), [{ account_code: "8000" }]);
+        });
+    });
+
+    describe("findSummedVariables()", () => {
+        it("should follow subtotal ranges and row references", () => {
+            const variables = { revenue: {}, housing: {}, other_costs: {} };
+
+            assertEquals(findSummedVariables(layout, variables), [
+                { order: 400, variables: ["housing", "other_costs"] },
+                { order: 500, variables: ["revenue", "housing", "other_costs"] }
+            ]);
+        });
+
+        it("should ignore ratios and totals of a single variable", () => {
+            const variables = { revenue: {}, housing: {} };
+
+            assertEquals(findSummedVariables([
+                { order: 100, type: "variable", variable: "revenue" },
+                { order: 200, type: "variable", variable: "housing" },
+                { order: 300, type: "calculated", expression: "revenue * 0.21" },
+                { order: 400, type: "calculated", expression: "ABS(revenue) + housing" },
+                { order: 500, type: "calculated", expression: "@100 + @500" }
+            ], variables), []);
+        });
+    });
+
+    describe("findAccountOverlaps()", () => {
+        it("should find accounts counted in two variables of a total", () => {
+            const overlaps = findAccountOverlaps(layout, {
+                revenue: { filter: { code1: "700" } },
+                housing: { filter: { code2: "520" } },
+                other_costs: { filter: { code1: "500" }, exclude: ["5230"] }
+            }, accounts);
+
+            assertEquals(overlaps, [{
+                account_code: "5210",
+                account_description: "Rent",
+                variables: ["housing", "other_costs"],
+                orders: [400, 500]
+            }]);
+        });
+
+        it("should find no overlaps when the exclude list removes them", () => {
+            assertEquals(findAccountOverlaps(layout, {
+                revenue: { filter: { code1: "700" } },
+                housing: { filter: { code2: "520" } },
+                other_costs: { filter: { code1: "500" }, exclude: ["5210", "5230"] }
+            }, accounts), []);
+        });
+    });
+
+    describe("findListOverlaps()", () => {
+        it("should compare include lists without a chart of accounts", () => {
+            const overlaps = findListOverlaps(layout, {
+                revenue: { filter: { code1: "700" } },
+                housing: { filter: { code2: "520" }, include: ["5299"] },
+                other_costs: { filter: { code2: "530" }, include: ["5299", "5299"] }
+            });
+
+            assertEquals(overlaps, [{ account_code: "5299", variables: ["housing", "other_costs"], orders: [400, 500] }]);
+        });
+    });
+
+    describe("findAccountGaps()", () => {
+        it("should find accounts of the statement type no variable counts", () => {
+            const variables = {
+                revenue: { filter: { code1: "700" } },
+                housing: { filter: { code2: "520" }, exclude: ["5230"] }
+            };
+
+            assertEquals(findAccountGaps(variables, accounts, "income").map(account => account.account_code), ["5230", "5299"]);
+            assertEquals(findAccountGaps(variables, accounts, "balance").map(account => account.account_code), ["0100"]);
+        });
+
+        it("should not check cash flow reports", () => {
+            assertEquals(findAccountGaps({}, accounts, "cashflow"), []);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Tests for the chart-of-accounts coverage analysis
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { analyzeCoverage, totalAmounts } from "../../../../src/core/variables/coverage.ts";
+import { buildYearColumns } from "../../../../src/core/calculations/columns.ts";
+
+// Mock Arquero for testing (string filter expressions and objects())
+const mockAq = {
+    from: (data: any[]): any => ({
+        filter: (expr: string) => {
+            const filterFn = new Function('d', `return ${expr.replace(/^d => /, '')}`);
+            return mockAq.from(data.filter(row => filterFn(row)));
+        },
+        objects: () => data
+    })
+};
+
+const row = (account_code: string, statement_type: string, code1: string, year: number, movement_amount: number) => ({
+    account_code,
+    account_description: `Account ${account_code}`,
+    statement_type,
+    code1,
+    year,
+    period: 1,
+    movement_amount
+});
+
+const data = mockAq.from([
+    row('8000', 'IS', '700', 2024, -1000),
+    row('8000', 'IS', '700', 2025, -1100),
+    row('5210', 'IS', '500', 2025, 300),
+    row('5299', 'IS', '529', 2025, 50),
+    row('0100', 'BS', '010', 2025, 5000)
+]);
+
+const columns = buildYearColumns([2024, 2025]);
+
+describe("Coverage Analysis", () => {
+    describe("analyzeCoverage()", () => {
+        it("should list uncaptured and multiply counted accounts with their amounts", () => {
+            const analysis = analyzeCoverage({
+                reportId: 'pl',
+                statementType: 'income',
+                variables: {
+                    revenue: { filter: { code1: '700' } },
+                    costs: { filter: { code1: '500' } },
+                    rent: { filter: { account_code: '5210' } }
+                }
+            }, data, columns);
+
+            assertEquals(analysis.statementTypes, ['IS']);
+            assertEquals(analysis.uncaptured.map(account => account.account_code), ['5299']);
+            assertEquals(analysis.uncaptured[0].amounts, { '2024': 0, '2025': 50 });
+            assertEquals(analysis.multiple.map(account => [account.account_code, account.variables]), [['5210', ['costs', 'rent']]]);
+        });
+
+        it("should reconcile the report's total rows to the trial balance", () => {
+            const analysis = analyzeCoverage({
+                statementType: 'income',
+                variables: {
+                    revenue: { filter: { code1: '700' } },
+                    costs: { filter: { code1: '500' } },
+                    rent: { filter: { account_code: '5210' } }
+                }
+            }, data, columns, [
+                { label: 'Gross margin', type: 'calculated', style: 'metric', amount_2024: -1000, amount_2025: -800 },
+                { label: 'RESULT', type: 'spacer', style: 'total', amount_2024: null, amount_2025: null },
+                { label: 'Net result', type: 'calculated', style: 'total', amount_2024: -1000, amount_2025: -500 }
+            ]);
+
+            assertEquals(analysis.reconciliation, [{
+                statement_type: 'IS',
+                trialBalance: { '2024': -1000, '2025': -750 },
+                totalRows: ['Net result'],
+                reportTotal: { '2024': -1000, '2025': -500 },
+                difference: { '2024': 0, '2025': 250 },
+                reconciles: false
+            }]);
+        });
+
+        it("should reconcile when every account is counted once", () => {
+            const analysis = analyzeCoverage({
+                statementType: 'income',
+                variables: {
+                    revenue: { filter: { code1: '700' } },
+                    costs: { filter: { code1: '500' }, include: ['5299'] }
+                }
+            }, data, columns, [
+                { label: 'Net result', type: 'calculated', style: 'total', amount_2024: -1000, amount_2025: -750 }
+            ]);
+
+            assertEquals(analysis.uncaptured, []);
+            assertEquals(analysis.multiple, []);
+            assertEquals(analysis.reconciliation[0].reconciles, true);
+        });
+
+        it("should reconcile balance reports to the balances of the last period", () => {
+            const balances = mockAq.from([
+                { ...row('0100', 'BS', '010', 2025, 4000), period: 6 },
+                { ...row('0800', 'BS', '080', 2025, -4000), period: 6 },
+                { ...row('0100', 'BS', '010', 2025, 5000), period: 12 },
+                { ...row('0800', 'BS', '080', 2025, -5000), period: 12 }
+            ]);
+            const analysis = analyzeCoverage({
+                statementType: 'balance',
+                variables: { buildings: { filter: { code1: '010' } } }
+            }, balances, buildYearColumns([2025]), [
+                { label: 'Total assets', type: 'subtotal', style: 'total', amount_2025: 5000 }
+            ]);
+
+            assertEquals(analysis.uncaptured.map(account => [account.account_code, account.amounts]), [['0800', { '2025': -5000 }]]);
+            assertEquals(analysis.reconciliation[0].trialBalance, { '2025': 0 });
+            assertEquals(analysis.reconciliation[0].difference, { '2025': 5000 });
+        });
+
+        it("should check the statement types a cash flow report counts without reconciling", () => {
+            const analysis = analyzeCoverage({
+                statementType: 'cashflow',
+                variables: { buildings: { filter: { code1: '010' } }, revenue: { filter: { code1: '700' } } }
+            }, data, columns, [
+                { label: 'Net change in cash', type: 'variable', style: 'total', amount_2024: 0, amount_2025: 0 }
+            ]);
+
+            assertEquals(analysis.statementTypes, ['BS', 'IS']);
+            assertEquals(analysis.reconciliation, []);
+        });
+    });
+
+    describe("totalAmounts()", () => {
+        it("should total the amounts per column", () => {
+            const analysis = analyzeCoverage({ statementType: 'income', variables: {} }, data, columns);
+
+            assertEquals(totalAmounts(analysis.uncaptured, columns), { '2024': -1000, '2025': -750 });
+        });
+    });
+});
@@ -13,6 +13,7 @@ import {
     validateVariable,
     isValidAggregate,
     getDependencies,
+    buildVariableFilter,
     resolveSum,
     resolveAverage,
     resolveCount,
@@ -21,6 +22,7 @@ import {
     type VariableDefinition,
     type Variables
 } from "../../../../src/core/variables/resolver.ts";
+import { buildMonthColumns } from "../../../../src/core/calculations/columns.ts";
 
 // Mock Arquero for testing
 const mockAq = {
@@ -75,6 +77,7 @@ describe("Variable Resolver - Functional Implementation", () => {
             assertEquals(AGGREGATE_FUNCTIONS.includes("max"), true);
             assertEquals(AGGREGATE_FUNCTIONS.includes("first"), true);
             assertEquals(AGGREGATE_FUNCTIONS.includes("last"), true);
+            assertEquals(AGGREGATE_FUNCTIONS.includes("closing"), true);
         });
     });
 
@@ -218,6 +221,67 @@ describe("Variable Resolver - Functional Implementation", () => {
             
             assertEquals(result.isValid, true);
         });
+
+        it("should validate include and exclude account lists", () => {
+            assertEquals(validateVariable({
+                filter: { code2: "520" },
+                aggregate: "sum",
+                include: ["6100"],
+                exclude: ["5210", "5220"]
+            }).isValid, true);
+
+            const result = validateVariable({
+                filter: { code2: "520" },
+                aggregate: "sum",
+                include: ["5210", 6100],
+                exclude: ["5210"]
+            } as any);
+            
+            assertEquals(result.isValid, false);
+            assertEquals(result.errors, [
+                "include must be a non-empty array of account codes",
+                "Accounts both included and excluded: 5210"
+            ]);
+            assertEquals(validateVariable({ filter: { code2: "520" }, aggregate: "sum", exclude: [] }).errors, [
+                "exclude must be a non-empty array of account codes"
+            ]);
+        });
+    });
+
+    describe("buildVariableFilter()", () => {
+        it("should return the filter of a variable without account lists", () => {
+            assertEquals(buildVariableFilter({ filter: { code1: "700" } }), { code1: "700" });
+        });
+
+        it("should exclude and include accounts", () => {
+            assertEquals(buildVariableFilter({ filter: { code2: "520" }, exclude: ["5210"], include: ["6100"] }), {
+                anyOf: [
+                    { allOf: [{ code2: "520" }, { not: { anyOf: [{ account_code: "5210" }] } }] },
+                    { account_code: "6100" }
+                ]
+            });
+        });
+
+        it("should resolve variables with account lists", () => {
+            const table = mockAq.from([
+                { account_code: "5210", code2: "520", year: 2024, period: "P01", movement_amount: 1000 },
+                { account_code: "5230", code2: "520", year: 2024, period: "P01", movement_amount: 200 },
+                { account_code: "6100", code2: "610", year: 2024, period: "P01", movement_amount: 30 },
+                { account_code: "6200", code2: "610", year: 2024, period: "P01", movement_amount: 4 }
+            ]);
+            
+            const result = resolveVariable({
+                filter: { code2: "520" },
+                aggregate: "sum",
+                exclude: ["5210"],
+                include: ["6100"]
+            })(table);
+            
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value[2024], 230);
+            }
+        });
     });
 
     describe("resolveVariable() - Sum Aggregate", () => {
@@ -408,6 +472,77 @@ describe("Variable Resolver - Functional Implementation", () => {
         });
     });
 
+    describe("resolveVariable() - Period Columns", () => {
+        it("should calculate sum per monthly column", () => {
+            const data = [
+                { code1: "700", year: 2025, period: 1, movement_amount: 1000 },
+                { code1: "700", year: 2025, period: 2, movement_amount: 2000 },
+                { code1: "700", year: 2025, period: 2, movement_amount: 500 },
+                { code1: "700", year: 2024, period: 2, movement_amount: 9000 }
+            ];
+            const table = mockAq.from(data);
+            
+            const varDef: VariableDefinition = {
+                filter: { code1: "700" },
+                aggregate: "sum"
+            };
+            
+            const result = resolveVariable(varDef, buildMonthColumns(2025, 1, 3))(table);
+            
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value['2025_P1'], 1000);
+                assertEquals(result.value['2025_P2'], 2500);
+                assertEquals(result.value['2025_P3'], 0);
+                assertEquals(result.value[2024], undefined);
+            }
+        });
+
+        it("should return 0 per column for no matching data", () => {
+            const table = mockAq.from([
+                { code1: "700", year: 2025, period: 1, movement_amount: 1000 }
+            ]);
+            
+            const varDef: VariableDefinition = {
+                filter: { code1: "999" },
+                aggregate: "sum"
+            };
+            
+            const result = resolveVariable(varDef, buildMonthColumns(2025, 1, 2))(table);
+            
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value, { '2025_P1': 0, '2025_P2': 0 });
+            }
+        });
+
+        it("should resolve variables for columns in period options", () => {
+            const data = [
+                { code1: "700", year: 2021, period: 1, movement_amount: 100 },
+                { code1: "700", year: 2023, period: 1, movement_amount: 300 },
+                { code1: "700", year: 2025, period: 1, movement_amount: 500 }
+            ];
+            const table = mockAq.from(data);
+            
+            const variables: Variables = {
+                revenue: { filter: { code1: "700" }, aggregate: "sum" }
+            };
+            
+            const result = resolveVariables(variables)(table)({
+                columns: [
+                    { key: '2021', year: 2021 },
+                    { key: '2023', year: 2023 },
+                    { key: '2025', year: 2025 }
+                ]
+            });
+            
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value.get('revenue'), { '2021': 100, '2023': 300, '2025': 500 });
+            }
+        });
+    });
+
     describe("resolveVariable() - Average Aggregate", () => {
         it("should calculate average", () => {
             const data = [
@@ -656,6 +791,47 @@ describe("Variable Resolver - Functional Implementation", () => {
         });
     });
 
+    describe("resolveVariable() - Closing Aggregate", () => {
+        // Cumulative balances per period, as in the balances table
+        const data = [
+            { code1: "40", year: 2025, period: 1, movement_amount: 500 },
+            { code1: "40", year: 2025, period: 2, movement_amount: 700 },
+            { code1: "41", year: 2025, period: 1, movement_amount: 100 },
+            { code1: "41", year: 2025, period: 2, movement_amount: 200 },
+            { code1: "50", year: 2025, period: 3, movement_amount: 50 }
+        ];
+
+        it("should sum the balances of the last period with data", () => {
+            const varDef: VariableDefinition = {
+                filter: { code1: ["40", "41"] },
+                aggregate: "closing"
+            };
+
+            const result = resolveVariable(varDef, buildMonthColumns(2025, 1, 2))(mockAq.from(data));
+
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value["2025_P1"], 600);
+                assertEquals(result.value["2025_P2"], 900);
+            }
+        });
+
+        it("should close on the last period of the data, not of the filtered accounts", () => {
+            const varDef: VariableDefinition = {
+                filter: { code1: "40" },
+                aggregate: "closing"
+            };
+
+            // Period 3 only has other accounts, so account 40 has no balance left
+            const result = resolveVariable(varDef)(mockAq.from(data));
+
+            assertEquals(result.success, true);
+            if (result.success) {
+                assertEquals(result.value[2025], 0);
+            }
+        });
+    });
+
     describe("resolveVariables() - Multiple Variables", () => {
         it("should resolve multiple variables", () => {
             const data = [
@@ -4,10 +4,12 @@
  * Tests for Excel file loading and transformation logic
  */
 
-import { assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { assertEquals, assertExists, assertThrows } from "https://deno.land/std@0.208.0/assert/mod.ts";
 import DataLoader from "../../../src/data/DataLoader.ts";
 import { MONTH_MAP } from "../../../src/constants.ts";
-import DateUtils from "../../../src/utils/DateUtils.ts";
+import { DEFAULT_IMPORT_PROFILE, findPeriodColumns } from "../../../src/core/transformations/import-profile.ts";
+import { initializeDayJS } from "../../../src/core/transformations/date.ts";
+import { InvalidConfigError } from "../../../src/errors/ConfigurationError.ts";
 
 // Mock dayjs for DateUtils with proper month names
 const dutchMonthNames = [
@@ -34,8 +36,8 @@ const mockDayjs = Object.assign(
 );
 (globalThis as any).dayjs = mockDayjs;
 
-// Initialize DateUtils before running tests
-DateUtils.initialize();
+// Initialize Day.js before running tests
+initializeDayJS();
 
 Deno.test("DataLoader - constructor initializes correctly", () => {
     const loader = new DataLoader();
@@ -109,83 +111,43 @@ Deno.test("DataLoader.validateColumns - returns error when data is empty", () =>
     assertEquals(result.errors[0].message, 'File is empty or invalid');
 });
 
-Deno.test("DataLoader.mapMonthToPeriod - maps Dutch months to periods", () => {
-    const loader = new DataLoader();
-
-    // Test all months
-    assertEquals(loader.mapMonthToPeriod('januari2024', '2024'), {
-        period: 1,
-        year: 2024,
-        type: 'movement'
-    });
-
-    assertEquals(loader.mapMonthToPeriod('december2025', '2025'), {
-        period: 12,
-        year: 2025,
-        type: 'movement'
-    });
-
-    assertEquals(loader.mapMonthToPeriod('mei2024', '2024'), {
-        period: 5,
-        year: 2024,
-        type: 'movement'
-    });
+// Map a single header through the default import profile's period columns
+const mapHeader = (header: string, year: string) => {
+    const { movements, balances } = findPeriodColumns([header], DEFAULT_IMPORT_PROFILE, year);
+    if (movements.length > 0) return { period: movements[0].period, type: 'movement' };
+    if (balances.length > 0) return { period: balances[0].period, type: 'balance' };
+    return null;
+};
+
+Deno.test("findPeriodColumns - maps Dutch months to periods", () => {
+    assertEquals(mapHeader('januari2024', '2024'), { period: 1, type: 'movement' });
+    assertEquals(mapHeader('december2025', '2025'), { period: 12, type: 'movement' });
+    assertEquals(mapHeader('mei2024', '2024'), { period: 5, type: 'movement' });
 });
 
-Deno.test("DataLoader.mapMonthToPeriod - maps voorafgaande to period 12", () => {
-    const loader = new DataLoader();
-
-    const result = loader.mapMonthToPeriod('voorafgaandejournaalposten2024', '2024');
-    assertEquals(result, {
-        period: 12,
-        year: 2024,
-        type: 'movement'
-    });
-
-    const result2 = loader.mapMonthToPeriod('voorafgaande2025', '2025');
-    assertEquals(result2, {
-        period: 12,
-        year: 2025,
-        type: 'movement'
-    });
+Deno.test("findPeriodColumns - maps voorafgaande to period 12", () => {
+    assertEquals(mapHeader('voorafgaandejournaalposten2024', '2024'), { period: 12, type: 'movement' });
+    assertEquals(mapHeader('voorafgaande2025', '2025'), { period: 12, type: 'movement' });
 });
 
-Deno.test("DataLoader.mapMonthToPeriod - maps saldo to balance type", () => {
-    const loader = new DataLoader();
-
-    const result = loader.mapMonthToPeriod('Saldo2024', '2024');
-    assertEquals(result, {
-        period: 12,
-        year: 2024,
-        type: 'balance'
-    });
-
-    const result2 = loader.mapMonthToPeriod('balance2025', '2025');
-    assertEquals(result2, {
-        period: 12,
-        year: 2025,
-        type: 'balance'
-    });
+Deno.test("findPeriodColumns - maps saldo to balance type", () => {
+    assertEquals(mapHeader('Saldo2024', '2024'), { period: 12, type: 'balance' });
+    assertEquals(mapHeader('balance2025', '2025'), { period: 12, type: 'balance' });
 });
 
-Deno.test("DataLoader.mapMonthToPeriod - returns null for non-matching columns", () => {
-    const loader = new DataLoader();
-
-    assertEquals(loader.mapMonthToPeriod('random_column', '2024'), null);
-    assertEquals(loader.mapMonthToPeriod('account_code', '2024'), null);
-    assertEquals(loader.mapMonthToPeriod('', '2024'), null);
+Deno.test("findPeriodColumns - returns no columns for non-matching headers", () => {
+    assertEquals(mapHeader('random_column', '2024'), null);
+    assertEquals(mapHeader('account_code', '2024'), null);
+    assertEquals(mapHeader('', '2024'), null);
 });
 
-Deno.test("DataLoader.mapMonthToPeriod - case insensitive matching", () => {
-    const loader = new DataLoader();
-
-    assertEquals(loader.mapMonthToPeriod('JANUARI2024', '2024')?.period, 1);
-    assertEquals(loader.mapMonthToPeriod('JaNuArI2024', '2024')?.period, 1);
-    assertEquals(loader.mapMonthToPeriod('SALDO2024', '2024')?.type, 'balance');
+Deno.test("findPeriodColumns - case insensitive matching", () => {
+    assertEquals(mapHeader('JANUARI2024', '2024')?.period, 1);
+    assertEquals(mapHeader('JaNuArI2024', '2024')?.period, 1);
+    assertEquals(mapHeader('SALDO2024', '2024')?.type, 'balance');
 });
 
-Deno.test("DataLoader.identifyPeriodColumns - identifies movement and balance columns", () => {
-    const loader = new DataLoader();
+Deno.test("findPeriodColumns - identifies movement and balance columns", () => {
     const headers = [
         'account_code',
         'account_description',
@@ -195,23 +157,22 @@ Deno.test("DataLoader.identifyPeriodColumns - identifies movement and balance co
         'Saldo2024'
     ];
 
-    const result = loader.identifyPeriodColumns(headers, '2024');
+    const result = findPeriodColumns(headers, DEFAULT_IMPORT_PROFILE, '2024');
 
     assertEquals(result.movements.length, 3);
     assertEquals(result.movements[0].period, 1);
     assertEquals(result.movements[0].columnName, 'januari2024');
-    assertExists(result.movements[0].columnIndex); // Just verify it has an index
+    assertEquals(result.movements[0].columnIndex, 2);
     assertEquals(result.movements[1].period, 2);
     assertEquals(result.movements[2].period, 3);
 
     assertEquals(result.balances.length, 1);
     assertEquals(result.balances[0].period, 12);
     assertEquals(result.balances[0].columnName, 'Saldo2024');
-    assertExists(result.balances[0].columnIndex); // Just verify it has an index
+    assertEquals(result.balances[0].columnIndex, 5);
 });
 
-Deno.test("DataLoader.identifyPeriodColumns - filters by year", () => {
-    const loader = new DataLoader();
+Deno.test("findPeriodColumns - filters by year", () => {
     const headers = [
         'januari2024',
         'februari2024',
@@ -219,28 +180,24 @@ Deno.test("DataLoader.identifyPeriodColumns - filters by year", () => {
         'februari2025'
     ];
 
-    const result2024 = loader.identifyPeriodColumns(headers, '2024');
+    const result2024 = findPeriodColumns(headers, DEFAULT_IMPORT_PROFILE, '2024');
     assertEquals(result2024.movements.length, 2);
     assertEquals(result2024.movements[0].columnName, 'januari2024');
     assertEquals(result2024.movements[1].columnName, 'februari2024');
 
-    const result2025 = loader.identifyPeriodColumns(headers, '2025');
+    const result2025 = findPeriodColumns(headers, DEFAULT_IMPORT_PROFILE, '2025');
     assertEquals(result2025.movements.length, 2);
     assertEquals(result2025.movements[0].columnName, 'januari2025');
     assertEquals(result2025.movements[1].columnName, 'februari2025');
 });
 
-Deno.test("DataLoader.identifyPeriodColumns - handles empty headers", () => {
-    const loader = new DataLoader();
-    const headers: string[] = [];
-
-    const result = loader.identifyPeriodColumns(headers, '2024');
+Deno.test("findPeriodColumns - handles empty headers", () => {
+    const result = findPeriodColumns([], DEFAULT_IMPORT_PROFILE, '2024');
     assertEquals(result.movements.length, 0);
     assertEquals(result.balances.length, 0);
 });
 
-Deno.test("DataLoader.identifyPeriodColumns - skips null/undefined headers", () => {
-    const loader = new DataLoader();
+Deno.test("findPeriodColumns - skips null/undefined headers", () => {
     const headers = [
         'januari2024',
         null,
@@ -249,32 +206,77 @@ Deno.test("DataLoader.identifyPeriodColumns - skips null/undefined headers", ()
         'maart2024'
     ];
 
-    const result = loader.identifyPeriodColumns(headers as any, '2024');
+    const result = findPeriodColumns(headers, DEFAULT_IMPORT_PROFILE, '2024');
     assertEquals(result.movements.length, 3); // Only non-null headers counted
 });
 
-Deno.test("DataLoader - MONTH_MAP is used correctly", () => {
-    const loader = new DataLoader();
-
+Deno.test("findPeriodColumns - MONTH_MAP is used correctly", () => {
     // Verify all months in MONTH_MAP can be mapped
     Object.entries(MONTH_MAP).forEach(([monthName, periodNum]) => {
-        const result = loader.mapMonthToPeriod(`${monthName}2024`, '2024');
+        const result = mapHeader(`${monthName}2024`, '2024');
         assertExists(result);
         assertEquals(result?.period, periodNum);
         assertEquals(result?.type, 'movement');
     });
 });
 
-Deno.test("DataLoader - all Dutch months are supported", () => {
-    const loader = new DataLoader();
+Deno.test("findPeriodColumns - all Dutch months are supported", () => {
     const dutchMonths = [
         'januari', 'februari', 'maart', 'april', 'mei', 'juni',
         'juli', 'augustus', 'september', 'oktober', 'november', 'december'
     ];
 
     dutchMonths.forEach((month, index) => {
-        const result = loader.mapMonthToPeriod(`${month}2024`, '2024');
+        const result = mapHeader(`${month}2024`, '2024');
         assertExists(result);
         assertEquals(result?.period, index + 1);
     });
 });
+
+Deno.test("DataLoader.parseTrialBalanceText - reports the widest row of a large file", () => {
+    const table = (rows: any[]): any => ({
+        numRows: () => rows.length,
+        columnNames: () => Object.keys(rows[0] ?? {}),
+        filter: () => table([]),
+        rollup: () => table([]),
+        rename: () => table(rows)
+    });
+    (globalThis as any).aq = { from: table };
+
+    const lines = [',,,Type,Code1,Name1,Code2,Name2,Code3,Name3,Account,Description,januari2025'];
+    for (let i = 0; i < 200000; i++) {
+        lines.push(`,,,Winst & verlies,700,Sales,,,,,${8000 + i},Account ${i},-1`);
+    }
+    lines.push(',,,Winst & verlies,700,Sales,,,,,7999,Wide row,-1,extra');
+
+    const loader = new DataLoader();
+    const result = loader.parseTrialBalanceText(lines.join('\n'), 'large.csv', '2025');
+
+    assertEquals(result.metadata.rows, 200002);
+    assertEquals(result.metadata.columns, 14);
+    assertEquals(result.movements.numRows(), 200001);
+});
+
+Deno.test("DataLoader.translateTrialBalance - reports an incomplete currency configuration", () => {
+    const loader = new DataLoader();
+    const result: any = { movements: null, balances: null, metadata: { rows: 0, columns: 0, cumulativeProfit: 0 } };
+    const config: any = { currency: { datasets: { actual: 'USD' }, fxRates: 'fx_rates.csv' } };
+
+    assertThrows(() => loader.translateTrialBalance(result, 'actual', config),
+        InvalidConfigError, 'currency.translationAccount');
+
+    config.currency.translationAccount = { accountCode: '0590', code1: '060' };
+    assertThrows(() => loader.translateTrialBalance(result, 'actual', config),
+        InvalidConfigError, 'currency.fxRates = "fx_rates.csv"');
+
+    assertEquals(loader.translateTrialBalance(result, 'eur-entity', config), result);
+});
+
+Deno.test("DataLoader.resolveTrialBalanceFilename - reports a workbook missing from inputFiles", () => {
+    const loader = new DataLoader();
+    const config: any = { inputFiles: { trialBalance2025: '2025_tb.xlsx', scenarios: { budget: {} } } };
+
+    assertEquals(loader.resolveTrialBalanceFilename(config, '2025'), '2025_tb.xlsx');
+    assertThrows(() => loader.resolveTrialBalanceFilename(config, '2025', 'budget'),
+        InvalidConfigError, 'inputFiles.scenarios.budget.2025');
+});
@@ -215,3 +215,22 @@ Deno.test("DataStore - multiple periods can be stored", () => {
     assertEquals(store.getFactTable('2025', 'movements'), table2025);
     assertEquals(store.getFactTable('2026', 'movements'), table2026);
 });
+
+Deno.test("DataStore.setScenarioTable / getScenarioTable - keeps scenarios apart from actuals", () => {
+    const store = new DataStore();
+    store.clear();
+
+    const budgetMovements = new MockTable(12) as any;
+    const budgetBalances = new MockTable(6) as any;
+    store.setScenarioTable(budgetMovements, 'budget', 'movements');
+    store.setScenarioTable(budgetBalances, 'budget', 'balances');
+
+    assertEquals(store.getScenarioTable('budget', 'movements'), budgetMovements);
+    assertEquals(store.getScenarioTable('budget', 'balances'), budgetBalances);
+    assertEquals(store.getScenarioTable('forecast'), null);
+    assertEquals(store.getScenarios(), ['budget']);
+    assertEquals(store.getAllPeriods(), []);
+
+    store.clear();
+    assertEquals(store.getScenarios(), []);
+});
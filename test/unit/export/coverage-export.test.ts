@@ -0,0 +1,54 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { coverageToCSV, coverageToJSON } from "../../../src/export/coverage-export.ts";
+import type { CoverageAnalysis } from "../../../src/core/variables/coverage.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+const analysis: CoverageAnalysis = {
+    reportId: 'pl',
+    statementType: 'income',
+    columns: buildYearColumns([2024, 2025]),
+    statementTypes: ['IS'],
+    uncaptured: [
+        { account_code: '5299', account_description: 'Sundry, other', statement_type: 'IS', variables: [], amounts: { '2024': 0, '2025': 50 } }
+    ],
+    multiple: [
+        { account_code: '5210', account_description: 'Rent', statement_type: 'IS', variables: ['costs', 'rent'], amounts: { '2024': 0, '2025': 300 } }
+    ],
+    reconciliation: [{
+        statement_type: 'IS',
+        trialBalance: { '2024': -1000, '2025': -750 },
+        totalRows: ['Net result'],
+        reportTotal: { '2024': -1000, '2025': -500 },
+        difference: { '2024': 0, '2025': 250 },
+        reconciles: false
+    }]
+};
+
+describe('Coverage Export', () => {
+    describe('coverageToCSV', () => {
+        it('writes the accounts and the reconciliation with one amount column per period column', () => {
+            assertEquals(coverageToCSV(analysis).trimEnd().split('\n'), [
+                'Section,Statement type,Account,Description,Variables,2024,2025',
+                'Uncaptured,IS,5299,"Sundry, other",,0,50',
+                'Multiple variables,IS,5210,Rent,"costs, rent",0,300',
+                'Trial balance,IS,,,,-1000,-750',
+                'Report total,IS,,Net result,,-1000,-500',
+                'Difference,IS,,,,0,250'
+            ]);
+        });
+
+        it('supports other delimiters', () => {
+            assertEquals(coverageToCSV(analysis, ';').split('\n')[1], 'Uncaptured;IS;5299;Sundry, other;;0;50');
+        });
+    });
+
+    describe('coverageToJSON', () => {
+        it('writes the analysis', () => {
+            const json = JSON.parse(coverageToJSON(analysis));
+            assertEquals(json.reportId, 'pl');
+            assertEquals(json.multiple[0].variables, ['costs', 'rent']);
+            assertEquals(json.reconciliation[0].reconciles, false);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    getExportColumns,
+    statementToCSV,
+    statementToJSON
+} from "../../../src/export/statement-export.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+const row = (order: number, label: string, type: string, amounts: Record<string, number | null>, variance: number | null = null) => ({
+    order,
+    label,
+    type,
+    style: type === 'subtotal' ? 'subtotal' : 'normal',
+    indent: 0,
+    format: 'currency',
+    variance_amount: variance,
+    variance_percent: variance === null ? null : 10,
+    _metadata: {},
+    ...amounts
+});
+
+const statement = (comparison: any = { base: '2024', compare: '2025' }): any => ({
+    reportId: 'test_report',
+    reportName: 'Test Report',
+    reportVersion: '1.0.0',
+    statementType: 'income',
+    generatedAt: '2025-01-01T00:00:00.000Z',
+    rows: [
+        row(10, 'Revenue', 'variable', { amount_2024: 1000, amount_2025: 1100 }, 100),
+        row(20, '', 'spacer', { amount_2024: null, amount_2025: null }),
+        row(30, 'Costs, other', 'variable', { amount_2024: -400, amount_2025: -440 }, -40),
+        row(40, 'Gross "margin"', 'subtotal', { amount_2024: 600, amount_2025: 660 }, 60)
+    ],
+    metadata: {
+        periodOptions: {},
+        columns: buildYearColumns([2024, 2025]),
+        comparison,
+        variableCount: 2,
+        layoutItemCount: 4
+    }
+});
+
+describe('Statement Export', () => {
+    describe('getExportColumns', () => {
+        it('includes variance columns only with a comparison', () => {
+            assertEquals(
+                getExportColumns(statement()).map(column => column.header),
+                ['Label', '2024', '2025', 'Variance', 'Variance %']
+            );
+            assertEquals(
+                getExportColumns(statement(null)).map(column => column.field),
+                ['label', 'amount_2024', 'amount_2025']
+            );
+        });
+    });
+
+    describe('statementToCSV', () => {
+        it('writes a header and one line per non-spacer row', () => {
+            const lines = statementToCSV(statement()).trimEnd().split('\n');
+
+            assertEquals(lines.length, 4);
+            assertEquals(lines[0], 'Label,2024,2025,Variance,Variance %');
+            assertEquals(lines[1], 'Revenue,1000,1100,100,10');
+        });
+
+        it('quotes values containing delimiters or quotes', () => {
+            const lines = statementToCSV(statement()).trimEnd().split('\n');
+
+            assertEquals(lines[2], '"Costs, other",-400,-440,-40,10');
+            assertEquals(lines[3], '"Gross ""margin""",600,660,60,10');
+        });
+
+        it('supports another delimiter', () => {
+            const lines = statementToCSV(statement(null), ';').trimEnd().split('\n');
+            assertEquals(lines[2], 'Costs, other;-400;-440');
+        });
+
+        it('rounds amounts to the decimals of the row format', () => {
+            const data = statement(null);
+            data.rows = [
+                row(10, 'Revenue', 'variable', { amount_2024: 5280.000000000001, amount_2025: 0.1 + 0.2 }),
+                { ...row(20, 'Margin', 'calculated', { amount_2024: 0.123456, amount_2025: 1 / 3 }), format: 'percent' }
+            ];
+            const lines = statementToCSV(data).trimEnd().split('\n');
+
+            assertEquals(lines[1], 'Revenue,5280,0.3');
+            assertEquals(lines[2], 'Margin,0.1235,0.3333');
+        });
+
+        it('keeps columns with the same label apart', () => {
+            const data = statement(null);
+            data.metadata.columns = data.metadata.columns.map((column: any) => ({ ...column, label: 'FY' }));
+            const lines = statementToCSV(data).trimEnd().split('\n');
+
+            assertEquals(lines[0], 'Label,FY,FY');
+            assertEquals(lines[1], 'Revenue,1000,1100');
+        });
+    });
+
+    describe('statementToJSON', () => {
+        it('includes report identity, columns and records', () => {
+            const json = JSON.parse(statementToJSON(statement()));
+
+            assertEquals(json.reportId, 'test_report');
+            assertEquals(json.columns.map((column: any) => column.key), ['2024', '2025']);
+            assertEquals(json.comparison, { base: '2024', compare: '2025' });
+            assertEquals(json.rows.length, 3);
+            assertEquals(json.fields.map((field: any) => field.header), ['Label', '2024', '2025', 'Variance', 'Variance %']);
+            assertEquals(json.rows[0], { label: 'Revenue', amount_2024: 1000, amount_2025: 1100, variance_amount: 100, variance_percent: 10 });
+        });
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, beforeEach } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertNotEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import ReportHistory from "../../../src/reports/ReportHistory.ts";
+
+// Mock localStorage for testing
+class MockLocalStorage {
+  private storage: Map<string, string> = new Map();
+  quota = Infinity;
+
+  getItem(key: string): string | null {
+    const value = this.storage.get(key);
+    return value !== undefined ? value : null;
+  }
+
+  setItem(key: string, value: string): void {
+    if (value.length > this.quota) {
+      throw new Error('QuotaExceededError');
+    }
+    this.storage.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.storage.delete(key);
+  }
+
+  clear(): void {
+    this.storage.clear();
+  }
+
+  get length(): number {
+    return this.storage.size;
+  }
+
+  key(index: number): string | null {
+    const keys = Array.from(this.storage.keys());
+    return keys[index] || null;
+  }
+}
+
+const reportDef: any = {
+  reportId: 'income_statement',
+  name: 'Income Statement',
+  version: '1.0.0',
+  statementType: 'income',
+  variables: { revenue: { filter: { code1: '500' } } },
+  layout: [{ order: 100, type: 'variable', variable: 'revenue', label: 'Revenue' }]
+};
+
+describe("ReportHistory", () => {
+  let storage: MockLocalStorage;
+  let history: ReportHistory;
+
+  beforeEach(() => {
+    storage = new MockLocalStorage();
+    history = new ReportHistory({ storage: storage as unknown as Storage });
+  });
+
+  describe("hash", () => {
+    it("should not depend on key order", async () => {
+      const reordered = { layout: reportDef.layout, variables: reportDef.variables, version: '1.0.0', statementType: 'income', name: 'Income Statement', reportId: 'income_statement' };
+      assertEquals(await ReportHistory.hash(reordered as any), await ReportHistory.hash(reportDef));
+    });
+
+    it("should change with the contents", async () => {
+      assertNotEquals(await ReportHistory.hash({ ...reportDef, name: 'Other' }), await ReportHistory.hash(reportDef));
+    });
+  });
+
+  describe("record", () => {
+    it("should store a snapshot with hash, timestamp and source", async () => {
+      const snapshot = await history.record(reportDef, '/reports/income.json');
+
+      assertEquals(snapshot.hash.length, 64);
+      assertEquals(snapshot.version, '1.0.0');
+      assertEquals(snapshot.source, '/reports/income.json');
+      assertEquals(typeof Date.parse(snapshot.timestamp), 'number');
+      assertEquals(history.getHistory('income_statement'), [snapshot]);
+    });
+
+    it("should not store an unchanged definition again", async () => {
+      await history.record(reportDef);
+      await history.record(structuredClone(reportDef));
+
+      assertEquals(history.getHistory('income_statement').length, 1);
+    });
+
+    it("should keep versions oldest first", async () => {
+      await history.record(reportDef);
+      await history.record({ ...reportDef, version: '1.1.0' });
+      await history.record(reportDef);
+
+      assertEquals(history.getHistory('income_statement').map(snapshot => snapshot.version), ['1.0.0', '1.1.0', '1.0.0']);
+    });
+
+    it("should not be affected by later changes to the definition", async () => {
+      const definition = structuredClone(reportDef);
+      await history.record(definition);
+      definition.name = 'Changed';
+
+      assertEquals(history.getHistory('income_statement')[0].definition.name, 'Income Statement');
+    });
+
+    it("should keep at most maxSnapshots versions", async () => {
+      history = new ReportHistory({ storage: storage as unknown as Storage, maxSnapshots: 2 });
+      for (const version of ['1.0.0', '1.1.0', '1.2.0']) {
+        await history.record({ ...reportDef, version });
+      }
+
+      assertEquals(history.getHistory('income_statement').map(snapshot => snapshot.version), ['1.1.0', '1.2.0']);
+    });
+
+    it("should drop the oldest versions when storage is full", async () => {
+      await history.record(reportDef);
+      storage.quota = storage.getItem('reportHistory:income_statement')!.length * 1.5;
+      await history.record({ ...reportDef, version: '1.1.0' });
+
+      assertEquals(history.getHistory('income_statement').map(snapshot => snapshot.version), ['1.1.0']);
+    });
+  });
+
+  describe("getSnapshot", () => {
+    it("should find a version by hash prefix", async () => {
+      const snapshot = await history.record(reportDef);
+
+      assertEquals(history.getSnapshot('income_statement', snapshot.hash.slice(0, 8)), snapshot);
+      assertEquals(history.getSnapshot('income_statement', 'not-a-hash'), null);
+    });
+  });
+
+  describe("getReportIds and clear", () => {
+    it("should list and clear reports with history", async () => {
+      await history.record(reportDef);
+      await history.record({ ...reportDef, reportId: 'balance_sheet' });
+      storage.setItem('unrelated', '1');
+
+      assertEquals(history.getReportIds(), ['balance_sheet', 'income_statement']);
+
+      history.clear('balance_sheet');
+      assertEquals(history.getReportIds(), ['income_statement']);
+
+      history.clear();
+      assertEquals(history.getReportIds(), []);
+      assertEquals(storage.getItem('unrelated'), '1');
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, beforeAll } from "https://deno.land/std@0.208.0/testing/bdd.ts";
 import { assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
-import ReportLoader from "../../../src/reports/ReportLoader.ts";
-import ReportValidator from "../../../src/reports/ReportValidator.ts";
+import ReportLoader, { mergeReportDefinitions } from "../../../src/reports/ReportLoader.ts";
+import ReportValidator, { type ReportDefinition, type ReportOverride } from "../../../src/reports/ReportValidator.ts";
+import ReportHistory from "../../../src/reports/ReportHistory.ts";
 
 // Load the schema
 let schema: any;
@@ -507,4 +508,221 @@ describe("ReportLoader", () => {
       }
     });
   });
+
+  describe("extends", () => {
+    const writeReports = async (reports: any[]): Promise<string> => {
+      const tempDir = await Deno.makeTempDir();
+      for (const report of reports) {
+        await Deno.writeTextFile(`${tempDir}/${report.reportId}.json`, JSON.stringify(report));
+      }
+      return tempDir;
+    };
+
+    const base: ReportDefinition = {
+      reportId: "base",
+      name: "Base",
+      version: "1.0.0",
+      statementType: "income",
+      variables: {
+        revenue: { filter: { code1: "700" }, aggregate: "sum" },
+        costs: { filter: { code1: "400" }, aggregate: "sum" }
+      },
+      layout: [
+        { order: 10, label: "Revenue", type: "variable", variable: "revenue" },
+        { order: 20, label: "Costs", type: "variable", variable: "costs" },
+        { order: 30, type: "spacer" },
+        { order: 40, label: "Result", type: "subtotal", from: 10, to: 20, style: "total" }
+      ],
+      formatting: { currency: { decimals: 0 } }
+    };
+
+    it("should merge the parent loaded from the same directory", async () => {
+      const tempDir = await writeReports([base, {
+        reportId: "child",
+        extends: "base",
+        name: "Child",
+        version: "1.1.0",
+        statementType: "income",
+        variables: { costs: { filter: { code1: ["400", "410"] }, aggregate: "sum" } },
+        layout: [
+          { order: 10, label: "Net sales" },
+          { order: 30, remove: true },
+          { order: 50, label: "Margin", type: "calculated", expression: "@40 / @10", format: "percent" }
+        ]
+      }]);
+
+      try {
+        const testLoader = new ReportLoader(validator);
+        const report = await testLoader.loadReportFromFile(`${tempDir}/child.json`);
+
+        assertEquals(report.name, "Child");
+        assertEquals(report.extends, "base");
+        assertEquals(report.variables.revenue, base.variables.revenue);
+        assertEquals(report.variables.costs.filter.code1, ["400", "410"]);
+        assertEquals(report.formatting, base.formatting);
+        assertEquals(report.layout.map((item: any) => [item.order, item.label]), [
+          [10, "Net sales"], [20, "Costs"], [40, "Result"], [50, "Margin"]
+        ]);
+        const [first] = report.layout;
+        assertEquals(first.type === "variable" && first.variable, "revenue");
+        assertEquals(testLoader.isCached(`${tempDir}/base.json`), true);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should resolve chains of several reports", async () => {
+      const tempDir = await writeReports([
+        base,
+        { ...base, reportId: "middle", extends: "base", layout: [{ order: 20, label: "Expenses" }] },
+        { ...base, reportId: "leaf", extends: "middle", variables: {}, layout: [{ order: 10, style: "metric" }] }
+      ]);
+
+      try {
+        const report = await new ReportLoader(validator).loadReportFromFile(`${tempDir}/leaf.json`);
+
+        assertEquals(report.layout[0].style, "metric");
+        assertEquals(report.layout[1].label, "Expenses");
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should reject cycles and removed items that are still referenced", async () => {
+      const tempDir = await writeReports([
+        { ...base, reportId: "first", extends: "second", layout: [] },
+        { ...base, reportId: "second", extends: "first", layout: [] },
+        base,
+        { ...base, reportId: "broken", extends: "base", layout: [{ order: 20, remove: true }] }
+      ]);
+
+      try {
+        const testLoader = new ReportLoader(validator);
+        for (const [file, message] of [["first", "Circular extends chain"], ["broken", "Order number 20 does not exist"]]) {
+          try {
+            await testLoader.loadReportFromFile(`${tempDir}/${file}.json`);
+            throw new Error("Should have thrown");
+          } catch (error: any) {
+            assertEquals(error.message.includes("validation failed"), true);
+            assertEquals(error.errors.some((e: string) => e.includes(message)), true, error.message);
+          }
+        }
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should validate the merged definition rather than the overrides alone", () => {
+      const child: ReportOverride = {
+        reportId: "child",
+        extends: "base",
+        name: "Child",
+        version: "1.1.0",
+        statementType: "income",
+        variables: {},
+        layout: [
+          { order: 10, label: "Net sales" },
+          { order: 30, remove: true }
+        ]
+      };
+
+      assertEquals(validator.validate(child).isValid, false);
+
+      const merged = mergeReportDefinitions(base, child);
+      const result = validator.validate(merged);
+
+      assertEquals(result.isValid, true, result.errors.join("\n"));
+      assertEquals(merged.layout.map((item: any) => item.order), [10, 20, 40]);
+      assertEquals(merged.layout[0].type, "variable");
+    });
+  });
+
+  describe("schema migrations", () => {
+    it("should migrate definitions written for an older schema before validating", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const filePath = `${tempDir}/legacy.json`;
+      await Deno.writeTextFile(filePath, JSON.stringify({
+        reportId: "legacy",
+        name: "Legacy",
+        version: "1.0.0",
+        statementType: "income",
+        variables: { revenue: { filter: { code1: "700" }, aggregate: "sum" } },
+        layout: [{ order: 10, label: "Revenue", type: "variable", variable: "revenue", level: 1 }],
+        formatting: { currency: "€ #,##0.00" }
+      }));
+
+      try {
+        const report = await new ReportLoader(validator).loadReportFromFile(filePath);
+
+        assertEquals(report.schemaVersion, "2.0.0");
+        assertEquals(report.layout[0].indent, 1);
+        assertEquals("level" in report.layout[0], false);
+        assertEquals(report.formatting.currency, { symbol: "€", decimals: 2, thousands: true });
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+
+    it("should reject definitions for a newer major schema version", async () => {
+      const tempDir = await Deno.makeTempDir();
+      const filePath = `${tempDir}/future.json`;
+      await Deno.writeTextFile(filePath, JSON.stringify({
+        reportId: "future",
+        name: "Future",
+        version: "1.0.0",
+        schemaVersion: "3.0.0",
+        statementType: "income",
+        layout: [{ order: 10, type: "spacer" }]
+      }));
+
+      try {
+        await new ReportLoader(validator).loadReportFromFile(filePath);
+        throw new Error("Should have thrown");
+      } catch (error: any) {
+        assertEquals(error.errors.some((e: string) => e.includes("newer than the supported schema 2.0.0")), true, error.message);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
+
+  describe("history", () => {
+    it("should record changed definitions loaded after setHistory", async () => {
+      const values = new Map<string, string>();
+      const storage = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+        removeItem: (key: string) => values.delete(key),
+        key: (index: number) => [...values.keys()][index] ?? null,
+        get length() { return values.size; }
+      } as unknown as Storage;
+      const history = new ReportHistory({ storage });
+      const tempDir = await Deno.makeTempDir();
+      const filePath = `${tempDir}/report.json`;
+      const report = {
+        reportId: "history_test",
+        name: "History Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: { revenue: { filter: { code1: "700" }, aggregate: "sum" } },
+        layout: [{ order: 10, label: "Revenue", type: "variable", variable: "revenue" }]
+      };
+
+      try {
+        const testLoader = new ReportLoader(validator);
+        testLoader.setHistory(history);
+        for (const version of ["1.0.0", "1.0.0", "1.1.0"]) {
+          await Deno.writeTextFile(filePath, JSON.stringify({ ...report, version }));
+          testLoader.clearCache();
+          await testLoader.loadReportFromFile(filePath);
+        }
+
+        const snapshots = history.getHistory("history_test");
+        assertEquals(snapshots.map(snapshot => snapshot.version), ["1.0.0", "1.1.0"]);
+        assertEquals(snapshots[0].source, filePath);
+      } finally {
+        await Deno.remove(tempDir, { recursive: true });
+      }
+    });
+  });
 });
@@ -10,6 +10,7 @@ import { assertEquals, assertThrows } from "https://deno.land/std@0.208.0/assert
 import ReportRenderer from '../../../src/reports/ReportRenderer.ts';
 import VariableResolver from '../../../src/reports/VariableResolver.ts';
 import ExpressionEvaluator from '../../../src/reports/ExpressionEvaluator.ts';
+import ExpressionEvaluatorCompat from '../../../src/reports/ExpressionEvaluatorCompat.ts';
 import FilterEngine from '../../../src/reports/FilterEngine.ts';
 
 // Mock Arquero for testing
@@ -248,6 +249,20 @@ describe('ReportRenderer', () => {
                 'Layout item must have a type'
             );
         });
+
+        it('should show the label in the requested locale', () => {
+            const item = { order: 10, type: 'spacer', label: { nl: 'Netto-omzet', en: 'Revenue' } };
+            const context = (locale?: string) => ({
+                variables: new Map(),
+                rows: new Map(),
+                reportDef: { formatting: {}, defaultLocale: 'nl' },
+                periodOptions: { years: [2024, 2025], locale },
+                movementsData: mockAq.table({ code1: [], year: [], amount: [] })
+            });
+
+            assertEquals(renderer.processLayoutItem(item as any, context('en') as any).label, 'Revenue');
+            assertEquals(renderer.processLayoutItem(item as any, context() as any).label, 'Netto-omzet');
+        });
     });
 
     describe('calculateSubtotal', () => {
@@ -309,6 +324,19 @@ describe('ReportRenderer', () => {
             assertEquals(subtotal[2025], 250);
         });
 
+        it('should sum values for the given period columns', () => {
+            const rows = new Map([
+                [10, { order: 10, type: 'variable', amount_2025_P1: 10, amount_2025_P2: 20, amount_2025_P3: 30 }],
+                [20, { order: 20, type: 'variable', amount_2025_P1: 1, amount_2025_P2: 2, amount_2025_P3: 3 }]
+            ]);
+
+            const subtotal = renderer.calculateSubtotal(10, 20, rows, [
+                { key: '2025_P1', year: 2025, fromPeriod: 1, toPeriod: 1 },
+                { key: '2025_P3', year: 2025, fromPeriod: 3, toPeriod: 3 }
+            ]);
+            assertEquals(subtotal, { '2025_P1': 11, '2025_P3': 33 });
+        });
+
         it('should throw error if from > to', () => {
             const rows = new Map();
             assertThrows(
@@ -371,6 +399,13 @@ describe('ReportRenderer', () => {
             });
             assertEquals(formatted, '$ 1234.56');
         });
+
+        it('should show the presentation currency symbol', () => {
+            const formatting = { currency: { decimals: 0, thousands: true, symbol: '€' } };
+            assertEquals(renderer.applyFormatting(1234.56, 'currency', formatting, 'USD'), '$ 1,235');
+            assertEquals(renderer.applyFormatting(1234.56, { type: 'currency', symbol: 'EUR' }, formatting, 'USD'), 'EUR 1,235');
+            assertEquals(renderer.applyFormatting(1234.56, 'currency', {}), '€ 1,235');
+        });
     });
 
     describe('rendering variable layout items', () => {
@@ -402,6 +437,32 @@ describe('ReportRenderer', () => {
             assertEquals(row._metadata.variable, 'revenue');
         });
 
+        it('should render one amount per period column', () => {
+            const item = {
+                order: 10,
+                label: 'Revenue',
+                type: 'variable',
+                variable: 'revenue'
+            };
+
+            const context = {
+                variables: new Map([
+                    ['revenue', { 2021: 80000, 2022: 90000, 2023: 95000 }]
+                ]),
+                rows: new Map(),
+                reportDef: { formatting: {} },
+                periodOptions: { years: [2021, 2022, 2023] },
+                movementsData: mockAq.table({ code1: [], year: [], amount: [] })
+            };
+
+            const row = renderer.processLayoutItem(item, context);
+
+            assertEquals(row.amount_2021, 80000);
+            assertEquals(row.amount_2022, 90000);
+            assertEquals(row.amount_2023, 95000);
+            assertEquals(row.amount_2024, undefined);
+        });
+
         it('should throw error if variable not found', () => {
             const item = {
                 order: 10,
@@ -537,6 +598,40 @@ describe('ReportRenderer', () => {
             assertEquals(row._metadata.filter, item.filter);
         });
 
+        it('should aggregate actual and budget scenario columns separately', () => {
+            const item = {
+                order: 10,
+                label: 'Revenue',
+                type: 'category',
+                filter: { code1: '700' }
+            };
+
+            const movementsData = mockAq.from([
+                { code1: '700', year: 2025, period: 1, scenario: 'actual', movement_amount: 900 },
+                { code1: '700', year: 2025, period: 2, scenario: 'actual', movement_amount: 1100 },
+                { code1: '700', year: 2025, period: 1, scenario: 'budget', movement_amount: 1000 },
+                { code1: '700', year: 2025, period: 2, scenario: 'budget', movement_amount: 1000 },
+                { code1: '700', year: 2025, period: 3, scenario: 'budget', movement_amount: 1000 }
+            ]);
+
+            const context = {
+                variables: new Map(),
+                rows: new Map(),
+                reportDef: { formatting: {} },
+                periodOptions: { years: [2025] },
+                movementsData,
+                columns: [
+                    { key: '2025_actual', year: 2025, fromPeriod: 1, toPeriod: 2, scenario: 'actual' },
+                    { key: '2025_budget', year: 2025, fromPeriod: 1, toPeriod: 2, scenario: 'budget' }
+                ]
+            };
+
+            const row = renderer.processLayoutItem(item, context);
+
+            assertEquals(row.amount_2025_actual, 2000);
+            assertEquals(row.amount_2025_budget, 2000);
+        });
+
         it('should handle empty filter results', () => {
             const item = {
                 order: 10,
@@ -673,6 +768,66 @@ describe('ReportRenderer', () => {
             assertEquals(result[0].variance_percent, 0);
         });
 
+        it('should default to the last two period columns', () => {
+            const rows = [
+                {
+                    order: 10,
+                    type: 'variable',
+                    amount_2023: 50,
+                    amount_2024: 100,
+                    amount_2025: 150
+                }
+            ];
+
+            const result = renderer._calculateVariances(rows, { years: [2023, 2024, 2025] });
+
+            assertEquals(result[0].variance_amount, 50);
+            assertEquals(result[0].variance_percent, 50);
+        });
+
+        it('should calculate variance between a chosen pair of columns', () => {
+            const rows = [
+                {
+                    order: 10,
+                    type: 'variable',
+                    amount_2023: 50,
+                    amount_2024: 100,
+                    amount_2025: 150
+                }
+            ];
+
+            const result = renderer._calculateVariances(rows, {
+                years: [2023, 2024, 2025],
+                comparison: { base: '2023', compare: '2025' }
+            });
+
+            assertEquals(result[0].variance_amount, 100);
+            assertEquals(result[0].variance_percent, 200);
+        });
+
+        it('should calculate actual vs budget variance', () => {
+            const rows = [
+                {
+                    order: 10,
+                    type: 'variable',
+                    amount_2025_actual: 1100,
+                    amount_2025_budget: 1000
+                }
+            ];
+
+            const result = renderer._calculateVariances(rows, {
+                years: [2025],
+                columns: [
+                    { key: '2025_actual', year: 2025, scenario: 'actual' },
+                    { key: '2025_budget', year: 2025, scenario: 'budget' }
+                ],
+                comparison: { base: '2025_budget', compare: '2025_actual' }
+            });
+
+            assertEquals(result[0].variance_amount, 100);
+            assertEquals(result[0].variance_percent, 10);
+        });
+
         it('should skip variance calculation for spacer rows', () => {
             const rows = [
                 {
@@ -691,6 +846,80 @@ describe('ReportRenderer', () => {
         });
     });
 
+    describe('cross-period references', () => {
+        const movementsData = mockAq.from([
+            { code1: '700', year: 2023, period: 1, movement_amount: 800 },
+            { code1: '700', year: 2024, period: 1, movement_amount: 1000 },
+            { code1: '700', year: 2025, period: 1, movement_amount: 1200 },
+            { code1: '700', year: 2025, period: 2, movement_amount: 300 }
+        ]);
+
+        const reportDef = (layout: any[]) => ({
+            reportId: 'test_report',
+            name: 'Test Report',
+            version: '1.0.0',
+            statementType: 'income',
+            variables: {},
+            layout: [
+                { order: 10, label: 'Revenue', type: 'category', filter: { code1: '700' } },
+                ...layout
+            ]
+        });
+
+        beforeEach(() => {
+            renderer = new ReportRenderer(variableResolver, new ExpressionEvaluatorCompat());
+        });
+
+        it('should calculate growth against the prior year', () => {
+            const result = renderer.renderStatement(
+                reportDef([{ order: 20, label: 'Growth %', type: 'calculated', expression: '(@10 - @10[prior]) / @10[prior] * 100' }]),
+                movementsData,
+                { years: [2024, 2025] }
+            );
+
+            const growth = result.rows.find((row: any) => row.order === 20);
+            assertEquals(growth.amount_2024, 25);
+            assertEquals(growth.amount_2025, 50);
+        });
+
+        it('should not return the hidden reference columns', () => {
+            const result = renderer.renderStatement(
+                reportDef([{ order: 20, label: 'Prior', type: 'calculated', expression: '@10[prior]' }]),
+                movementsData,
+                { years: [2024, 2025] }
+            );
+
+            assertEquals(result.metadata.columns.map((column: any) => column.key), ['2024', '2025']);
+            for (const row of result.rows) {
+                assertEquals(Object.keys(row).filter(key => key.startsWith('amount_')), ['amount_2024', 'amount_2025']);
+            }
+        });
+
+        it('should reference the previous month and a fixed year', () => {
+            const result = renderer.renderStatement(
+                reportDef([
+                    { order: 20, label: 'Movement', type: 'calculated', expression: '@10 - @10[P-1]' },
+                    { order: 30, label: '2023', type: 'calculated', expression: '@10[2023]' }
+                ]),
+                movementsData,
+                {
+                    columns: [
+                        { key: '2025_P1', year: 2025, fromPeriod: 1, toPeriod: 1 },
+                        { key: '2025_P2', year: 2025, fromPeriod: 2, toPeriod: 2 }
+                    ]
+                }
+            );
+
+            const movement = result.rows.find((row: any) => row.order === 20);
+            assertEquals(movement.amount_2025_P1, 1200);
+            assertEquals(movement.amount_2025_P2, -900);
+
+            const fixedYear = result.rows.find((row: any) => row.order === 30);
+            assertEquals(fixedYear.amount_2025_P1, 800);
+            assertEquals(fixedYear.amount_2025_P2, 0);
+        });
+    });
+
     describe('indent levels', () => {
         it('should apply indent level to row', () => {
             const item = {
@@ -389,6 +389,75 @@ describe("ReportValidator", () => {
       const result = validator.validateBusinessRules(reportDef);
       assertEquals(result.isValid, false);
     });
+
+    it("should detect accounts included in two variables of a total", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: {
+          rent: { filter: { code2: "521" }, aggregate: "sum", include: ["5299"] },
+          housing: { filter: { code2: "520" }, aggregate: "sum", include: ["5299"] }
+        },
+        layout: [
+          { order: 10, type: "variable", variable: "rent" },
+          { order: 20, type: "variable", variable: "housing" },
+          { order: 30, type: "subtotal", from: 10, to: 20 }
+        ]
+      };
+
+      const result = validator.validateBusinessRules(reportDef);
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors[0].field, "variables.housing.include");
+      assertEquals(result.errors[0].message, "Account 5299 is included in both 'rent' and 'housing', which @30 adds up");
+    });
+  });
+
+  describe("validateAccounts()", () => {
+    const reportDef = {
+      reportId: "test",
+      name: "Test",
+      version: "1.0.0",
+      statementType: "income",
+      variables: {
+        revenue: { filter: { code1: "700" }, aggregate: "sum" },
+        rent: { filter: { code2: "521" }, aggregate: "sum" },
+        housing: { filter: { code1: "500" }, aggregate: "sum", exclude: ["5230"] }
+      },
+      layout: [
+        { order: 10, type: "variable", variable: "revenue" },
+        { order: 20, type: "variable", variable: "rent" },
+        { order: 30, type: "variable", variable: "housing" },
+        { order: 40, type: "calculated", expression: "@10 - @20 - @30" }
+      ]
+    };
+    const accounts = [
+      { account_code: "5210", account_description: "Rent", statement_type: "IS", code1: "500", code2: "521" },
+      { account_code: "5230", account_description: "Energy", statement_type: "IS", code1: "500", code2: "523" },
+      { account_code: "8000", account_description: "Revenue", statement_type: "IS", code1: "700", code2: "800" },
+      { account_code: "0100", account_description: "Buildings", statement_type: "BS", code1: "010", code2: "011" }
+    ];
+
+    it("should report accounts counted twice as errors and uncounted accounts as warnings", () => {
+      const result = validator.validateAccounts(reportDef, accounts);
+
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors.length, 1);
+      assertEquals(result.errors[0].field, "variables.housing");
+      assertEquals(result.errors[0].message, "Account 5210 (Rent) is counted in both 'rent' and 'housing', which @40 adds up");
+      assertEquals(result.warnings.map((warning: any) => warning.message), ["Account 5230 (Energy) is not counted in any variable"]);
+    });
+
+    it("should accept variables that count each account once", () => {
+      const result = validator.validateAccounts({
+        ...reportDef,
+        variables: { ...reportDef.variables, housing: { ...reportDef.variables.housing, exclude: ["5210"], include: ["5230"] } }
+      }, accounts);
+
+      assertEquals(result.isValid, true);
+      assertEquals(result.warnings.length, 0);
+    });
   });
 
   describe("validateExpressions()", () => {
@@ -467,9 +536,121 @@ describe("ReportValidator", () => {
       const result = validator.validateExpressions(reportDef);
       assertEquals(result.isValid, false);
     });
+
+    it("should accept function calls and comparisons", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [
+          {
+            order: 10,
+            type: "calculated",
+            expression: "if(revenue == 0, 0, round(safe_div(ebitda, revenue) * 100, 1))"
+          },
+          {
+            order: 20,
+            type: "calculated",
+            expression: "max(abs(@10), 5) >= min(1, 2)"
+          }
+        ]
+      };
+
+      const result = validator.validateExpressions(reportDef);
+      assertEquals(result.isValid, true);
+    });
+
+    it("should detect unknown functions", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [
+          {
+            order: 10,
+            type: "calculated",
+            expression: "sqrt(revenue)"
+          }
+        ]
+      };
+
+      const result = validator.validateExpressions(reportDef);
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors[0].message.includes("Unknown function 'sqrt'"), true);
+    });
+
+    it("should accept cross-period references", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [
+          {
+            order: 10,
+            type: "calculated",
+            expression: "safe_div(revenue - revenue[prior], revenue[prior]) * 100"
+          },
+          {
+            order: 20,
+            type: "calculated",
+            expression: "(@10 + @10[P-1]) / 2 - @10[2024]"
+          }
+        ]
+      };
+
+      const result = validator.validateExpressions(reportDef);
+      assertEquals(result.isValid, true);
+    });
+
+    it("should detect invalid period selectors", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [
+          {
+            order: 10,
+            type: "calculated",
+            expression: "revenue[last] + 5[prior]"
+          }
+        ]
+      };
+
+      const result = validator.validateExpressions(reportDef);
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors.length, 2);
+      assertEquals(result.errors[0].message.includes("Invalid period selector 'last'"), true);
+      assertEquals(result.errors[1].message.includes("must follow a variable or order reference"), true);
+    });
   });
 
   describe("validateReferences()", () => {
+    it("should not treat period selectors as variable references", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: {
+          revenue: { filter: { code1: "700" } }
+        },
+        layout: [
+          {
+            order: 10,
+            type: "calculated",
+            expression: "revenue / revenue[prior] + revenue[P-1] - revenue[2024]"
+          }
+        ]
+      };
+
+      const result = validator.validateReferences(reportDef);
+      assertEquals(result.isValid, true);
+    });
+
     it("should detect undefined variable references", () => {
       const reportDef = {
         reportId: "test",
@@ -622,6 +803,113 @@ describe("ReportValidator", () => {
       const result = validator.validateReferences(reportDef);
       assertEquals(result.isValid, true, `Expected valid but got: ${result.formatMessages()}`);
     });
+
+    it("should accept cash flow engine variables in cash flow reports", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "cashflow",
+        variables: {},
+        layout: [
+          { order: 10, type: "variable", variable: "net_income" },
+          { order: 20, type: "variable", variable: "change_40" },
+          { order: 30, type: "calculated", expression: "cash_start + net_change_in_cash - cash_end" }
+        ]
+      };
+
+      const result = validator.validateReferences(reportDef);
+      assertEquals(result.isValid, true, `Expected valid but got: ${result.formatMessages()}`);
+    });
+
+    it("should not accept cash flow engine variables in other reports", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: {},
+        layout: [{ order: 10, type: "variable", variable: "net_income" }]
+      };
+
+      const result = validator.validateReferences(reportDef);
+      assertEquals(result.isValid, false);
+    });
+  });
+
+  describe("validateInheritance()", () => {
+    const base = {
+      reportId: "base",
+      name: "Base",
+      version: "1.0.0",
+      statementType: "income",
+      variables: { revenue: { filter: { code1: "700" }, aggregate: "sum" } },
+      layout: [
+        { order: 10, label: "Revenue", type: "variable", variable: "revenue" },
+        { order: 20, type: "spacer" }
+      ]
+    };
+
+    const child = (overrides: any = {}) => ({
+      reportId: "child",
+      extends: "base",
+      name: "Child",
+      version: "1.0.0",
+      statementType: "income",
+      layout: [],
+      ...overrides
+    });
+
+    it("should accept overrides and removals of parent items", () => {
+      const reportDef = child({
+        layout: [
+          { order: 10, label: "Net sales" },
+          { order: 20, remove: true },
+          { order: 30, type: "calculated", expression: "@10 * 2" }
+        ]
+      });
+
+      const result = validator.validateInheritance(reportDef, new Map([["base", base]]));
+      assertEquals(result.isValid, true);
+    });
+
+    it("should reject an unknown parent", () => {
+      const result = validator.validateInheritance(child(), new Map());
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors[0].message, "Report 'child' extends unknown report 'base'");
+    });
+
+    it("should detect circular extends chains", () => {
+      const definitions = new Map<string, any>([
+        ["base", { ...base, extends: "middle" }],
+        ["middle", child({ reportId: "middle", extends: "base" })]
+      ]);
+
+      const result = validator.validateInheritance(child(), definitions);
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors[0].message, "Circular extends chain: child -> base -> middle -> base");
+      assertEquals(validator.validateStructure(child({ reportId: "base" })).isValid, false);
+    });
+
+    it("should detect overrides of items the parent does not have", () => {
+      const middle = child({ reportId: "middle", layout: [{ order: 20, remove: true }] });
+      const reportDef = child({
+        extends: "middle",
+        layout: [{ order: 20, label: "Spacer" }, { order: 40, remove: true }]
+      });
+
+      const result = validator.validateInheritance(reportDef, new Map<string, any>([["base", base], ["middle", middle]]));
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors.map((e: any) => e.message), [
+        "Override of order 20 does not match an item of 'middle'",
+        "Removal of order 40 does not match an item of 'middle'"
+      ]);
+    });
+
+    it("should reject a different statement type", () => {
+      const result = validator.validateInheritance(child({ statementType: "balance" }), new Map([["base", base]]));
+      assertEquals(result.isValid, false);
+    });
   });
 
   describe("Helper Methods", () => {
@@ -1434,7 +1722,7 @@ describe("ReportValidator", () => {
     });
 
     it("should validate all aggregate functions", () => {
-      const validAggregates = ['sum', 'average', 'count', 'min', 'max', 'first', 'last'];
+      const validAggregates = ['sum', 'average', 'count', 'min', 'max', 'first', 'last', 'closing'];
       
       for (const agg of validAggregates) {
         const reportDef = {
@@ -1503,7 +1791,7 @@ describe("ReportValidator", () => {
     });
 
     it("should validate all statement types", () => {
-      const validTypes = ['balance', 'income', 'cashflow'];
+      const validTypes = ['balance', 'income', 'cashflow', 'ratios'];
       
       for (const type of validTypes) {
         const reportDef = {
@@ -1564,5 +1852,150 @@ describe("ReportValidator", () => {
         assertEquals(result.isValid, true, `Pattern match property '${prop}' should be valid`);
       }
     });
+
+    it("should validate favorable directions", () => {
+      for (const favorable of ['higher', 'lower']) {
+        const reportDef = {
+          reportId: "test",
+          name: "Test",
+          version: "1.0.0",
+          statementType: "ratios",
+          layout: [{ order: 10, type: "calculated", expression: "1 + 1", favorable }]
+        };
+
+        const result = validator.validateStructure(reportDef);
+        assertEquals(result.isValid, true, `Favorable direction '${favorable}' should be valid`);
+      }
+    });
+
+    it("should accept labels per locale and a defaultLocale", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        defaultLocale: "nl",
+        layout: [{ order: 10, type: "spacer", label: { nl: "Netto-omzet", "en-GB": "Revenue" } }]
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.isValid, true);
+    });
+
+    it("should reject invalid locales and label texts", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        defaultLocale: "Dutch",
+        layout: [
+          { order: 10, type: "spacer", label: { english: "Revenue", nl: 1 } },
+          { order: 20, type: "spacer", label: {} }
+        ]
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.errors.map((e: any) => e.field), [
+        "defaultLocale",
+        "layout[0].label.english",
+        "layout[0].label.nl",
+        "layout[1].label"
+      ]);
+    });
+
+    it("should reject an invalid favorable direction", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "ratios",
+        layout: [{ order: 10, type: "calculated", expression: "1 + 1", favorable: "up" }]
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.isValid, false);
+      assertEquals(result.errors[0].message, "favorable must be one of: higher, lower");
+    });
+
+    it("should check the schemaVersion", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [{ order: 10, type: "spacer" }]
+      };
+
+      assertEquals(validator.validateStructure({ ...reportDef, schemaVersion: "2.0.0" }).isValid, true);
+      assertEquals(validator.validateStructure({ ...reportDef, schemaVersion: "2" }).errors[0].field, "schemaVersion");
+      assertEquals(validator.validateStructure({ ...reportDef, schemaVersion: "3.0.0" }).errors[0].message,
+        "schemaVersion 3.0.0 is newer than the supported schema 2.0.0");
+    });
+
+    it("should reject formatting rules given as number format strings", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        layout: [{ order: 10, type: "spacer" }],
+        formatting: { currency: "€ #,##0", percent: { decimals: 1 } }
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.errors.map((e: any) => e.field), ["formatting.currency"]);
+    });
+
+    it("should accept account code ranges, wildcards and filter groups", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: {
+          rent: {
+            filter: {
+              account_code: { gte: "4*", lte: "45*" },
+              anyOf: [{ name1: { contains: "huur" } }, { code2: ["45*", "461"] }],
+              not: { name2: { regex: "^afschrijving" } }
+            },
+            aggregate: "sum"
+          }
+        },
+        layout: [{ order: 10, type: "spacer" }]
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.isValid, true);
+    });
+
+    it("should validate the filters inside groups", () => {
+      const reportDef = {
+        reportId: "test",
+        name: "Test",
+        version: "1.0.0",
+        statementType: "income",
+        variables: {
+          rent: {
+            filter: {
+              account_code: { from: "4000" },
+              anyOf: [],
+              not: { allOf: [{ name1: { regex: "(" } }, { invalid: "x" }] }
+            },
+            aggregate: "sum"
+          }
+        },
+        layout: [{ order: 10, type: "spacer" }]
+      };
+
+      const result = validator.validateStructure(reportDef);
+      assertEquals(result.errors.map((e: any) => e.field), [
+        "variables.rent.filter.account_code.from",
+        "variables.rent.filter.anyOf",
+        "variables.rent.filter.not.allOf[0].name1.regex",
+        "variables.rent.filter.not.allOf[1].invalid"
+      ]);
+    });
   });
 });
@@ -41,10 +41,11 @@ describe("Report Definition Schema - Fixture Files", () => {
     const statementTypeProp = schema.properties.statementType;
     assertEquals(statementTypeProp.type, "string");
     assert(Array.isArray(statementTypeProp.enum), "statementType should have enum");
-    assertEquals(statementTypeProp.enum.length, 3);
+    assertEquals(statementTypeProp.enum.length, 4);
     assert(statementTypeProp.enum.includes("balance"));
     assert(statementTypeProp.enum.includes("income"));
     assert(statementTypeProp.enum.includes("cashflow"));
+    assert(statementTypeProp.enum.includes("ratios"));
   });
 
   it("should define VariableDefinition with required fields", () => {
@@ -61,7 +62,7 @@ describe("Report Definition Schema - Fixture Files", () => {
     assertEquals(aggregateProp.type, "string");
     assert(Array.isArray(aggregateProp.enum), "aggregate should have enum");
     
-    const expectedAggregates = ["sum", "average", "count", "min", "max", "first", "last"];
+    const expectedAggregates = ["sum", "average", "count", "min", "max", "first", "last", "closing"];
     assertEquals(aggregateProp.enum.length, expectedAggregates.length);
     
     for (const agg of expectedAggregates) {
@@ -85,6 +85,14 @@ Deno.test("ColumnDefBuilder.buildVarianceAmountColumn - creates variance amount
     assertExists(column.cellRenderer);
 });
 
+Deno.test("ColumnDefBuilder.buildVarianceAmountColumn - shows the presentation currency symbol", () => {
+    const builder = new ColumnDefBuilder('BS', '2024', '2025');
+    builder.setCurrencySymbol('$');
+    const column = builder.buildVarianceAmountColumn('variance_amount', false);
+
+    assertEquals(column.headerName, 'Var $');
+});
+
 Deno.test("ColumnDefBuilder.buildVarianceAmountColumn - can be hidden", () => {
     const builder = new ColumnDefBuilder('BS', '2024', '2025');
     const column = builder.buildVarianceAmountColumn('variance_amount_1', true);
@@ -158,6 +166,28 @@ Deno.test("ColumnDefBuilder.build - creates basic columns without variance", ()
     delete globalThis.document;
 });
 
+Deno.test("ColumnDefBuilder.build - creates one column per period column", () => {
+    // Mock DOM for getPeriodLabel
+    globalThis.document = {
+        getElementById: () => null
+    };
+
+    const builder = new ColumnDefBuilder('IS', '2024', '2025');
+    builder.setPeriodColumns([
+        { key: '2025_P1', label: '2025 P1' },
+        { key: '2025_P2', label: '2025 P2' },
+        { key: '2025_P3' }
+    ]);
+    const columns = builder.build();
+
+    assertEquals(columns.map(column => column.field), ['label', 'amount_2025_P1', 'amount_2025_P2', 'amount_2025_P3']);
+    assertEquals(columns[1].headerName, '2025 P1');
+    assertEquals(columns[3].headerName, '2025_P3');
+
+    // Cleanup
+    delete globalThis.document;
+});
+
 Deno.test("ColumnDefBuilder.getPeriodLabel - returns year when no dropdown", () => {
     globalThis.document = {
         getElementById: (id) => null
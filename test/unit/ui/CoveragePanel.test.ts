@@ -0,0 +1,81 @@
+/**
+ * Tests for CoveragePanel
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { renderCoverageHtml } from "../../../src/ui/CoveragePanel.ts";
+import type { CoverageAnalysis } from "../../../src/core/variables/coverage.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+const analysis = (overrides: Partial<CoverageAnalysis> = {}): CoverageAnalysis => ({
+    reportId: 'pl',
+    statementType: 'income',
+    columns: buildYearColumns([2025]),
+    statementTypes: ['IS'],
+    uncaptured: [],
+    multiple: [],
+    reconciliation: [{
+        statement_type: 'IS',
+        trialBalance: { '2025': -750 },
+        totalRows: ['Net result'],
+        reportTotal: { '2025': -750 },
+        difference: { '2025': 0 },
+        reconciles: true
+    }],
+    ...overrides
+});
+
+describe("CoveragePanel", () => {
+    describe("renderCoverageHtml", () => {
+        it("should say when every account is counted once", () => {
+            const html = renderCoverageHtml(analysis());
+
+            assertStringIncludes(html, 'Every IS account is counted by exactly one variable.');
+            assertStringIncludes(html, 'reconciles');
+            assertStringIncludes(html, '<td>Net result</td>');
+            assertEquals(html.includes('Accounts counted by no variable'), false);
+        });
+
+        it("should list uncaptured and multiply counted accounts", () => {
+            const html = renderCoverageHtml(analysis({
+                uncaptured: [{ account_code: '5299', account_description: 'Sundry <other>', variables: [], amounts: { '2025': 1500 } }],
+                multiple: [{ account_code: '5210', variables: ['costs', 'rent'], amounts: { '2025': 300 } }],
+                reconciliation: [{
+                    statement_type: 'IS',
+                    trialBalance: { '2025': -750 },
+                    totalRows: ['Net result'],
+                    reportTotal: { '2025': -1950 },
+                    difference: { '2025': -1200 },
+                    reconciles: false
+                }]
+            }));
+
+            assertStringIncludes(html, 'does not reconcile');
+            assertStringIncludes(html, 'Accounts counted by no variable (1)');
+            assertStringIncludes(html, 'Sundry &lt;other&gt;');
+            assertStringIncludes(html, '1.500');
+            assertStringIncludes(html, 'costs, rent');
+        });
+
+        it("should list the accounts counted twice in a total", () => {
+            const html = renderCoverageHtml(analysis(), [{
+                field: 'variables.rent',
+                message: "Account 5210 is counted in both 'costs' and 'rent', which @900 adds up",
+                type: 'error'
+            }]);
+
+            assertStringIncludes(html, '<li class="coverage-error">Account 5210 is counted in both');
+        });
+
+        it("should say when the report has no totals to reconcile", () => {
+            assertStringIncludes(renderCoverageHtml(analysis({ reconciliation: [] })),
+                'The report has no totals to reconcile to the trial balance.');
+        });
+
+        it("should say when no variable counts any account", () => {
+            assertStringIncludes(renderCoverageHtml(analysis({ statementTypes: [], reconciliation: [] })),
+                'No variable of this report counts any account.');
+        });
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for DrillDownPanel
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    describeFilter,
+    renderAccountBreakdownHtml,
+    renderFormulaTreeHtml
+} from "../../../src/ui/DrillDownPanel.ts";
+import type { FormulaNode } from "../../../src/core/calculations/drilldown.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+const columns = buildYearColumns(['2025']);
+
+describe("DrillDownPanel", () => {
+    describe("describeFilter()", () => {
+        it("should describe exact, list and range conditions", () => {
+            assertEquals(describeFilter({ code1: '500' }), 'code1 = 500');
+            assertEquals(describeFilter({ code1: ['500', '510'], statement_type: 'IS' }), 'code1 in 500, 510 and statement_type = IS');
+            assertEquals(describeFilter({ code1: { gte: '700', lte: '799' } }), 'code1 >= 700 and code1 <= 799');
+        });
+
+        it("should describe pattern conditions and groups", () => {
+            assertEquals(describeFilter({ name1: { contains: 'huur', regex: '^pand' } }), 'name1 contains huur and name1 matches ^pand');
+            assertEquals(
+                describeFilter({ anyOf: [{ account_code: '4*' }, { name2: { startsWith: 'Lease' } }], not: { code2: ['451', '452'] } }),
+                '(account_code = 4* or name2 starts with Lease) and not (code2 in 451, 452)'
+            );
+        });
+
+        it("should describe an empty filter", () => {
+            assertEquals(describeFilter({}), 'all accounts');
+            assertEquals(describeFilter(undefined), 'all accounts');
+        });
+    });
+
+    describe("renderAccountBreakdownHtml()", () => {
+        it("should render accounts with column totals and periods", () => {
+            const html = renderAccountBreakdownHtml({
+                periods: [{ key: '2025-1', year: 2025, period: 1, label: '2025 P1' }],
+                accounts: [{
+                    account_code: '8000',
+                    account_description: 'Sales <EU>',
+                    code1: '500',
+                    name1: 'Revenue',
+                    columns: { '2025': -1500 },
+                    periods: { '2025-1': -1500 }
+                }],
+                totals: { '2025': -1500 }
+            }, columns);
+
+            assertEquals(html.includes('<td>Sales &lt;EU&gt;</td>'), true);
+            assertEquals(html.includes('Total (1 accounts)'), true);
+            assertEquals(html.includes('<th>2025 P1</th>'), true);
+            assertEquals(html.includes('-1.500'), true);
+        });
+
+        it("should render a message when no accounts match", () => {
+            const html = renderAccountBreakdownHtml({ periods: [], accounts: [], totals: {} }, columns);
+
+            assertEquals(html, '<div class="drill-down-empty">No accounts match this row.</div>');
+        });
+    });
+
+    describe("renderFormulaTreeHtml()", () => {
+        const tree: FormulaNode = {
+            kind: 'row',
+            reference: '@300',
+            label: 'Gross margin',
+            expression: '@100 + cogs',
+            amounts: { '2025': 400 },
+            children: [
+                { kind: 'row', reference: '@100', label: 'Revenue', filter: { code1: '500' }, children: [] },
+                { kind: 'variable', reference: 'cogs', label: 'cogs', variable: 'cogs', children: [] }
+            ]
+        };
+
+        it("should collect the leaves that can be drilled down", () => {
+            const leaves: FormulaNode[] = [];
+            const html = renderFormulaTreeHtml(tree, columns, leaves);
+
+            assertEquals(leaves.map(leaf => leaf.reference), ['@100']);
+            assertEquals(html.includes('data-drill-index="0"'), true);
+            assertEquals(html.includes('<code>@100 + cogs</code>'), true);
+        });
+
+        it("should mark variables without a definition", () => {
+            const html = renderFormulaTreeHtml(tree, columns);
+
+            assertEquals(html.includes('(calculated outside the report)'), true);
+        });
+    });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for KpiGridRenderer
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    buildKpiGroups,
+    getSentiment,
+    getTrend,
+    renderKpiGridHtml
+} from "../../../src/ui/KpiGridRenderer.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+const columns = buildYearColumns(['2024', '2025']);
+
+const rows = [
+    { type: 'spacer', label: 'Liquidity' },
+    {
+        type: 'calculated', label: 'Current ratio', favorable: 'higher' as const,
+        amount_2024: 1.5, amount_2025: 1.8, formatted_2024: '1.50', formatted_2025: '1.80'
+    },
+    { type: 'spacer', label: 'Working capital' },
+    {
+        type: 'calculated', label: 'DSO', favorable: 'lower' as const,
+        amount_2024: 45, amount_2025: 52, formatted_2024: '45', formatted_2025: '52'
+    },
+    { type: 'spacer', label: 'Empty group' }
+];
+
+describe("KpiGridRenderer", () => {
+    describe("getTrend()", () => {
+        it("should compare the current value with the previous value", () => {
+            assertEquals(getTrend(2, 1), 'up');
+            assertEquals(getTrend(1, 2), 'down');
+            assertEquals(getTrend(1, 1), 'flat');
+        });
+
+        it("should be flat when a value is missing", () => {
+            assertEquals(getTrend(null, 1), 'flat');
+            assertEquals(getTrend(1, undefined), 'flat');
+            assertEquals(getTrend(Infinity, 1), 'flat');
+        });
+    });
+
+    describe("getSentiment()", () => {
+        it("should follow the favorable direction", () => {
+            assertEquals(getSentiment('up', 'higher'), 'positive');
+            assertEquals(getSentiment('down', 'higher'), 'negative');
+            assertEquals(getSentiment('up', 'lower'), 'negative');
+            assertEquals(getSentiment('down', 'lower'), 'positive');
+        });
+
+        it("should be neutral without a direction or change", () => {
+            assertEquals(getSentiment('up'), 'neutral');
+            assertEquals(getSentiment('flat', 'higher'), 'neutral');
+        });
+    });
+
+    describe("buildKpiGroups()", () => {
+        it("should group cards under spacer labels and drop empty groups", () => {
+            const groups = buildKpiGroups(rows, columns);
+
+            assertEquals(groups.map(group => group.title), ['Liquidity', 'Working capital']);
+            assertEquals(groups[0].cards[0], {
+                label: 'Current ratio',
+                value: '1.80',
+                previous: '1.50',
+                previousLabel: '2024',
+                trend: 'up',
+                sentiment: 'positive',
+                history: [
+                    { label: '2024', value: '1.50' },
+                    { label: '2025', value: '1.80' }
+                ]
+            });
+            assertEquals(groups[1].cards[0].trend, 'up');
+            assertEquals(groups[1].cards[0].sentiment, 'negative');
+        });
+
+        it("should use the requested comparison", () => {
+            const groups = buildKpiGroups(rows, columns, { base: '2025', compare: '2024' });
+
+            assertEquals(groups[0].cards[0].value, '1.50');
+            assertEquals(groups[0].cards[0].trend, 'down');
+        });
+
+        it("should show a single column without a trend", () => {
+            const groups = buildKpiGroups(rows, buildYearColumns(['2025']));
+
+            assertEquals(groups[0].cards[0].value, '1.80');
+            assertEquals(groups[0].cards[0].previous, null);
+            assertEquals(groups[0].cards[0].trend, 'flat');
+        });
+
+        it("should put cards before the first spacer in an untitled group", () => {
+            const groups = buildKpiGroups(rows.slice(1, 2), columns);
+
+            assertEquals(groups.length, 1);
+            assertEquals(groups[0].title, null);
+        });
+    });
+
+    describe("renderKpiGridHtml()", () => {
+        it("should render cards with trend classes", () => {
+            const html = renderKpiGridHtml(buildKpiGroups(rows, columns));
+
+            assertEquals(html.includes('<h3 class="kpi-group-title">Liquidity</h3>'), true);
+            assertEquals(html.includes('kpi-trend kpi-trend-up'), true);
+            assertEquals(html.includes('<div class="kpi-previous">2024: 1.50</div>'), true);
+        });
+
+        it("should escape labels", () => {
+            const html = renderKpiGridHtml(buildKpiGroups([{ type: 'spacer', label: 'R&D <costs>' }, rows[1]], columns));
+
+            assertEquals(html.includes('R&amp;D &lt;costs&gt;'), true);
+        });
+
+        it("should render a message when there are no cards", () => {
+            assertEquals(renderKpiGridHtml([]), '<div class="kpi-empty">No ratios to display.</div>');
+        });
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Tests for ReportEditor
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+    renderLayoutListHtml,
+    renderVariableListHtml,
+    renderSuggestionsHtml,
+    renderValidationHtml,
+    renderPreviewHtml
+} from "../../../src/ui/ReportEditor.ts";
+import ValidationResult from "../../../src/utils/ValidationResult.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+import type { LayoutItem } from "../../../src/reports/ReportValidator.ts";
+
+const layout: LayoutItem[] = [
+    { order: 100, type: 'variable', variable: 'revenue', label: { nl: 'Netto-omzet', en: 'Revenue' } },
+    { order: 200, type: 'calculated', expression: '@100 * 0.25', label: 'Tax <25%>' },
+    { order: 300, type: 'subtotal', from: 100, to: 200, label: 'Total' },
+    { order: 310, type: 'spacer' }
+];
+
+describe("ReportEditor", () => {
+    describe("renderLayoutListHtml()", () => {
+        it("should render a draggable row with the fields of each type", () => {
+            const html = renderLayoutListHtml(layout, ['revenue', 'cogs'], 'en', 'nl');
+
+            assertEquals(html.match(/draggable="true"/g)?.length, 4);
+            assertEquals(html.includes('data-field="label" value="Revenue"'), true);
+            assertEquals(html.includes('<option value="revenue" selected>revenue</option>'), true);
+            assertEquals(html.includes('data-field="expression" value="@100 * 0.25"'), true);
+            assertEquals(html.includes('value="Tax &lt;25%&gt;"'), true);
+            assertEquals(html.includes('data-field="from" value="100"'), true);
+            assertEquals(html.includes('(blank row)'), true);
+        });
+
+        it("should show labels in the default locale without a locale", () => {
+            const html = renderLayoutListHtml(layout, ['revenue'], undefined, 'nl');
+
+            assertEquals(html.includes('value="Netto-omzet"'), true);
+        });
+    });
+
+    describe("renderVariableListHtml()", () => {
+        it("should render code1 and name1 inputs with autocompletion", () => {
+            const html = renderVariableListHtml({
+                revenue: { filter: { code1: ['500', '510'] }, aggregate: 'sum' },
+                cash: { filter: { code1: '100', name1: { contains: 'bank' }, statement_type: 'BS' }, aggregate: 'closing' }
+            });
+
+            assertEquals(html.includes('list="report-editor-code1" value="500, 510"'), true);
+            assertEquals(html.includes('<option value="closing" selected>closing</option>'), true);
+            // Conditions the builder does not edit are shown
+            assertEquals(html.includes('name1 contains bank and statement_type = BS'), true);
+        });
+
+        it("should show the include and exclude lists", () => {
+            const html = renderVariableListHtml({
+                housing: { filter: { code1: '520' }, aggregate: 'sum', include: ['6100'], exclude: ['5210', '5230'] }
+            });
+
+            assertEquals(html.includes('include 6100; exclude 5210, 5230'), true);
+        });
+    });
+
+    describe("renderSuggestionsHtml()", () => {
+        it("should render a datalist", () => {
+            assertEquals(renderSuggestionsHtml('report-editor-code1', [{ value: '500', label: 'Netto-omzet' }]),
+                '<datalist id="report-editor-code1"><option value="500">Netto-omzet</option></datalist>');
+        });
+    });
+
+    describe("renderValidationHtml()", () => {
+        it("should list errors and warnings", () => {
+            const result = new ValidationResult();
+            result.addError('layout[1].expression', 'Unknown variable: cogs');
+            result.addWarning('variables.tax', 'Variable is not used');
+
+            const html = renderValidationHtml(result);
+
+            assertEquals(html.includes('<li class="report-editor-error"><code>layout[1].expression</code> Unknown variable: cogs</li>'), true);
+            assertEquals(html.includes('report-editor-warning'), true);
+        });
+
+        it("should confirm a valid report", () => {
+            assertEquals(renderValidationHtml(new ValidationResult()).includes('report-editor-valid'), true);
+        });
+    });
+
+    describe("renderPreviewHtml()", () => {
+        it("should render a row per statement row and a column per period column", () => {
+            const html = renderPreviewHtml({
+                rows: [
+                    { label: 'Revenue', style: 'normal', amount_2025: 1500, formatted_2025: '1.500' },
+                    { label: '', type: 'spacer', style: 'spacer' },
+                    { label: 'Total', style: 'total', indent: 1, amount_2025: -200 }
+                ],
+                metadata: { columns: buildYearColumns(['2025']) }
+            });
+
+            assertEquals(html.includes('<th>2025</th>'), true);
+            assertEquals(html.includes('>1.500</td>'), true);
+            assertEquals(html.includes('>-200</td>'), true);
+            assertEquals(html.includes('report-editor-row-total'), true);
+            assertEquals(html.includes('padding-left: 18px'), true);
+        });
+
+        it("should render a message without rows", () => {
+            assertEquals(renderPreviewHtml({ rows: [] }), '<div class="report-editor-empty">The report has no rows.</div>');
+        });
+    });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for ReportHistoryPanel
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { renderReportDiffHtml, renderRowChangesHtml, describeSnapshot } from "../../../src/ui/ReportHistoryPanel.ts";
+import { diffReportDefinitions } from "../../../src/core/transformations/report-diff.ts";
+import { buildYearColumns } from "../../../src/core/calculations/columns.ts";
+
+describe("ReportHistoryPanel", () => {
+    describe("renderReportDiffHtml", () => {
+        it("should say when the versions are the same", () => {
+            const diff = diffReportDefinitions({ layout: [] }, { layout: [] });
+            assertStringIncludes(renderReportDiffHtml(diff), 'The versions are the same.');
+        });
+
+        it("should list changed variables and moved rows", () => {
+            const diff = diffReportDefinitions(
+                {
+                    variables: { revenue: { filter: { code1: '500' } } },
+                    layout: [{ order: 100, type: 'variable', variable: 'revenue', label: 'Revenue <net>' }]
+                },
+                {
+                    variables: { revenue: { filter: { code1: '510' } }, tax: { filter: { code1: '900' } } },
+                    layout: [{ order: 200, type: 'variable', variable: 'revenue', label: 'Revenue <net>' }]
+                }
+            );
+            const html = renderReportDiffHtml(diff);
+
+            assertStringIncludes(html, 'Variables added');
+            assertStringIncludes(html, '<code>tax</code>');
+            assertStringIncludes(html, 'Variables changed');
+            assertStringIncludes(html, 'Rows moved');
+            assertStringIncludes(html, 'Revenue &lt;net&gt;');
+            assertEquals(html.includes('Rows removed'), false);
+        });
+    });
+
+    describe("renderRowChangesHtml", () => {
+        const columns = buildYearColumns(['2025']);
+
+        it("should say when no amounts changed", () => {
+            assertStringIncludes(renderRowChangesHtml([], columns), 'No amounts changed.');
+        });
+
+        it("should show before, after and difference per column", () => {
+            const html = renderRowChangesHtml([{
+                order: 300,
+                label: 'Gross profit',
+                status: 'changed',
+                amounts: { [columns[0].key]: { before: 1000, after: 1500 } }
+            }], columns);
+
+            assertStringIncludes(html, 'report-history-row-changed');
+            assertStringIncludes(html, '1.000');
+            assertStringIncludes(html, '1.500');
+            assertStringIncludes(html, '>500</td>');
+        });
+    });
+
+    describe("describeSnapshot", () => {
+        it("should show the version and the start of the hash", () => {
+            const text = describeSnapshot({
+                reportId: 'income',
+                version: '1.1.0',
+                hash: '3fa2c9e1deadbeef',
+                timestamp: '2026-10-19T12:05:00.000Z',
+                definition: {} as any
+            });
+
+            assertStringIncludes(text, 'v1.1.0');
+            assertStringIncludes(text, '(3fa2c9e1)');
+        });
+    });
+});
@@ -0,0 +1,23 @@
+/**
+ * Tests for the HTML helpers of the panels
+ */
+
+import { describe, it } from "https://deno.land/std@0.208.0/testing/bdd.ts";
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { escapeHtml, formatAmount } from "../../../src/ui/html.ts";
+
+describe("html", () => {
+    describe("escapeHtml", () => {
+        it("should escape markup and double quotes", () => {
+            assertEquals(escapeHtml('<b title="R&D">'), '&lt;b title=&quot;R&amp;D&quot;&gt;');
+        });
+    });
+
+    describe("formatAmount", () => {
+        it("should format whole amounts with Dutch separators", () => {
+            assertEquals(formatAmount(-1234567.6), '-1.234.568');
+            assertEquals(formatAmount(null), '');
+            assertEquals(formatAmount(NaN), '');
+        });
+    });
+});
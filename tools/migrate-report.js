@@ -0,0 +1,224 @@
+#!/usr/bin/env node
+
+/**
+ * Report Definition Migration Tool
+ *
+ * CLI tool to upgrade report definition files written for an older schema
+ * version to the current one. Without --write it only reports what would
+ * change; with --write the files are rewritten in place.
+ *
+ * Usage:
+ *   node tools/migrate-report.js <report-file.json>
+ *   node tools/migrate-report.js --write reports/*.json
+ *
+ * Exit codes:
+ *   0 - All reports are up to date (or were migrated with --write)
+ *   1 - Reports need migrating (without --write) or cannot be migrated
+ *   2 - File not found or invalid JSON
+ */
+
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { resolve, basename, dirname, join } from 'path';
+
+import { migrateReportDefinition, CURRENT_SCHEMA_VERSION } from '../src/core/transformations/report-migrations.ts';
+
+// ANSI color codes for terminal output
+const colors = {
+    reset: '\x1b[0m',
+    bright: '\x1b[1m',
+    red: '\x1b[31m',
+    green: '\x1b[32m',
+    yellow: '\x1b[33m',
+    blue: '\x1b[34m',
+    cyan: '\x1b[36m'
+};
+
+/**
+ * Print colored output
+ */
+function print(message, color = 'reset') {
+    console.log(`${colors[color]}${message}${colors.reset}`);
+}
+
+/**
+ * Print section header
+ */
+function printHeader(title) {
+    print('\n' + '='.repeat(60), 'cyan');
+    print(title, 'bright');
+    print('='.repeat(60), 'cyan');
+}
+
+/**
+ * Print usage
+ */
+function printUsage() {
+    print('Report Definition Migration Tool', 'bright');
+    print(`\nUpgrades report definitions to schema ${CURRENT_SCHEMA_VERSION}`, 'cyan');
+    print('\nUsage:', 'cyan');
+    print('  node tools/migrate-report.js <report-file.json>');
+    print('  node tools/migrate-report.js --write reports/*.json');
+    print('\nOptions:', 'cyan');
+    print('  --write, -w   Rewrite the files in place');
+    print('  --help, -h    Show this help message');
+    print('\nExit Codes:', 'cyan');
+    print('  0 - All reports up to date (or migrated with --write)');
+    print('  1 - Reports need migrating, or cannot be migrated');
+    print('  2 - File not found or invalid JSON');
+}
+
+/**
+ * Collect the JSON files given as files, directories or *.json patterns
+ */
+function collectFiles(patterns) {
+    const files = [];
+    for (const pattern of patterns) {
+        const resolvedPath = resolve(pattern);
+
+        if (existsSync(resolvedPath) && statSync(resolvedPath).isDirectory()) {
+            files.push(...readdirSync(resolvedPath)
+                .filter(f => f.endsWith('.json') && f !== 'manifest.json')
+                .map(f => join(resolvedPath, f)));
+        } else if (pattern.includes('*')) {
+            // Simple glob support for *.json in a directory
+            const dir = dirname(resolvedPath);
+            if (existsSync(dir)) {
+                files.push(...readdirSync(dir)
+                    .filter(f => f.endsWith('.json') && f !== 'manifest.json')
+                    .map(f => join(dir, f)));
+            }
+        } else {
+            files.push(resolvedPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Migrate a single report file
+ */
+function migrateReportFile(filePath, write) {
+    const filename = basename(filePath);
+
+    if (!existsSync(filePath)) {
+        return { filename, error: 'File not found', fileError: true };
+    }
+
+    let reportDef;
+    try {
+        reportDef = JSON.parse(readFileSync(filePath, 'utf-8'));
+    } catch (parseError) {
+        return { filename, error: `Invalid JSON: ${parseError.message}`, fileError: true };
+    }
+
+    let report;
+    try {
+        report = migrateReportDefinition(reportDef);
+    } catch (error) {
+        return { filename, error: error.message, fileError: false };
+    }
+
+    // A definition without schemaVersion that needs no changes is left as it is
+    const outdated = report.changed || (reportDef.schemaVersion !== undefined && reportDef.schemaVersion !== report.toVersion);
+    if (outdated && write) {
+        writeFileSync(filePath, JSON.stringify(report.definition, null, 2) + '\n');
+    }
+
+    return { filename, report, outdated, written: outdated && write };
+}
+
+/**
+ * Print the migration report of a file
+ */
+function printMigrationResult(result, write) {
+    const { filename, report } = result;
+
+    if (!result.outdated) {
+        print(`✓ ${filename} (schema ${report.toVersion})`, 'green');
+    } else {
+        const action = result.written ? 'migrated' : 'needs migrating';
+        print(`${result.written ? '✓' : '•'} ${filename}: ${action} from schema ${report.fromVersion} to ${report.toVersion}`,
+            result.written ? 'green' : 'yellow');
+
+        for (const step of report.steps) {
+            if (step.changes.length > 0) {
+                print(`  ${step.from} → ${step.to}: ${step.description}`, 'cyan');
+                step.changes.forEach(change => print(`    • ${change}`));
+            }
+        }
+        if (!report.changed) {
+            print(`  Only schemaVersion ${write ? 'was' : 'will be'} updated`, 'cyan');
+        }
+    }
+
+    report.warnings.forEach(warning => print(`  Warning: ${warning}`, 'yellow'));
+}
+
+/**
+ * Main migration function
+ */
+async function main() {
+    const args = process.argv.slice(2);
+
+    if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+        printUsage();
+        process.exit(0);
+    }
+
+    const write = args.includes('--write') || args.includes('-w');
+    const files = collectFiles(args.filter(arg => !arg.startsWith('-')));
+
+    printHeader('Report Definition Migration');
+
+    if (files.length === 0) {
+        print('\n✗ No files found matching the pattern', 'red');
+        process.exit(2);
+    }
+
+    print(`\n${write ? 'Migrating' : 'Checking'} ${files.length} file(s)...\n`);
+
+    const results = files.map(filePath => migrateReportFile(filePath, write));
+    for (const result of results) {
+        if (result.error) {
+            print(`✗ ${result.filename}`, 'red');
+            print(`  Error: ${result.error}`, 'red');
+        } else {
+            printMigrationResult(result, write);
+        }
+    }
+
+    // Print summary
+    printHeader('Migration Summary');
+
+    const upToDate = results.filter(r => r.report && !r.outdated).length;
+    const outdated = results.filter(r => r.outdated).length;
+    const failed = results.filter(r => r.error).length;
+
+    print(`\nTotal files:    ${results.length}`);
+    print(`Up to date:     ${upToDate}`, upToDate > 0 ? 'green' : 'reset');
+    print(`${write ? 'Migrated:      ' : 'To migrate:    '} ${outdated}`, outdated > 0 ? (write ? 'green' : 'yellow') : 'reset');
+    print(`Errors:         ${failed}`, failed > 0 ? 'red' : 'reset');
+
+    if (results.some(r => r.fileError)) {
+        print('\n✗ Migration failed: File errors found', 'red');
+        process.exit(2);
+    } else if (failed > 0) {
+        print('\n✗ Migration failed: Reports cannot be migrated', 'red');
+        process.exit(1);
+    } else if (outdated > 0 && !write) {
+        print('\nRun with --write to update the files, then validate them with tools/validate-report.js', 'yellow');
+        process.exit(1);
+    } else {
+        print(`\n✓ All reports are up to date with schema ${CURRENT_SCHEMA_VERSION}`, 'green');
+        process.exit(0);
+    }
+}
+
+// Run main function
+main().catch(error => {
+    print(`\n✗ Fatal error: ${error.message}`, 'red');
+    if (error.stack) {
+        print(error.stack, 'red');
+    }
+    process.exit(2);
+});
@@ -0,0 +1,48 @@
+#!/usr/bin/env -S deno run --allow-read --allow-write --allow-env --allow-sys
+
+/**
+ * Statement Rendering Tool
+ *
+ * Renders a report definition against a directory of trial balance workbooks
+ * and writes the statement as CSV, XLSX or JSON. Runs without a browser, so
+ * month-end packs can be produced by scheduled jobs and in CI.
+ *
+ * Usage:
+ *   deno task render --data <dir> --report <id> [options]
+ *   deno task render --help
+ *
+ * Exit codes:
+ *   0 - Statement written
+ *   1 - Rendering failed (missing data, unknown report, ...)
+ *   2 - Invalid arguments
+ */
+
+import '../src/cli/headless.ts';
+import { parseRenderArgs, RENDER_USAGE, type RenderArgs } from '../src/cli/args.ts';
+import { renderReport, writeStatement } from '../src/cli/render.ts';
+
+let args: RenderArgs;
+try {
+    args = parseRenderArgs(Deno.args);
+} catch (error) {
+    console.error(`Error: ${(error as Error).message}\n`);
+    console.error(RENDER_USAGE);
+    Deno.exit(2);
+}
+
+if (args.help) {
+    console.log(RENDER_USAGE);
+    Deno.exit(0);
+}
+
+try {
+    const statement = await renderReport(args);
+    await writeStatement(statement, args.format, args.output);
+
+    if (args.output) {
+        console.error(`Wrote ${statement.reportName} (${statement.rows.length} rows) to ${args.output}`);
+    }
+} catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    Deno.exit(1);
+}
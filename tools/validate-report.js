@@ -22,6 +22,8 @@ import { fileURLToPath } from 'url';
 
 // Import validation components
 import ReportValidator from '../src/reports/ReportValidator.ts';
+import { mergeReportDefinitions } from '../src/reports/ReportLoader.ts';
+import { migrateReportDefinition } from '../src/core/transformations/report-migrations.ts';
 
 // Get current directory
 const __filename = fileURLToPath(import.meta.url);
@@ -91,6 +93,33 @@ function printValidationResult(filename, result) {
     }
 }
 
+/**
+ * Merge the reports a definition extends into it
+ *
+ * Parent reports are read from <reportId>.json next to the file, the same way
+ * ReportLoader resolves them. Returns the inheritance result when the chain
+ * is invalid, so the child is not validated against a broken parent.
+ */
+function resolveExtends(reportDef, filePath, validator) {
+    const definitions = new Map([[reportDef.reportId, reportDef]]);
+    for (let current = reportDef; current.extends && !definitions.has(current.extends);) {
+        const parentPath = join(dirname(filePath), `${current.extends}.json`);
+        if (!existsSync(parentPath)) {
+            break;
+        }
+        current = migrateReportDefinition(JSON.parse(readFileSync(parentPath, 'utf-8'))).definition;
+        definitions.set(current.reportId, current);
+    }
+
+    const inheritance = validator.validateInheritance(reportDef, definitions);
+    if (!inheritance.isValid) {
+        return { merged: null, result: inheritance };
+    }
+
+    const merge = (def) => def.extends ? mergeReportDefinitions(merge(definitions.get(def.extends)), def) : def;
+    return { merged: merge(reportDef), result: null };
+}
+
 /**
  * Validate a single report file
  */
@@ -123,8 +152,21 @@ function validateReportFile(filePath, validator) {
             };
         }
         
-        // Validate report definition
-        const result = validator.validate(reportDef);
+        // Upgrade older schema versions the way ReportLoader does
+        try {
+            reportDef = migrateReportDefinition(reportDef).definition;
+        } catch (migrationError) {
+            return {
+                filename,
+                success: false,
+                error: `Migration failed: ${migrationError.message}`,
+                result: null
+            };
+        }
+        
+        // Validate report definition, merged with the reports it extends
+        const resolved = reportDef.extends ? resolveExtends(reportDef, filePath, validator) : null;
+        const result = resolved?.result || validator.validate(resolved?.merged || reportDef);
         
         return {
             filename,